@@ -0,0 +1,60 @@
+import '../config/database';
+import { ValidationError } from '../errors';
+import { AutopilotSettings, FacebookAccount } from '../models';
+import { AutopilotService } from '../services/AutopilotService';
+
+jest.mock('openai');
+
+describe('AutopilotService.updateSettings', () => {
+  const ids = {
+    userId: '00000000-0000-0000-0000-000000000001',
+    facebookAccountId: '00000000-0000-0000-0000-000000000002',
+    facebookPageId: '00000000-0000-0000-0000-000000000003',
+  };
+
+  const build = (values: Record<string, any> = {}) => {
+    const settings = AutopilotSettings.build({ ...ids, autoPostEnabled: false, postsPerDay: 1, ...values });
+    jest.spyOn(settings, 'update').mockImplementation(async function (this: AutopilotSettings, changes: any) {
+      return this.set(changes);
+    } as any);
+    return settings;
+  };
+
+  const account = (needsReconnect = false) => FacebookAccount.build({ id: ids.facebookAccountId, needsReconnect });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('applies editable fields and ignores the page, account and owner', async () => {
+    const settings = build();
+
+    await AutopilotService.updateSettings(settings, account(), {
+      ...settings.toJSON(),
+      postsPerDay: 3,
+      postingStrategy: 'aggressive',
+      userId: 'someone-else',
+      facebookAccountId: 'other-account',
+      facebookPageId: 'other-page',
+    });
+
+    expect(settings.postsPerDay).toBe(3);
+    expect(settings.postingStrategy).toBe('aggressive');
+    expect(settings).toMatchObject(ids);
+  });
+
+  it('rejects invalid values', async () => {
+    await expect(AutopilotService.updateSettings(build(), account(), { postsPerDay: 50 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(AutopilotService.updateSettings(build(), account(), { autoPostEnabled: 'yes' })).rejects.toBeInstanceOf(ValidationError);
+    await expect(AutopilotService.updateSettings(build(), account(), { preferredHours: [9, 25] })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('keeps autopilot paused while the account needs reconnecting', async () => {
+    const settings = build();
+
+    await expect(AutopilotService.updateSettings(settings, account(true), { autoPostEnabled: true })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(settings.autoPostEnabled).toBe(false);
+  });
+});
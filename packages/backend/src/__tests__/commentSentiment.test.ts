@@ -0,0 +1,23 @@
+import { getSentiment } from '../utils/comments';
+
+describe('getSentiment', () => {
+  it('scores listed words and their inflections', () => {
+    expect(getSentiment('Loving this, thanks!')).toBe('positive');
+    expect(getSentiment('They lied about the price')).toBe('negative');
+  });
+
+  it('ignores words that only start with a listed word', () => {
+    expect(getSentiment('Goodbye everyone')).toBe('neutral');
+    expect(getSentiment('Where did you get that badge?')).toBe('neutral');
+    expect(getSentiment('Bestow it on me')).toBe('neutral');
+  });
+
+  it('flips a negated word', () => {
+    expect(getSentiment('This is not good')).toBe('negative');
+  });
+
+  it('counts emoji written next to words', () => {
+    expect(getSentiment('Looks delicious😍😍')).toBe('positive');
+    expect(getSentiment('meh👎')).toBe('negative');
+  });
+});
@@ -0,0 +1,51 @@
+import '../config/database';
+import { FacebookPage, SyncStatus } from '../models';
+import { ContentSyncService } from '../services/ContentSyncService';
+import { InstagramService } from '../services/InstagramService';
+import { MonetizationService } from '../services/MonetizationService';
+
+describe('ContentSyncService.syncPage', () => {
+  const page = FacebookPage.build({
+    id: '00000000-0000-0000-0000-000000000002',
+    facebookAccountId: '00000000-0000-0000-0000-000000000001',
+    pageId: '200000000000001',
+    pageName: 'Mock Cooking Page',
+  });
+
+  let status: SyncStatus;
+
+  beforeEach(() => {
+    status = SyncStatus.build({ facebookAccountId: page.facebookAccountId, status: 'idle' });
+    jest.spyOn(status, 'update').mockImplementation(async function (this: SyncStatus, values: any) {
+      return this.set(values);
+    } as any);
+    jest.spyOn(status, 'save').mockResolvedValue(status);
+    jest.spyOn(ContentSyncService, 'getStatus').mockResolvedValue(status);
+    jest.spyOn(InstagramService, 'discoverAccounts').mockResolvedValue(undefined as any);
+    jest.spyOn(ContentSyncService as any, 'syncPageContent').mockResolvedValue({ pageId: page.id, mode: 'full', fetched: 3 });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('completes the sync when the monetization check fails', async () => {
+    jest.spyOn(MonetizationService, 'checkPages').mockRejectedValue(new Error('snapshot failed'));
+
+    const result = await ContentSyncService.syncPage(page);
+
+    expect(result.pages).toHaveLength(1);
+    expect(status.status).toBe('completed');
+    expect(status.error).toBeNull();
+  });
+
+  it('marks the sync failed when the content sync fails', async () => {
+    jest.spyOn(ContentSyncService as any, 'syncPageContent').mockRejectedValue(new Error('Graph down'));
+    const checkPages = jest.spyOn(MonetizationService, 'checkPages');
+
+    await expect(ContentSyncService.syncPage(page)).rejects.toThrow('Graph down');
+    expect(status.status).toBe('failed');
+    expect(checkPages).not.toHaveBeenCalled();
+  });
+});
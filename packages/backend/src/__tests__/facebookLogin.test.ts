@@ -0,0 +1,71 @@
+import { AddressInfo } from 'net';
+import '../config/database';
+import { getGraphApiConfig } from '../config/graph';
+import { redisClient } from '../config/redis';
+import { AccountLockedError } from '../errors';
+import { startMockGraphServer } from '../mocks/graphServer';
+import { FacebookAccount, User } from '../models';
+import { AuthService } from '../services/AuthService';
+import { FacebookService } from '../services/FacebookService';
+import { HttpGraphClient } from '../services/GraphClient';
+import { LoginThrottleService } from '../services/LoginThrottleService';
+import { OneTimeTokenService } from '../services/OneTimeTokenService';
+
+describe('AuthService.loginWithFacebook', () => {
+  let mock: Awaited<ReturnType<typeof startMockGraphServer>>;
+
+  const buildUser = (values: Record<string, any> = {}) =>
+    User.build({
+      id: '00000000-0000-0000-0000-000000000001',
+      email: 'owner@example.com',
+      firstName: 'Owner',
+      lastName: 'User',
+      isActive: true,
+      twoFactorEnabled: false,
+      ...values,
+    });
+
+  beforeAll(async () => {
+    mock = await startMockGraphServer(0);
+    const { port } = mock.server.address() as AddressInfo;
+    FacebookService.setGraphClient(new HttpGraphClient({ ...getGraphApiConfig(), baseUrl: `http://localhost:${port}` }));
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(OneTimeTokenService, 'create').mockResolvedValue('link-token');
+    jest.spyOn(redisClient, 'set').mockResolvedValue('OK' as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('asks the user who connected the Facebook login to confirm with their password', async () => {
+    const issueTokens = jest.spyOn(AuthService as any, 'issueTokens');
+    jest.spyOn(User, 'findOne').mockResolvedValue(null);
+    jest.spyOn(FacebookAccount, 'findOne').mockResolvedValue({ user: buildUser() } as any);
+
+    const result: any = await AuthService.loginWithFacebook('mock-code', 'http://localhost:3000/facebook/callback');
+
+    expect(result).toEqual({ linkRequired: true, linkToken: 'link-token', email: 'o***@example.com', twoFactorRequired: false });
+    expect(issueTokens).not.toHaveBeenCalled();
+  });
+
+  it('does not sign in a locked user', async () => {
+    const user = buildUser({ facebookId: mock.state.user.id });
+    jest.spyOn(User, 'findOne').mockImplementation((async (options: any) => (options.where.facebookId ? user : null)) as any);
+    jest
+      .spyOn(LoginThrottleService, 'assertAllowed')
+      .mockRejectedValue(new AccountLockedError('Account is temporarily locked'));
+    const connect = jest.spyOn(FacebookService, 'linkAccount');
+
+    await expect(AuthService.loginWithFacebook('mock-code', 'http://localhost:3000/facebook/callback')).rejects.toMatchObject({
+      statusCode: 423,
+    });
+    expect(connect).not.toHaveBeenCalled();
+  });
+});
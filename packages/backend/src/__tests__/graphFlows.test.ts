@@ -0,0 +1,109 @@
+import { AddressInfo } from 'net';
+import { getGraphApiConfig } from '../config/graph';
+import { RateLimitError } from '../errors';
+import { startMockGraphServer } from '../mocks/graphServer';
+import { FacebookService } from '../services/FacebookService';
+import { HttpGraphClient } from '../services/GraphClient';
+
+describe('Graph API flows against the mock server', () => {
+  let mock: Awaited<ReturnType<typeof startMockGraphServer>>;
+
+  beforeAll(async () => {
+    mock = await startMockGraphServer(0);
+    const { port } = mock.server.address() as AddressInfo;
+    FacebookService.setGraphClient(new HttpGraphClient({ ...getGraphApiConfig(), baseUrl: `http://localhost:${port}` }));
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  afterEach(() => {
+    mock.state.failures = [];
+  });
+
+  const connect = async () => {
+    const { access_token: accessToken } = await FacebookService.exchangeCodeForLongLivedToken('mock-code', 'http://localhost:3000/facebook/callback');
+    const profile = await FacebookService.getUserProfile(accessToken);
+    const pages = await FacebookService.getManagedPages(profile.id, accessToken);
+    return { accessToken, profile, pages };
+  };
+
+  it('connects an account and lists its pages with their tokens', async () => {
+    const { profile, pages } = await connect();
+
+    expect(profile.id).toBe(mock.state.user.id);
+    expect(pages.map((page) => page.id)).toEqual(mock.state.pages.map((page) => page.id));
+    expect(pages[0].access_token).toBe(mock.state.pages[0].accessToken);
+  });
+
+  it('syncs page content through a batch call', async () => {
+    const { pages } = await connect();
+    const [page] = pages;
+
+    const responses = await FacebookService.batch(
+      (['posts', 'videos'] as const).map((edge) => FacebookService.contentPageRequest(page.id, edge)),
+      page.access_token
+    );
+
+    const [posts, videos] = responses.map((response) => FacebookService.toContentPage(response.data));
+    const expected = mock.state.posts.filter((post) => post.pageId === page.id);
+    expect(posts.data.map((item: any) => item.id).sort()).toEqual(expected.map((post) => post.id).sort());
+    expect(videos.data).toHaveLength(expected.filter((post) => post.type === 'video' && !post.isReel).length);
+    expect(posts.after).toBeUndefined();
+  });
+
+  it('publishes text and multi-photo posts', async () => {
+    const { pages } = await connect();
+    const [page] = pages;
+
+    const text = await FacebookService.publishPost(page.id, page.access_token, { contentType: 'post', content: 'Hello from the tests' });
+    const photos = await FacebookService.publishPost(page.id, page.access_token, {
+      contentType: 'post',
+      content: 'Two photos',
+      mediaUrls: ['https://example.com/one.jpg', 'https://example.com/two.jpg'],
+    });
+
+    expect(mock.state.posts.find((post) => post.id === text.id)).toMatchObject({ pageId: page.id, type: 'status', message: 'Hello from the tests' });
+    expect(mock.state.posts.find((post) => post.id === photos.id)).toMatchObject({ pageId: page.id, type: 'photo', message: 'Two photos' });
+  });
+
+  it('does not retry a publish call that failed', async () => {
+    const { pages } = await connect();
+    const [page] = pages;
+    const failure = { id: 'feed', type: 'server_error' as const, path: `/${page.id}/feed`, method: 'POST', times: 1, hits: 0 };
+    mock.state.failures.push(failure);
+
+    await expect(
+      FacebookService.publishPost(page.id, page.access_token, { contentType: 'post', content: 'Only once' })
+    ).rejects.toThrow();
+
+    expect(failure.hits).toBe(1);
+    expect(mock.state.posts.some((post) => post.message === 'Only once')).toBe(false);
+  });
+
+  it('maps a failed batch sub-request to an error and keeps the others', async () => {
+    const { pages } = await connect();
+    const [page] = pages;
+    mock.state.failures.push({ id: 'videos', type: 'rate_limit', path: `/${page.id}/videos`, times: 0, hits: 0 });
+
+    const [posts, videos] = await FacebookService.batch(
+      (['posts', 'videos'] as const).map((edge) => FacebookService.contentPageRequest(page.id, edge)),
+      page.access_token
+    );
+
+    expect(posts.error).toBeUndefined();
+    expect(posts.data.data.length).toBeGreaterThan(0);
+    expect(videos.error).toBeInstanceOf(RateLimitError);
+  });
+
+  it('rejects when the whole batch call is rate limited', async () => {
+    const { pages } = await connect();
+    const [page] = pages;
+    mock.state.failures.push({ id: 'batch', type: 'rate_limit', path: '/^\\/v\\d+\\.\\d+\\/?$/', method: 'POST', times: 0, hits: 0 });
+
+    await expect(
+      FacebookService.batch([FacebookService.contentPageRequest(page.id, 'posts')], page.access_token)
+    ).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
@@ -0,0 +1,42 @@
+import { redisClient } from '../config/redis';
+import { RateLimitError } from '../errors';
+import { GraphScheduler } from '../services/GraphScheduler';
+
+describe('GraphScheduler.schedule', () => {
+  // An app budget at 100% whose reading is older than the probe interval.
+  const staleUsage = JSON.stringify({
+    callCount: 100,
+    totalTime: 10,
+    totalCputime: 10,
+    updatedAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+  });
+
+  beforeEach(() => {
+    jest.spyOn(redisClient, 'isOpen', 'get').mockReturnValue(true);
+    jest.spyOn(redisClient, 'mGet').mockResolvedValue([staleUsage, null]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lets a single probe through an exhausted budget', async () => {
+    const locks = new Set<string>();
+    jest.spyOn(redisClient, 'set').mockImplementation((async (key: string) => {
+      if (locks.has(key)) {
+        return null;
+      }
+      locks.add(key);
+      return 'OK';
+    }) as any);
+    jest.spyOn(redisClient, 'pTTL').mockResolvedValue(299000);
+
+    const results = await Promise.allSettled([1, 2, 3].map(() => GraphScheduler.schedule('/me/accounts')));
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')) {
+      expect(result.reason).toBeInstanceOf(RateLimitError);
+      expect(result.reason.context).toMatchObject({ scope: 'app', retryAfter: 299, deferred: true });
+    }
+  });
+});
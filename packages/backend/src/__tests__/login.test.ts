@@ -0,0 +1,20 @@
+import '../config/database';
+import { redisClient } from '../config/redis';
+import { ServiceUnavailableError } from '../errors';
+import { User } from '../models';
+import { AuthService } from '../services/AuthService';
+
+describe('AuthService.login', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports a Redis failure in the login throttle as a 503', async () => {
+    jest.spyOn(redisClient, 'ttl').mockRejectedValue(new Error('The client is closed'));
+    const findOne = jest.spyOn(User, 'findOne');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await expect(AuthService.login('owner@example.com', 'password')).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import '../config/database';
+import { User } from '../models';
+import { AuthService } from '../services/AuthService';
+import { MailService, MemoryMailTransport } from '../services/MailService';
+import { OneTimeTokenService } from '../services/OneTimeTokenService';
+
+describe('MailService', () => {
+  let transport: MemoryMailTransport;
+
+  const buildUser = (firstName: string) =>
+    User.build({
+      id: '00000000-0000-0000-0000-000000000001',
+      email: 'user@example.com',
+      firstName,
+      lastName: 'User',
+      isActive: true,
+      emailVerified: false,
+    });
+
+  beforeEach(() => {
+    transport = new MemoryMailTransport();
+    MailService.setTransport(transport);
+    jest.spyOn(OneTimeTokenService, 'create').mockResolvedValue('one-time-token');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends the verification link', async () => {
+    await AuthService.sendVerificationEmail(buildUser('Ada'));
+
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toBe('user@example.com');
+    expect(transport.sent[0].text).toContain('/verify-email?token=one-time-token');
+    expect(transport.sent[0].html).toContain('<a href="http://localhost:3000/verify-email?token=one-time-token">');
+  });
+
+  it('escapes user-controlled values in HTML bodies', async () => {
+    await AuthService.sendVerificationEmail(buildUser('<a href="https://attacker.example">Claim your prize</a>'));
+
+    const { html } = transport.sent[0];
+    expect(html).not.toContain('https://attacker.example">');
+    expect(html).toContain('&lt;a href=&quot;https://attacker.example&quot;&gt;Claim your prize&lt;/a&gt;');
+  });
+
+  it('escapes each item of a list', async () => {
+    await MailService.sendMonetizationStatusChanged('user@example.com', 'Ada', 'Tom & Jerry', ['<b>is now eligible</b>']);
+
+    expect(transport.sent[0].subject).toBe('Monetization status of Tom & Jerry changed');
+    expect(transport.sent[0].html).toContain('<strong>Tom &amp; Jerry</strong>');
+    expect(transport.sent[0].html).toContain('<ul><li>&lt;b&gt;is now eligible&lt;/b&gt;</li></ul>');
+  });
+
+  it('sends a password reset only to known active users', async () => {
+    const findOne = jest.spyOn(User, 'findOne').mockResolvedValueOnce(buildUser('Ada')).mockResolvedValueOnce(null);
+
+    await AuthService.requestPasswordReset('user@example.com');
+    await AuthService.requestPasswordReset('nobody@example.com');
+
+    expect(findOne).toHaveBeenCalledTimes(2);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].text).toContain('/reset-password?token=one-time-token');
+  });
+});
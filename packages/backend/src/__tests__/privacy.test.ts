@@ -0,0 +1,47 @@
+import '../config/database';
+import {
+  Analytics,
+  AutopilotSettings,
+  Comment,
+  Content,
+  Earning,
+  FacebookAccount,
+  FacebookPage,
+  ModerationSettings,
+  MonetizationSnapshot,
+  ScheduledPost,
+  SyncStatus,
+} from '../models';
+import { PrivacyService } from '../services/PrivacyService';
+
+describe('PrivacyService account deletion', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('removes rows that reference a Facebook account before its content, pages and the account', async () => {
+    const order: string[] = [];
+    const models = { Analytics, AutopilotSettings, Comment, Content, Earning, FacebookPage, ModerationSettings, MonetizationSnapshot, ScheduledPost, SyncStatus };
+    for (const [name, model] of Object.entries(models)) {
+      jest.spyOn(model as any, 'destroy').mockImplementation((async () => {
+        order.push(name);
+        return 0;
+      }) as any);
+    }
+    jest.spyOn(Content, 'findAll').mockResolvedValue([]);
+
+    const account = FacebookAccount.build({ id: '00000000-0000-0000-0000-000000000002' });
+    jest.spyOn(account, 'destroy').mockImplementation(async () => {
+      order.push('FacebookAccount');
+    });
+
+    await (PrivacyService as any).deleteFacebookAccount(account);
+
+    for (const dependent of ['Comment', 'ModerationSettings', 'MonetizationSnapshot']) {
+      expect(order.indexOf(dependent)).toBeGreaterThanOrEqual(0);
+      expect(order.indexOf(dependent)).toBeLessThan(order.indexOf('Content'));
+      expect(order.indexOf(dependent)).toBeLessThan(order.indexOf('FacebookPage'));
+    }
+    expect(order[order.length - 1]).toBe('FacebookAccount');
+  });
+});
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import '../config/database';
+import { getGraphApiConfig } from '../config/graph';
+import { RateLimitError } from '../errors';
+import { publishDuePosts } from '../jobs/scheduledPosts';
+import { startMockGraphServer } from '../mocks/graphServer';
+import { Content, FacebookPage, ScheduledPost } from '../models';
+import { AutopilotService } from '../services/AutopilotService';
+import { FacebookService } from '../services/FacebookService';
+import { HttpGraphClient } from '../services/GraphClient';
+import { GraphScheduler } from '../services/GraphScheduler';
+
+jest.mock('openai');
+
+describe('scheduled posts job', () => {
+  const env = { ...process.env };
+  let mock: Awaited<ReturnType<typeof startMockGraphServer>>;
+  let post: ScheduledPost;
+
+  // The job and AutopilotService read and write one stored row; `post`
+  // stands in for it.
+  const storePost = (values: Record<string, any> = {}) => {
+    const [mockPage] = mock.state.pages;
+    post = ScheduledPost.build(
+      {
+        id: '00000000-0000-0000-0000-000000000010',
+        userId: '00000000-0000-0000-0000-000000000001',
+        facebookAccountId: '00000000-0000-0000-0000-000000000002',
+        facebookPageId: '00000000-0000-0000-0000-000000000003',
+        platform: 'facebook',
+        contentType: 'post',
+        content: `Scheduled post ${crypto.randomUUID()}`,
+        hashtags: [],
+        mediaUrls: [],
+        scheduledFor: new Date(Date.now() - 60 * 1000),
+        status: 'pending',
+        retryCount: 0,
+        metadata: {},
+        facebookPage: {
+          id: '00000000-0000-0000-0000-000000000003',
+          facebookAccountId: '00000000-0000-0000-0000-000000000002',
+          pageId: mockPage.id,
+          pageName: mockPage.name,
+          accessToken: mockPage.accessToken,
+          isActive: true,
+        },
+        ...values,
+      },
+      { include: [FacebookPage] }
+    );
+    return post;
+  };
+
+  const published = () => mock.state.posts.filter((candidate) => candidate.message === post.content);
+
+  beforeAll(async () => {
+    mock = await startMockGraphServer(0);
+    const { port } = mock.server.address() as AddressInfo;
+    FacebookService.setGraphClient(new HttpGraphClient({ ...getGraphApiConfig(), baseUrl: `http://localhost:${port}` }));
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    process.env.TOKEN_ENCRYPTION_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+    storePost();
+
+    jest.spyOn(ScheduledPost, 'findAll').mockImplementation((async () => (post.status === 'pending' ? [post] : [])) as any);
+    jest.spyOn(ScheduledPost, 'findByPk').mockImplementation((async () => post) as any);
+    jest.spyOn(ScheduledPost, 'update').mockImplementation((async (values: any, options: any) => {
+      if (post.status !== options.where.status) {
+        return [0];
+      }
+      post.set({ ...values, retryCount: (post.retryCount || 0) + 1 });
+      return [1];
+    }) as any);
+    jest.spyOn(ScheduledPost.prototype, 'save').mockImplementation(async function (this: ScheduledPost) {
+      return this;
+    });
+    jest.spyOn(ScheduledPost.prototype, 'reload').mockImplementation(async function (this: ScheduledPost) {
+      return this;
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    mock.state.failures = [];
+    jest.restoreAllMocks();
+  });
+
+  it('publishes a due post', async () => {
+    await publishDuePosts();
+
+    expect(post.status).toBe('published');
+    expect(published()).toHaveLength(1);
+    expect(post.publishedContentId).toBe(published()[0].id);
+  });
+
+  it('publishes a post once when two runs overlap', async () => {
+    await Promise.all([publishDuePosts(), publishDuePosts()]);
+
+    expect(post.status).toBe('published');
+    expect(published()).toHaveLength(1);
+  });
+
+  it('fails a post without publishing it again when the publish call errors', async () => {
+    const failure = { id: 'feed', type: 'server_error' as const, path: '/feed', method: 'POST', times: 1, hits: 0 };
+    mock.state.failures.push(failure);
+
+    await publishDuePosts();
+    await publishDuePosts();
+
+    expect(post.status).toBe('failed');
+    expect(failure.hits).toBe(1);
+    expect(published()).toHaveLength(0);
+  });
+
+  it('puts a post deferred by the Graph scheduler back without using a retry', async () => {
+    jest
+      .spyOn(GraphScheduler, 'schedule')
+      .mockRejectedValueOnce(new RateLimitError('Facebook API budget of the app is exhausted. Retry after 60s.', { retryAfter: 60, deferred: true }));
+
+    await publishDuePosts();
+
+    expect(post.status).toBe('pending');
+    expect(post.retryCount).toBe(0);
+    expect(post.metadata).toMatchObject({ deferredReason: expect.stringContaining('exhausted') });
+    expect(published()).toHaveLength(0);
+
+    await publishDuePosts();
+
+    expect(post.status).toBe('published');
+    expect(post.retryCount).toBe(1);
+  });
+
+  it('queues a post Facebook rate limited for the next run', async () => {
+    mock.state.failures.push({ id: 'feed', type: 'rate_limit', path: '/feed', method: 'POST', times: 1, hits: 0 });
+
+    await publishDuePosts();
+
+    expect(post.status).toBe('pending');
+    expect(post.retryCount).toBe(1);
+
+    await publishDuePosts();
+
+    expect(post.status).toBe('published');
+    expect(published()).toHaveLength(1);
+  });
+
+  it('publishes a post again after it was unpublished and rescheduled', async () => {
+    await publishDuePosts();
+    const firstContentId = post.publishedContentId;
+
+    jest.spyOn(Content, 'findOne').mockResolvedValue(null);
+    await AutopilotService.unpublishAndReschedule(post, new Date(Date.now() - 1000));
+
+    expect(post.status).toBe('pending');
+    expect(published()).toHaveLength(0);
+
+    await publishDuePosts();
+
+    expect(post.status).toBe('published');
+    expect(published()).toHaveLength(1);
+    expect(post.publishedContentId).toBe(published()[0].id);
+    expect(post.publishedContentId).not.toBe(firstContentId);
+    expect(post.metadata).toMatchObject({ unpublished: [expect.objectContaining({ contentId: firstContentId })] });
+  });
+});
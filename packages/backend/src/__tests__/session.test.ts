@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import { redisClient } from '../config/redis';
+import { SessionService } from '../services/SessionService';
+
+describe('SessionService.rotateRefreshToken', () => {
+  const env = { ...process.env };
+  const refreshToken = '00000000-0000-0000-0000-000000000001.current-secret';
+
+  beforeEach(() => {
+    process.env.TOKEN_ENCRYPTION_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+    jest.spyOn(redisClient, 'hGetAll').mockResolvedValue({ userId: 'user-1', refreshTokenHash: 'hash' } as any);
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('keeps only an encrypted copy of the next refresh token for the grace window', async () => {
+    const evalSpy = jest.spyOn(redisClient, 'eval').mockResolvedValueOnce(['rotated'] as any);
+
+    const rotated = await SessionService.rotateRefreshToken(refreshToken);
+    const [, { arguments: args }] = evalSpy.mock.calls[0] as any;
+
+    expect(args.join(' ')).not.toContain(rotated.refreshToken);
+
+    // A concurrent refresh with the same token gets the stored replacement.
+    evalSpy.mockResolvedValueOnce(['grace', args[2]] as any);
+    const concurrent = await SessionService.rotateRefreshToken(refreshToken);
+
+    expect(concurrent.refreshToken).toBe(rotated.refreshToken);
+  });
+});
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { decryptToken, encryptToken, getTokenKeyId, isEncryptedToken, rewrapToken } from '../utils/tokenCrypto';
+
+const key = () => crypto.randomBytes(32).toString('base64');
+
+describe('tokenCrypto', () => {
+  const env = { ...process.env };
+  const oldKey = `old:${key()}`;
+  const newKey = `new:${key()}`;
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('encrypts tokens with the active key and decrypts them', () => {
+    process.env.TOKEN_ENCRYPTION_KEYS = `${oldKey},${newKey}`;
+
+    const encrypted = encryptToken('EAAB-page-token');
+
+    expect(isEncryptedToken(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('EAAB-page-token');
+    expect(getTokenKeyId(encrypted)).toBe('new');
+    expect(decryptToken(encrypted)).toBe('EAAB-page-token');
+    expect(encryptToken('EAAB-page-token')).not.toBe(encrypted);
+  });
+
+  it('passes legacy plaintext and empty values through', () => {
+    process.env.TOKEN_ENCRYPTION_KEYS = newKey;
+
+    expect(decryptToken('EAAB-legacy-token')).toBe('EAAB-legacy-token');
+    expect(encryptToken(null)).toBeNull();
+    expect(decryptToken(undefined)).toBeUndefined();
+  });
+
+  it('rewraps values with the active key without changing the token', () => {
+    process.env.TOKEN_ENCRYPTION_KEYS = oldKey;
+    const encrypted = encryptToken('EAAB-user-token');
+
+    process.env.TOKEN_ENCRYPTION_KEYS = `${oldKey},${newKey}`;
+    const rewrapped = rewrapToken(encrypted);
+
+    expect(getTokenKeyId(rewrapped)).toBe('new');
+    expect(rewrapped.split('.').slice(-3)).toEqual(encrypted.split('.').slice(-3));
+
+    process.env.TOKEN_ENCRYPTION_KEYS = newKey;
+    expect(decryptToken(rewrapped)).toBe('EAAB-user-token');
+    expect(() => decryptToken(encrypted)).toThrow('Token encryption key "old" is not configured');
+  });
+
+  it('rejects tampered ciphertext', () => {
+    process.env.TOKEN_ENCRYPTION_KEYS = newKey;
+    const parts = encryptToken('EAAB-user-token').split('.');
+    const ciphertext = Buffer.from(parts[parts.length - 1], 'base64url');
+    ciphertext[0] ^= 1;
+    parts[parts.length - 1] = ciphertext.toString('base64url');
+
+    expect(() => decryptToken(parts.join('.'))).toThrow();
+  });
+});
@@ -0,0 +1,95 @@
+import bcrypt from 'bcryptjs';
+import '../config/database';
+import { User } from '../models';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { generateTotp, generateTotpSecret, matchTotpStep, verifyTotp } from '../utils/totp';
+
+describe('totp', () => {
+  const secret = generateTotpSecret();
+  const now = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+  it('matches codes within the window to their time step', () => {
+    const step = Math.floor(now / 1000 / 30);
+
+    expect(matchTotpStep(secret, generateTotp(secret, now), now)).toBe(step);
+    expect(matchTotpStep(secret, generateTotp(secret, now - 30000), now)).toBe(step - 1);
+    expect(matchTotpStep(secret, generateTotp(secret, now - 90000), now)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', now)).toBe(false);
+  });
+});
+
+describe('TwoFactorService.verifyChallenge', () => {
+  let stored: { twoFactorLastUsedStep: number | null; twoFactorRecoveryCodes: string[] };
+
+  const buildUser = (recoveryCodes: string[] = []) =>
+    User.build({
+      id: '00000000-0000-0000-0000-000000000001',
+      email: 'user@example.com',
+      twoFactorEnabled: true,
+      twoFactorSecret: generateTotpSecret(),
+      twoFactorRecoveryCodes: recoveryCodes,
+    });
+
+  beforeEach(() => {
+    // The database side: a conditional update of the last used step, and
+    // row-locking transactions that run one at a time.
+    jest.spyOn(User, 'update').mockImplementation((async (values: any) => {
+      if (stored.twoFactorLastUsedStep !== null && stored.twoFactorLastUsedStep >= values.twoFactorLastUsedStep) {
+        return [0];
+      }
+      stored.twoFactorLastUsedStep = values.twoFactorLastUsedStep;
+      return [1];
+    }) as any);
+
+    let lock = Promise.resolve();
+    jest.spyOn(User.sequelize!, 'transaction').mockImplementation(((callback: any) => {
+      const result = lock.then(() => callback({ LOCK: { UPDATE: 'UPDATE' } }));
+      lock = result.then(() => undefined, () => undefined);
+      return result;
+    }) as any);
+
+    jest.spyOn(User, 'findByPk').mockImplementation((async () => {
+      const row = buildUser(stored.twoFactorRecoveryCodes);
+      jest.spyOn(row, 'save').mockImplementation((async () => {
+        stored.twoFactorRecoveryCodes = row.twoFactorRecoveryCodes!;
+        return row;
+      }) as any);
+      return row;
+    }) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts a TOTP code once', async () => {
+    const user = buildUser();
+    stored = { twoFactorLastUsedStep: null, twoFactorRecoveryCodes: [] };
+    const code = generateTotp(user.twoFactorSecret!);
+
+    expect(await TwoFactorService.verifyChallenge(user, { code })).toBe(true);
+    expect(await TwoFactorService.verifyChallenge(user, { code })).toBe(false);
+  });
+
+  it('rejects codes from a step before the last accepted one', async () => {
+    const user = buildUser();
+    const previous = generateTotp(user.twoFactorSecret!, Date.now() - 30000);
+    stored = { twoFactorLastUsedStep: Math.floor(Date.now() / 1000 / 30), twoFactorRecoveryCodes: [] };
+
+    expect(await TwoFactorService.verifyChallenge(user, { code: previous })).toBe(false);
+  });
+
+  it('accepts a recovery code once, even from concurrent requests', async () => {
+    const codes = ['aaaaa-11111', 'bbbbb-22222'];
+    const hashes = await Promise.all(codes.map((code) => bcrypt.hash(code, 4)));
+    stored = { twoFactorLastUsedStep: null, twoFactorRecoveryCodes: hashes };
+
+    const results = await Promise.all([
+      TwoFactorService.verifyChallenge(buildUser(hashes), { recoveryCode: codes[0] }),
+      TwoFactorService.verifyChallenge(buildUser(hashes), { recoveryCode: codes[0] }),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(stored.twoFactorRecoveryCodes).toEqual([hashes[1]]);
+  });
+});
@@ -0,0 +1,61 @@
+import '../config/database';
+import { WebhookEvent } from '../models';
+import { WebhookService } from '../services/WebhookService';
+
+describe('WebhookService.process', () => {
+  const buildEvent = (values: Record<string, any> = {}) =>
+    WebhookEvent.build({
+      id: '00000000-0000-0000-0000-000000000001',
+      source: 'facebook',
+      eventKey: 'key',
+      object: 'page',
+      objectId: '200000000000001',
+      field: 'feed',
+      payload: {},
+      status: 'pending',
+      attempts: 0,
+      receivedAt: new Date(),
+      updatedAt: new Date(),
+      ...values,
+    });
+
+  beforeEach(() => {
+    jest.spyOn(WebhookEvent.prototype, 'save').mockImplementation(async function (this: WebhookEvent) {
+      return this;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('processes an event once when the request and the retry job both pick it up', async () => {
+    // The first claim lands; the second no longer sees the event as pending.
+    jest.spyOn(WebhookEvent, 'update').mockResolvedValueOnce([1] as any).mockResolvedValueOnce([0] as any);
+    const apply = jest.spyOn(WebhookService as any, 'apply').mockResolvedValue('processed');
+
+    const [first, second] = await Promise.all([WebhookService.process(buildEvent()), WebhookService.process(buildEvent())]);
+
+    expect(apply).toHaveBeenCalledTimes(1);
+    expect(first).toMatchObject({ status: 'processed', attempts: 1 });
+    expect(second).toBeNull();
+  });
+
+  it('leaves an event another worker is processing alone', async () => {
+    const update = jest.spyOn(WebhookEvent, 'update');
+    const apply = jest.spyOn(WebhookService as any, 'apply');
+
+    expect(await WebhookService.process(buildEvent({ status: 'processing' }))).toBeNull();
+    expect(update).not.toHaveBeenCalled();
+    expect(apply).not.toHaveBeenCalled();
+  });
+
+  it('takes over an event abandoned while processing', async () => {
+    jest.spyOn(WebhookEvent, 'update').mockResolvedValue([1] as any);
+    jest.spyOn(WebhookService as any, 'apply').mockResolvedValue('ignored');
+
+    const event = buildEvent({ status: 'processing', attempts: 1, updatedAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+    expect(await WebhookService.process(event)).toMatchObject({ status: 'ignored', attempts: 2 });
+  });
+});
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { WebhookService } from '../services/WebhookService';
+
+describe('WebhookService.verifySignature', () => {
+  const body = Buffer.from(JSON.stringify({ object: 'page', entry: [{ id: '1', changes: [] }] }));
+  const sign = (payload: Buffer, secret: string) =>
+    `sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+  beforeEach(() => {
+    process.env.FACEBOOK_APP_SECRET = 'app-secret';
+  });
+
+  afterEach(() => {
+    delete process.env.FACEBOOK_APP_SECRET;
+  });
+
+  it('accepts a body signed with the app secret', () => {
+    expect(() => WebhookService.verifySignature(body, sign(body, 'app-secret'))).not.toThrow();
+  });
+
+  it('rejects missing, foreign and stale signatures', () => {
+    expect(() => WebhookService.verifySignature(body)).toThrow('Missing webhook signature');
+    expect(() => WebhookService.verifySignature(body, 'sha1=abc')).toThrow('Missing webhook signature');
+    expect(() => WebhookService.verifySignature(body, sign(body, 'other-secret'))).toThrow('Invalid webhook signature');
+    expect(() => WebhookService.verifySignature(Buffer.concat([body, Buffer.from(' ')]), sign(body, 'app-secret'))).toThrow(
+      'Invalid webhook signature'
+    );
+  });
+
+  it('fails closed without an app secret', () => {
+    delete process.env.FACEBOOK_APP_SECRET;
+
+    expect(() => WebhookService.verifySignature(body, sign(body, 'app-secret'))).toThrow('Facebook app secret is not configured');
+  });
+});
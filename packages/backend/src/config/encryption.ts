@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { AppError } from '../errors';
+
+export interface TokenEncryptionConfig {
+  activeKeyId: string;
+  keys: Record<string, Buffer>;
+}
+
+let warnedAboutDevelopmentKey = false;
+
+/**
+ * Key-encryption keys for stored Facebook tokens.
+ *
+ * TOKEN_ENCRYPTION_KEYS lists `id:base64key` pairs (32-byte keys, comma
+ * separated); TOKEN_ENCRYPTION_KEY_ID picks the one new values are wrapped
+ * with and defaults to the last listed. Keep retired keys listed until
+ * `npm run tokens:rotate` has rewrapped every value. Outside production a key
+ * derived from JWT_SECRET is used when no keys are configured.
+ */
+export const getTokenEncryptionConfig = (): TokenEncryptionConfig => {
+  const keys: Record<string, Buffer> = {};
+
+  for (const entry of (process.env.TOKEN_ENCRYPTION_KEYS || '').split(',').map((value) => value.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (separator <= 0 || key.length !== 32) {
+      throw new AppError('TOKEN_ENCRYPTION_KEYS entries must be "id:base64key" with 32-byte keys', 500, false);
+    }
+
+    keys[id] = key;
+  }
+
+  const ids = Object.keys(keys);
+
+  if (ids.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new AppError('TOKEN_ENCRYPTION_KEYS must be set in production', 500, false);
+    }
+
+    if (!warnedAboutDevelopmentKey) {
+      console.warn('⚠️  TOKEN_ENCRYPTION_KEYS is not set; encrypting tokens with a key derived from JWT_SECRET');
+      warnedAboutDevelopmentKey = true;
+    }
+
+    return {
+      activeKeyId: 'dev',
+      keys: { dev: crypto.createHash('sha256').update(process.env.JWT_SECRET || 'development').digest() },
+    };
+  }
+
+  const activeKeyId = process.env.TOKEN_ENCRYPTION_KEY_ID || ids[ids.length - 1];
+
+  if (!keys[activeKeyId]) {
+    throw new AppError(`TOKEN_ENCRYPTION_KEY_ID "${activeKeyId}" is not listed in TOKEN_ENCRYPTION_KEYS`, 500, false);
+  }
+
+  return { activeKeyId, keys };
+};
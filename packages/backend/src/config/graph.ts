@@ -0,0 +1,18 @@
+export interface GraphApiConfig {
+  baseUrl: string;
+  version: string;
+  timeoutMs: number;
+  resumableVideoBytes: number;
+}
+
+/**
+ * Where Facebook Graph API calls go. Point GRAPH_API_BASE_URL at the mock
+ * Graph server (`npm run mock:graph`) to run without Facebook. Videos larger
+ * than GRAPH_VIDEO_RESUMABLE_THRESHOLD_MB are sent with resumable uploads.
+ */
+export const getGraphApiConfig = (): GraphApiConfig => ({
+  baseUrl: (process.env.GRAPH_API_BASE_URL || 'https://graph.facebook.com').replace(/\/+$/, ''),
+  version: process.env.GRAPH_API_VERSION || 'v18.0',
+  timeoutMs: parseInt(process.env.GRAPH_API_TIMEOUT_MS || '30000'),
+  resumableVideoBytes: parseInt(process.env.GRAPH_VIDEO_RESUMABLE_THRESHOLD_MB || '100') * 1024 * 1024,
+});
@@ -0,0 +1,570 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+import { AuthRequest, getRequestContext, getAuditActor } from '../middleware/auth';
+import sequelize from '../config/database';
+import { LoginThrottleService } from '../services/LoginThrottleService';
+import { SessionService } from '../services/SessionService';
+import { MetricsService } from '../services/MetricsService';
+import { AuditService } from '../services/AuditService';
+import { WebhookService } from '../services/WebhookService';
+import { User, SecurityEvent, FacebookAccount, FacebookPage, ScheduledPost, WebhookEvent } from '../models';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../errors';
+
+export class AdminController {
+  static async getUsers(req: AuthRequest, res: Response) {
+    try {
+      const { search, role, isActive, limit = '50', offset = '0' } = req.query;
+
+      const where: any = {};
+
+      if (search) {
+        const term = `%${search}%`;
+        where[Op.or] = [
+          { email: { [Op.iLike]: term } },
+          { firstName: { [Op.iLike]: term } },
+          { lastName: { [Op.iLike]: term } },
+        ];
+      }
+
+      if (role) {
+        if (!['user', 'admin'].includes(role as string)) {
+          throw new ValidationError('Invalid role. Must be one of: user, admin');
+        }
+        where.role = role;
+      }
+
+      if (isActive !== undefined) {
+        where.isActive = isActive === 'true';
+      }
+
+      const parsedLimit = parseInt(limit as string);
+      const parsedOffset = parseInt(offset as string);
+      if (isNaN(parsedLimit) || isNaN(parsedOffset) || parsedLimit < 1 || parsedOffset < 0) {
+        throw new ValidationError('Invalid limit or offset');
+      }
+
+      const { rows, count } = await User.findAndCountAll({
+        where,
+        order: [['createdAt', 'DESC']],
+        limit: Math.min(parsedLimit, 200),
+        offset: parsedOffset,
+      });
+
+      res.json({
+        success: true,
+        data: rows,
+        total: count,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve users',
+        });
+      }
+    }
+  }
+
+  static async updateUserStatus(req: AuthRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+      const { isActive } = req.body;
+
+      if (typeof isActive !== 'boolean') {
+        throw new ValidationError('isActive must be a boolean');
+      }
+
+      if (userId === req.user!.id && !isActive) {
+        throw new ValidationError('You cannot deactivate your own account');
+      }
+
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const wasActive = user.isActive;
+      user.isActive = isActive;
+      await user.save();
+
+      await AuditService.record(getAuditActor(req), {
+        action: isActive ? 'user.activate' : 'user.deactivate',
+        targetType: 'User',
+        targetId: user.id,
+        before: { isActive: wasActive },
+        after: { isActive },
+      });
+
+      if (!isActive) {
+        await SessionService.revokeAllSessions(user.id);
+      }
+
+      console.log(`User ${user.id} ${isActive ? 'activated' : 'deactivated'} by admin ${req.user!.id}`);
+
+      res.json({
+        success: true,
+        data: user,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update user status',
+        });
+      }
+    }
+  }
+
+  static async updateUserRole(req: AuthRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+      const { role } = req.body;
+
+      if (!['user', 'admin'].includes(role)) {
+        throw new ValidationError('Invalid role. Must be one of: user, admin');
+      }
+
+      if (userId === req.user!.id && role !== 'admin') {
+        throw new ValidationError('You cannot remove your own admin role');
+      }
+
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const previousRole = user.role;
+      user.role = role;
+      await user.save();
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'user.role_change',
+        targetType: 'User',
+        targetId: user.id,
+        before: { role: previousRole },
+        after: { role },
+      });
+
+      console.log(`User ${user.id} role changed to ${role} by admin ${req.user!.id}`);
+
+      res.json({
+        success: true,
+        data: user,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update user role',
+        });
+      }
+    }
+  }
+
+  static async getUserAccounts(req: AuthRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+
+      const accounts = await FacebookAccount.findAll({
+        where: { userId },
+        attributes: { exclude: ['accessToken', 'refreshToken'] },
+        include: [{ model: FacebookPage, attributes: ['id', 'pageId', 'name', 'isActive'] }],
+        order: [['createdAt', 'DESC']],
+      });
+
+      res.json({
+        success: true,
+        data: accounts,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve user accounts',
+        });
+      }
+    }
+  }
+
+  static async getUserFailedPosts(req: AuthRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+
+      const posts = await ScheduledPost.findAll({
+        where: { userId, status: 'failed' },
+        include: [
+          { model: FacebookAccount, attributes: ['id', 'name'] },
+          { model: FacebookPage, attributes: ['id', 'name'] },
+        ],
+        order: [['updatedAt', 'DESC']],
+        limit: 100,
+      });
+
+      res.json({
+        success: true,
+        data: posts,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve failed posts',
+        });
+      }
+    }
+  }
+
+  static async revokeUserSessions(req: AuthRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      await SessionService.revokeAllSessions(user.id);
+
+      console.log(`All sessions of user ${user.id} revoked by admin ${req.user!.id}`);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'user.sessions_revoke',
+        targetType: 'User',
+        targetId: user.id,
+      });
+
+      res.json({
+        success: true,
+        message: 'All sessions revoked',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to revoke user sessions',
+        });
+      }
+    }
+  }
+
+  static async getStats(req: AuthRequest, res: Response) {
+    try {
+      const days = parseInt((req.query.days as string) || '14');
+
+      if (isNaN(days) || days < 1 || days > 90) {
+        throw new ValidationError('days must be between 1 and 90');
+      }
+
+      const since = new Date();
+      since.setUTCHours(0, 0, 0, 0);
+      since.setUTCDate(since.getUTCDate() - (days - 1));
+
+      const [totalUsers, activeUsers, totalAccounts, activeAccounts, postsByStatus] = await Promise.all([
+        User.count(),
+        User.count({ where: { isActive: true } }),
+        FacebookAccount.count(),
+        FacebookAccount.count({ where: { isActive: true } }),
+        ScheduledPost.findAll({
+          attributes: ['status', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+          group: ['status'],
+          raw: true,
+        }),
+      ]);
+
+      const [published, failed, aiCalls, aiFailures] = await Promise.all([
+        AdminController.countPostsPerDay('published', 'publishedAt', since),
+        AdminController.countPostsPerDay('failed', 'updatedAt', since),
+        MetricsService.getDaily('ai_calls', days),
+        MetricsService.getDaily('ai_failures', days),
+      ]);
+
+      const daily = aiCalls.map(({ date, count }, index) => ({
+        date,
+        postsPublished: published[date] || 0,
+        postsFailed: failed[date] || 0,
+        aiCalls: count,
+        aiFailures: aiFailures[index].count,
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          users: { total: totalUsers, active: activeUsers },
+          facebookAccounts: { total: totalAccounts, active: activeAccounts },
+          scheduledPosts: Object.fromEntries(
+            (postsByStatus as any[]).map((row) => [row.status, parseInt(row.count)])
+          ),
+          daily,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve platform stats',
+        });
+      }
+    }
+  }
+
+  static async unlockUser(req: AuthRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      await LoginThrottleService.unlock(user, getRequestContext(req), {
+        method: 'admin',
+        adminId: req.user!.id,
+      });
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'user.unlock',
+        targetType: 'User',
+        targetId: user.id,
+      });
+
+      res.json({
+        success: true,
+        data: user,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to unlock user',
+        });
+      }
+    }
+  }
+
+  static async getSecurityEvents(req: AuthRequest, res: Response) {
+    try {
+      const { eventType, email, ip, userId, startDate, endDate, limit = '50', offset = '0' } = req.query;
+
+      const where: any = {};
+
+      if (eventType) {
+        const validTypes = ['login_failed', 'account_locked', 'account_unlocked', 'ip_blocked'];
+        if (!validTypes.includes(eventType as string)) {
+          throw new ValidationError(`Invalid eventType. Must be one of: ${validTypes.join(', ')}`);
+        }
+        where.eventType = eventType;
+      }
+
+      if (email) {
+        where.email = email;
+      }
+
+      if (ip) {
+        where.ip = ip;
+      }
+
+      if (userId) {
+        where.userId = userId;
+      }
+
+      if (startDate || endDate) {
+        where.createdAt = {};
+        if (startDate) {
+          const start = new Date(startDate as string);
+          if (isNaN(start.getTime())) {
+            throw new ValidationError('Invalid startDate format');
+          }
+          where.createdAt[Op.gte] = start;
+        }
+        if (endDate) {
+          const end = new Date(endDate as string);
+          if (isNaN(end.getTime())) {
+            throw new ValidationError('Invalid endDate format');
+          }
+          where.createdAt[Op.lte] = end;
+        }
+      }
+
+      const parsedLimit = parseInt(limit as string);
+      const parsedOffset = parseInt(offset as string);
+      if (isNaN(parsedLimit) || isNaN(parsedOffset) || parsedLimit < 1 || parsedOffset < 0) {
+        throw new ValidationError('Invalid limit or offset');
+      }
+
+      const { rows, count } = await SecurityEvent.findAndCountAll({
+        where,
+        order: [['createdAt', 'DESC']],
+        limit: Math.min(parsedLimit, 500),
+        offset: parsedOffset,
+      });
+
+      res.json({
+        success: true,
+        data: rows,
+        total: count,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve security events',
+        });
+      }
+    }
+  }
+
+  static async getWebhookEvents(req: AuthRequest, res: Response) {
+    try {
+      const { status, objectId, limit = '50', offset = '0' } = req.query;
+
+      const where: any = {};
+
+      if (status) {
+        const validStatuses = ['pending', 'processing', 'processed', 'ignored', 'failed'];
+        if (!validStatuses.includes(status as string)) {
+          throw new ValidationError(`Invalid status. Must be one of: ${validStatuses.join(', ')}`);
+        }
+        where.status = status;
+      }
+
+      if (objectId) {
+        where.objectId = objectId;
+      }
+
+      const parsedLimit = parseInt(limit as string);
+      const parsedOffset = parseInt(offset as string);
+      if (isNaN(parsedLimit) || isNaN(parsedOffset) || parsedLimit < 1 || parsedOffset < 0) {
+        throw new ValidationError('Invalid limit or offset');
+      }
+
+      const { rows, count } = await WebhookEvent.findAndCountAll({
+        where,
+        order: [['receivedAt', 'DESC']],
+        limit: Math.min(parsedLimit, 500),
+        offset: parsedOffset,
+      });
+
+      res.json({
+        success: true,
+        data: rows,
+        total: count,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve webhook events',
+        });
+      }
+    }
+  }
+
+  static async replayWebhookEvent(req: AuthRequest, res: Response) {
+    try {
+      const { eventId } = req.params;
+
+      const event = await WebhookEvent.findByPk(eventId);
+      if (!event) {
+        throw new NotFoundError('Webhook event not found');
+      }
+      const previousStatus = event.status;
+
+      // Processing is idempotent, so any event can be replayed.
+      if (!(await WebhookService.process(event))) {
+        throw new ConflictError('Webhook event is being processed');
+      }
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'webhook_event.replay',
+        targetType: 'WebhookEvent',
+        targetId: event.id,
+        before: { status: previousStatus },
+        after: { status: event.status },
+      });
+
+      res.json({
+        success: true,
+        data: event,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to replay webhook event',
+        });
+      }
+    }
+  }
+
+  private static async countPostsPerDay(status: string, dateField: string, since: Date) {
+    const day = sequelize.fn('DATE', sequelize.col(dateField));
+
+    const rows = (await ScheduledPost.findAll({
+      attributes: [[day, 'date'], [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      where: { status, [dateField]: { [Op.gte]: since } },
+      group: [day],
+      raw: true,
+    })) as any[];
+
+    return Object.fromEntries(rows.map((row) => [String(row.date).slice(0, 10), parseInt(row.count)])) as Record<string, number>;
+  }
+}
@@ -0,0 +1,119 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+import { AuthRequest } from '../middleware/auth';
+import { Analytics, Content, FacebookPage } from '../models';
+import { AppError, ValidationError, NotFoundError } from '../errors';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { InsightsService } from '../services/InsightsService';
+
+export class AnalyticsController {
+  static async getSummary(req: AuthRequest, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { accountId, pageId, period = 'month' } = req.query;
+
+      const validPeriods = ['week', 'month', 'quarter', 'year'];
+      if (!validPeriods.includes(period as string)) {
+        throw new ValidationError(`Invalid period. Must be one of: ${validPeriods.join(', ')}`);
+      }
+
+      const startDate = new Date();
+      if (period === 'week') {
+        startDate.setDate(startDate.getDate() - 7);
+      } else if (period === 'month') {
+        startDate.setMonth(startDate.getMonth() - 1);
+      } else if (period === 'quarter') {
+        startDate.setMonth(startDate.getMonth() - 3);
+      } else if (period === 'year') {
+        startDate.setFullYear(startDate.getFullYear() - 1);
+      }
+
+      const contentWhere: any = {};
+      if (pageId) {
+        await WorkspaceService.getPage(userId, pageId as string, 'accounts:read', req.apiKey?.workspaceId);
+        contentWhere.facebookPageId = pageId;
+      } else if (accountId) {
+        await WorkspaceService.getAccount(userId, accountId as string, 'accounts:read', req.apiKey?.workspaceId);
+        contentWhere.facebookAccountId = accountId;
+      } else {
+        contentWhere.facebookAccountId = await WorkspaceService.getAccountIds(userId, 'accounts:read', req.apiKey?.workspaceId);
+      }
+
+      const snapshots = await Analytics.findAll({
+        where: { date: { [Op.gte]: startDate } },
+        include: [
+          {
+            model: Content,
+            where: contentWhere,
+            attributes: ['id', 'contentId', 'contentType', 'title', 'description', 'thumbnailUrl', 'contentUrl', 'publishedAt'],
+            include: [{ model: FacebookPage, attributes: ['id', 'pageId', 'name'] }],
+          },
+        ],
+        order: [['date', 'ASC']],
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...InsightsService.summarize(snapshots),
+          period,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve analytics summary',
+        });
+      }
+    }
+  }
+
+  static async getContentAnalytics(req: AuthRequest, res: Response) {
+    try {
+      const { contentId } = req.params;
+      const userId = req.user!.id;
+
+      const accountIds = await WorkspaceService.getAccountIds(userId, 'accounts:read', req.apiKey?.workspaceId);
+
+      const content = await Content.findOne({
+        where: { id: contentId, facebookAccountId: accountIds },
+        include: [{ model: FacebookPage, attributes: ['id', 'pageId', 'name'] }],
+      });
+
+      if (!content) {
+        throw new NotFoundError('Content not found');
+      }
+
+      const snapshots = await Analytics.findAll({
+        where: { contentId: content.id },
+        order: [['date', 'ASC']],
+      });
+
+      res.json({
+        success: true,
+        data: {
+          content,
+          snapshots,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve content analytics',
+        });
+      }
+    }
+  }
+}
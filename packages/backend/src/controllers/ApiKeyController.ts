@@ -0,0 +1,100 @@
+import { Response } from 'express';
+import { AuthRequest, getAuditActor } from '../middleware/auth';
+import { ApiKeyService, API_KEY_SCOPES } from '../services/ApiKeyService';
+import { AuditService } from '../services/AuditService';
+import { AppError } from '../errors';
+
+export class ApiKeyController {
+  static async getApiKeys(req: AuthRequest, res: Response) {
+    try {
+      const apiKeys = await ApiKeyService.listKeys(req.user!.id);
+
+      res.json({
+        success: true,
+        data: apiKeys,
+        scopes: API_KEY_SCOPES,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve API keys',
+        });
+      }
+    }
+  }
+
+  static async createApiKey(req: AuthRequest, res: Response) {
+    try {
+      const { name, scopes, workspaceId, expiresAt } = req.body;
+
+      const { apiKey, key } = await ApiKeyService.createKey(req.user!.id, { name, scopes, workspaceId, expiresAt });
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'api_key.create',
+        targetType: 'ApiKey',
+        targetId: apiKey.id,
+        workspaceId: apiKey.workspaceId,
+        after: { name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...apiKey.toJSON(),
+          key,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to create API key',
+        });
+      }
+    }
+  }
+
+  static async revokeApiKey(req: AuthRequest, res: Response) {
+    try {
+      const { keyId } = req.params;
+
+      const apiKey = await ApiKeyService.revokeKey(req.user!.id, keyId);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'api_key.revoke',
+        targetType: 'ApiKey',
+        targetId: apiKey.id,
+        workspaceId: apiKey.workspaceId,
+        before: { name: apiKey.name, prefix: apiKey.prefix },
+      });
+
+      res.json({
+        success: true,
+        message: 'API key revoked',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to revoke API key',
+        });
+      }
+    }
+  }
+}
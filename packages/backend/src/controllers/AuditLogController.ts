@@ -0,0 +1,81 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { AuditService, AuditLogFilters } from '../services/AuditService';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { AppError, ValidationError } from '../errors';
+
+export class AuditLogController {
+  static async getAuditLogs(req: AuthRequest, res: Response) {
+    try {
+      const { limit = '50', offset = '0' } = req.query;
+      const filters = await AuditLogController.resolveFilters(req);
+
+      const parsedLimit = parseInt(limit as string);
+      const parsedOffset = parseInt(offset as string);
+      if (isNaN(parsedLimit) || isNaN(parsedOffset) || parsedLimit < 1 || parsedOffset < 0) {
+        throw new ValidationError('Invalid limit or offset');
+      }
+
+      const { rows, count } = await AuditService.query(filters, Math.min(parsedLimit, 500), parsedOffset);
+
+      res.json({
+        success: true,
+        data: rows,
+        total: count,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve audit logs',
+        });
+      }
+    }
+  }
+
+  static async exportAuditLogs(req: AuthRequest, res: Response) {
+    try {
+      const filters = await AuditLogController.resolveFilters(req);
+
+      const csv = await AuditService.exportCsv(filters);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(csv);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to export audit logs',
+        });
+      }
+    }
+  }
+
+  /**
+   * Platform admins may query across workspaces; everyone else must name a
+   * workspace they hold the audit:read permission in.
+   */
+  private static async resolveFilters(req: AuthRequest): Promise<AuditLogFilters> {
+    const { workspaceId, actorId, action, targetType, targetId, startDate, endDate } = req.query as Record<string, string>;
+
+    if (req.user!.role !== 'admin') {
+      if (!workspaceId) {
+        throw new ValidationError('workspaceId is required');
+      }
+      await WorkspaceService.assertPermission(req.user!.id, workspaceId, 'audit:read');
+    }
+
+    return { workspaceId, actorId, action, targetType, targetId, startDate, endDate };
+  }
+}
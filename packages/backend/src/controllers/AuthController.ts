@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/AuthService';
-import { AuthRequest } from '../middleware/auth';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { SessionService } from '../services/SessionService';
+import { LoginThrottleService } from '../services/LoginThrottleService';
+import { AuthRequest, getRequestContext } from '../middleware/auth';
 import { AppError } from '../errors';
 
 export class AuthController {
@@ -13,13 +16,14 @@ export class AuthController {
         password,
         firstName,
         lastName,
-      });
+      }, getRequestContext(req));
 
       res.status(201).json({
         success: true,
         data: {
           user: result.user,
           token: result.token,
+          refreshToken: result.refreshToken,
         },
       });
     } catch (error: any) {
@@ -41,13 +45,24 @@ export class AuthController {
     try {
       const { email, password } = req.body;
 
-      const result = await AuthService.login(email, password);
+      const result = await AuthService.login(email, password, getRequestContext(req));
+
+      if (result && 'mfaRequired' in result) {
+        return res.json({
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: result.mfaToken,
+          },
+        });
+      }
 
       res.json({
         success: true,
         data: {
           user: result.user,
           token: result.token,
+          refreshToken: result.refreshToken,
         },
       });
     } catch (error: any) {
@@ -65,6 +80,90 @@ export class AuthController {
     }
   }
 
+  static async facebookLogin(req: Request, res: Response) {
+    try {
+      const { code, redirectUri } = req.body;
+
+      const result = await AuthService.loginWithFacebook(code, redirectUri, getRequestContext(req));
+
+      if (result && 'linkRequired' in result) {
+        return res.json({
+          success: true,
+          data: {
+            linkRequired: true,
+            linkToken: result.linkToken,
+            email: result.email,
+            twoFactorRequired: result.twoFactorRequired,
+          },
+        });
+      }
+
+      if (result && 'mfaRequired' in result) {
+        return res.json({
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: result.mfaToken,
+          },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          token: result.token,
+          refreshToken: result.refreshToken,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred during Facebook sign-in',
+        });
+      }
+    }
+  }
+
+  static async linkFacebook(req: Request, res: Response) {
+    try {
+      const { linkToken, password, code, recoveryCode } = req.body;
+
+      const result = await AuthService.completeFacebookLink(
+        linkToken,
+        { password, code, recoveryCode },
+        getRequestContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          token: result.token,
+          refreshToken: result.refreshToken,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while linking Facebook',
+        });
+      }
+    }
+  }
+
   static async getProfile(req: AuthRequest, res: Response) {
     try {
       if (!req.user) {
@@ -95,7 +194,7 @@ export class AuthController {
       const { oldPassword, newPassword } = req.body;
       const userId = req.user!.id;
 
-      await AuthService.updatePassword(userId, oldPassword, newPassword);
+      await AuthService.updatePassword(userId, oldPassword, newPassword, req.sessionId);
 
       res.json({
         success: true,
@@ -115,4 +214,389 @@ export class AuthController {
       }
     }
   }
+
+  static async verifyTwoFactorLogin(req: Request, res: Response) {
+    try {
+      const { mfaToken, code, recoveryCode } = req.body;
+
+      const result = await AuthService.verifyTwoFactorLogin(
+        mfaToken,
+        { code, recoveryCode },
+        getRequestContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          token: result.token,
+          refreshToken: result.refreshToken,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred during two-factor verification',
+        });
+      }
+    }
+  }
+
+  static async setupTwoFactor(req: AuthRequest, res: Response) {
+    try {
+      const userId = req.user!.id;
+
+      const result = await TwoFactorService.setup(userId);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while setting up two-factor authentication',
+        });
+      }
+    }
+  }
+
+  static async enableTwoFactor(req: AuthRequest, res: Response) {
+    try {
+      const { code } = req.body;
+      const userId = req.user!.id;
+
+      const result = await TwoFactorService.enable(userId, code);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while enabling two-factor authentication',
+        });
+      }
+    }
+  }
+
+  static async disableTwoFactor(req: AuthRequest, res: Response) {
+    try {
+      const { password } = req.body;
+      const userId = req.user!.id;
+
+      await TwoFactorService.disable(userId, password);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while disabling two-factor authentication',
+        });
+      }
+    }
+  }
+
+  static async regenerateRecoveryCodes(req: AuthRequest, res: Response) {
+    try {
+      const { code } = req.body;
+      const userId = req.user!.id;
+
+      const result = await TwoFactorService.regenerateRecoveryCodes(userId, code);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while regenerating recovery codes',
+        });
+      }
+    }
+  }
+
+  static async refresh(req: Request, res: Response) {
+    try {
+      const { refreshToken } = req.body;
+
+      const result = await AuthService.refresh(refreshToken, getRequestContext(req));
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          token: result.token,
+          refreshToken: result.refreshToken,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while refreshing the session',
+        });
+      }
+    }
+  }
+
+  static async logout(req: AuthRequest, res: Response) {
+    try {
+      await SessionService.revokeSession(req.user!.id, req.sessionId!);
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred during logout',
+        });
+      }
+    }
+  }
+
+  static async logoutAll(req: AuthRequest, res: Response) {
+    try {
+      const revoked = await SessionService.revokeAllSessions(req.user!.id);
+
+      res.json({
+        success: true,
+        data: { revoked },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while logging out all sessions',
+        });
+      }
+    }
+  }
+
+  static async getSessions(req: AuthRequest, res: Response) {
+    try {
+      const sessions = await SessionService.listSessions(req.user!.id);
+
+      res.json({
+        success: true,
+        data: sessions.map((session) => ({
+          ...session,
+          current: session.id === req.sessionId,
+        })),
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while fetching sessions',
+        });
+      }
+    }
+  }
+
+  static async revokeSession(req: AuthRequest, res: Response) {
+    try {
+      const { sessionId } = req.params;
+
+      await SessionService.revokeSession(req.user!.id, sessionId);
+
+      res.json({
+        success: true,
+        message: 'Session revoked',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while revoking the session',
+        });
+      }
+    }
+  }
+
+  static async forgotPassword(req: Request, res: Response) {
+    try {
+      const { email } = req.body;
+
+      await AuthService.requestPasswordReset(email);
+
+      res.json({
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while requesting a password reset',
+        });
+      }
+    }
+  }
+
+  static async resetPassword(req: Request, res: Response) {
+    try {
+      const { token, password } = req.body;
+
+      await AuthService.resetPassword(token, password);
+
+      res.json({
+        success: true,
+        message: 'Password has been reset. Please sign in with your new password.',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while resetting password',
+        });
+      }
+    }
+  }
+
+  static async verifyEmail(req: Request, res: Response) {
+    try {
+      const { token } = req.body;
+
+      const user = await AuthService.verifyEmail(token);
+
+      res.json({
+        success: true,
+        data: user,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while verifying email',
+        });
+      }
+    }
+  }
+
+  static async resendVerificationEmail(req: AuthRequest, res: Response) {
+    try {
+      await AuthService.resendVerificationEmail(req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Verification email sent',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while sending the verification email',
+        });
+      }
+    }
+  }
+
+  static async unlockAccount(req: Request, res: Response) {
+    try {
+      const { token } = req.body;
+
+      await LoginThrottleService.unlockWithToken(token, getRequestContext(req));
+
+      res.json({
+        success: true,
+        message: 'Account unlocked. You can sign in again.',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'An unexpected error occurred while unlocking the account',
+        });
+      }
+    }
+  }
 }
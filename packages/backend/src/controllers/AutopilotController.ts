@@ -1,34 +1,32 @@
 import { Response } from 'express';
-import { AuthRequest } from '../middleware/auth';
+import { AuthRequest, getAuditActor } from '../middleware/auth';
 import { AutopilotService } from '../services/AutopilotService';
-import { AutopilotSettings, ScheduledPost, TrendResearch, FacebookAccount } from '../models';
+import { AutopilotSettings, ScheduledPost, TrendResearch, FacebookAccount, FacebookPage } from '../models';
 import { Op } from 'sequelize';
 import { AppError, NotFoundError, ValidationError } from '../errors';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { AuditService } from '../services/AuditService';
+import { FacebookService } from '../services/FacebookService';
+import { InstagramService } from '../services/InstagramService';
 import { handleSequelizeError } from '../utils/errorHelpers';
 
 export class AutopilotController {
   static async getSettings(req: AuthRequest, res: Response) {
     try {
-      const { accountId } = req.params;
+      const { pageId } = req.params;
       const userId = req.user!.id;
 
-      const account = await FacebookAccount.findOne({
-        where: { id: accountId, userId },
-      });
-
-      if (!account) {
-        throw new NotFoundError('Account not found');
-      }
+      const { page } = await WorkspaceService.getPage(userId, pageId, 'autopilot:read');
 
       try {
         const [settings] = await AutopilotSettings.findOrCreate({
           where: {
-            userId,
-            facebookAccountId: accountId,
+            facebookPageId: page.id,
           },
           defaults: {
             userId,
-            facebookAccountId: accountId,
+            facebookAccountId: page.facebookAccountId,
+            facebookPageId: page.id,
           },
         });
 
@@ -56,36 +54,43 @@ export class AutopilotController {
 
   static async updateSettings(req: AuthRequest, res: Response) {
     try {
-      const { accountId } = req.params;
+      const { pageId } = req.params;
       const userId = req.user!.id;
 
-      const account = await FacebookAccount.findOne({
-        where: { id: accountId, userId },
-      });
-
-      if (!account) {
-        throw new NotFoundError('Account not found');
-      }
+      const { page, account } = await WorkspaceService.getPage(userId, pageId, 'autopilot:manage');
 
       try {
         const [settings] = await AutopilotSettings.findOrCreate({
           where: {
-            userId,
-            facebookAccountId: accountId,
+            facebookPageId: page.id,
           },
           defaults: {
             userId,
-            facebookAccountId: accountId,
+            facebookAccountId: page.facebookAccountId,
+            facebookPageId: page.id,
           },
         });
 
-        await settings.update(req.body);
+        const before = settings.toJSON();
+        await AutopilotService.updateSettings(settings, account, req.body || {});
+
+        await AuditService.record(getAuditActor(req), {
+          action: 'autopilot_settings.update',
+          targetType: 'AutopilotSettings',
+          targetId: settings.id,
+          workspaceId: account.workspaceId,
+          ...AuditService.diff(before, settings.toJSON()),
+          metadata: { facebookAccountId: page.facebookAccountId, facebookPageId: page.id },
+        });
 
         res.json({
           success: true,
           data: settings,
         });
       } catch (error: any) {
+        if (error instanceof AppError) {
+          throw error;
+        }
         handleSequelizeError(error);
       }
     } catch (error: any) {
@@ -276,18 +281,16 @@ export class AutopilotController {
 
   static async scheduleAutoPosts(req: AuthRequest, res: Response) {
     try {
-      const { accountId } = req.params;
+      const { pageId } = req.params;
       const userId = req.user!.id;
 
-      const account = await FacebookAccount.findOne({
-        where: { id: accountId, userId },
-      });
+      const { page } = await WorkspaceService.getPage(userId, pageId, 'autopilot:manage');
 
-      if (!account) {
-        throw new NotFoundError('Account not found');
+      if (!page.isActive) {
+        throw new ValidationError('This page is no longer selected for its account');
       }
 
-      const posts = await AutopilotService.scheduleAutoPosts(accountId);
+      const posts = await AutopilotService.scheduleAutoPosts(page.id);
 
       res.json({
         success: true,
@@ -311,16 +314,22 @@ export class AutopilotController {
   static async getScheduledPosts(req: AuthRequest, res: Response) {
     try {
       const userId = req.user!.id;
-      const { accountId, status } = req.query;
+      const { accountId, pageId, status } = req.query;
 
-      const where: any = { userId };
+      const where: any = {};
 
-      if (accountId) {
+      if (pageId) {
+        await WorkspaceService.getPage(userId, pageId as string, 'autopilot:read', req.apiKey?.workspaceId);
+        where.facebookPageId = pageId;
+      } else if (accountId) {
+        await WorkspaceService.getAccount(userId, accountId as string, 'autopilot:read', req.apiKey?.workspaceId);
         where.facebookAccountId = accountId;
+      } else {
+        where.facebookAccountId = await WorkspaceService.getAccountIds(userId, 'autopilot:read', req.apiKey?.workspaceId);
       }
 
       if (status) {
-        const validStatuses = ['pending', 'processing', 'published', 'failed', 'cancelled'];
+        const validStatuses = ['pending', 'processing', 'published', 'failed', 'cancelled', 'deleted'];
         if (!validStatuses.includes(status as string)) {
           throw new ValidationError(`Invalid status. Must be one of: ${validStatuses.join(', ')}`);
         }
@@ -329,7 +338,7 @@ export class AutopilotController {
 
       const posts = await ScheduledPost.findAll({
         where,
-        include: [FacebookAccount],
+        include: [FacebookAccount, FacebookPage],
         order: [['scheduledFor', 'ASC']],
       });
 
@@ -357,15 +366,35 @@ export class AutopilotController {
       const userId = req.user!.id;
       const {
         facebookAccountId,
+        facebookPageId,
         content,
         contentType,
         mediaUrls,
         hashtags,
         scheduledFor,
+        platform = 'facebook',
       } = req.body;
 
-      if (!facebookAccountId || !content || !contentType || !scheduledFor) {
-        throw new ValidationError('Missing required fields: facebookAccountId, content, contentType, scheduledFor');
+      if ((!facebookPageId && !facebookAccountId) || !content || !contentType || !scheduledFor) {
+        throw new ValidationError('Missing required fields: facebookPageId, content, contentType, scheduledFor');
+      }
+
+      if (mediaUrls !== undefined && (!Array.isArray(mediaUrls) || mediaUrls.some((url) => typeof url !== 'string'))) {
+        throw new ValidationError('mediaUrls must be an array of URLs');
+      }
+
+      if (hashtags !== undefined && (!Array.isArray(hashtags) || hashtags.some((tag) => typeof tag !== 'string'))) {
+        throw new ValidationError('hashtags must be an array of strings');
+      }
+
+      if (!['facebook', 'instagram'].includes(platform)) {
+        throw new ValidationError('platform must be facebook or instagram');
+      }
+
+      if (platform === 'instagram') {
+        InstagramService.getPublishTarget(contentType, mediaUrls);
+      } else {
+        FacebookService.getPublishTarget(contentType, mediaUrls);
       }
 
       const scheduledDate = new Date(scheduledFor);
@@ -377,25 +406,44 @@ export class AutopilotController {
         throw new ValidationError('Scheduled time must be in the future');
       }
 
-      const account = await FacebookAccount.findOne({
-        where: { id: facebookAccountId, userId },
-      });
+      let page: FacebookPage;
+      let account: FacebookAccount;
+      if (facebookPageId) {
+        ({ page, account } = await WorkspaceService.getPage(userId, facebookPageId, 'posts:schedule', req.apiKey?.workspaceId));
+      } else {
+        account = await WorkspaceService.getAccount(userId, facebookAccountId, 'posts:schedule', req.apiKey?.workspaceId);
+        page = await FacebookService.getDefaultPage(account.id);
+      }
+
+      if (!page.isActive) {
+        throw new ValidationError('This page is no longer selected for its account');
+      }
 
-      if (!account) {
-        throw new NotFoundError('Account not found');
+      if (platform === 'instagram' && !page.instagramAccountId) {
+        throw new ValidationError('No Instagram account is linked to this page');
       }
 
       try {
         const post = await ScheduledPost.create({
           userId,
-          facebookAccountId,
+          facebookAccountId: page.facebookAccountId,
+          facebookPageId: page.id,
           content,
+          platform,
           contentType,
           mediaUrls,
           hashtags,
           scheduledFor: scheduledDate,
         });
 
+        await AuditService.record(getAuditActor(req), {
+          action: 'scheduled_post.create',
+          targetType: 'ScheduledPost',
+          targetId: post.id,
+          workspaceId: account.workspaceId,
+          after: post.toJSON(),
+        });
+
         res.status(201).json({
           success: true,
           data: post,
@@ -423,14 +471,14 @@ export class AutopilotController {
       const { postId } = req.params;
       const userId = req.user!.id;
 
-      const post = await ScheduledPost.findOne({
-        where: { id: postId, userId },
-      });
+      const post = await ScheduledPost.findByPk(postId);
 
       if (!post) {
         throw new NotFoundError('Post not found');
       }
 
+      const account = await WorkspaceService.getAccount(userId, post.facebookAccountId, 'posts:schedule', req.apiKey?.workspaceId);
+
       if (post.status !== 'pending') {
         throw new ValidationError('Cannot cancel post with current status');
       }
@@ -439,6 +487,15 @@ export class AutopilotController {
         post.status = 'cancelled';
         await post.save();
 
+        await AuditService.record(getAuditActor(req), {
+          action: 'scheduled_post.cancel',
+          targetType: 'ScheduledPost',
+          targetId: post.id,
+          workspaceId: account.workspaceId,
+          before: { status: 'pending' },
+          after: { status: 'cancelled' },
+        });
+
         res.json({
           success: true,
           data: post,
@@ -461,11 +518,154 @@ export class AutopilotController {
     }
   }
 
+  static async editPublishedPost(req: AuthRequest, res: Response) {
+    try {
+      const { content, hashtags } = req.body;
+
+      if (content === undefined && hashtags === undefined) {
+        throw new ValidationError('Nothing to change: provide content or hashtags');
+      }
+
+      if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+        throw new ValidationError('content must be a non-empty string');
+      }
+
+      if (hashtags !== undefined && (!Array.isArray(hashtags) || hashtags.some((tag) => typeof tag !== 'string'))) {
+        throw new ValidationError('hashtags must be an array of strings');
+      }
+
+      const { post, account } = await AutopilotController.loadPost(req);
+      const before = { content: post.content, hashtags: post.hashtags };
+
+      await AutopilotService.editPublishedPost(post, { content, hashtags });
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'scheduled_post.edit',
+        targetType: 'ScheduledPost',
+        targetId: post.id,
+        workspaceId: account.workspaceId,
+        before,
+        after: { content: post.content, hashtags: post.hashtags },
+        metadata: { publishedContentId: post.publishedContentId },
+      });
+
+      res.json({
+        success: true,
+        data: post,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to edit published post',
+        });
+      }
+    }
+  }
+
+  static async deletePublishedPost(req: AuthRequest, res: Response) {
+    try {
+      if (req.body?.confirm !== true) {
+        throw new ValidationError('Deleting a published post cannot be undone; send "confirm": true to proceed');
+      }
+
+      const { post, account } = await AutopilotController.loadPost(req);
+      const publishedContentId = post.publishedContentId;
+
+      await AutopilotService.deletePublishedPost(post);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'scheduled_post.delete',
+        targetType: 'ScheduledPost',
+        targetId: post.id,
+        workspaceId: account.workspaceId,
+        before: { status: 'published' },
+        after: { status: 'deleted' },
+        metadata: { publishedContentId },
+      });
+
+      res.json({
+        success: true,
+        data: post,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to delete published post',
+        });
+      }
+    }
+  }
+
+  static async reschedulePublishedPost(req: AuthRequest, res: Response) {
+    try {
+      const { scheduledFor, confirm } = req.body;
+
+      if (confirm !== true) {
+        throw new ValidationError('Unpublishing removes the post and its engagement from Facebook; send "confirm": true to proceed');
+      }
+
+      const scheduledDate = new Date(scheduledFor);
+      if (!scheduledFor || isNaN(scheduledDate.getTime())) {
+        throw new ValidationError('Invalid scheduledFor date');
+      }
+
+      if (scheduledDate < new Date()) {
+        throw new ValidationError('Scheduled time must be in the future');
+      }
+
+      const { post, account } = await AutopilotController.loadPost(req);
+      const before = { status: post.status, scheduledFor: post.scheduledFor, publishedContentId: post.publishedContentId };
+
+      await AutopilotService.unpublishAndReschedule(post, scheduledDate);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'scheduled_post.reschedule',
+        targetType: 'ScheduledPost',
+        targetId: post.id,
+        workspaceId: account.workspaceId,
+        before,
+        after: { status: post.status, scheduledFor: post.scheduledFor, publishedContentId: null },
+      });
+
+      res.json({
+        success: true,
+        data: post,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to reschedule post',
+        });
+      }
+    }
+  }
+
   static async getOptimalPostingTimes(req: AuthRequest, res: Response) {
     try {
-      const { accountId } = req.params;
+      const { pageId } = req.params;
+      const userId = req.user!.id;
 
-      const times = await AutopilotService.suggestOptimalPostingTimes(accountId);
+      const { page } = await WorkspaceService.getPage(userId, pageId, 'autopilot:read');
+
+      const times = await AutopilotService.suggestOptimalPostingTimes(page.id);
 
       res.json({
         success: true,
@@ -485,4 +685,20 @@ export class AutopilotController {
       }
     }
   }
+
+  /**
+   * The scheduled post named in the route, with its page, for a user allowed
+   * to schedule posts on its account.
+   */
+  private static async loadPost(req: AuthRequest) {
+    const post = await ScheduledPost.findByPk(req.params.postId, { include: [FacebookPage] });
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const account = await WorkspaceService.getAccount(req.user!.id, post.facebookAccountId, 'posts:schedule', req.apiKey?.workspaceId);
+
+    return { post, account };
+  }
 }
@@ -0,0 +1,292 @@
+import { Response } from 'express';
+import { AuthRequest, getAuditActor } from '../middleware/auth';
+import { Comment } from '../models';
+import { AppError, NotFoundError, ValidationError } from '../errors';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { AuditService } from '../services/AuditService';
+import { CommentService, CommentStatusFilter } from '../services/CommentService';
+
+const STATUS_FILTERS: CommentStatusFilter[] = ['unreplied', 'negative', 'hidden'];
+
+export class CommentController {
+  static async getComments(req: AuthRequest, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { accountId, pageId, platform, status, keyword, limit = '50', offset = '0' } = req.query;
+
+      if (status && !STATUS_FILTERS.includes(status as CommentStatusFilter)) {
+        throw new ValidationError(`Invalid status. Must be one of: ${STATUS_FILTERS.join(', ')}`);
+      }
+
+      if (platform && !['facebook', 'instagram'].includes(platform as string)) {
+        throw new ValidationError('Invalid platform. Must be one of: facebook, instagram');
+      }
+
+      const parsedLimit = parseInt(limit as string);
+      const parsedOffset = parseInt(offset as string);
+      if (isNaN(parsedLimit) || isNaN(parsedOffset) || parsedLimit < 1 || parsedOffset < 0) {
+        throw new ValidationError('Invalid limit or offset');
+      }
+
+      let accountIds: string[];
+      if (pageId) {
+        const { page } = await WorkspaceService.getPage(userId, pageId as string, 'accounts:read', req.apiKey?.workspaceId);
+        accountIds = [page.facebookAccountId];
+      } else if (accountId) {
+        const account = await WorkspaceService.getAccount(userId, accountId as string, 'accounts:read', req.apiKey?.workspaceId);
+        accountIds = [account.id];
+      } else {
+        accountIds = await WorkspaceService.getAccountIds(userId, 'accounts:read', req.apiKey?.workspaceId);
+      }
+
+      const { rows, count } = await CommentService.list({
+        accountIds,
+        pageId: pageId as string | undefined,
+        platform: platform as string | undefined,
+        status: status as CommentStatusFilter | undefined,
+        keyword: typeof keyword === 'string' && keyword.trim() ? keyword.trim() : undefined,
+        limit: Math.min(parsedLimit, 200),
+        offset: parsedOffset,
+      });
+
+      res.json({
+        success: true,
+        data: rows,
+        total: count,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve comments',
+        });
+      }
+    }
+  }
+
+  static async replyToComment(req: AuthRequest, res: Response) {
+    try {
+      const { comment, page, account } = await CommentController.loadComment(req);
+
+      const reply = await CommentService.reply(comment, page, req.body.message);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'comment.reply',
+        targetType: 'Comment',
+        targetId: comment.id,
+        workspaceId: account.workspaceId,
+        after: { replyId: reply.id, message: reply.message },
+        metadata: { facebookPageId: page.id, commentId: comment.commentId },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: reply,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to reply to comment',
+        });
+      }
+    }
+  }
+
+  static async hideComment(req: AuthRequest, res: Response) {
+    try {
+      const hidden = req.body.hidden ?? true;
+
+      if (typeof hidden !== 'boolean') {
+        throw new ValidationError('hidden must be a boolean');
+      }
+
+      const { comment, page, account } = await CommentController.loadComment(req);
+      const before = { isHidden: comment.isHidden, hiddenByRule: comment.hiddenByRule };
+
+      await CommentService.setHidden(comment, page, hidden);
+
+      await AuditService.record(getAuditActor(req), {
+        action: hidden ? 'comment.hide' : 'comment.unhide',
+        targetType: 'Comment',
+        targetId: comment.id,
+        workspaceId: account.workspaceId,
+        before,
+        after: { isHidden: comment.isHidden, hiddenByRule: comment.hiddenByRule },
+        metadata: { facebookPageId: page.id, commentId: comment.commentId },
+      });
+
+      res.json({
+        success: true,
+        data: comment,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update comment visibility',
+        });
+      }
+    }
+  }
+
+  static async deleteComment(req: AuthRequest, res: Response) {
+    try {
+      const { comment, page, account } = await CommentController.loadComment(req);
+
+      await CommentService.remove(comment, page);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'comment.delete',
+        targetType: 'Comment',
+        targetId: comment.id,
+        workspaceId: account.workspaceId,
+        before: { authorName: comment.authorName, message: comment.message },
+        metadata: { facebookPageId: page.id, commentId: comment.commentId },
+      });
+
+      res.json({
+        success: true,
+        message: 'Comment deleted',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to delete comment',
+        });
+      }
+    }
+  }
+
+  static async syncPageComments(req: AuthRequest, res: Response) {
+    try {
+      const { page } = await WorkspaceService.getPage(req.user!.id, req.params.pageId, 'comments:moderate');
+
+      if (!page.isActive) {
+        throw new ValidationError('This page is no longer selected for its account');
+      }
+
+      const result = await CommentService.syncPage(page);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to sync comments',
+        });
+      }
+    }
+  }
+
+  static async getModerationSettings(req: AuthRequest, res: Response) {
+    try {
+      const { page } = await WorkspaceService.getPage(req.user!.id, req.params.pageId, 'accounts:read');
+
+      const settings = await CommentService.getSettings(page);
+
+      res.json({
+        success: true,
+        data: settings,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve moderation settings',
+        });
+      }
+    }
+  }
+
+  static async updateModerationSettings(req: AuthRequest, res: Response) {
+    try {
+      const { page, account } = await WorkspaceService.getPage(req.user!.id, req.params.pageId, 'comments:moderate');
+
+      const { settings, before } = await CommentService.updateSettings(page, req.body);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'moderation_settings.update',
+        targetType: 'ModerationSettings',
+        targetId: settings.id,
+        workspaceId: account.workspaceId,
+        ...AuditService.diff(before, settings.toJSON()),
+        metadata: { facebookAccountId: page.facebookAccountId, facebookPageId: page.id },
+      });
+
+      res.json({
+        success: true,
+        data: settings,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update moderation settings',
+        });
+      }
+    }
+  }
+
+  /**
+   * The comment named in the route, with its page and account, for a user
+   * allowed to moderate the page. Comments outside the user's workspaces
+   * and deleted comments are not found.
+   */
+  private static async loadComment(req: AuthRequest) {
+    const comment = await Comment.findByPk(req.params.commentId);
+
+    if (!comment || comment.deletedOnFacebookAt) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    try {
+      const { page, account } = await WorkspaceService.getPage(req.user!.id, comment.facebookPageId, 'comments:moderate');
+      return { comment, page, account };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new NotFoundError('Comment not found');
+      }
+      throw error;
+    }
+  }
+}
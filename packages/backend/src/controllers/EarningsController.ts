@@ -1,21 +1,29 @@
 import { Response } from 'express';
-import { AuthRequest } from '../middleware/auth';
-import { Earning, FacebookAccount, Content } from '../models';
+import { AuthRequest, getAuditActor } from '../middleware/auth';
+import { Earning, FacebookAccount, FacebookPage, Content } from '../models';
 import { Op } from 'sequelize';
 import sequelize from '../config/database';
-import { AppError, NotFoundError, ValidationError } from '../errors';
+import { AppError, ValidationError } from '../errors';
 import { handleSequelizeError } from '../utils/errorHelpers';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { AuditService } from '../services/AuditService';
 
 export class EarningsController {
   static async getEarnings(req: AuthRequest, res: Response) {
     try {
       const userId = req.user!.id;
-      const { accountId, startDate, endDate, type } = req.query;
+      const { accountId, pageId, startDate, endDate, type } = req.query;
 
       const where: any = {};
       
-      if (accountId) {
+      if (pageId) {
+        await WorkspaceService.getPage(userId, pageId as string, 'earnings:read', req.apiKey?.workspaceId);
+        where.facebookPageId = pageId;
+      } else if (accountId) {
+        await WorkspaceService.getAccount(userId, accountId as string, 'earnings:read', req.apiKey?.workspaceId);
         where.facebookAccountId = accountId;
+      } else {
+        where.facebookAccountId = await WorkspaceService.getAccountIds(userId, 'earnings:read', req.apiKey?.workspaceId);
       }
 
       if (startDate || endDate) {
@@ -49,8 +57,11 @@ export class EarningsController {
         include: [
           {
             model: FacebookAccount,
-            where: { userId },
-            attributes: ['id', 'name', 'pageName'],
+            attributes: ['id', 'name'],
+          },
+          {
+            model: FacebookPage,
+            attributes: ['id', 'pageId', 'name'],
           },
           {
             model: Content,
@@ -82,7 +93,7 @@ export class EarningsController {
   static async getEarningsSummary(req: AuthRequest, res: Response) {
     try {
       const userId = req.user!.id;
-      const { accountId, period = 'month' } = req.query;
+      const { accountId, pageId, period = 'month' } = req.query;
 
       const validPeriods = ['day', 'week', 'month', 'year'];
       if (!validPeriods.includes(period as string)) {
@@ -104,19 +115,18 @@ export class EarningsController {
         earningDate: { [Op.gte]: startDate },
       };
 
-      if (accountId) {
+      if (pageId) {
+        await WorkspaceService.getPage(userId, pageId as string, 'earnings:read', req.apiKey?.workspaceId);
+        where.facebookPageId = pageId;
+      } else if (accountId) {
+        await WorkspaceService.getAccount(userId, accountId as string, 'earnings:read', req.apiKey?.workspaceId);
         where.facebookAccountId = accountId;
+      } else {
+        where.facebookAccountId = await WorkspaceService.getAccountIds(userId, 'earnings:read', req.apiKey?.workspaceId);
       }
 
       const summary = await Earning.findAll({
         where,
-        include: [
-          {
-            model: FacebookAccount,
-            where: { userId },
-            attributes: [],
-          },
-        ],
         attributes: [
           'earningType',
           'currency',
@@ -129,13 +139,6 @@ export class EarningsController {
 
       const totalEarnings = await Earning.sum('amount', {
         where,
-        include: [
-          {
-            model: FacebookAccount,
-            where: { userId },
-            attributes: [],
-          },
-        ],
       });
 
       res.json({
@@ -166,12 +169,16 @@ export class EarningsController {
       const { contentId } = req.params;
       const userId = req.user!.id;
 
+      const accountIds = await WorkspaceService.getAccountIds(userId, 'earnings:read', req.apiKey?.workspaceId);
+
       const earnings = await Earning.findAll({
-        where: { contentId },
+        where: { contentId, facebookAccountId: accountIds },
         include: [
           {
             model: FacebookAccount,
-            where: { userId },
+          },
+          {
+            model: FacebookPage,
           },
           {
             model: Content,
@@ -203,6 +210,7 @@ export class EarningsController {
     try {
       const {
         facebookAccountId,
+        facebookPageId,
         contentId,
         amount,
         currency,
@@ -212,25 +220,30 @@ export class EarningsController {
       } = req.body;
       const userId = req.user!.id;
 
-      if (!facebookAccountId || !amount || !earningType) {
-        throw new ValidationError('Missing required fields: facebookAccountId, amount, earningType');
+      if ((!facebookAccountId && !facebookPageId) || !amount || !earningType) {
+        throw new ValidationError('Missing required fields: facebookAccountId or facebookPageId, amount, earningType');
       }
 
       if (typeof amount !== 'number' || amount < 0) {
         throw new ValidationError('Amount must be a positive number');
       }
 
-      const account = await FacebookAccount.findOne({
-        where: { id: facebookAccountId, userId },
-      });
+      let account: FacebookAccount;
+      let page: FacebookPage | undefined;
+      if (facebookPageId) {
+        ({ page, account } = await WorkspaceService.getPage(userId, facebookPageId, 'earnings:write', req.apiKey?.workspaceId));
 
-      if (!account) {
-        throw new NotFoundError('Account not found');
+        if (facebookAccountId && facebookAccountId !== page.facebookAccountId) {
+          throw new ValidationError('The page does not belong to this account');
+        }
+      } else {
+        account = await WorkspaceService.getAccount(userId, facebookAccountId, 'earnings:write', req.apiKey?.workspaceId);
       }
 
       try {
         const earning = await Earning.create({
-          facebookAccountId,
+          facebookAccountId: account.id,
+          facebookPageId: page?.id,
           contentId,
           amount,
           currency: currency || 'USD',
@@ -240,6 +253,14 @@ export class EarningsController {
           status: 'completed',
         });
 
+        await AuditService.record(getAuditActor(req), {
+          action: 'earning.create',
+          targetType: 'Earning',
+          targetId: earning.id,
+          workspaceId: account.workspaceId,
+          after: earning.toJSON(),
+        });
+
         res.status(201).json({
           success: true,
           data: earning,
@@ -1,39 +1,42 @@
 import { Response } from 'express';
-import { AuthRequest } from '../middleware/auth';
+import { AuthRequest, getAuditActor } from '../middleware/auth';
 import { FacebookService } from '../services/FacebookService';
-import { FacebookAccount } from '../models';
-import { AppError, NotFoundError } from '../errors';
-import { handleSequelizeError } from '../utils/errorHelpers';
+import { FacebookAccount, FacebookPage, SyncStatus } from '../models';
+import { AppError, ValidationError } from '../errors';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { AuditService } from '../services/AuditService';
+import { ContentSyncService } from '../services/ContentSyncService';
+import { GraphScheduler } from '../services/GraphScheduler';
+import { MonetizationService } from '../services/MonetizationService';
 
 export class FacebookController {
   static async connectAccount(req: AuthRequest, res: Response) {
     try {
-      const { code, redirectUri } = req.body;
+      const { code, redirectUri, workspaceId } = req.body;
       const userId = req.user!.id;
 
-      const tokenData = await FacebookService.exchangeCodeForToken(code, redirectUri);
+      if (workspaceId) {
+        await WorkspaceService.assertPermission(userId, workspaceId, 'accounts:manage');
+      }
+
+      const tokenData = await FacebookService.exchangeCodeForLongLivedToken(code, redirectUri);
       const profile = await FacebookService.getUserProfile(tokenData.access_token);
 
-      try {
-        const [account] = await FacebookAccount.findOrCreate({
-          where: {
-            userId,
-            facebookId: profile.id,
-          },
-          defaults: {
-            name: profile.name,
-            accessToken: tokenData.access_token,
-            tokenExpiry: new Date(Date.now() + tokenData.expires_in * 1000),
-          },
-        });
-
-        res.json({
-          success: true,
-          data: account,
-        });
-      } catch (error: any) {
-        handleSequelizeError(error);
-      }
+      const { account, created } = await FacebookService.linkAccount(req.user!, profile, tokenData, workspaceId);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'facebook_account.connect',
+        targetType: 'FacebookAccount',
+        targetId: account.id,
+        workspaceId: account.workspaceId,
+        after: { facebookId: account.facebookId, name: account.name },
+        metadata: { created },
+      });
+
+      res.json({
+        success: true,
+        data: account,
+      });
     } catch (error: any) {
       if (error instanceof AppError) {
         res.status(error.statusCode).json({
@@ -52,8 +55,16 @@ export class FacebookController {
   static async getAccounts(req: AuthRequest, res: Response) {
     try {
       const userId = req.user!.id;
+      const { workspaceId } = req.query;
+
+      const accountIds = await WorkspaceService.getAccountIds(
+        userId,
+        'accounts:read',
+        req.apiKey?.workspaceId || (workspaceId as string | undefined)
+      );
       const accounts = await FacebookAccount.findAll({
-        where: { userId },
+        where: { id: accountIds },
+        include: [{ model: FacebookPage, where: { isActive: true }, required: false }, SyncStatus],
       });
 
       res.json({
@@ -80,15 +91,9 @@ export class FacebookController {
       const { accountId } = req.params;
       const userId = req.user!.id;
 
-      const account = await FacebookAccount.findOne({
-        where: { id: accountId, userId },
-      });
-
-      if (!account) {
-        throw new NotFoundError('Account not found');
-      }
+      await WorkspaceService.getAccount(userId, accountId, 'accounts:manage');
 
-      const result = await FacebookService.syncAccountData(accountId);
+      const result = await ContentSyncService.syncAccount(accountId, { full: req.body?.full === true });
 
       res.json({
         success: true,
@@ -109,23 +114,149 @@ export class FacebookController {
     }
   }
 
-  static async getMonetizationStatus(req: AuthRequest, res: Response) {
+  static async getSyncStatus(req: AuthRequest, res: Response) {
     try {
       const { accountId } = req.params;
       const userId = req.user!.id;
 
-      const account = await FacebookAccount.findOne({
-        where: { id: accountId, userId },
+      await WorkspaceService.getAccount(userId, accountId, 'accounts:read', req.apiKey?.workspaceId);
+
+      const status = await ContentSyncService.getStatus(accountId);
+
+      res.json({
+        success: true,
+        data: status,
       });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get sync status',
+        });
+      }
+    }
+  }
+
+  static async getApiBudget(req: AuthRequest, res: Response) {
+    try {
+      const { accountId } = req.params;
+      const userId = req.user!.id;
+
+      await WorkspaceService.getAccount(userId, accountId, 'accounts:read', req.apiKey?.workspaceId);
+
+      const pages = await FacebookService.getActivePages(accountId);
+      const [app, ...pageBudgets] = await GraphScheduler.getBudgets(['app', ...pages.map((page) => page.pageId)]);
 
-      if (!account || !account.pageId || !account.pageAccessToken) {
-        throw new NotFoundError('Account not found or not configured');
+      res.json({
+        success: true,
+        data: {
+          app,
+          pages: pages.map((page, index) => ({
+            id: page.id,
+            pageId: page.pageId,
+            name: page.name,
+            ...pageBudgets[index],
+          })),
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get API budget',
+        });
       }
+    }
+  }
 
-      const status = await FacebookService.getMonetizationStatus(
-        account.pageId,
-        account.pageAccessToken
-      );
+  static async getPages(req: AuthRequest, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { workspaceId, accountId } = req.query;
+
+      let accountIds: string[];
+      if (accountId) {
+        await WorkspaceService.getAccount(userId, accountId as string, 'accounts:read', req.apiKey?.workspaceId);
+        accountIds = [accountId as string];
+      } else {
+        accountIds = await WorkspaceService.getAccountIds(
+          userId,
+          'accounts:read',
+          req.apiKey?.workspaceId || (workspaceId as string | undefined)
+        );
+      }
+
+      const pages = await FacebookPage.findAll({
+        where: { facebookAccountId: accountIds, isActive: true },
+        include: [{ model: FacebookAccount, attributes: ['id', 'name', 'workspaceId'] }],
+        order: [['name', 'ASC']],
+      });
+
+      res.json({
+        success: true,
+        data: pages,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve Facebook pages',
+        });
+      }
+    }
+  }
+
+  static async syncPage(req: AuthRequest, res: Response) {
+    try {
+      const { pageId } = req.params;
+      const userId = req.user!.id;
+
+      const { page } = await WorkspaceService.getPage(userId, pageId, 'accounts:manage');
+
+      const result = await ContentSyncService.syncPage(page, { full: req.body?.full === true });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to sync page data',
+        });
+      }
+    }
+  }
+
+  static async getMonetizationStatus(req: AuthRequest, res: Response) {
+    try {
+      const { pageId } = req.params;
+      const userId = req.user!.id;
+
+      const { page } = await WorkspaceService.getPage(userId, pageId, 'accounts:read');
+
+      const status = await FacebookService.getMonetizationStatus(page.pageId, page.accessToken);
 
       res.json({
         success: true,
@@ -146,34 +277,105 @@ export class FacebookController {
     }
   }
 
-  static async updatePageInfo(req: AuthRequest, res: Response) {
+  static async getMonetizationHistory(req: AuthRequest, res: Response) {
+    try {
+      const { days = '90' } = req.query;
+
+      const parsedDays = parseInt(days as string);
+      if (isNaN(parsedDays) || parsedDays < 1 || parsedDays > 365) {
+        throw new ValidationError('days must be between 1 and 365');
+      }
+
+      const { page } = await WorkspaceService.getPage(req.user!.id, req.params.pageId, 'accounts:read', req.apiKey?.workspaceId);
+
+      const history = await MonetizationService.getHistory(page, parsedDays);
+
+      res.json({
+        success: true,
+        data: history,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve monetization history',
+        });
+      }
+    }
+  }
+
+  static async getAvailablePages(req: AuthRequest, res: Response) {
     try {
       const { accountId } = req.params;
-      const { pageId, pageName } = req.body;
       const userId = req.user!.id;
 
-      const account = await FacebookAccount.findOne({
-        where: { id: accountId, userId },
-      });
+      const account = await WorkspaceService.getAccount(userId, accountId, 'accounts:manage');
+
+      const [pages, selectedPages] = await Promise.all([
+        FacebookService.getManagedPages(account.facebookId, account.accessToken),
+        FacebookService.getActivePages(account.id),
+      ]);
+      const selectedIds = selectedPages.map((page) => page.pageId);
 
-      if (!account) {
-        throw new NotFoundError('Account not found');
+      res.json({
+        success: true,
+        data: pages.map((page) => ({
+          id: page.id,
+          name: page.name,
+          category: page.category,
+          tasks: page.tasks || [],
+          selected: selectedIds.includes(page.id),
+        })),
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve Facebook pages',
+        });
       }
+    }
+  }
 
-      const pageAccessToken = await FacebookService.getPageAccessToken(
-        account.facebookId,
-        account.accessToken,
-        pageId
-      );
+  static async selectPages(req: AuthRequest, res: Response) {
+    try {
+      const { accountId } = req.params;
+      const { pageIds } = req.body;
+      const userId = req.user!.id;
+
+      const account = await WorkspaceService.getAccount(userId, accountId, 'accounts:manage');
 
-      account.pageId = pageId;
-      account.pageName = pageName;
-      account.pageAccessToken = pageAccessToken;
-      await account.save();
+      const before = {
+        pages: (await FacebookService.getActivePages(account.id)).map((page) => page.pageId),
+      };
+
+      const pages = await FacebookService.selectPages(account, pageIds);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'facebook_account.pages_select',
+        targetType: 'FacebookAccount',
+        targetId: account.id,
+        workspaceId: account.workspaceId,
+        before,
+        after: {
+          pages: pages!.map((page) => page.pageId),
+          permissions: account.permissions,
+        },
+      });
 
       res.json({
         success: true,
-        data: account,
+        data: pages,
       });
     } catch (error: any) {
       if (error instanceof AppError) {
@@ -184,7 +386,7 @@ export class FacebookController {
       } else {
         res.status(500).json({
           success: false,
-          error: 'Failed to update page information',
+          error: 'Failed to select Facebook pages',
         });
       }
     }
@@ -0,0 +1,145 @@
+import { Response } from 'express';
+import { AuthRequest, getAuditActor } from '../middleware/auth';
+import { PrivacyService } from '../services/PrivacyService';
+import { AuditService } from '../services/AuditService';
+import { AppError } from '../errors';
+
+export class PrivacyController {
+  static async requestExport(req: AuthRequest, res: Response) {
+    try {
+      const dataExport = await PrivacyService.requestExport(req.user!.id);
+
+      res.status(202).json({
+        success: true,
+        data: dataExport,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to request data export',
+        });
+      }
+    }
+  }
+
+  static async getExports(req: AuthRequest, res: Response) {
+    try {
+      const exports = await PrivacyService.listExports(req.user!.id);
+
+      res.json({
+        success: true,
+        data: exports,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve data exports',
+        });
+      }
+    }
+  }
+
+  static async downloadExport(req: AuthRequest, res: Response) {
+    try {
+      const { exportId } = req.params;
+
+      const { filePath, fileName } = await PrivacyService.getExportFile(req.user!.id, exportId);
+
+      res.download(filePath, fileName, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({
+            success: false,
+            error: 'Export file is no longer available',
+          });
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to download data export',
+        });
+      }
+    }
+  }
+
+  static async requestDeletion(req: AuthRequest, res: Response) {
+    try {
+      const { password, confirm } = req.body;
+
+      const user = await PrivacyService.requestDeletion(req.user!, { password, confirm });
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'user.deletion_request',
+        targetType: 'User',
+        targetId: user.id,
+        after: { deletionScheduledFor: user.deletionScheduledFor },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          deletionScheduledFor: user.deletionScheduledFor,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to schedule account deletion',
+        });
+      }
+    }
+  }
+
+  static async cancelDeletion(req: AuthRequest, res: Response) {
+    try {
+      const user = await PrivacyService.cancelDeletion(req.user!);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'user.deletion_cancel',
+        targetType: 'User',
+        targetId: user.id,
+      });
+
+      res.json({
+        success: true,
+        message: 'Account deletion cancelled',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to cancel account deletion',
+        });
+      }
+    }
+  }
+}
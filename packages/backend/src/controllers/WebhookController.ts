@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { AppError, ValidationError } from '../errors';
+import { WebhookService } from '../services/WebhookService';
+
+export class WebhookController {
+  static async verifyFacebook(req: Request, res: Response) {
+    try {
+      const challenge = WebhookService.verifySubscription(
+        req.query['hub.mode'] as string | undefined,
+        req.query['hub.verify_token'] as string | undefined,
+        req.query['hub.challenge'] as string | undefined
+      );
+
+      res.status(200).type('text/plain').send(challenge);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to verify webhook subscription',
+        });
+      }
+    }
+  }
+
+  static async receiveFacebook(req: Request, res: Response) {
+    try {
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      WebhookService.verifySignature(rawBody, req.get('x-hub-signature-256'));
+
+      let payload: any;
+      try {
+        payload = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        throw new ValidationError('Invalid webhook payload');
+      }
+
+      const events = await WebhookService.receive('facebook', payload);
+
+      // Acknowledge before processing so slow Graph calls don't make
+      // Facebook time out and redeliver.
+      res.status(200).json({
+        success: true,
+        received: events.length,
+      });
+
+      for (const event of events) {
+        await WebhookService.process(event);
+      }
+    } catch (error: any) {
+      if (res.headersSent) {
+        console.error('Webhook processing error:', error.message);
+      } else if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to receive webhook',
+        });
+      }
+    }
+  }
+}
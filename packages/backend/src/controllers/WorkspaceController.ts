@@ -0,0 +1,191 @@
+import { Response } from 'express';
+import { AuthRequest, getAuditActor } from '../middleware/auth';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { AuditService } from '../services/AuditService';
+import { AppError } from '../errors';
+
+export class WorkspaceController {
+  static async getWorkspaces(req: AuthRequest, res: Response) {
+    try {
+      const workspaces = await WorkspaceService.listWorkspaces(req.user!.id);
+
+      res.json({
+        success: true,
+        data: workspaces,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve workspaces',
+        });
+      }
+    }
+  }
+
+  static async createWorkspace(req: AuthRequest, res: Response) {
+    try {
+      const { name } = req.body;
+
+      const workspace = await WorkspaceService.createWorkspace(req.user!.id, name);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'workspace.create',
+        targetType: 'Workspace',
+        targetId: workspace.id,
+        workspaceId: workspace.id,
+        after: { name: workspace.name },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: workspace,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to create workspace',
+        });
+      }
+    }
+  }
+
+  static async getMembers(req: AuthRequest, res: Response) {
+    try {
+      const { workspaceId } = req.params;
+
+      const members = await WorkspaceService.listMembers(req.user!.id, workspaceId);
+
+      res.json({
+        success: true,
+        data: members,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve workspace members',
+        });
+      }
+    }
+  }
+
+  static async addMember(req: AuthRequest, res: Response) {
+    try {
+      const { workspaceId } = req.params;
+      const { email, role } = req.body;
+
+      const member = await WorkspaceService.addMember(req.user!.id, workspaceId, email, role);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'workspace_member.add',
+        targetType: 'WorkspaceMember',
+        targetId: member.id,
+        workspaceId,
+        after: { userId: member.userId, email, role: member.role },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: member,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to add workspace member',
+        });
+      }
+    }
+  }
+
+  static async updateMember(req: AuthRequest, res: Response) {
+    try {
+      const { workspaceId, memberId } = req.params;
+      const { role } = req.body;
+
+      const { member, previousRole } = await WorkspaceService.updateMemberRole(req.user!.id, workspaceId, memberId, role);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'workspace_member.role_change',
+        targetType: 'WorkspaceMember',
+        targetId: member.id,
+        workspaceId,
+        before: { role: previousRole },
+        after: { role: member.role },
+        metadata: { userId: member.userId },
+      });
+
+      res.json({
+        success: true,
+        data: member,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update workspace member',
+        });
+      }
+    }
+  }
+
+  static async removeMember(req: AuthRequest, res: Response) {
+    try {
+      const { workspaceId, memberId } = req.params;
+
+      const member = await WorkspaceService.removeMember(req.user!.id, workspaceId, memberId);
+
+      await AuditService.record(getAuditActor(req), {
+        action: 'workspace_member.remove',
+        targetType: 'WorkspaceMember',
+        targetId: member.id,
+        workspaceId,
+        before: { userId: member.userId, role: member.role },
+      });
+
+      res.json({
+        success: true,
+        message: 'Member removed',
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to remove workspace member',
+        });
+      }
+    }
+  }
+}
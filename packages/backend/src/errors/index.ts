@@ -50,6 +50,13 @@ export class ConflictError extends AppError {
   }
 }
 
+export class AccountLockedError extends AppError {
+  constructor(message: string = 'Account is temporarily locked', context?: Record<string, any>) {
+    super(message, 423, true, context);
+    Object.setPrototypeOf(this, AccountLockedError.prototype);
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(message: string = 'Rate limit exceeded', context?: Record<string, any>) {
     super(message, 429, true, context);
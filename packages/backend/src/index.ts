@@ -7,11 +7,23 @@ import rateLimit from 'express-rate-limit';
 import sequelize, { connectDatabaseWithRetry, syncDatabase, checkDatabaseHealth } from './config/database';
 import { connectRedisWithRetry, checkRedisHealth } from './config/redis';
 import routes from './routes';
+import webhookRoutes from './routes/webhooks';
 import { startScheduledPostsJob } from './jobs/scheduledPosts';
+import { startDataExportsJob } from './jobs/dataExports';
+import { startAccountDeletionsJob } from './jobs/accountDeletions';
+import { startFacebookTokensJob } from './jobs/facebookTokens';
+import { startInsightsJob } from './jobs/insights';
+import { startWebhookEventsJob } from './jobs/webhookEvents';
+import { startCommentsJob } from './jobs/comments';
+import { startMonetizationJob } from './jobs/monetization';
 import { AppError } from './errors';
 import { sanitizeError, isProduction } from './utils/errorHelpers';
+import { installConsoleRedaction, redactSecrets } from './utils/redact';
+import { redactResponses } from './middleware/redaction';
+import { getTokenEncryptionConfig } from './config/encryption';
 
 dotenv.config();
+installConsoleRedaction();
 
 const app: Express = express();
 const PORT = process.env.PORT || 3001;
@@ -21,7 +33,13 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
 }));
-app.use(morgan('combined'));
+app.use(morgan('combined', { stream: { write: (line: string) => process.stdout.write(redactSecrets(line)) } }));
+app.use(redactResponses);
+
+// Webhooks are mounted ahead of the JSON parser, which would consume the raw
+// body their signatures cover, and of the API rate limiter.
+app.use('/api/webhooks', webhookRoutes);
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -129,11 +147,19 @@ const startServer = async () => {
   try {
     console.log('🚀 Starting server...');
     
+    getTokenEncryptionConfig();
     await connectDatabaseWithRetry(5);
     await syncDatabase();
     await connectRedisWithRetry(5);
 
     startScheduledPostsJob();
+    startDataExportsJob();
+    startAccountDeletionsJob();
+    startFacebookTokensJob();
+    startInsightsJob();
+    startWebhookEventsJob();
+    startCommentsJob();
+    startMonetizationJob();
 
     app.listen(PORT, () => {
       console.log(`✅ Server running on port ${PORT}`);
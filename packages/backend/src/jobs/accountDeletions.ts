@@ -0,0 +1,22 @@
+import cron from 'node-cron';
+import { PrivacyService } from '../services/PrivacyService';
+
+export const startAccountDeletionsJob = () => {
+  cron.schedule('0 * * * *', async () => {
+    console.log(`[${new Date().toISOString()}] Checking for accounts due for deletion...`);
+
+    try {
+      const processed = await PrivacyService.processDueDeletions();
+
+      console.log(`[${new Date().toISOString()}] Account deletions job completed (${processed} accounts)`);
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] Account deletions job error:`, {
+        message: error.message,
+        name: error.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  console.log('Account deletions job started (runs hourly)');
+};
@@ -0,0 +1,25 @@
+import cron from 'node-cron';
+import { CommentService } from '../services/CommentService';
+
+export const startCommentsJob = () => {
+  cron.schedule('*/15 * * * *', async () => {
+    console.log(`[${new Date().toISOString()}] Syncing comments...`);
+
+    try {
+      const counts = await CommentService.syncAll();
+
+      console.log(
+        `[${new Date().toISOString()}] Comments job completed ` +
+          `(${counts.created} new, ${counts.updated} updated, ${counts.failed} failed across ${counts.pages} pages)`
+      );
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] Comments job error:`, {
+        message: error.message,
+        name: error.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  console.log('Comments job started (runs every 15 minutes)');
+};
@@ -0,0 +1,23 @@
+import cron from 'node-cron';
+import { PrivacyService } from '../services/PrivacyService';
+
+export const startDataExportsJob = () => {
+  cron.schedule('* * * * *', async () => {
+    try {
+      const built = await PrivacyService.processPendingExports();
+      const expired = await PrivacyService.cleanupExpiredExports();
+
+      if (built > 0 || expired > 0) {
+        console.log(`[${new Date().toISOString()}] Data exports job: ${built} built, ${expired} expired`);
+      }
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] Data exports job error:`, {
+        message: error.message,
+        name: error.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  console.log('Data exports job started (runs every minute)');
+};
@@ -0,0 +1,25 @@
+import cron from 'node-cron';
+import { FacebookTokenService } from '../services/FacebookTokenService';
+
+export const startFacebookTokensJob = () => {
+  cron.schedule('0 4 * * *', async () => {
+    console.log(`[${new Date().toISOString()}] Checking Facebook access tokens...`);
+
+    try {
+      const counts = await FacebookTokenService.checkAllAccounts();
+
+      console.log(
+        `[${new Date().toISOString()}] Facebook tokens job completed ` +
+          `(${counts.valid} valid, ${counts.expiring} expiring, ${counts.reconnect} need reconnection, ${counts.failed} failed)`
+      );
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] Facebook tokens job error:`, {
+        message: error.message,
+        name: error.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  console.log('Facebook tokens job started (runs daily at 04:00)');
+};
@@ -0,0 +1,25 @@
+import cron from 'node-cron';
+import { InsightsService } from '../services/InsightsService';
+
+export const startInsightsJob = () => {
+  cron.schedule('0 2 * * *', async () => {
+    console.log(`[${new Date().toISOString()}] Collecting content insights...`);
+
+    try {
+      const counts = await InsightsService.collectAll();
+
+      console.log(
+        `[${new Date().toISOString()}] Insights job completed ` +
+          `(${counts.collected} collected, ${counts.failed} failed across ${counts.pages} pages)`
+      );
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] Insights job error:`, {
+        message: error.message,
+        name: error.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  console.log('Insights job started (runs daily at 02:00)');
+};
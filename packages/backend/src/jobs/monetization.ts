@@ -0,0 +1,25 @@
+import cron from 'node-cron';
+import { MonetizationService } from '../services/MonetizationService';
+
+export const startMonetizationJob = () => {
+  cron.schedule('0 5 * * *', async () => {
+    console.log(`[${new Date().toISOString()}] Checking monetization eligibility...`);
+
+    try {
+      const counts = await MonetizationService.checkAll();
+
+      console.log(
+        `[${new Date().toISOString()}] Monetization job completed ` +
+          `(${counts.recorded} recorded, ${counts.changed} changed, ${counts.failed} failed across ${counts.pages} pages)`
+      );
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] Monetization job error:`, {
+        message: error.message,
+        name: error.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  console.log('Monetization job started (runs daily at 05:00)');
+};
@@ -2,30 +2,16 @@ import cron from 'node-cron';
 import { ScheduledPost } from '../models';
 import { AutopilotService } from '../services/AutopilotService';
 import { Op } from 'sequelize';
-import { AppError, ExternalServiceError, DatabaseError } from '../errors';
-import { sleep } from '../utils/errorHelpers';
+import { ConflictError, RateLimitError } from '../errors';
+
+const MAX_ATTEMPTS = 3;
 
 export const startScheduledPostsJob = () => {
   cron.schedule('*/5 * * * *', async () => {
     console.log(`[${new Date().toISOString()}] Checking for scheduled posts to publish...`);
 
     try {
-      const now = new Date();
-      const posts = await ScheduledPost.findAll({
-        where: {
-          status: 'pending',
-          scheduledFor: {
-            [Op.lte]: now,
-          },
-        },
-        limit: 10,
-      });
-
-      console.log(`Found ${posts.length} pending posts to publish`);
-
-      for (const post of posts) {
-        await processScheduledPost(post);
-      }
+      await publishDuePosts();
 
       console.log(`[${new Date().toISOString()}] Scheduled posts job completed`);
     } catch (error: any) {
@@ -40,73 +26,126 @@ export const startScheduledPostsJob = () => {
   console.log('Scheduled posts job started (runs every 5 minutes)');
 };
 
-async function processScheduledPost(post: ScheduledPost): Promise<void> {
-  const maxRetries = 3;
-  let attempt = 0;
-  let lastError: any;
+/**
+ * Publishes pending posts that are due, up to 10 per run.
+ */
+export async function publishDuePosts(): Promise<void> {
+  const posts = await ScheduledPost.findAll({
+    where: {
+      status: 'pending',
+      scheduledFor: {
+        [Op.lte]: new Date(),
+      },
+    },
+    limit: 10,
+  });
 
-  console.log(`Processing scheduled post ${post.id} (attempt ${attempt + 1}/${maxRetries})`);
+  console.log(`Found ${posts.length} pending posts to publish`);
 
-  while (attempt < maxRetries) {
-    try {
-      post.status = 'processing';
-      post.retryCount = (post.retryCount || 0) + 1;
-      post.lastRetryAt = new Date();
+  for (const post of posts) {
+    await processScheduledPost(post);
+  }
+}
+
+/**
+ * Publishes one post and settles its status. A call Facebook refused for its
+ * rate limit published nothing, so the post is queued for the next run until
+ * MAX_ATTEMPTS is reached. Any other failure is final: after a timeout or a
+ * server error the post may have been published anyway, and publishing it
+ * again would duplicate it.
+ */
+async function processScheduledPost(post: ScheduledPost): Promise<void> {
+  console.log(`Processing scheduled post ${post.id} (attempt ${(post.retryCount || 0) + 1}/${MAX_ATTEMPTS})`);
+
+  try {
+    await AutopilotService.executeScheduledPost(post.id);
 
-      try {
-        await post.save();
-      } catch (saveError: any) {
-        console.error(`Failed to update post status to processing: ${post.id}`, saveError.message);
-        throw new DatabaseError('Failed to update post status', { postId: post.id });
-      }
+    console.log(`✅ Successfully published scheduled post: ${post.id}`);
+    return;
+  } catch (error: any) {
+    // Another run claimed the post first.
+    if (error instanceof ConflictError) {
+      return;
+    }
 
-      await AutopilotService.executeScheduledPost(post.id);
+    try {
+      await post.reload();
+    } catch (reloadError: any) {
+      console.error(`Failed to reload scheduled post ${post.id}:`, reloadError.message);
+    }
 
-      console.log(`✅ Successfully published scheduled post: ${post.id}`);
+    // The Graph scheduler deferred the call because the API budget is
+    // exhausted; the post goes back to the queue without using a retry.
+    if (error instanceof RateLimitError && error.context?.deferred) {
+      await deferScheduledPost(post, error);
       return;
+    }
 
-    } catch (error: any) {
-      lastError = error;
-      attempt++;
-
-      const isRateLimitError = error instanceof AppError && error.statusCode === 429;
-      const isTemporaryError = error instanceof ExternalServiceError || isRateLimitError;
-      const shouldRetry = attempt < maxRetries && isTemporaryError;
-
-      console.error(`❌ Failed to publish post ${post.id} (attempt ${attempt}/${maxRetries}):`, {
-        error: error.message,
-        errorType: error.constructor.name,
-        statusCode: error.statusCode,
-        shouldRetry,
-      });
+    const attempts = post.retryCount || 1;
+    const shouldRetry = error instanceof RateLimitError && attempts < MAX_ATTEMPTS;
 
-      if (shouldRetry) {
-        const backoffDelay = Math.min(1000 * Math.pow(2, attempt - 1), 30000);
-        console.log(`⏳ Retrying post ${post.id} in ${backoffDelay}ms...`);
-        await sleep(backoffDelay);
-      } else {
-        break;
-      }
+    console.error(`❌ Failed to publish post ${post.id} (attempt ${attempts}/${MAX_ATTEMPTS}):`, {
+      error: error.message,
+      errorType: error.constructor.name,
+      statusCode: error.statusCode,
+      shouldRetry,
+    });
+
+    if (shouldRetry) {
+      await requeueScheduledPost(post, error);
+    } else {
+      await failScheduledPost(post, error, attempts);
     }
   }
+}
+
+async function deferScheduledPost(post: ScheduledPost, error: RateLimitError): Promise<void> {
+  try {
+    post.status = 'pending';
+    post.retryCount = Math.max((post.retryCount || 1) - 1, 0);
+    post.metadata = {
+      ...post.metadata,
+      deferredAt: new Date().toISOString(),
+      deferredReason: error.message,
+    };
+    await post.save();
+
+    console.log(`⏸️ Deferred scheduled post ${post.id}: ${error.message}`);
+  } catch (saveError: any) {
+    console.error(`Failed to defer scheduled post ${post.id}:`, saveError.message);
+  }
+}
+
+async function requeueScheduledPost(post: ScheduledPost, error: RateLimitError): Promise<void> {
+  try {
+    post.status = 'pending';
+    post.errorMessage = error.message;
+    await post.save();
+
+    console.log(`⏳ Retrying post ${post.id} on the next run`);
+  } catch (saveError: any) {
+    console.error(`Failed to requeue scheduled post ${post.id}:`, saveError.message);
+  }
+}
 
+async function failScheduledPost(post: ScheduledPost, error: any, attempts: number): Promise<void> {
   try {
     post.status = 'failed';
-    post.errorMessage = lastError?.message || 'Unknown error occurred';
+    post.errorMessage = error?.message || 'Unknown error occurred';
     post.metadata = {
       ...post.metadata,
       failedAt: new Date().toISOString(),
-      attempts: attempt,
-      errorType: lastError?.constructor?.name,
+      attempts,
+      errorType: error?.constructor?.name,
     };
     await post.save();
 
-    console.error(`💀 Post ${post.id} permanently failed after ${attempt} attempts:`, post.errorMessage);
+    console.error(`💀 Post ${post.id} permanently failed after ${attempts} attempts:`, post.errorMessage);
   } catch (saveError: any) {
     console.error(`Failed to update post status to 'failed':`, {
       postId: post.id,
       saveError: saveError.message,
-      originalError: lastError?.message,
+      originalError: error?.message,
     });
   }
 }
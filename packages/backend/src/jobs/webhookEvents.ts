@@ -0,0 +1,27 @@
+import cron from 'node-cron';
+import { WebhookService } from '../services/WebhookService';
+
+export const startWebhookEventsJob = () => {
+  cron.schedule('* * * * *', async () => {
+    try {
+      const counts = await WebhookService.processPending();
+      const total = counts.processed + counts.ignored + counts.failed;
+
+      // Runs every minute; only log when there was something to do.
+      if (total > 0) {
+        console.log(
+          `[${new Date().toISOString()}] Webhook events job completed ` +
+            `(${counts.processed} processed, ${counts.ignored} ignored, ${counts.failed} failed)`
+        );
+      }
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] Webhook events job error:`, {
+        message: error.message,
+        name: error.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  console.log('Webhook events job started (runs every minute)');
+};
@@ -1,12 +1,42 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { User } from '../models';
-import { AuthenticationError, AuthorizationError } from '../errors';
+import { User, ApiKey } from '../models';
+import { AuthenticationError, AuthorizationError, ServiceUnavailableError } from '../errors';
+import { SessionService, SessionContext } from '../services/SessionService';
+import { ApiKeyService, ApiKeyScope } from '../services/ApiKeyService';
+import { AuditActor } from '../services/AuditService';
 
 export interface AuthRequest extends Request {
   user?: User;
+  sessionId?: string;
+  apiKey?: ApiKey;
+  apiKeyScope?: ApiKeyScope;
 }
 
+export const getRequestContext = (req: Request): SessionContext => ({
+  ip: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+export const getAuditActor = (req: AuthRequest): AuditActor => ({
+  ...getRequestContext(req),
+  userId: req.user?.id,
+  apiKeyId: req.apiKey?.id,
+});
+
+/**
+ * Lets `authenticate` accept an API key with the given scope on this route.
+ * Must come before `authenticate`; routes without it only accept session JWTs.
+ */
+export const allowApiKey = (scope: ApiKeyScope) => (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  req.apiKeyScope = scope;
+  next();
+};
+
 export const authenticate = async (
   req: AuthRequest,
   res: Response,
@@ -14,14 +44,42 @@ export const authenticate = async (
 ) => {
   try {
     const authHeader = req.headers.authorization;
-    const token = authHeader?.replace('Bearer ', '');
+    const token = req.get('x-api-key') || authHeader?.replace('Bearer ', '');
 
     if (!token) {
       throw new AuthenticationError('No token provided');
     }
 
+    if (ApiKeyService.isApiKey(token)) {
+      if (!req.apiKeyScope) {
+        throw new AuthorizationError('API keys cannot be used for this endpoint');
+      }
+
+      const { apiKey, user } = await ApiKeyService.authenticate(token, req.ip);
+
+      if (!ApiKeyService.hasScope(apiKey, req.apiKeyScope)) {
+        throw new AuthorizationError(`API key is missing the ${req.apiKeyScope} scope`);
+      }
+
+      if (!user.isActive) {
+        throw new AuthenticationError('Account is inactive');
+      }
+
+      req.user = user;
+      req.apiKey = apiKey;
+      return next();
+    }
+
     const secret = process.env.JWT_SECRET || 'secret';
-    const decoded = jwt.verify(token, secret) as { userId: string };
+    const decoded = jwt.verify(token, secret) as { userId: string; sid?: string; type?: string };
+
+    if (decoded.type === 'mfa_pending') {
+      throw new AuthenticationError('Two-factor verification required');
+    }
+
+    if (!decoded.sid || !(await SessionService.isSessionActive(decoded.sid, decoded.userId))) {
+      throw new AuthenticationError('Session has expired or been revoked');
+    }
     
     const user = await User.findByPk(decoded.userId);
 
@@ -33,18 +91,27 @@ export const authenticate = async (
       throw new AuthenticationError('Account is inactive');
     }
 
+    await SessionService.touchSession(decoded.sid);
+
     req.user = user;
+    req.sessionId = decoded.sid;
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      return res.status(401).json({ success: false, error: 'Invalid token' });
-    }
     if (error instanceof jwt.TokenExpiredError) {
       return res.status(401).json({ success: false, error: 'Token expired' });
     }
+    if (error instanceof jwt.JsonWebTokenError) {
+      return res.status(401).json({ success: false, error: 'Invalid token' });
+    }
     if (error instanceof AuthenticationError) {
       return res.status(401).json({ success: false, error: error.message });
     }
+    if (error instanceof AuthorizationError) {
+      return res.status(403).json({ success: false, error: error.message });
+    }
+    if (error instanceof ServiceUnavailableError) {
+      return res.status(503).json({ success: false, error: error.message });
+    }
     return res.status(401).json({ success: false, error: 'Authentication failed' });
   }
 };
@@ -59,3 +126,14 @@ export const requireAdmin = (
   }
   next();
 };
+
+export const requireVerifiedEmail = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user || !req.user.emailVerified) {
+    throw new AuthorizationError('Please verify your email address first');
+  }
+  next();
+};
@@ -0,0 +1,12 @@
+import { Request, Response, NextFunction } from 'express';
+import { redactValue } from '../utils/redact';
+
+/**
+ * Strips Facebook tokens from every JSON response, including error details,
+ * as a backstop for the models' own toJSON.
+ */
+export const redactResponses = (req: Request, res: Response, next: NextFunction) => {
+  const json = res.json.bind(res);
+  res.json = (body?: any) => json(redactValue(body));
+  next();
+};
@@ -0,0 +1,1250 @@
+import express, { Express, NextFunction, Request, Response, Router } from 'express';
+import crypto from 'crypto';
+import { Server } from 'http';
+
+/**
+ * Local stand-in for the parts of the Facebook Graph API the platform uses:
+ * OAuth (dialog, code and long-lived token exchange, debug_token), /me, page
+ * listing, paginated page posts, videos and reels, page and video insights,
+ * batch requests, editing and deleting posts, and publishing (feed posts,
+ * photos, multi-photo posts, videos with resumable uploads, reels and
+ * stories), plus the Instagram account linked to a page: its media, media
+ * insights and container-based publishing. Comments on posts and media can
+ * be listed, replied to, hidden and deleted.
+ * State lives in memory and is seeded with one user who manages two pages,
+ * the first of them linked to an Instagram account.
+ *
+ * Failures are scripted through the control API under /__mock:
+ *
+ *   POST   /__mock/failures  { "path": "/photos", "type": "rate_limit", "times": 2 }
+ *   GET    /__mock/failures
+ *   DELETE /__mock/failures
+ *   GET    /__mock/requests
+ *   POST   /__mock/tokens/expire  { "token": "...", "inSeconds": 3600 }
+ *   POST   /__mock/usage  { "app": { "call_count": 80 }, "pages": { "<page-id>": { "call_count": 96 } } }
+ *   POST   /__mock/reset
+ *   POST   /__mock/webhooks  { "url": "...", "pageId": "...", "value": { "item": "comment", ... } }
+ *   POST   /__mock/pages/<page-id>  { "followersCount": 5200, "eligibleForBrandedContent": true, "isPublished": false }
+ *
+ * `type` is one of `unauthorized` (401, OAuthException 190), `rate_limit`
+ * (429, code 4), `server_error` (500 unless `status` says otherwise, code 2)
+ * or `timeout` (the request is held for `delayMs` and then dropped). `path`
+ * is a substring of the request path, or a regular expression when wrapped in
+ * slashes (e.g. "/\\/insights$/"). `times` defaults to 1; use 0 to fail every
+ * matching request until the failures are cleared.
+ *
+ * Issued user tokens are tracked so debug_token reports their expiry.
+ * /__mock/tokens/expire moves the expiry of one token (or of all tokens when
+ * `token` is omitted) to `inSeconds` from now, or with `invalidate: true`
+ * marks it invalid as if the user removed the app. Tokens the mock did not
+ * issue are reported as valid for 60 days.
+ *
+ * Every Graph response reports the scripted usage in `x-app-usage` and, for
+ * paths under a page with scripted usage, `x-business-use-case-usage`
+ * (percentages, plus `estimated_time_to_regain_access` in minutes).
+ *
+ * /__mock/webhooks delivers a page feed webhook to `url` the way Facebook
+ * does, signed with `secret` (default FACEBOOK_APP_SECRET) in
+ * X-Hub-Signature-256, and reports the receiver's response.
+ *
+ * /__mock/pages/<page-id> changes the audience and state a page reports
+ * (fanCount, followersCount, eligibleForBrandedContent, isPublished,
+ * verificationStatus), e.g. to trigger monetization alerts.
+ *
+ * Run with `npm run mock:graph` and set GRAPH_API_BASE_URL to its address.
+ */
+
+export type MockFailureType = 'unauthorized' | 'rate_limit' | 'server_error' | 'timeout';
+
+export interface MockFailure {
+  id: string;
+  type: MockFailureType;
+  path?: string;
+  method?: string;
+  status?: number;
+  times: number;
+  delayMs?: number;
+  hits: number;
+}
+
+export interface MockPage {
+  id: string;
+  name: string;
+  category: string;
+  accessToken: string;
+  fanCount: number;
+  followersCount: number;
+  eligibleForBrandedContent: boolean;
+  isPublished: boolean;
+  verificationStatus: string;
+  instagram?: { id: string; username: string };
+}
+
+export interface MockInstagramMedia {
+  id: string;
+  instagramAccountId: string;
+  caption?: string;
+  mediaType: 'IMAGE' | 'VIDEO' | 'CAROUSEL_ALBUM';
+  productType: 'FEED' | 'REELS';
+  mediaUrl: string;
+  createdTime: string;
+}
+
+export interface MockInstagramContainer {
+  id: string;
+  instagramAccountId: string;
+  caption?: string;
+  mediaType: MockInstagramMedia['mediaType'];
+  productType: MockInstagramMedia['productType'];
+  mediaUrl: string;
+  isCarouselItem: boolean;
+  publishedMediaId?: string;
+}
+
+export interface MockPost {
+  id: string;
+  pageId: string;
+  message?: string;
+  type: 'status' | 'photo' | 'video' | 'link';
+  isReel?: boolean;
+  createdTime: string;
+  updatedTime?: string;
+  fullPicture?: string;
+}
+
+export interface MockComment {
+  id: string;
+  // Post or Instagram media the comment belongs to.
+  objectId: string;
+  parentId?: string;
+  platform: 'facebook' | 'instagram';
+  from: { id: string; name: string };
+  message: string;
+  createdTime: string;
+  isHidden: boolean;
+}
+
+export interface MockUpload {
+  videoId: string;
+  pageId: string;
+  kind: 'video' | 'reel' | 'story';
+  fileSize: number;
+  received: number;
+  fileUrl?: string;
+}
+
+export interface MockToken {
+  expiresAt: number;
+  dataAccessExpiresAt: number;
+  valid: boolean;
+}
+
+export interface MockUsage {
+  call_count: number;
+  total_cputime: number;
+  total_time: number;
+  type?: string;
+  estimated_time_to_regain_access?: number;
+}
+
+export interface MockGraphState {
+  user: { id: string; name: string; firstName: string; lastName: string; email: string };
+  pages: MockPage[];
+  posts: MockPost[];
+  instagramMedia: MockInstagramMedia[];
+  instagramContainers: Record<string, MockInstagramContainer>;
+  comments: MockComment[];
+  tokens: Record<string, MockToken>;
+  uploads: Record<string, MockUpload>;
+  failures: MockFailure[];
+  usage: { app: MockUsage; pages: Record<string, MockUsage> };
+  requests: { method: string; path: string; query: Record<string, any>; at: string }[];
+}
+
+const MAX_LOGGED_REQUESTS = 200;
+const SHORT_LIVED_TOKEN_SECONDS = 2 * 60 * 60;
+const LONG_LIVED_TOKEN_SECONDS = 60 * 24 * 60 * 60;
+const DATA_ACCESS_SECONDS = 90 * 24 * 60 * 60;
+const DEFAULT_TIMEOUT_DELAY_MS = 35000;
+const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024;
+
+const createInitialState = (): MockGraphState => {
+  const now = Date.now();
+  const day = 24 * 60 * 60 * 1000;
+
+  const pages: MockPage[] = [
+    {
+      id: '200000000000001',
+      name: 'Mock Cooking Page',
+      category: 'Food & Beverage',
+      accessToken: 'mock-page-token-200000000000001',
+      fanCount: 12500,
+      followersCount: 13100,
+      eligibleForBrandedContent: true,
+      isPublished: true,
+      verificationStatus: 'blue_verified',
+      instagram: { id: '170000000000001', username: 'mockcooking' },
+    },
+    {
+      id: '200000000000002',
+      name: 'Mock Travel Page',
+      category: 'Travel Company',
+      accessToken: 'mock-page-token-200000000000002',
+      fanCount: 830,
+      followersCount: 870,
+      eligibleForBrandedContent: false,
+      isPublished: true,
+      verificationStatus: 'not_verified',
+    },
+  ];
+
+  const posts: MockPost[] = [];
+  pages.forEach((page, pageIndex) => {
+    for (let i = 1; i <= 5; i++) {
+      posts.push({
+        id: `${page.id}_30000000000${pageIndex}${i}`,
+        pageId: page.id,
+        message: `${page.name} post #${i}`,
+        type: i % 3 === 0 ? 'video' : i % 2 === 0 ? 'photo' : 'status',
+        createdTime: new Date(now - i * day).toISOString(),
+        fullPicture: i % 2 === 0 ? `https://picsum.photos/seed/${page.id}${i}/600/400` : undefined,
+      });
+    }
+  });
+
+  const instagramMedia: MockInstagramMedia[] = [1, 2, 3, 4].map((i) => ({
+    id: `18000000000000${i}`,
+    instagramAccountId: '170000000000001',
+    caption: `Mock cooking Instagram post #${i}`,
+    mediaType: i === 2 ? 'CAROUSEL_ALBUM' : i === 3 ? 'VIDEO' : 'IMAGE',
+    productType: i === 3 ? 'REELS' : 'FEED',
+    mediaUrl: `https://picsum.photos/seed/ig${i}/1080/1080`,
+    createdTime: new Date(now - i * day - day / 2).toISOString(),
+  }));
+
+  const fan = (index: number) => ({ id: `10000000000010${index}`, name: `Mock Fan ${index}` });
+  const commentTime = (hours: number) => new Date(now - day + hours * 60 * 60 * 1000).toISOString();
+  const comments: MockComment[] = [
+    { objectId: posts[0].id, from: fan(1), message: 'Love this recipe, thanks!' },
+    { objectId: posts[0].id, from: fan(2), message: 'Tried it yesterday and it was terrible, worst dinner ever' },
+    { objectId: posts[0].id, from: fan(3), message: 'Get FREE followers now at www.followers-mock.example' },
+    { objectId: posts[1].id, from: fan(4), message: 'What can I use instead of butter?' },
+    { objectId: instagramMedia[0].id, from: fan(5), message: 'Looks delicious 😍', platform: 'instagram' as const },
+    { objectId: instagramMedia[0].id, from: fan(6), message: 'Check out my profile for cheap likes', platform: 'instagram' as const },
+  ].map((comment, index) => ({
+    id: `${comment.objectId.split('_').pop()}_5000${index + 1}`,
+    platform: 'facebook',
+    isHidden: false,
+    createdTime: commentTime(index + 1),
+    ...comment,
+  }));
+
+  comments.push({
+    id: `${posts[0].id.split('_')[1]}_50101`,
+    objectId: posts[0].id,
+    parentId: comments[0].id,
+    platform: 'facebook',
+    from: { id: pages[0].id, name: pages[0].name },
+    message: 'Glad you liked it!',
+    createdTime: commentTime(10),
+    isHidden: false,
+  });
+
+  return {
+    user: {
+      id: '100000000000001',
+      name: 'Mock User',
+      firstName: 'Mock',
+      lastName: 'User',
+      email: 'mock.user@example.com',
+    },
+    pages,
+    posts,
+    instagramMedia,
+    instagramContainers: {},
+    comments,
+    tokens: {},
+    uploads: {},
+    failures: [],
+    usage: { app: { call_count: 0, total_cputime: 0, total_time: 0 }, pages: {} },
+    requests: [],
+  };
+};
+
+const FAILURE_TYPES: MockFailureType[] = ['unauthorized', 'rate_limit', 'server_error', 'timeout'];
+
+const buildFailure = (input: Partial<MockFailure>): MockFailure => ({
+  id: crypto.randomUUID(),
+  type: input.type!,
+  path: input.path,
+  method: input.method ? String(input.method).toUpperCase() : undefined,
+  status: input.status,
+  times: input.times === undefined ? 1 : Number(input.times),
+  delayMs: input.delayMs,
+  hits: 0,
+});
+
+const graphError = (res: Response, status: number, message: string, code: number, extra: Record<string, any> = {}) => {
+  res.status(status).json({
+    error: {
+      message,
+      type: code === 190 ? 'OAuthException' : 'GraphMethodException',
+      code,
+      ...extra,
+      fbtrace_id: crypto.randomBytes(8).toString('hex'),
+    },
+  });
+};
+
+const matchesPath = (pattern: string | undefined, path: string): boolean => {
+  if (!pattern) {
+    return true;
+  }
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    return new RegExp(pattern.slice(1, -1)).test(path);
+  }
+  return path.includes(pattern);
+};
+
+/**
+ * Stable pseudo-random metric values so repeated syncs see the same numbers.
+ */
+const metricValue = (seed: string, max: number): number => {
+  const hash = crypto.createHash('sha256').update(seed).digest();
+  return hash.readUInt32BE(0) % max;
+};
+
+export const createMockGraphApp = (state: MockGraphState = createInitialState()) => {
+  const app: Express = express();
+  const timers = new Set<NodeJS.Timeout>();
+
+  const issueToken = (token: string, lifetimeSeconds: number): MockToken => {
+    const now = Math.floor(Date.now() / 1000);
+    state.tokens[token] = { expiresAt: now + lifetimeSeconds, dataAccessExpiresAt: now + DATA_ACCESS_SECONDS, valid: true };
+    return state.tokens[token];
+  };
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  const control = Router();
+
+  control.get('/failures', (req: Request, res: Response) => {
+    res.json({ data: state.failures });
+  });
+
+  control.post('/failures', (req: Request, res: Response) => {
+    if (!FAILURE_TYPES.includes(req.body.type)) {
+      return res.status(400).json({ error: `type must be one of: ${FAILURE_TYPES.join(', ')}` });
+    }
+
+    const failure = buildFailure(req.body);
+    state.failures.push(failure);
+
+    res.status(201).json({ data: failure });
+  });
+
+  control.delete('/failures', (req: Request, res: Response) => {
+    state.failures = [];
+    res.json({ success: true });
+  });
+
+  control.get('/requests', (req: Request, res: Response) => {
+    res.json({ data: state.requests });
+  });
+
+  control.post('/tokens/expire', (req: Request, res: Response) => {
+    const tokens = req.body.token ? [req.body.token as string] : Object.keys(state.tokens);
+    const expiresAt = Math.floor(Date.now() / 1000) + Number(req.body.inSeconds || 0);
+
+    for (const token of tokens) {
+      const entry = state.tokens[token] || issueToken(token, LONG_LIVED_TOKEN_SECONDS);
+      if (req.body.invalidate) {
+        entry.valid = false;
+      } else {
+        entry.expiresAt = expiresAt;
+      }
+    }
+
+    res.json({ data: tokens.map((token) => ({ token, ...state.tokens[token] })) });
+  });
+
+  control.post('/usage', (req: Request, res: Response) => {
+    if (req.body.app) {
+      state.usage.app = { ...state.usage.app, ...req.body.app };
+    }
+    for (const [pageId, usage] of Object.entries<Partial<MockUsage>>(req.body.pages || {})) {
+      state.usage.pages[pageId] = { call_count: 0, total_cputime: 0, total_time: 0, type: 'pages', ...usage };
+    }
+
+    res.json({ data: state.usage });
+  });
+
+  control.post('/reset', (req: Request, res: Response) => {
+    Object.assign(state, createInitialState());
+    res.json({ success: true });
+  });
+
+  control.post('/webhooks', async (req: Request, res: Response) => {
+    const { url, pageId, value, field = 'feed' } = req.body;
+    const secret = req.body.secret || process.env.FACEBOOK_APP_SECRET;
+
+    if (!url || !pageId || !value || !secret) {
+      return res.status(400).json({ error: 'url, pageId, value and a secret (or FACEBOOK_APP_SECRET) are required' });
+    }
+
+    const time = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({ object: 'page', entry: [{ id: pageId, time, changes: [{ field, value }] }] });
+    const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': `sha256=${signature}` },
+        body,
+      });
+
+      res.json({ data: { status: response.status, body: await response.text() } });
+    } catch (error: any) {
+      res.status(502).json({ error: `Webhook delivery failed: ${error.message}` });
+    }
+  });
+
+  const PAGE_STATE_FIELDS = ['fanCount', 'followersCount', 'eligibleForBrandedContent', 'isPublished', 'verificationStatus'] as const;
+
+  control.post('/pages/:pageId', (req: Request, res: Response) => {
+    const page = state.pages.find((candidate) => candidate.id === req.params.pageId);
+
+    if (!page) {
+      return res.status(404).json({ error: `No mock page ${req.params.pageId}` });
+    }
+
+    for (const field of PAGE_STATE_FIELDS) {
+      if (req.body[field] !== undefined) {
+        (page as any)[field] = req.body[field];
+      }
+    }
+
+    res.json({ data: page });
+  });
+
+  app.use('/__mock', control);
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    state.requests.push({ method: req.method, path: req.path, query: req.query, at: new Date().toISOString() });
+    if (state.requests.length > MAX_LOGGED_REQUESTS) {
+      state.requests.shift();
+    }
+
+    res.set('x-app-usage', JSON.stringify(state.usage.app));
+    const objectId = req.path.match(/^\/v\d+\.\d+\/(\d+)/)?.[1];
+    if (objectId && state.usage.pages[objectId]) {
+      res.set('x-business-use-case-usage', JSON.stringify({ [objectId]: [state.usage.pages[objectId]] }));
+    }
+
+    const failure = state.failures.find(
+      (candidate) =>
+        (!candidate.method || candidate.method === req.method) &&
+        matchesPath(candidate.path, req.path) &&
+        (candidate.times === 0 || candidate.hits < candidate.times)
+    );
+
+    if (!failure) {
+      return next();
+    }
+
+    failure.hits++;
+
+    switch (failure.type) {
+      case 'unauthorized':
+        return graphError(res, failure.status || 401, 'Error validating access token: Session has expired.', 190, {
+          error_subcode: 463,
+        });
+      case 'rate_limit':
+        res.set('x-app-usage', JSON.stringify({ call_count: 100, total_cputime: 100, total_time: 100 }));
+        res.set('retry-after', '1');
+        return graphError(res, failure.status || 429, '(#4) Application request limit reached', 4, {
+          is_transient: true,
+        });
+      case 'server_error':
+        return graphError(res, failure.status || 500, 'An unexpected error has occurred. Please retry your request later.', 2, {
+          is_transient: true,
+        });
+      case 'timeout': {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          req.socket.destroy();
+        }, failure.delayMs ?? DEFAULT_TIMEOUT_DELAY_MS);
+        timers.add(timer);
+        return;
+      }
+    }
+  });
+
+  const graph = Router();
+
+  const requireToken = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.query.access_token && !req.body?.access_token) {
+      return graphError(res, 400, 'An active access token must be used to query information about the current user.', 2500);
+    }
+    next();
+  };
+
+  // Batch calls: each sub-request is replayed against this server, with the
+  // batch's access token unless the sub-request carries its own.
+  graph.post('/', requireToken, async (req: Request, res: Response) => {
+    let items: Array<{ method?: string; relative_url?: string; body?: string }>;
+    try {
+      items = JSON.parse(req.body.batch || '');
+    } catch {
+      return graphError(res, 400, 'The parameter batch is required and must be a JSON array', 100);
+    }
+    if (!Array.isArray(items) || items.length > 50) {
+      return graphError(res, 400, 'batch must be an array of at most 50 requests', 100);
+    }
+
+    const base = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+    const token = (req.body.access_token || req.query.access_token) as string;
+
+    const responses = await Promise.all(
+      items.map(async (item) => {
+        const method = (item.method || 'GET').toUpperCase();
+        const url = new URL(`${base}/${(item.relative_url || '').replace(/^\//, '')}`);
+        const body = new URLSearchParams(item.body || '');
+
+        if (!url.searchParams.has('access_token') && !body.has('access_token')) {
+          (method === 'GET' || method === 'DELETE' ? url.searchParams : body).set('access_token', token);
+        }
+
+        const response = await fetch(url, {
+          method,
+          ...(method === 'POST' ? { body, headers: { 'Content-Type': 'application/x-www-form-urlencoded' } } : {}),
+        });
+        const headers: Array<{ name: string; value: string }> = [];
+        response.headers.forEach((value, name) => {
+          if (name.startsWith('x-') || name === 'retry-after') {
+            headers.push({ name, value });
+          }
+        });
+
+        return { code: response.status, headers, body: await response.text() };
+      })
+    );
+
+    res.json(responses);
+  });
+
+  graph.get('/dialog/oauth', (req: Request, res: Response) => {
+    const redirectUri = req.query.redirect_uri as string | undefined;
+
+    if (!redirectUri) {
+      return res.status(400).send('redirect_uri is required');
+    }
+
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', `mock-code-${crypto.randomBytes(8).toString('hex')}`);
+    if (req.query.state) {
+      target.searchParams.set('state', req.query.state as string);
+    }
+
+    res.redirect(target.toString());
+  });
+
+  graph.get('/oauth/access_token', (req: Request, res: Response) => {
+    if (req.query.grant_type === 'fb_exchange_token') {
+      if (!req.query.fb_exchange_token) {
+        return graphError(res, 400, 'Missing fb_exchange_token parameter', 100);
+      }
+      const accessToken = `mock-long-lived-token-${crypto.randomBytes(8).toString('hex')}`;
+      issueToken(accessToken, LONG_LIVED_TOKEN_SECONDS);
+      return res.json({
+        access_token: accessToken,
+        token_type: 'bearer',
+        expires_in: LONG_LIVED_TOKEN_SECONDS,
+      });
+    }
+
+    if (!req.query.code) {
+      return graphError(res, 400, 'Missing authorization code', 100);
+    }
+
+    const accessToken = `mock-user-token-${crypto.randomBytes(8).toString('hex')}`;
+    issueToken(accessToken, SHORT_LIVED_TOKEN_SECONDS);
+    res.json({
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: SHORT_LIVED_TOKEN_SECONDS,
+    });
+  });
+
+  graph.get('/debug_token', requireToken, (req: Request, res: Response) => {
+    const inputToken = req.query.input_token as string | undefined;
+
+    if (!inputToken) {
+      return graphError(res, 400, 'Missing input_token parameter', 100);
+    }
+
+    const token = state.tokens[inputToken] || issueToken(inputToken, LONG_LIVED_TOKEN_SECONDS);
+    const expired = token.expiresAt <= Math.floor(Date.now() / 1000);
+
+    res.json({
+      data: {
+        app_id: process.env.FACEBOOK_APP_ID || 'mock-app',
+        type: 'USER',
+        application: 'Mock App',
+        user_id: state.user.id,
+        is_valid: token.valid && !expired,
+        expires_at: token.expiresAt,
+        data_access_expires_at: token.dataAccessExpiresAt,
+        scopes: ['public_profile', 'email', 'pages_show_list', 'pages_read_engagement', 'pages_manage_posts'],
+        ...(token.valid && !expired
+          ? {}
+          : {
+              error: {
+                code: 190,
+                subcode: expired ? 463 : 460,
+                message: expired
+                  ? 'Error validating access token: Session has expired.'
+                  : 'Error validating access token: The session has been invalidated.',
+              },
+            }),
+      },
+    });
+  });
+
+  graph.get('/me', requireToken, (req: Request, res: Response) => {
+    res.json({
+      id: state.user.id,
+      name: state.user.name,
+      first_name: state.user.firstName,
+      last_name: state.user.lastName,
+      email: state.user.email,
+      picture: { data: { url: `https://picsum.photos/seed/${state.user.id}/100/100` } },
+    });
+  });
+
+  graph.get('/me/permissions', requireToken, (req: Request, res: Response) => {
+    res.json({
+      data: [
+        'public_profile',
+        'email',
+        'pages_show_list',
+        'pages_read_engagement',
+        'pages_manage_posts',
+        'pages_read_user_content',
+      ].map((permission) => ({ permission, status: 'granted' })),
+    });
+  });
+
+  graph.delete('/me/permissions', requireToken, (req: Request, res: Response) => {
+    const token = state.tokens[req.query.access_token as string];
+    if (token) {
+      token.valid = false;
+    }
+    res.json({ success: true });
+  });
+
+  graph.get('/:userId/accounts', requireToken, (req: Request, res: Response) => {
+    if (req.params.userId !== state.user.id && req.params.userId !== 'me') {
+      return graphError(res, 404, `Unsupported get request. Object with ID '${req.params.userId}' does not exist.`, 100);
+    }
+
+    const limit = parseInt((req.query.limit as string) || '25');
+    const offset = req.query.after ? parseInt(Buffer.from(req.query.after as string, 'base64').toString()) : 0;
+    const slice = state.pages.slice(offset, offset + limit);
+    const cursor = (position: number) => Buffer.from(String(position)).toString('base64');
+
+    res.json({
+      data: slice.map((page) => ({
+        id: page.id,
+        name: page.name,
+        category: page.category,
+        access_token: page.accessToken,
+        tasks: ['ANALYZE', 'ADVERTISE', 'MODERATE', 'CREATE_CONTENT', 'MANAGE'],
+        ...(page.instagram ? { instagram_business_account: page.instagram } : {}),
+      })),
+      paging: {
+        cursors: { before: cursor(offset), after: cursor(offset + slice.length) },
+        ...(offset + limit < state.pages.length ? { next: `${req.baseUrl}${req.path}?after=${cursor(offset + limit)}` } : {}),
+      },
+    });
+  });
+
+  graph.get('/:pageId/insights', requireToken, (req: Request, res: Response) => {
+    const metrics = String(req.query.metric || '').split(',').filter(Boolean);
+    const endTime = new Date();
+    endTime.setUTCHours(7, 0, 0, 0);
+
+    // One value per day of a since/until range, otherwise the latest day.
+    const day = 24 * 60 * 60 * 1000;
+    const days = req.query.since && req.query.until
+      ? Math.min(93, Math.max(1, Math.round((Number(req.query.until) - Number(req.query.since)) / 86400)))
+      : 1;
+    const endTimes = Array.from({ length: days }, (_, index) => new Date(endTime.getTime() - (days - 1 - index) * day));
+    // Video view time is reported in milliseconds.
+    const max = (metric: string) => (metric === 'page_video_view_time' ? 120000000 : 5000);
+
+    res.json({
+      data: metrics.map((metric) => ({
+        id: `${req.params.pageId}/insights/${metric}/day`,
+        name: metric,
+        period: 'day',
+        values: endTimes.map((time) => ({
+          value: metricValue(`${req.params.pageId}:${metric}${days > 1 ? `:${time.toISOString()}` : ''}`, max(metric)),
+          end_time: time.toISOString(),
+        })),
+      })),
+    });
+  });
+
+  /**
+   * Cursor-paginated listing of the items owned by the object in the path,
+   * newest first, optionally limited to items created after `since` (unix
+   * seconds).
+   */
+  const listEdge = <T extends { createdTime: string }>(
+    req: Request,
+    res: Response,
+    items: T[],
+    ownerOf: (item: T) => string,
+    format: (item: T) => Record<string, any>
+  ) => {
+    const limit = parseInt((req.query.limit as string) || '25');
+    const offset = req.query.after ? parseInt(Buffer.from(req.query.after as string, 'base64').toString()) : 0;
+    const since = req.query.since ? Number(req.query.since) * 1000 : 0;
+    const cursor = (position: number) => Buffer.from(String(position)).toString('base64');
+
+    const matching = items
+      .filter((item) => ownerOf(item) === req.params.ownerId && new Date(item.createdTime).getTime() >= since)
+      .sort((a, b) => b.createdTime.localeCompare(a.createdTime));
+    const slice = matching.slice(offset, offset + limit);
+
+    res.json({
+      data: slice.map(format),
+      paging: {
+        cursors: { before: cursor(offset), after: cursor(offset + slice.length) },
+        ...(offset + limit < matching.length ? { next: `${req.baseUrl}${req.path}?after=${cursor(offset + limit)}` } : {}),
+      },
+    });
+  };
+
+  const videoId = (post: MockPost) => post.id.split('_')[1];
+  const pageOf = (post: MockPost) => post.pageId;
+  // Videos are reached by their post id or their video id.
+  const findPost = (objectId: string) =>
+    state.posts.find((candidate) => candidate.id === objectId || (candidate.type === 'video' && videoId(candidate) === objectId));
+
+  graph.get('/:ownerId/posts', requireToken, (req: Request, res: Response) => {
+    listEdge(req, res, state.posts, pageOf, (post) => ({
+      id: post.id,
+      message: post.message,
+      created_time: post.createdTime,
+      updated_time: post.updatedTime || post.createdTime,
+      full_picture: post.fullPicture,
+      type: post.type,
+      permalink_url: `https://www.facebook.com/${post.id}`,
+    }));
+  });
+
+  const videoFields = (post: MockPost) => ({
+    id: videoId(post),
+    description: post.message,
+    created_time: post.createdTime,
+    updated_time: post.updatedTime || post.createdTime,
+    picture: `https://picsum.photos/seed/${videoId(post)}/320/180`,
+    permalink_url: `/${post.pageId}/videos/${videoId(post)}/`,
+    length: 42,
+  });
+
+  graph.get('/:ownerId/videos', requireToken, (req: Request, res: Response) => {
+    listEdge(req, res, state.posts.filter((post) => post.type === 'video' && !post.isReel), pageOf, videoFields);
+  });
+
+  graph.get('/:ownerId/video_reels', requireToken, (req: Request, res: Response) => {
+    listEdge(req, res, state.posts.filter((post) => post.isReel), pageOf, videoFields);
+  });
+
+  const instagramMediaFields = (media: MockInstagramMedia) => ({
+    id: media.id,
+    caption: media.caption,
+    media_type: media.mediaType,
+    media_product_type: media.productType,
+    media_url: media.mediaUrl,
+    ...(media.mediaType === 'VIDEO' ? { thumbnail_url: `https://picsum.photos/seed/${media.id}/320/568` } : {}),
+    permalink: `https://www.instagram.com/p/${Buffer.from(media.id).toString('base64url')}/`,
+    timestamp: media.createdTime,
+  });
+
+  graph.get('/:ownerId/media', requireToken, (req: Request, res: Response) => {
+    listEdge(req, res, state.instagramMedia, (media) => media.instagramAccountId, instagramMediaFields);
+  });
+
+  const instagramCommentFields = (comment: MockComment) => ({
+    id: comment.id,
+    text: comment.message,
+    username: comment.from.name,
+    from: { id: comment.from.id, username: comment.from.name },
+    timestamp: comment.createdTime,
+    hidden: comment.isHidden,
+  });
+
+  // Facebook lists replies alongside comments (filter=stream); Instagram
+  // lists top-level comments with their replies nested.
+  graph.get('/:ownerId/comments', requireToken, (req: Request, res: Response) => {
+    const isInstagram = state.instagramMedia.some((media) => media.id === req.params.ownerId);
+
+    if (isInstagram) {
+      return listEdge(req, res, state.comments.filter((comment) => !comment.parentId), (comment) => comment.objectId, (comment) => ({
+        ...instagramCommentFields(comment),
+        replies: { data: state.comments.filter((reply) => reply.parentId === comment.id).map(instagramCommentFields) },
+      }));
+    }
+
+    listEdge(req, res, state.comments, (comment) => comment.objectId, (comment) => ({
+      id: comment.id,
+      message: comment.message,
+      from: comment.from,
+      created_time: comment.createdTime,
+      ...(comment.parentId ? { parent: { id: comment.parentId } } : {}),
+      is_hidden: comment.isHidden,
+    }));
+  });
+
+  graph.get('/:videoId/video_insights', requireToken, (req: Request, res: Response) => {
+    const metrics = String(req.query.metric || 'total_video_views').split(',').filter(Boolean);
+
+    res.json({
+      data: metrics.map((metric) => ({
+        id: `${req.params.videoId}/video_insights/${metric}/lifetime`,
+        name: metric,
+        period: 'lifetime',
+        values: [{ value: metricValue(`${req.params.videoId}:${metric}`, 100000) }],
+      })),
+    });
+  });
+
+  const param = (req: Request, name: string) => (req.query[name] ?? req.body?.[name]) as any;
+
+  const findPage = (req: Request, res: Response): MockPage | undefined => {
+    const page = state.pages.find((candidate) => candidate.id === req.params.pageId);
+    if (!page) {
+      graphError(res, 404, `Unsupported post request. Object with ID '${req.params.pageId}' does not exist.`, 100);
+    }
+    return page;
+  };
+
+  const createPost = (page: MockPage, type: MockPost['type'], message?: string, fullPicture?: string): MockPost => {
+    const post: MockPost = {
+      id: `${page.id}_${Date.now()}${crypto.randomInt(1000)}`,
+      pageId: page.id,
+      message,
+      type,
+      createdTime: new Date().toISOString(),
+      fullPicture,
+    };
+    state.posts.push(post);
+    return post;
+  };
+
+  const newObjectId = () => `${Date.now()}${crypto.randomInt(1000)}`;
+
+  graph.post('/:pageId/photos', requireToken, (req: Request, res: Response) => {
+    const page = findPage(req, res);
+    if (!page) return;
+
+    if (String(param(req, 'published')) === 'false') {
+      return res.json({ id: newObjectId() });
+    }
+
+    const post = createPost(page, 'photo', param(req, 'caption') || param(req, 'message'), param(req, 'url'));
+    res.json({ id: post.id.split('_')[1], post_id: post.id });
+  });
+
+  graph.post('/:pageId/feed', requireToken, (req: Request, res: Response) => {
+    const page = findPage(req, res);
+    if (!page) return;
+
+    const attachedMedia = param(req, 'attached_media');
+    const link = param(req, 'link');
+    const type: MockPost['type'] = attachedMedia ? 'photo' : link ? 'link' : 'status';
+
+    res.json({ id: createPost(page, type, param(req, 'message')).id });
+  });
+
+  graph.post('/:pageId/videos', requireToken, (req: Request, res: Response) => {
+    const page = findPage(req, res);
+    if (!page) return;
+
+    const phase = param(req, 'upload_phase');
+
+    if (!phase) {
+      if (!param(req, 'file_url')) {
+        return graphError(res, 400, '(#100) file_url or an upload session is required', 100);
+      }
+      return res.json({ id: createPost(page, 'video', param(req, 'description')).id.split('_')[1] });
+    }
+
+    if (phase === 'start') {
+      const fileSize = Number(param(req, 'file_size'));
+      const upload: MockUpload = { videoId: newObjectId(), pageId: page.id, kind: 'video', fileSize, received: 0 };
+      const sessionId = newObjectId();
+      state.uploads[sessionId] = upload;
+
+      return res.json({
+        upload_session_id: sessionId,
+        video_id: upload.videoId,
+        start_offset: '0',
+        end_offset: String(Math.min(UPLOAD_CHUNK_BYTES, fileSize)),
+      });
+    }
+
+    const sessionId = param(req, 'upload_session_id');
+    const upload = state.uploads[sessionId];
+    if (!upload) {
+      return graphError(res, 400, '(#6000) Invalid upload session', 6000);
+    }
+
+    if (phase === 'transfer') {
+      // Chunks arrive as multipart bodies; the mock only advances the offsets.
+      req.resume();
+      req.on('end', () => {
+        upload.received = Math.min(upload.fileSize, Number(param(req, 'start_offset')) + UPLOAD_CHUNK_BYTES);
+        res.json({
+          start_offset: String(upload.received),
+          end_offset: String(Math.min(upload.received + UPLOAD_CHUNK_BYTES, upload.fileSize)),
+        });
+      });
+      return;
+    }
+
+    if (upload.received < upload.fileSize) {
+      return graphError(res, 400, '(#6001) The upload is incomplete', 6001);
+    }
+
+    delete state.uploads[sessionId];
+    const post = createPost(page, 'video', param(req, 'description'));
+    post.id = `${page.id}_${upload.videoId}`;
+    res.json({ success: true });
+  });
+
+  const hostedVideoUpload = (kind: 'reel' | 'story') => (req: Request, res: Response) => {
+    const page = findPage(req, res);
+    if (!page) return;
+
+    const phase = param(req, 'upload_phase');
+
+    if (phase === 'start') {
+      const videoId = newObjectId();
+      state.uploads[videoId] = { videoId, pageId: page.id, kind, fileSize: 0, received: 0 };
+      return res.json({
+        video_id: videoId,
+        upload_url: `${req.protocol}://${req.get('host')}/video-upload${req.baseUrl}/${videoId}`,
+      });
+    }
+
+    const upload = state.uploads[param(req, 'video_id')];
+    if (phase !== 'finish' || !upload || !upload.fileUrl) {
+      return graphError(res, 400, '(#100) The video has not been uploaded', 100);
+    }
+
+    delete state.uploads[upload.videoId];
+    const post = createPost(page, 'video', param(req, 'description'));
+    post.id = `${page.id}_${upload.videoId}`;
+    post.isReel = kind === 'reel';
+    res.json(kind === 'story' ? { success: true, post_id: post.id } : { success: true });
+  };
+
+  graph.post('/:pageId/video_reels', requireToken, hostedVideoUpload('reel'));
+  graph.post('/:pageId/video_stories', requireToken, hostedVideoUpload('story'));
+
+  graph.post('/:pageId/photo_stories', requireToken, (req: Request, res: Response) => {
+    const page = findPage(req, res);
+    if (!page) return;
+
+    if (!param(req, 'photo_id')) {
+      return graphError(res, 400, '(#100) photo_id is required', 100);
+    }
+
+    res.json({ success: true, post_id: createPost(page, 'photo').id });
+  });
+
+  const findInstagramAccount = (req: Request, res: Response) => {
+    const page = state.pages.find((candidate) => candidate.instagram?.id === req.params.ownerId);
+    if (!page) {
+      graphError(res, 404, `Unsupported post request. Object with ID '${req.params.ownerId}' does not exist.`, 100);
+    }
+    return page?.instagram;
+  };
+
+  // Containers are reported FINISHED as soon as they are created.
+  graph.post('/:ownerId/media', requireToken, (req: Request, res: Response) => {
+    const account = findInstagramAccount(req, res);
+    if (!account) return;
+
+    const mediaType = param(req, 'media_type');
+    const isCarouselItem = String(param(req, 'is_carousel_item')) === 'true';
+    const container: MockInstagramContainer = {
+      id: `17900000${newObjectId()}`,
+      instagramAccountId: account.id,
+      caption: param(req, 'caption'),
+      mediaType: 'IMAGE',
+      productType: 'FEED',
+      mediaUrl: param(req, 'image_url') || param(req, 'video_url'),
+      isCarouselItem,
+    };
+
+    if (mediaType === 'CAROUSEL') {
+      const children = String(param(req, 'children') || '').split(',').filter(Boolean);
+      if (children.length < 2 || children.some((id) => !state.instagramContainers[id]?.isCarouselItem)) {
+        return graphError(res, 400, 'A carousel needs at least two carousel item containers in children', 100);
+      }
+      container.mediaType = 'CAROUSEL_ALBUM';
+      container.mediaUrl = state.instagramContainers[children[0]].mediaUrl;
+    } else if (param(req, 'video_url')) {
+      if (!['REELS', 'VIDEO'].includes(mediaType) || (mediaType === 'VIDEO' && !isCarouselItem)) {
+        return graphError(res, 400, 'Videos need media_type REELS, or VIDEO for carousel items', 100);
+      }
+      container.mediaType = 'VIDEO';
+      container.productType = mediaType === 'REELS' ? 'REELS' : 'FEED';
+    } else if (!param(req, 'image_url')) {
+      return graphError(res, 400, 'One of image_url, video_url or children is required', 100);
+    }
+
+    state.instagramContainers[container.id] = container;
+    res.json({ id: container.id });
+  });
+
+  graph.post('/:ownerId/media_publish', requireToken, (req: Request, res: Response) => {
+    const account = findInstagramAccount(req, res);
+    if (!account) return;
+
+    const container = state.instagramContainers[param(req, 'creation_id')];
+    if (!container || container.instagramAccountId !== account.id || container.isCarouselItem) {
+      return graphError(res, 400, 'The media container does not exist or cannot be published', 9007);
+    }
+    if (container.publishedMediaId) {
+      return graphError(res, 400, 'The media container has already been published', 9007);
+    }
+
+    const media: MockInstagramMedia = {
+      id: `18${newObjectId()}`,
+      instagramAccountId: account.id,
+      caption: container.caption,
+      mediaType: container.mediaType,
+      productType: container.productType,
+      mediaUrl: container.mediaUrl,
+      createdTime: new Date().toISOString(),
+    };
+    state.instagramMedia.push(media);
+    container.publishedMediaId = media.id;
+
+    res.json({ id: media.id });
+  });
+
+  /**
+   * Comments written through the API are written as the page that owns the
+   * post or media.
+   */
+  const addComment = (res: Response, objectId: string, parent: MockComment | undefined, message: string) => {
+    const post = state.posts.find((candidate) => candidate.id === objectId);
+    const media = state.instagramMedia.find((candidate) => candidate.id === objectId);
+    const page = state.pages.find((candidate) => candidate.id === post?.pageId || candidate.instagram?.id === media?.instagramAccountId);
+
+    if (!page || !message) {
+      return graphError(res, 400, 'A message on an existing post, media or comment is required', 100);
+    }
+
+    const comment: MockComment = {
+      id: `${objectId.split('_').pop()}_5${newObjectId()}`,
+      objectId,
+      parentId: parent?.id,
+      platform: media ? 'instagram' : 'facebook',
+      from: media ? { id: page.instagram!.id, name: page.instagram!.username } : { id: page.id, name: page.name },
+      message,
+      createdTime: new Date().toISOString(),
+      isHidden: false,
+    };
+    state.comments.push(comment);
+    res.json({ id: comment.id });
+  };
+
+  graph.post('/:ownerId/comments', requireToken, (req: Request, res: Response) => {
+    const parent = state.comments.find((candidate) => candidate.id === req.params.ownerId && candidate.platform === 'facebook');
+    addComment(res, parent ? parent.objectId : req.params.ownerId, parent, param(req, 'message'));
+  });
+
+  graph.post('/:ownerId/replies', requireToken, (req: Request, res: Response) => {
+    const parent = state.comments.find((candidate) => candidate.id === req.params.ownerId && candidate.platform === 'instagram');
+    if (!parent) {
+      return graphError(res, 404, `Unsupported post request. Object with ID '${req.params.ownerId}' does not exist.`, 100);
+    }
+    addComment(res, parent.objectId, parent, param(req, 'message'));
+  });
+
+  graph.post('/:objectId', requireToken, (req: Request, res: Response) => {
+    const comment = state.comments.find((candidate) => candidate.id === req.params.objectId);
+
+    if (comment) {
+      const hidden = param(req, comment.platform === 'instagram' ? 'hide' : 'is_hidden');
+      if (hidden !== undefined) {
+        comment.isHidden = String(hidden) === 'true';
+      }
+      return res.json({ success: true });
+    }
+
+    const post = findPost(req.params.objectId);
+
+    if (!post) {
+      return graphError(res, 404, `Unsupported post request. Object with ID '${req.params.objectId}' does not exist.`, 100);
+    }
+
+    const message = param(req, post.type === 'video' ? 'description' : 'message');
+    if (message !== undefined) {
+      post.message = message;
+    }
+    post.updatedTime = new Date().toISOString();
+    res.json({ success: true });
+  });
+
+  graph.delete('/:objectId', requireToken, (req: Request, res: Response) => {
+    const commentIndex = state.comments.findIndex((candidate) => candidate.id === req.params.objectId);
+
+    if (commentIndex !== -1) {
+      const [comment] = state.comments.splice(commentIndex, 1);
+      state.comments = state.comments.filter((candidate) => candidate.parentId !== comment.id);
+      return res.json({ success: true });
+    }
+
+    const post = findPost(req.params.objectId);
+
+    if (!post) {
+      return graphError(res, 404, `Unsupported delete request. Object with ID '${req.params.objectId}' does not exist.`, 100);
+    }
+
+    state.posts.splice(state.posts.indexOf(post), 1);
+    res.json({ success: true });
+  });
+
+  graph.get('/:objectId', requireToken, (req: Request, res: Response) => {
+    const page = state.pages.find((candidate) => candidate.id === req.params.objectId);
+
+    if (page) {
+      return res.json({
+        id: page.id,
+        name: page.name,
+        category: page.category,
+        fan_count: page.fanCount,
+        followers_count: page.followersCount,
+        is_eligible_for_branded_content: page.eligibleForBrandedContent,
+        is_published: page.isPublished,
+        is_permanently_closed: false,
+        verification_status: page.verificationStatus,
+        ...(page.instagram ? { instagram_business_account: page.instagram } : {}),
+      });
+    }
+
+    const instagramAccount = state.pages.find((candidate) => candidate.instagram?.id === req.params.objectId)?.instagram;
+    if (instagramAccount) {
+      return res.json(instagramAccount);
+    }
+
+    const container = state.instagramContainers[req.params.objectId];
+    if (container) {
+      return res.json({ id: container.id, status_code: container.publishedMediaId ? 'PUBLISHED' : 'FINISHED' });
+    }
+
+    const media = state.instagramMedia.find((candidate) => candidate.id === req.params.objectId);
+    if (media) {
+      return res.json({
+        ...instagramMediaFields(media),
+        like_count: metricValue(`${media.id}:likes`, 900),
+        comments_count: metricValue(`${media.id}:comments`, 60),
+      });
+    }
+
+    const post = findPost(req.params.objectId);
+
+    if (post) {
+      const seed = `${post.id}:${post.updatedTime || ''}`;
+      return res.json({
+        id: req.params.objectId,
+        message: post.message,
+        created_time: post.createdTime,
+        full_picture: post.fullPicture,
+        type: post.type,
+        reactions: { data: [], summary: { total_count: metricValue(`${seed}:reactions`, 500) } },
+        comments: { data: [], summary: { total_count: metricValue(`${seed}:comments`, 80) } },
+        ...(post.type === 'video' ? {} : { shares: { count: metricValue(`${seed}:shares`, 40) } }),
+      });
+    }
+
+    graphError(res, 404, `Unsupported get request. Object with ID '${req.params.objectId}' does not exist.`, 100);
+  });
+
+  // Any Graph version works, so the server follows GRAPH_API_VERSION.
+  app.use(/^\/v\d+\.\d+/, graph);
+
+  // Stand-in for rupload.facebook.com, where reels and video stories are sent.
+  app.post('/video-upload/:version/:videoId', (req: Request, res: Response) => {
+    const upload = state.uploads[req.params.videoId];
+
+    if (!req.get('authorization')?.startsWith('OAuth ')) {
+      return graphError(res, 401, 'Invalid OAuth access token.', 190);
+    }
+    if (!upload || !req.get('file_url')) {
+      return graphError(res, 400, 'Invalid upload: a known video_id and a file_url header are required', 100);
+    }
+
+    upload.fileUrl = req.get('file_url');
+    res.json({ success: true });
+  });
+
+  app.use((req: Request, res: Response) => {
+    graphError(res, 400, `Unknown path components: ${req.path}`, 2500);
+  });
+
+  return {
+    app,
+    state,
+    clearTimers: () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    },
+  };
+};
+
+export const startMockGraphServer = (port: number): Promise<{ server: Server; state: MockGraphState; close: () => Promise<void> }> => {
+  const { app, state, clearTimers } = createMockGraphApp();
+
+  if (process.env.MOCK_GRAPH_FAILURES) {
+    const failures = JSON.parse(process.env.MOCK_GRAPH_FAILURES) as Partial<MockFailure>[];
+    state.failures.push(...failures.filter((failure) => FAILURE_TYPES.includes(failure.type!)).map(buildFailure));
+  }
+
+  return new Promise((resolve) => {
+    const server = app.listen(port, () => {
+      resolve({
+        server,
+        state,
+        close: () =>
+          new Promise<void>((done) => {
+            clearTimers();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+};
+
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_GRAPH_PORT || '4010');
+
+  startMockGraphServer(port).then(({ state }) => {
+    console.log(`🧪 Mock Graph API running on http://localhost:${port}`);
+    console.log(`   Set GRAPH_API_BASE_URL=http://localhost:${port} to use it`);
+    console.log(`   Mock user: ${state.user.email} (${state.user.id}), ${state.pages.length} pages`);
+    if (state.failures.length > 0) {
+      console.log(`   Scripted failures: ${state.failures.map((failure) => `${failure.type} ${failure.path || '*'}`).join(', ')}`);
+    }
+  });
+}
@@ -13,6 +13,9 @@ import { Content } from './Content';
 @Table({
   tableName: 'analytics',
   timestamps: true,
+  indexes: [
+    { unique: true, fields: ['contentId', 'date'] },
+  ],
 })
 export class Analytics extends Model {
   @Column({
@@ -0,0 +1,109 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from './User';
+import { Workspace } from './Workspace';
+
+@Table({
+  tableName: 'api_keys',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['keyHash'] },
+    { fields: ['userId'] },
+  ],
+})
+export class ApiKey extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => User)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  userId!: string;
+
+  @BelongsTo(() => User)
+  user!: User;
+
+  @ForeignKey(() => Workspace)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  workspaceId?: string;
+
+  @BelongsTo(() => Workspace)
+  workspace?: Workspace;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  name!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  prefix!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  keyHash!: string;
+
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: [],
+  })
+  scopes!: string[];
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  expiresAt?: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lastUsedAt?: Date;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  lastUsedIp?: string;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  revokedAt?: Date;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+
+  toJSON() {
+    const values = { ...this.get() };
+    delete values.keyHash;
+    return values;
+  }
+}
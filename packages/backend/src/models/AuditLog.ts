@@ -0,0 +1,128 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  BeforeUpdate,
+  BeforeDestroy,
+  BeforeBulkUpdate,
+  BeforeBulkDestroy,
+} from 'sequelize-typescript';
+import { User } from './User';
+import { Workspace } from './Workspace';
+
+/**
+ * Append-only: updates and deletes are rejected at the model level.
+ */
+@Table({
+  tableName: 'audit_logs',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    { fields: ['createdAt'] },
+    { fields: ['actorId'] },
+    { fields: ['workspaceId', 'createdAt'] },
+    { fields: ['targetType', 'targetId'] },
+    { fields: ['action'] },
+  ],
+})
+export class AuditLog extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => User)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  actorId?: string;
+
+  @BelongsTo(() => User, { constraints: false })
+  actor?: User;
+
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  apiKeyId?: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  action!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  targetType!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  targetId?: string;
+
+  @ForeignKey(() => Workspace)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  workspaceId?: string;
+
+  @BelongsTo(() => Workspace, { constraints: false })
+  workspace?: Workspace;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  before?: Record<string, any> | null;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  after?: Record<string, any> | null;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  ip?: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  userAgent?: string;
+
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: {},
+  })
+  metadata?: Record<string, any>;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @BeforeUpdate
+  @BeforeDestroy
+  static preventMutation() {
+    throw new Error('Audit log entries are append-only');
+  }
+
+  @BeforeBulkUpdate
+  @BeforeBulkDestroy
+  static preventBulkMutation() {
+    throw new Error('Audit log entries are append-only');
+  }
+}
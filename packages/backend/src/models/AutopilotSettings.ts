@@ -10,6 +10,7 @@ import {
 } from 'sequelize-typescript';
 import { User } from './User';
 import { FacebookAccount } from './FacebookAccount';
+import { FacebookPage } from './FacebookPage';
 
 @Table({
   tableName: 'autopilot_settings',
@@ -43,6 +44,16 @@ export class AutopilotSettings extends Model {
   @BelongsTo(() => FacebookAccount)
   facebookAccount!: FacebookAccount;
 
+  @ForeignKey(() => FacebookPage)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  facebookPageId?: string;
+
+  @BelongsTo(() => FacebookPage)
+  facebookPage?: FacebookPage;
+
   @Column({
     type: DataType.BOOLEAN,
     defaultValue: false,
@@ -0,0 +1,152 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { FacebookAccount } from './FacebookAccount';
+import { FacebookPage } from './FacebookPage';
+import { Content } from './Content';
+
+/**
+ * A comment on synced content, or a reply to one. Replies written by the
+ * page itself are stored too (`fromPage`), and mark the comment they answer
+ * as replied.
+ */
+@Table({
+  tableName: 'comments',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['facebookPageId', 'commentId'] },
+    { fields: ['facebookAccountId', 'commentedAt'] },
+    { fields: ['contentId'] },
+  ],
+})
+export class Comment extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => FacebookAccount)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  facebookAccountId!: string;
+
+  @ForeignKey(() => FacebookPage)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  facebookPageId!: string;
+
+  @BelongsTo(() => FacebookPage)
+  facebookPage?: FacebookPage;
+
+  @ForeignKey(() => Content)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  contentId!: string;
+
+  @BelongsTo(() => Content)
+  content?: Content;
+
+  @Column({
+    type: DataType.ENUM('facebook', 'instagram'),
+    allowNull: false,
+    defaultValue: 'facebook',
+  })
+  platform!: string;
+
+  // Graph IDs of the comment and, for replies, of the comment it answers.
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  commentId!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  parentCommentId?: string | null;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  authorId?: string | null;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  authorName?: string | null;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  message?: string | null;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  fromPage!: boolean;
+
+  @Column({
+    type: DataType.ENUM('positive', 'neutral', 'negative'),
+    defaultValue: 'neutral',
+  })
+  sentiment!: string;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  isHidden!: boolean;
+
+  // Auto-hide rule (keyword, link or spam) that hid the comment.
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  hiddenByRule?: string | null;
+
+  // Latest reply from the page.
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  repliedAt?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  commentedAt!: Date;
+
+  // Set when the comment is deleted, here or on Facebook.
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  deletedOnFacebookAt?: Date | null;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+}
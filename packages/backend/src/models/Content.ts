@@ -10,6 +10,7 @@ import {
   UpdatedAt,
 } from 'sequelize-typescript';
 import { FacebookAccount } from './FacebookAccount';
+import { FacebookPage } from './FacebookPage';
 import { Earning } from './Earning';
 import { Analytics } from './Analytics';
 
@@ -35,12 +36,29 @@ export class Content extends Model {
   @BelongsTo(() => FacebookAccount)
   facebookAccount!: FacebookAccount;
 
+  @ForeignKey(() => FacebookPage)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  facebookPageId?: string;
+
+  @BelongsTo(() => FacebookPage)
+  facebookPage?: FacebookPage;
+
   @Column({
     type: DataType.STRING,
     allowNull: false,
   })
   contentId!: string;
 
+  @Column({
+    type: DataType.ENUM('facebook', 'instagram'),
+    allowNull: false,
+    defaultValue: 'facebook',
+  })
+  platform!: string;
+
   @Column({
     type: DataType.ENUM('post', 'video', 'reel', 'story', 'live'),
     allowNull: false,
@@ -101,6 +119,27 @@ export class Content extends Model {
   })
   publishedAt?: Date;
 
+  // Graph edge the content was synced from (posts, videos, video_reels or
+  // instagram_media).
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  sourceEdge?: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  facebookUpdatedAt?: Date | null;
+
+  // Set when a full sync no longer finds the content on Facebook.
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  deletedOnFacebookAt?: Date | null;
+
   @HasMany(() => Earning)
   earnings!: Earning[];
 
@@ -0,0 +1,82 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from './User';
+
+@Table({
+  tableName: 'data_exports',
+  timestamps: true,
+})
+export class DataExport extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => User)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  userId!: string;
+
+  @BelongsTo(() => User)
+  user!: User;
+
+  @Column({
+    type: DataType.ENUM('pending', 'processing', 'completed', 'failed', 'expired'),
+    defaultValue: 'pending',
+  })
+  status!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  filePath?: string;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  fileSize?: number;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  completedAt?: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  expiresAt?: Date;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  errorMessage?: string;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+
+  toJSON() {
+    const values = { ...this.get() };
+    delete values.filePath;
+    return values;
+  }
+}
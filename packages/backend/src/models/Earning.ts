@@ -9,6 +9,7 @@ import {
   UpdatedAt,
 } from 'sequelize-typescript';
 import { FacebookAccount } from './FacebookAccount';
+import { FacebookPage } from './FacebookPage';
 import { Content } from './Content';
 
 @Table({
@@ -33,6 +34,16 @@ export class Earning extends Model {
   @BelongsTo(() => FacebookAccount)
   facebookAccount!: FacebookAccount;
 
+  @ForeignKey(() => FacebookPage)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  facebookPageId?: string;
+
+  @BelongsTo(() => FacebookPage)
+  facebookPage?: FacebookPage;
+
   @ForeignKey(() => Content)
   @Column({
     type: DataType.UUID,
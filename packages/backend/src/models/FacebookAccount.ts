@@ -6,12 +6,17 @@ import {
   ForeignKey,
   BelongsTo,
   HasMany,
+  HasOne,
   CreatedAt,
   UpdatedAt,
 } from 'sequelize-typescript';
 import { User } from './User';
 import { Content } from './Content';
 import { Earning } from './Earning';
+import { Workspace } from './Workspace';
+import { FacebookPage } from './FacebookPage';
+import { SyncStatus } from './SyncStatus';
+import { encryptToken, decryptToken } from '../utils/tokenCrypto';
 
 @Table({
   tableName: 'facebook_accounts',
@@ -35,6 +40,16 @@ export class FacebookAccount extends Model {
   @BelongsTo(() => User)
   user!: User;
 
+  @ForeignKey(() => Workspace)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  workspaceId?: string;
+
+  @BelongsTo(() => Workspace)
+  workspace?: Workspace;
+
   @Column({
     type: DataType.STRING,
     allowNull: false,
@@ -48,15 +63,28 @@ export class FacebookAccount extends Model {
   })
   name!: string;
 
+  // Stored encrypted (see utils/tokenCrypto); reads return the plaintext token.
   @Column({
     type: DataType.TEXT,
     allowNull: false,
+    get(this: FacebookAccount) {
+      return decryptToken(this.getDataValue('accessToken'));
+    },
+    set(this: FacebookAccount, value: string) {
+      this.setDataValue('accessToken', encryptToken(value));
+    },
   })
   accessToken!: string;
 
   @Column({
     type: DataType.TEXT,
     allowNull: true,
+    get(this: FacebookAccount) {
+      return decryptToken(this.getDataValue('refreshToken'));
+    },
+    set(this: FacebookAccount, value: string | null) {
+      this.setDataValue('refreshToken', encryptToken(value));
+    },
   })
   refreshToken?: string;
 
@@ -64,25 +92,37 @@ export class FacebookAccount extends Model {
     type: DataType.DATE,
     allowNull: true,
   })
-  tokenExpiry?: Date;
+  tokenExpiry?: Date | null;
 
   @Column({
-    type: DataType.STRING,
+    type: DataType.DATE,
     allowNull: true,
   })
-  pageId?: string;
+  dataAccessExpiry?: Date | null;
 
   @Column({
-    type: DataType.STRING,
+    type: DataType.DATE,
     allowNull: true,
   })
-  pageName?: string;
+  tokenCheckedAt?: Date | null;
 
   @Column({
-    type: DataType.TEXT,
+    type: DataType.DATE,
     allowNull: true,
   })
-  pageAccessToken?: string;
+  tokenExpiryNotifiedAt?: Date | null;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  needsReconnect!: boolean;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  reconnectReason?: string | null;
 
   @Column({
     type: DataType.JSONB,
@@ -108,15 +148,28 @@ export class FacebookAccount extends Model {
   })
   metadata?: Record<string, any>;
 
+  @HasMany(() => FacebookPage)
+  pages!: FacebookPage[];
+
   @HasMany(() => Content)
   contents!: Content[];
 
   @HasMany(() => Earning)
   earnings!: Earning[];
 
+  @HasOne(() => SyncStatus)
+  syncStatus?: SyncStatus;
+
   @CreatedAt
   createdAt!: Date;
 
   @UpdatedAt
   updatedAt!: Date;
+
+  toJSON() {
+    const values = { ...this.get() };
+    delete values.accessToken;
+    delete values.refreshToken;
+    return values;
+  }
 }
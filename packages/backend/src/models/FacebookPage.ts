@@ -0,0 +1,150 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  HasMany,
+  HasOne,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { FacebookAccount } from './FacebookAccount';
+import { Content } from './Content';
+import { Earning } from './Earning';
+import { ScheduledPost } from './ScheduledPost';
+import { AutopilotSettings } from './AutopilotSettings';
+import { encryptToken, decryptToken } from '../utils/tokenCrypto';
+
+@Table({
+  tableName: 'facebook_pages',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['facebookAccountId', 'pageId'] },
+  ],
+})
+export class FacebookPage extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => FacebookAccount)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  facebookAccountId!: string;
+
+  @BelongsTo(() => FacebookAccount)
+  facebookAccount!: FacebookAccount;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  pageId!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  name!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  category?: string;
+
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: [],
+  })
+  tasks?: string[];
+
+  // Stored encrypted (see utils/tokenCrypto); reads return the plaintext token.
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+    get(this: FacebookPage) {
+      return decryptToken(this.getDataValue('accessToken'));
+    },
+    set(this: FacebookPage, value: string) {
+      this.setDataValue('accessToken', encryptToken(value));
+    },
+  })
+  accessToken!: string;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  monetizationEnabled!: boolean;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: true,
+  })
+  isActive!: boolean;
+
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: {},
+  })
+  metadata?: Record<string, any>;
+
+  // Start of the last successful content sync; incremental syncs fetch from here.
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lastSyncedAt?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lastFullSyncAt?: Date | null;
+
+  // Instagram professional account linked to the page, if any. Instagram
+  // calls use the page access token.
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  instagramAccountId?: string | null;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  instagramUsername?: string | null;
+
+  @HasMany(() => Content)
+  contents!: Content[];
+
+  @HasMany(() => Earning)
+  earnings!: Earning[];
+
+  @HasMany(() => ScheduledPost)
+  scheduledPosts!: ScheduledPost[];
+
+  @HasOne(() => AutopilotSettings)
+  autopilotSettings?: AutopilotSettings;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+
+  toJSON() {
+    const values = { ...this.get() };
+    delete values.accessToken;
+    return values;
+  }
+}
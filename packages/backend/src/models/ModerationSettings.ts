@@ -0,0 +1,78 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { FacebookAccount } from './FacebookAccount';
+import { FacebookPage } from './FacebookPage';
+
+/**
+ * Per-page auto-hide rules applied to incoming comments. A comment matching
+ * any enabled rule is hidden on Facebook or Instagram as it is ingested.
+ */
+@Table({
+  tableName: 'moderation_settings',
+  timestamps: true,
+})
+export class ModerationSettings extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => FacebookAccount)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  facebookAccountId!: string;
+
+  @ForeignKey(() => FacebookPage)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+    unique: true,
+  })
+  facebookPageId!: string;
+
+  @BelongsTo(() => FacebookPage)
+  facebookPage?: FacebookPage;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  autoHideEnabled!: boolean;
+
+  // Case-insensitive words or phrases.
+  @Column({
+    type: DataType.ARRAY(DataType.STRING),
+    defaultValue: [],
+  })
+  hideKeywords!: string[];
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  hideLinks!: boolean;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: true,
+  })
+  hideSpam!: boolean;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+}
@@ -0,0 +1,102 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { FacebookAccount } from './FacebookAccount';
+import { FacebookPage } from './FacebookPage';
+
+/**
+ * Daily record of a page's monetization eligibility signals. Checks made on
+ * the same day update that day's snapshot.
+ */
+@Table({
+  tableName: 'monetization_snapshots',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['facebookPageId', 'date'] },
+  ],
+})
+export class MonetizationSnapshot extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => FacebookAccount)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  facebookAccountId!: string;
+
+  @ForeignKey(() => FacebookPage)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  facebookPageId!: string;
+
+  @BelongsTo(() => FacebookPage)
+  facebookPage?: FacebookPage;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  date!: Date;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  isEligible!: boolean;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  followers!: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  fans!: number;
+
+  // Minutes of the page's videos watched over the last 60 days; null when
+  // Facebook did not report them.
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  minutesViewed?: number | null;
+
+  // Page state that affects eligibility: isPublished, isPermanentlyClosed
+  // and verificationStatus.
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: {},
+  })
+  policyFlags!: Record<string, any>;
+
+  // Signals that changed during the day, e.g. isEligible or isPublished.
+  @Column({
+    type: DataType.ARRAY(DataType.STRING),
+    defaultValue: [],
+  })
+  changes!: string[];
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+}
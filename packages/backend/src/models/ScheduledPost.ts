@@ -10,6 +10,7 @@ import {
 } from 'sequelize-typescript';
 import { User } from './User';
 import { FacebookAccount } from './FacebookAccount';
+import { FacebookPage } from './FacebookPage';
 
 @Table({
   tableName: 'scheduled_posts',
@@ -43,12 +44,29 @@ export class ScheduledPost extends Model {
   @BelongsTo(() => FacebookAccount)
   facebookAccount!: FacebookAccount;
 
+  @ForeignKey(() => FacebookPage)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  facebookPageId?: string;
+
+  @BelongsTo(() => FacebookPage)
+  facebookPage?: FacebookPage;
+
   @Column({
     type: DataType.TEXT,
     allowNull: false,
   })
   content!: string;
 
+  @Column({
+    type: DataType.ENUM('facebook', 'instagram'),
+    allowNull: false,
+    defaultValue: 'facebook',
+  })
+  platform!: string;
+
   @Column({
     type: DataType.ENUM('post', 'video', 'reel', 'story'),
     allowNull: false,
@@ -74,7 +92,7 @@ export class ScheduledPost extends Model {
   scheduledFor!: Date;
 
   @Column({
-    type: DataType.ENUM('pending', 'processing', 'published', 'failed', 'cancelled'),
+    type: DataType.ENUM('pending', 'processing', 'published', 'failed', 'cancelled', 'deleted'),
     defaultValue: 'pending',
   })
   status!: string;
@@ -83,19 +101,26 @@ export class ScheduledPost extends Model {
     type: DataType.STRING,
     allowNull: true,
   })
-  publishedContentId?: string;
+  publishedContentId?: string | null;
 
   @Column({
     type: DataType.TEXT,
     allowNull: true,
   })
-  errorMessage?: string;
+  errorMessage?: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  publishedAt?: Date | null;
 
+  // Last time the published post's text was changed from the platform.
   @Column({
     type: DataType.DATE,
     allowNull: true,
   })
-  publishedAt?: Date;
+  editedAt?: Date | null;
 
   @Column({
     type: DataType.INTEGER,
@@ -107,7 +132,7 @@ export class ScheduledPost extends Model {
     type: DataType.DATE,
     allowNull: true,
   })
-  lastRetryAt?: Date;
+  lastRetryAt?: Date | null;
 
   @Column({
     type: DataType.JSONB,
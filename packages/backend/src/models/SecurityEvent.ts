@@ -0,0 +1,75 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from './User';
+
+@Table({
+  tableName: 'security_events',
+  timestamps: true,
+  indexes: [
+    { fields: ['eventType', 'createdAt'] },
+    { fields: ['email'] },
+    { fields: ['ip'] },
+  ],
+})
+export class SecurityEvent extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => User)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  userId?: string;
+
+  @BelongsTo(() => User)
+  user?: User;
+
+  @Column({
+    type: DataType.ENUM('login_failed', 'account_locked', 'account_unlocked', 'ip_blocked'),
+    allowNull: false,
+  })
+  eventType!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  email?: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  ip?: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  userAgent?: string;
+
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: {},
+  })
+  metadata?: Record<string, any>;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+}
@@ -0,0 +1,118 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { FacebookAccount } from './FacebookAccount';
+
+/**
+ * Progress and outcome of the latest content sync of a Facebook account.
+ * Counters are updated as each batch of posts is stored, so the record can
+ * be polled while a sync runs.
+ */
+@Table({
+  tableName: 'sync_statuses',
+  timestamps: true,
+})
+export class SyncStatus extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => FacebookAccount)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+    unique: true,
+  })
+  facebookAccountId!: string;
+
+  @BelongsTo(() => FacebookAccount)
+  facebookAccount!: FacebookAccount;
+
+  @Column({
+    type: DataType.ENUM('idle', 'running', 'completed', 'failed'),
+    defaultValue: 'idle',
+  })
+  status!: string;
+
+  @Column({
+    type: DataType.ENUM('full', 'incremental'),
+    allowNull: true,
+  })
+  mode?: string | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  pagesTotal!: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  pagesCompleted!: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  fetched!: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  created!: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  updated!: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  deleted!: number;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  error?: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  startedAt?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  finishedAt?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lastSucceededAt?: Date | null;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+}
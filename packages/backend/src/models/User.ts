@@ -12,6 +12,7 @@ import {
 import bcrypt from 'bcryptjs';
 import { FacebookAccount } from './FacebookAccount';
 import { ScheduledPost } from './ScheduledPost';
+import { WorkspaceMember } from './WorkspaceMember';
 
 @Table({
   tableName: 'users',
@@ -35,6 +36,18 @@ export class User extends Model {
   })
   email!: string;
 
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  emailVerified!: boolean;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  emailVerifiedAt?: Date;
+
   @Column({
     type: DataType.STRING,
     allowNull: true,
@@ -59,6 +72,13 @@ export class User extends Model {
   })
   avatar?: string;
 
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    unique: true,
+  })
+  facebookId?: string;
+
   @Column({
     type: DataType.ENUM('user', 'admin'),
     defaultValue: 'user',
@@ -77,6 +97,18 @@ export class User extends Model {
   })
   twoFactorSecret?: string;
 
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: [],
+  })
+  twoFactorRecoveryCodes?: string[];
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  twoFactorLastUsedStep?: number | null;
+
   @Column({
     type: DataType.BOOLEAN,
     defaultValue: true,
@@ -89,12 +121,39 @@ export class User extends Model {
   })
   lastLogin?: Date;
 
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lockedUntil?: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  deletionRequestedAt?: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  deletionScheduledFor?: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  deletedAt?: Date;
+
   @HasMany(() => FacebookAccount)
   facebookAccounts!: FacebookAccount[];
 
   @HasMany(() => ScheduledPost)
   scheduledPosts!: ScheduledPost[];
 
+  @HasMany(() => WorkspaceMember)
+  workspaceMemberships!: WorkspaceMember[];
+
   @CreatedAt
   createdAt!: Date;
 
@@ -119,6 +178,8 @@ export class User extends Model {
     const values = { ...this.get() };
     delete values.password;
     delete values.twoFactorSecret;
+    delete values.twoFactorRecoveryCodes;
+    delete values.twoFactorLastUsedStep;
     return values;
   }
 }
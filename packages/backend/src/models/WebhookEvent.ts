@@ -0,0 +1,104 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+/**
+ * Inbox of received webhook changes. Every change is stored before it is
+ * processed; `eventKey` (a hash of the change) makes redeliveries of the
+ * same change a no-op, and stored events can be replayed.
+ */
+@Table({
+  tableName: 'webhook_events',
+  timestamps: true,
+  indexes: [
+    { fields: ['status', 'receivedAt'] },
+    { fields: ['objectId'] },
+  ],
+})
+export class WebhookEvent extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  source!: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+    unique: true,
+  })
+  eventKey!: string;
+
+  // Webhook object type (e.g. page) and the ID of the object that changed.
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  object!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  objectId!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  field!: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+  })
+  payload!: Record<string, any>;
+
+  @Column({
+    type: DataType.ENUM('pending', 'processing', 'processed', 'ignored', 'failed'),
+    defaultValue: 'pending',
+  })
+  status!: string;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  attempts!: number;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  error?: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  receivedAt!: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  processedAt?: Date | null;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+}
@@ -0,0 +1,55 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  HasMany,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from './User';
+import { WorkspaceMember } from './WorkspaceMember';
+import { FacebookAccount } from './FacebookAccount';
+
+@Table({
+  tableName: 'workspaces',
+  timestamps: true,
+})
+export class Workspace extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  name!: string;
+
+  @ForeignKey(() => User)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  createdById!: string;
+
+  @BelongsTo(() => User)
+  createdBy!: User;
+
+  @HasMany(() => WorkspaceMember)
+  members!: WorkspaceMember[];
+
+  @HasMany(() => FacebookAccount)
+  facebookAccounts!: FacebookAccount[];
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+}
@@ -0,0 +1,64 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from './User';
+import { Workspace } from './Workspace';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'publisher' | 'analyst' | 'viewer';
+
+@Table({
+  tableName: 'workspace_members',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['workspaceId', 'userId'] },
+    { fields: ['userId'] },
+  ],
+})
+export class WorkspaceMember extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => Workspace)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  workspaceId!: string;
+
+  @BelongsTo(() => Workspace, { onDelete: 'CASCADE' })
+  workspace!: Workspace;
+
+  @ForeignKey(() => User)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  userId!: string;
+
+  @BelongsTo(() => User)
+  user!: User;
+
+  @Column({
+    type: DataType.ENUM('owner', 'editor', 'publisher', 'analyst', 'viewer'),
+    allowNull: false,
+    defaultValue: 'viewer',
+  })
+  role!: WorkspaceRole;
+
+  @CreatedAt
+  createdAt!: Date;
+
+  @UpdatedAt
+  updatedAt!: Date;
+}
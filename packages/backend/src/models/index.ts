@@ -1,8 +1,20 @@
 export { User } from './User';
 export { FacebookAccount } from './FacebookAccount';
+export { FacebookPage } from './FacebookPage';
 export { Content } from './Content';
 export { Earning } from './Earning';
 export { Analytics } from './Analytics';
 export { ScheduledPost } from './ScheduledPost';
 export { AutopilotSettings } from './AutopilotSettings';
 export { TrendResearch } from './TrendResearch';
+export { SecurityEvent } from './SecurityEvent';
+export { Workspace } from './Workspace';
+export { WorkspaceMember } from './WorkspaceMember';
+export { ApiKey } from './ApiKey';
+export { AuditLog } from './AuditLog';
+export { DataExport } from './DataExport';
+export { SyncStatus } from './SyncStatus';
+export { WebhookEvent } from './WebhookEvent';
+export { Comment } from './Comment';
+export { ModerationSettings } from './ModerationSettings';
+export { MonetizationSnapshot } from './MonetizationSnapshot';
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/users', authenticate, requireAdmin, AdminController.getUsers);
+router.put('/users/:userId/status', authenticate, requireAdmin, AdminController.updateUserStatus);
+router.put('/users/:userId/role', authenticate, requireAdmin, AdminController.updateUserRole);
+router.get('/users/:userId/facebook-accounts', authenticate, requireAdmin, AdminController.getUserAccounts);
+router.get('/users/:userId/failed-posts', authenticate, requireAdmin, AdminController.getUserFailedPosts);
+router.post('/users/:userId/revoke-sessions', authenticate, requireAdmin, AdminController.revokeUserSessions);
+router.post('/users/:userId/unlock', authenticate, requireAdmin, AdminController.unlockUser);
+router.get('/security-events', authenticate, requireAdmin, AdminController.getSecurityEvents);
+router.get('/webhook-events', authenticate, requireAdmin, AdminController.getWebhookEvents);
+router.post('/webhook-events/:eventId/replay', authenticate, requireAdmin, AdminController.replayWebhookEvent);
+router.get('/stats', authenticate, requireAdmin, AdminController.getStats);
+
+export default router;
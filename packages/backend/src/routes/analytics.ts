@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { AnalyticsController } from '../controllers/AnalyticsController';
+import { authenticate, allowApiKey } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/summary', allowApiKey('accounts:read'), authenticate, AnalyticsController.getSummary);
+router.get('/content/:contentId', allowApiKey('accounts:read'), authenticate, AnalyticsController.getContentAnalytics);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', authenticate, ApiKeyController.getApiKeys);
+router.post('/', authenticate, ApiKeyController.createApiKey);
+router.delete('/:keyId', authenticate, ApiKeyController.revokeApiKey);
+
+export default router;
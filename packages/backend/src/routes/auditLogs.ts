@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { AuditLogController } from '../controllers/AuditLogController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', authenticate, AuditLogController.getAuditLogs);
+router.get('/export', authenticate, AuditLogController.exportAuditLogs);
+
+export default router;
@@ -6,7 +6,24 @@ const router = Router();
 
 router.post('/register', AuthController.register);
 router.post('/login', AuthController.login);
+router.post('/facebook', AuthController.facebookLogin);
+router.post('/facebook/link', AuthController.linkFacebook);
+router.post('/2fa/verify', AuthController.verifyTwoFactorLogin);
+router.post('/refresh', AuthController.refresh);
+router.post('/forgot-password', AuthController.forgotPassword);
+router.post('/reset-password', AuthController.resetPassword);
+router.post('/verify-email', AuthController.verifyEmail);
+router.post('/unlock', AuthController.unlockAccount);
+router.post('/verify-email/resend', authenticate, AuthController.resendVerificationEmail);
+router.post('/logout', authenticate, AuthController.logout);
+router.post('/logout-all', authenticate, AuthController.logoutAll);
+router.get('/sessions', authenticate, AuthController.getSessions);
+router.delete('/sessions/:sessionId', authenticate, AuthController.revokeSession);
 router.get('/profile', authenticate, AuthController.getProfile);
 router.put('/password', authenticate, AuthController.updatePassword);
+router.post('/2fa/setup', authenticate, AuthController.setupTwoFactor);
+router.post('/2fa/enable', authenticate, AuthController.enableTwoFactor);
+router.post('/2fa/disable', authenticate, AuthController.disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, AuthController.regenerateRecoveryCodes);
 
 export default router;
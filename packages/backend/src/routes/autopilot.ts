@@ -1,20 +1,23 @@
 import { Router } from 'express';
 import { AutopilotController } from '../controllers/AutopilotController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, allowApiKey } from '../middleware/auth';
 
 const router = Router();
 
-router.get('/settings/:accountId', authenticate, AutopilotController.getSettings);
-router.put('/settings/:accountId', authenticate, AutopilotController.updateSettings);
+router.get('/settings/:pageId', authenticate, AutopilotController.getSettings);
+router.put('/settings/:pageId', authenticate, AutopilotController.updateSettings);
 router.post('/trends/research', authenticate, AutopilotController.researchTrends);
 router.get('/trends', authenticate, AutopilotController.getTrends);
 router.post('/content/generate', authenticate, AutopilotController.generateContent);
 router.post('/content/predict', authenticate, AutopilotController.predictPerformance);
 router.post('/hashtags/generate', authenticate, AutopilotController.generateHashtags);
-router.post('/schedule/:accountId', authenticate, AutopilotController.scheduleAutoPosts);
-router.get('/scheduled', authenticate, AutopilotController.getScheduledPosts);
-router.post('/scheduled', authenticate, AutopilotController.createScheduledPost);
-router.delete('/scheduled/:postId', authenticate, AutopilotController.cancelScheduledPost);
-router.get('/optimal-times/:accountId', authenticate, AutopilotController.getOptimalPostingTimes);
+router.post('/schedule/:pageId', authenticate, AutopilotController.scheduleAutoPosts);
+router.get('/scheduled', allowApiKey('schedule:read'), authenticate, AutopilotController.getScheduledPosts);
+router.post('/scheduled', allowApiKey('schedule:write'), authenticate, AutopilotController.createScheduledPost);
+router.delete('/scheduled/:postId', allowApiKey('schedule:write'), authenticate, AutopilotController.cancelScheduledPost);
+router.put('/scheduled/:postId/published', allowApiKey('schedule:write'), authenticate, AutopilotController.editPublishedPost);
+router.delete('/scheduled/:postId/published', allowApiKey('schedule:write'), authenticate, AutopilotController.deletePublishedPost);
+router.post('/scheduled/:postId/reschedule', allowApiKey('schedule:write'), authenticate, AutopilotController.reschedulePublishedPost);
+router.get('/optimal-times/:pageId', authenticate, AutopilotController.getOptimalPostingTimes);
 
 export default router;
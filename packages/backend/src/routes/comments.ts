@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { CommentController } from '../controllers/CommentController';
+import { authenticate, allowApiKey } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', allowApiKey('accounts:read'), authenticate, CommentController.getComments);
+router.post('/:commentId/reply', authenticate, CommentController.replyToComment);
+router.post('/:commentId/hide', authenticate, CommentController.hideComment);
+router.delete('/:commentId', authenticate, CommentController.deleteComment);
+router.post('/pages/:pageId/sync', authenticate, CommentController.syncPageComments);
+router.get('/pages/:pageId/settings', authenticate, CommentController.getModerationSettings);
+router.put('/pages/:pageId/settings', authenticate, CommentController.updateModerationSettings);
+
+export default router;
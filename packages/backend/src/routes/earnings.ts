@@ -1,12 +1,12 @@
 import { Router } from 'express';
 import { EarningsController } from '../controllers/EarningsController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, allowApiKey } from '../middleware/auth';
 
 const router = Router();
 
-router.get('/', authenticate, EarningsController.getEarnings);
-router.get('/summary', authenticate, EarningsController.getEarningsSummary);
-router.get('/content/:contentId', authenticate, EarningsController.getEarningsByContent);
-router.post('/', authenticate, EarningsController.createEarning);
+router.get('/', allowApiKey('earnings:read'), authenticate, EarningsController.getEarnings);
+router.get('/summary', allowApiKey('earnings:read'), authenticate, EarningsController.getEarningsSummary);
+router.get('/content/:contentId', allowApiKey('earnings:read'), authenticate, EarningsController.getEarningsByContent);
+router.post('/', allowApiKey('earnings:write'), authenticate, EarningsController.createEarning);
 
 export default router;
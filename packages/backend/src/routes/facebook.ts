@@ -1,13 +1,19 @@
 import { Router } from 'express';
 import { FacebookController } from '../controllers/FacebookController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, allowApiKey, requireVerifiedEmail } from '../middleware/auth';
 
 const router = Router();
 
-router.post('/connect', authenticate, FacebookController.connectAccount);
-router.get('/accounts', authenticate, FacebookController.getAccounts);
+router.post('/connect', authenticate, requireVerifiedEmail, FacebookController.connectAccount);
+router.get('/accounts', allowApiKey('accounts:read'), authenticate, FacebookController.getAccounts);
 router.post('/:accountId/sync', authenticate, FacebookController.syncAccount);
-router.get('/:accountId/monetization', authenticate, FacebookController.getMonetizationStatus);
-router.put('/:accountId/page', authenticate, FacebookController.updatePageInfo);
+router.get('/:accountId/sync', allowApiKey('accounts:read'), authenticate, FacebookController.getSyncStatus);
+router.get('/:accountId/budget', allowApiKey('accounts:read'), authenticate, FacebookController.getApiBudget);
+router.get('/:accountId/pages', authenticate, FacebookController.getAvailablePages);
+router.put('/:accountId/pages', authenticate, FacebookController.selectPages);
+router.get('/pages', allowApiKey('accounts:read'), authenticate, FacebookController.getPages);
+router.post('/pages/:pageId/sync', authenticate, FacebookController.syncPage);
+router.get('/pages/:pageId/monetization', authenticate, FacebookController.getMonetizationStatus);
+router.get('/pages/:pageId/monetization/history', allowApiKey('accounts:read'), authenticate, FacebookController.getMonetizationHistory);
 
 export default router;
@@ -2,13 +2,27 @@ import { Router } from 'express';
 import authRoutes from './auth';
 import facebookRoutes from './facebook';
 import earningsRoutes from './earnings';
+import analyticsRoutes from './analytics';
 import autopilotRoutes from './autopilot';
+import adminRoutes from './admin';
+import workspaceRoutes from './workspaces';
+import apiKeyRoutes from './apiKeys';
+import auditLogRoutes from './auditLogs';
+import privacyRoutes from './privacy';
+import commentRoutes from './comments';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/facebook', facebookRoutes);
 router.use('/earnings', earningsRoutes);
+router.use('/analytics', analyticsRoutes);
 router.use('/autopilot', autopilotRoutes);
+router.use('/admin', adminRoutes);
+router.use('/workspaces', workspaceRoutes);
+router.use('/api-keys', apiKeyRoutes);
+router.use('/audit-logs', auditLogRoutes);
+router.use('/privacy', privacyRoutes);
+router.use('/comments', commentRoutes);
 
 export default router;
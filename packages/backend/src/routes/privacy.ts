@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { PrivacyController } from '../controllers/PrivacyController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+router.post('/exports', authenticate, PrivacyController.requestExport);
+router.get('/exports', authenticate, PrivacyController.getExports);
+router.get('/exports/:exportId/download', authenticate, PrivacyController.downloadExport);
+router.post('/deletion', authenticate, PrivacyController.requestDeletion);
+router.delete('/deletion', authenticate, PrivacyController.cancelDeletion);
+
+export default router;
@@ -0,0 +1,11 @@
+import express, { Router } from 'express';
+import { WebhookController } from '../controllers/WebhookController';
+
+const router = Router();
+
+// Signatures are computed over the exact bytes Facebook sent, so the body
+// is kept raw and parsed after verification.
+router.get('/facebook', WebhookController.verifyFacebook);
+router.post('/facebook', express.raw({ type: '*/*', limit: '1mb' }), WebhookController.receiveFacebook);
+
+export default router;
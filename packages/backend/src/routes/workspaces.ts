@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { WorkspaceController } from '../controllers/WorkspaceController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', authenticate, WorkspaceController.getWorkspaces);
+router.post('/', authenticate, WorkspaceController.createWorkspace);
+router.get('/:workspaceId/members', authenticate, WorkspaceController.getMembers);
+router.post('/:workspaceId/members', authenticate, WorkspaceController.addMember);
+router.put('/:workspaceId/members/:memberId', authenticate, WorkspaceController.updateMember);
+router.delete('/:workspaceId/members/:memberId', authenticate, WorkspaceController.removeMember);
+
+export default router;
@@ -0,0 +1,52 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+
+/**
+ * Migration: Add account deletion fields to users table
+ *
+ * This script adds the following columns:
+ * - deletionRequestedAt: TIMESTAMP - When the user asked for their account to be deleted
+ * - deletionScheduledFor: TIMESTAMP - When the grace period ends and the account is deleted
+ * - deletedAt: TIMESTAMP - When the account was deleted and anonymized
+ */
+
+const COLUMNS = ['deletionRequestedAt', 'deletionScheduledFor', 'deletedAt'];
+
+export async function up() {
+  try {
+    for (const column of COLUMNS) {
+      await sequelize.getQueryInterface().addColumn('users', column, {
+        type: DataType.DATE,
+        allowNull: true,
+      });
+      console.log(`✅ Added column: users.${column}`);
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    for (const column of COLUMNS) {
+      await sequelize.getQueryInterface().removeColumn('users', column);
+      console.log(`✅ Removed column: users.${column}`);
+    }
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,42 @@
+import sequelize from '../config/database';
+
+/**
+ * Migration: One analytics snapshot per content and day
+ *
+ * This script adds a unique index on analytics (contentId, date), which the
+ * insights collector relies on to replace same-day snapshots.
+ */
+
+const INDEX_NAME = 'analytics_content_id_date';
+
+export async function up() {
+  try {
+    await sequelize.getQueryInterface().addIndex('analytics', ['contentId', 'date'], { unique: true, name: INDEX_NAME });
+    console.log(`✅ Added index: analytics.${INDEX_NAME}`);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().removeIndex('analytics', INDEX_NAME);
+    console.log(`✅ Removed index: analytics.${INDEX_NAME}`);
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
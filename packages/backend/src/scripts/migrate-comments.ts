@@ -0,0 +1,58 @@
+import sequelize from '../config/database';
+import { Comment, ModerationSettings } from '../models';
+
+/**
+ * Migration: Comment inbox and moderation
+ *
+ * This script:
+ * - creates the comments table, which holds comments ingested from synced
+ *   posts and media
+ * - creates the moderation_settings table, which holds each page's
+ *   auto-hide rules
+ *
+ * Comments on existing content are ingested by the next comment sync.
+ */
+
+export async function up() {
+  try {
+    await Comment.sync();
+    console.log('✅ Created table: comments');
+
+    await ModerationSettings.sync();
+    console.log('✅ Created table: moderation_settings');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().dropTable('moderation_settings');
+    console.log('✅ Dropped table: moderation_settings');
+
+    await sequelize.getQueryInterface().dropTable('comments');
+    console.log('✅ Dropped table: comments');
+
+    // Postgres keeps the enum types of dropped tables.
+    for (const column of ['platform', 'sentiment']) {
+      await sequelize.query(`DROP TYPE IF EXISTS "enum_comments_${column}"`);
+      console.log(`✅ Dropped type: enum_comments_${column}`);
+    }
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,72 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+import { SyncStatus } from '../models';
+
+/**
+ * Migration: Incremental content sync
+ *
+ * This script:
+ * - creates the sync_statuses table (one progress record per account)
+ * - adds lastSyncedAt and lastFullSyncAt to facebook_pages
+ * - adds sourceEdge, facebookUpdatedAt and deletedOnFacebookAt to contents
+ *
+ * Pages start without a watermark, so their next sync is a full one.
+ */
+
+const COLUMNS: Record<string, Record<string, any>> = {
+  facebook_pages: {
+    lastSyncedAt: { type: DataType.DATE, allowNull: true },
+    lastFullSyncAt: { type: DataType.DATE, allowNull: true },
+  },
+  contents: {
+    sourceEdge: { type: DataType.STRING, allowNull: true },
+    facebookUpdatedAt: { type: DataType.DATE, allowNull: true },
+    deletedOnFacebookAt: { type: DataType.DATE, allowNull: true },
+  },
+};
+
+export async function up() {
+  try {
+    await SyncStatus.sync();
+    console.log('✅ Created table: sync_statuses');
+
+    for (const [table, columns] of Object.entries(COLUMNS)) {
+      for (const [column, definition] of Object.entries(columns)) {
+        await sequelize.getQueryInterface().addColumn(table, column, definition);
+        console.log(`✅ Added column: ${table}.${column}`);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    for (const [table, columns] of Object.entries(COLUMNS)) {
+      for (const column of Object.keys(columns)) {
+        await sequelize.getQueryInterface().removeColumn(table, column);
+        console.log(`✅ Removed column: ${table}.${column}`);
+      }
+    }
+
+    await sequelize.getQueryInterface().dropTable('sync_statuses');
+    console.log('✅ Dropped table: sync_statuses');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
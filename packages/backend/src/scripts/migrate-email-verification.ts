@@ -0,0 +1,61 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+
+/**
+ * Migration: Add email verification fields to users table
+ *
+ * This script adds the following columns:
+ * - emailVerified: BOOLEAN (default false) - Whether the user confirmed their email
+ * - emailVerifiedAt: TIMESTAMP - When the email was confirmed
+ *
+ * Accounts created before verification existed are marked as verified so
+ * they keep access to Facebook account connection.
+ */
+
+export async function up() {
+  try {
+    await sequelize.getQueryInterface().addColumn('users', 'emailVerified', {
+      type: DataType.BOOLEAN,
+      defaultValue: false,
+      allowNull: true,
+    });
+    console.log('✅ Added column: users.emailVerified');
+
+    await sequelize.getQueryInterface().addColumn('users', 'emailVerifiedAt', {
+      type: DataType.DATE,
+      allowNull: true,
+    });
+    console.log('✅ Added column: users.emailVerifiedAt');
+
+    await sequelize.query('UPDATE users SET "emailVerified" = true, "emailVerifiedAt" = "createdAt"');
+    console.log('✅ Marked existing users as verified');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().removeColumn('users', 'emailVerified');
+    console.log('✅ Removed column: users.emailVerified');
+
+    await sequelize.getQueryInterface().removeColumn('users', 'emailVerifiedAt');
+    console.log('✅ Removed column: users.emailVerifiedAt');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
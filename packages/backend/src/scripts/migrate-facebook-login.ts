@@ -0,0 +1,60 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+
+/**
+ * Migration: Add Facebook sign-in to users table
+ *
+ * This script adds the following column:
+ * - facebookId: VARCHAR (unique) - The Facebook user id the account signs in with
+ *
+ * Users who already connected exactly one Facebook account get that account's
+ * Facebook id, so they can sign in with Facebook without linking again.
+ */
+
+export async function up() {
+  try {
+    await sequelize.getQueryInterface().addColumn('users', 'facebookId', {
+      type: DataType.STRING,
+      allowNull: true,
+      unique: true,
+    });
+    console.log('✅ Added column: users.facebookId');
+
+    await sequelize.query(`
+      UPDATE users SET "facebookId" = fa."facebookId"
+      FROM (
+        SELECT "userId", MIN("facebookId") AS "facebookId"
+        FROM facebook_accounts
+        GROUP BY "userId"
+        HAVING COUNT(*) = 1
+      ) fa
+      WHERE fa."userId" = users.id
+    `);
+    console.log('✅ Linked existing Facebook accounts');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().removeColumn('users', 'facebookId');
+    console.log('✅ Removed column: users.facebookId');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
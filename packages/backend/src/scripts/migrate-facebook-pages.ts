@@ -0,0 +1,139 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+import { FacebookPage } from '../models';
+
+const PAGE_TABLES = ['contents', 'earnings', 'scheduled_posts', 'autopilot_settings'];
+
+/**
+ * Migration: Move Facebook pages into their own table
+ *
+ * This script:
+ * - creates the facebook_pages table
+ * - creates a page for every account's page (facebook_accounts.pageId) and
+ *   for every page listed in facebook_accounts.metadata.pages
+ * - adds facebookPageId to contents, earnings, scheduled_posts and
+ *   autopilot_settings and points existing rows at their account's page
+ * - removes pageId, pageName and pageAccessToken from facebook_accounts
+ *
+ * Run it before starting the new version: the schema sync at startup would
+ * drop the old page columns before their values were copied.
+ */
+
+export async function up() {
+  try {
+    await FacebookPage.sync();
+    console.log('✅ Created table: facebook_pages');
+
+    const [accounts] = await sequelize.query(
+      `SELECT id, "pageId", "pageName", "pageAccessToken", metadata FROM facebook_accounts
+       WHERE "pageId" IS NOT NULL OR metadata ? 'pages'`
+    );
+
+    let created = 0;
+    for (const account of accounts as Array<{
+      id: string;
+      pageId: string | null;
+      pageName: string | null;
+      pageAccessToken: string | null;
+      metadata: Record<string, any> | null;
+    }>) {
+      const pages: Array<{ id: string; name: string; category?: string; tasks?: string[]; accessToken: string }> = [
+        ...(account.metadata?.pages || []),
+      ];
+
+      if (account.pageId && account.pageAccessToken && !pages.some((page) => page.id === account.pageId)) {
+        pages.unshift({ id: account.pageId, name: account.pageName || account.pageId, accessToken: account.pageAccessToken });
+      }
+
+      for (const page of pages) {
+        const [, wasCreated] = await FacebookPage.findOrCreate({
+          where: { facebookAccountId: account.id, pageId: page.id },
+          defaults: {
+            name: page.name,
+            category: page.category,
+            tasks: page.tasks || [],
+            accessToken: page.accessToken,
+          },
+        });
+        if (wasCreated) {
+          created++;
+        }
+      }
+    }
+    console.log(`✅ Created ${created} pages from ${accounts.length} accounts`);
+
+    for (const table of PAGE_TABLES) {
+      await sequelize.getQueryInterface().addColumn(table, 'facebookPageId', {
+        type: DataType.UUID,
+        allowNull: true,
+        references: { model: 'facebook_pages', key: 'id' },
+      });
+
+      await sequelize.query(
+        `UPDATE ${table} t SET "facebookPageId" = p.id
+         FROM facebook_accounts a, facebook_pages p
+         WHERE t."facebookAccountId" = a.id
+           AND p."facebookAccountId" = a.id
+           AND p."pageId" = a."pageId"
+           AND t."facebookPageId" IS NULL`
+      );
+      console.log(`✅ Added and backfilled column: ${table}.facebookPageId`);
+    }
+
+    await sequelize.query(
+      `UPDATE facebook_accounts SET metadata = metadata - 'pages' - 'pagesSelectedAt' WHERE metadata ? 'pages'`
+    );
+
+    for (const column of ['pageId', 'pageName', 'pageAccessToken']) {
+      await sequelize.getQueryInterface().removeColumn('facebook_accounts', column);
+    }
+    console.log('✅ Removed columns: facebook_accounts.pageId, pageName, pageAccessToken');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    const queryInterface = sequelize.getQueryInterface();
+
+    await queryInterface.addColumn('facebook_accounts', 'pageId', { type: DataType.STRING, allowNull: true });
+    await queryInterface.addColumn('facebook_accounts', 'pageName', { type: DataType.STRING, allowNull: true });
+    await queryInterface.addColumn('facebook_accounts', 'pageAccessToken', { type: DataType.TEXT, allowNull: true });
+
+    await sequelize.query(
+      `UPDATE facebook_accounts a SET "pageId" = p."pageId", "pageName" = p.name, "pageAccessToken" = p."accessToken"
+       FROM (
+         SELECT DISTINCT ON ("facebookAccountId") * FROM facebook_pages
+         WHERE "isActive" = true
+         ORDER BY "facebookAccountId", "createdAt" ASC
+       ) p
+       WHERE p."facebookAccountId" = a.id`
+    );
+    console.log('✅ Restored the first selected page onto facebook_accounts');
+
+    for (const table of PAGE_TABLES) {
+      await queryInterface.removeColumn(table, 'facebookPageId');
+      console.log(`✅ Removed column: ${table}.facebookPageId`);
+    }
+
+    await FacebookPage.drop();
+    console.log('✅ Dropped table: facebook_pages');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
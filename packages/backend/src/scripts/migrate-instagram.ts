@@ -0,0 +1,74 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+
+/**
+ * Migration: Instagram professional accounts
+ *
+ * This script:
+ * - adds instagramAccountId and instagramUsername to facebook_pages
+ * - adds platform (facebook or instagram) to contents and scheduled_posts
+ *
+ * Existing content and scheduled posts are Facebook ones. Linked Instagram
+ * accounts are picked up by the next content sync.
+ */
+
+const PLATFORM = { type: DataType.ENUM('facebook', 'instagram'), allowNull: false, defaultValue: 'facebook' };
+
+const COLUMNS: Record<string, Record<string, any>> = {
+  facebook_pages: {
+    instagramAccountId: { type: DataType.STRING, allowNull: true },
+    instagramUsername: { type: DataType.STRING, allowNull: true },
+  },
+  contents: {
+    platform: PLATFORM,
+  },
+  scheduled_posts: {
+    platform: PLATFORM,
+  },
+};
+
+export async function up() {
+  try {
+    for (const [table, columns] of Object.entries(COLUMNS)) {
+      for (const [column, definition] of Object.entries(columns)) {
+        await sequelize.getQueryInterface().addColumn(table, column, definition);
+        console.log(`✅ Added column: ${table}.${column}`);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    for (const [table, columns] of Object.entries(COLUMNS)) {
+      for (const column of Object.keys(columns)) {
+        await sequelize.getQueryInterface().removeColumn(table, column);
+        console.log(`✅ Removed column: ${table}.${column}`);
+      }
+    }
+
+    // Postgres keeps the enum types of removed columns.
+    for (const table of ['contents', 'scheduled_posts']) {
+      await sequelize.query(`DROP TYPE IF EXISTS "enum_${table}_platform"`);
+      console.log(`✅ Dropped type: enum_${table}_platform`);
+    }
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
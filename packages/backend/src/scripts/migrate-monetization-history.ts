@@ -0,0 +1,42 @@
+import sequelize from '../config/database';
+import { MonetizationSnapshot } from '../models';
+
+/**
+ * Migration: Monetization eligibility history
+ *
+ * This script creates the monetization_snapshots table, which keeps one
+ * record of each page's eligibility signals per day. The first snapshots are
+ * taken by the next monetization job or content sync.
+ */
+
+export async function up() {
+  try {
+    await MonetizationSnapshot.sync();
+    console.log('✅ Created table: monetization_snapshots');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().dropTable('monetization_snapshots');
+    console.log('✅ Dropped table: monetization_snapshots');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
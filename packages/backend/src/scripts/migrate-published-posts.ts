@@ -0,0 +1,53 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+
+/**
+ * Migration: Edit and delete published posts
+ *
+ * This script:
+ * - adds the deleted status to scheduled_posts, for published posts deleted
+ *   from the platform
+ * - adds editedAt to scheduled_posts
+ */
+
+export async function up() {
+  try {
+    await sequelize.query(`ALTER TYPE "enum_scheduled_posts_status" ADD VALUE IF NOT EXISTS 'deleted'`);
+    console.log('✅ Added status: scheduled_posts.status deleted');
+
+    await sequelize.getQueryInterface().addColumn('scheduled_posts', 'editedAt', {
+      type: DataType.DATE,
+      allowNull: true,
+    });
+    console.log('✅ Added column: scheduled_posts.editedAt');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().removeColumn('scheduled_posts', 'editedAt');
+    console.log('✅ Removed column: scheduled_posts.editedAt');
+
+    // Postgres cannot drop an enum value; deleted posts are kept as cancelled.
+    await sequelize.query(`UPDATE scheduled_posts SET status = 'cancelled' WHERE status = 'deleted'`);
+    console.log('✅ Marked deleted posts as cancelled');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,81 @@
+import sequelize from '../config/database';
+import { encryptToken, decryptToken } from '../utils/tokenCrypto';
+
+/**
+ * Migration: Encrypt stored Facebook tokens
+ *
+ * This script encrypts the following columns in place (see utils/tokenCrypto):
+ * - facebook_accounts.accessToken
+ * - facebook_accounts.refreshToken
+ * - facebook_pages.accessToken
+ *
+ * Values that are already encrypted are left alone, so the script can be
+ * re-run. The models decrypt legacy plaintext values as is, which keeps the
+ * app working while it runs.
+ */
+
+export const TOKEN_COLUMNS: Record<string, string[]> = {
+  facebook_accounts: ['accessToken', 'refreshToken'],
+  facebook_pages: ['accessToken'],
+};
+
+export const transformTokenColumns = async (transform: (value: string) => string) => {
+  for (const [table, columns] of Object.entries(TOKEN_COLUMNS)) {
+    const [rows] = await sequelize.query(`SELECT id, ${columns.map((column) => `"${column}"`).join(', ')} FROM ${table}`);
+
+    let updated = 0;
+    for (const row of rows as Array<Record<string, string | null>>) {
+      const changes: Record<string, string> = {};
+
+      for (const column of columns) {
+        const value = row[column];
+        if (value) {
+          const next = transform(value);
+          if (next !== value) {
+            changes[column] = next;
+          }
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await sequelize.query(
+          `UPDATE ${table} SET ${Object.keys(changes).map((column) => `"${column}" = :${column}`).join(', ')} WHERE id = :id`,
+          { replacements: { ...changes, id: row.id } }
+        );
+        updated++;
+      }
+    }
+
+    console.log(`✅ Updated ${updated} of ${rows.length} rows in ${table}`);
+  }
+};
+
+export async function up() {
+  try {
+    await transformTokenColumns((value) => encryptToken(value));
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await transformTokenColumns((value) => decryptToken(value));
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,60 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+
+/**
+ * Migration: Add token monitoring fields to facebook_accounts table
+ *
+ * This script adds the following columns:
+ * - dataAccessExpiry: TIMESTAMP - When Facebook data access for the token ends
+ * - tokenCheckedAt: TIMESTAMP - Last debug_token check by the token job
+ * - tokenExpiryNotifiedAt: TIMESTAMP - When the owner was warned about expiry
+ * - needsReconnect: BOOLEAN (default false) - The token is invalid or expired
+ * - reconnectReason: VARCHAR - Why the account needs reconnecting
+ *
+ * Existing tokens are short-lived until their accounts are reconnected; the
+ * token job flags them once they expire.
+ */
+
+const COLUMNS = {
+  dataAccessExpiry: { type: DataType.DATE, allowNull: true },
+  tokenCheckedAt: { type: DataType.DATE, allowNull: true },
+  tokenExpiryNotifiedAt: { type: DataType.DATE, allowNull: true },
+  needsReconnect: { type: DataType.BOOLEAN, defaultValue: false, allowNull: true },
+  reconnectReason: { type: DataType.STRING, allowNull: true },
+};
+
+export async function up() {
+  try {
+    for (const [column, definition] of Object.entries(COLUMNS)) {
+      await sequelize.getQueryInterface().addColumn('facebook_accounts', column, definition);
+      console.log(`✅ Added column: facebook_accounts.${column}`);
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    for (const column of Object.keys(COLUMNS)) {
+      await sequelize.getQueryInterface().removeColumn('facebook_accounts', column);
+      console.log(`✅ Removed column: facebook_accounts.${column}`);
+    }
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,44 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+
+/**
+ * Migration: Add two-factor replay protection to users table
+ *
+ * This script adds the following column:
+ * - twoFactorLastUsedStep: INTEGER - Time step of the last accepted TOTP code
+ */
+
+export async function up() {
+  try {
+    await sequelize.getQueryInterface().addColumn('users', 'twoFactorLastUsedStep', {
+      type: DataType.INTEGER,
+      allowNull: true,
+    });
+    console.log('✅ Added column: users.twoFactorLastUsedStep');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().removeColumn('users', 'twoFactorLastUsedStep');
+    console.log('✅ Removed column: users.twoFactorLastUsedStep');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,41 @@
+import sequelize from '../config/database';
+import { WebhookEvent } from '../models';
+
+/**
+ * Migration: Webhook inbox
+ *
+ * This script creates the webhook_events table, which stores every received
+ * webhook change before it is processed.
+ */
+
+export async function up() {
+  try {
+    await WebhookEvent.sync();
+    console.log('✅ Created table: webhook_events');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().dropTable('webhook_events');
+    console.log('✅ Dropped table: webhook_events');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
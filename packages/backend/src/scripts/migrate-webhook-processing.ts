@@ -0,0 +1,42 @@
+import sequelize from '../config/database';
+
+/**
+ * Migration: Claim webhook events before processing
+ *
+ * This script adds the processing status to webhook_events, set while the
+ * receiving request or the retry job works on an event.
+ */
+
+export async function up() {
+  try {
+    await sequelize.query(`ALTER TYPE "enum_webhook_events_status" ADD VALUE IF NOT EXISTS 'processing'`);
+    console.log('✅ Added status: webhook_events.status processing');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    // Postgres cannot drop an enum value; events still being processed go
+    // back to pending.
+    await sequelize.query(`UPDATE webhook_events SET status = 'pending' WHERE status = 'processing'`);
+    console.log('✅ Marked processing events as pending');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
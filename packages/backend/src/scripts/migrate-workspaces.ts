@@ -0,0 +1,78 @@
+import { DataType } from 'sequelize-typescript';
+import sequelize from '../config/database';
+import { Workspace, WorkspaceMember } from '../models';
+
+/**
+ * Migration: Introduce workspaces that own Facebook accounts
+ *
+ * This script:
+ * - creates the workspaces and workspace_members tables
+ * - adds facebook_accounts.workspaceId
+ * - gives every existing user a personal workspace with themselves as owner
+ *   and moves the accounts they connected into it
+ */
+
+export async function up() {
+  try {
+    await Workspace.sync();
+    console.log('✅ Created table: workspaces');
+
+    await WorkspaceMember.sync();
+    console.log('✅ Created table: workspace_members');
+
+    await sequelize.getQueryInterface().addColumn('facebook_accounts', 'workspaceId', {
+      type: DataType.UUID,
+      allowNull: true,
+      references: { model: 'workspaces', key: 'id' },
+    });
+    console.log('✅ Added column: facebook_accounts.workspaceId');
+
+    const [users] = await sequelize.query(
+      `SELECT id, "firstName" FROM users u
+       WHERE NOT EXISTS (
+         SELECT 1 FROM workspace_members m WHERE m."userId" = u.id AND m.role = 'owner'
+       )`
+    );
+
+    for (const user of users as Array<{ id: string; firstName: string }>) {
+      const workspace = await Workspace.create({ name: `${user.firstName}'s Workspace`, createdById: user.id });
+      await WorkspaceMember.create({ workspaceId: workspace.id, userId: user.id, role: 'owner' });
+      await sequelize.query(
+        'UPDATE facebook_accounts SET "workspaceId" = :workspaceId WHERE "userId" = :userId AND "workspaceId" IS NULL',
+        { replacements: { workspaceId: workspace.id, userId: user.id } }
+      );
+    }
+    console.log(`✅ Created personal workspaces for ${users.length} users`);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+export async function down() {
+  try {
+    await sequelize.getQueryInterface().removeColumn('facebook_accounts', 'workspaceId');
+    console.log('✅ Removed column: facebook_accounts.workspaceId');
+
+    await WorkspaceMember.drop();
+    console.log('✅ Dropped table: workspace_members');
+
+    await Workspace.drop();
+    console.log('✅ Dropped table: workspaces');
+  } catch (error) {
+    console.error('❌ Rollback failed:', error);
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  up()
+    .then(() => {
+      console.log('✅ Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
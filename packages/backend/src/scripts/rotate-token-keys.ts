@@ -0,0 +1,30 @@
+import { getTokenEncryptionConfig } from '../config/encryption';
+import { rewrapToken } from '../utils/tokenCrypto';
+import { transformTokenColumns } from './migrate-token-encryption';
+
+/**
+ * Rewraps every stored Facebook token with the active encryption key.
+ *
+ * To rotate: add the new key to TOKEN_ENCRYPTION_KEYS, point
+ * TOKEN_ENCRYPTION_KEY_ID at it, deploy, run `npm run tokens:rotate`, then
+ * remove the old key. Only the per-token data keys are re-encrypted, and
+ * plaintext values left over from before encryption are encrypted too.
+ */
+export async function rotate() {
+  const { activeKeyId } = getTokenEncryptionConfig();
+  console.log(`🔑 Rewrapping Facebook tokens with key "${activeKeyId}"`);
+
+  await transformTokenColumns(rewrapToken);
+}
+
+if (require.main === module) {
+  rotate()
+    .then(() => {
+      console.log('✅ Key rotation completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Key rotation failed:', error);
+      process.exit(1);
+    });
+}
@@ -1,5 +1,6 @@
 import sequelize from '../config/database';
 import { User, FacebookAccount, Earning, TrendResearch } from '../models';
+import { WorkspaceService } from '../services/WorkspaceService';
 
 const seed = async () => {
   try {
@@ -13,6 +14,7 @@ const seed = async () => {
       firstName: 'Admin',
       lastName: 'User',
       role: 'admin',
+      emailVerified: true,
     });
 
     const user = await User.create({
@@ -21,8 +23,12 @@ const seed = async () => {
       firstName: 'Test',
       lastName: 'User',
       role: 'user',
+      emailVerified: true,
     });
 
+    await WorkspaceService.createWorkspace(admin.id, "Admin's Workspace");
+    await WorkspaceService.createWorkspace(user.id, "Test's Workspace");
+
     console.log('Created users');
 
     const sampleTrends = [
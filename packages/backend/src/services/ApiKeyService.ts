@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { ApiKey, User } from '../models';
+import { AuthenticationError, NotFoundError, ValidationError } from '../errors';
+import { WorkspaceService } from './WorkspaceService';
+
+export type ApiKeyScope = 'accounts:read' | 'earnings:read' | 'earnings:write' | 'schedule:read' | 'schedule:write';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['accounts:read', 'earnings:read', 'earnings:write', 'schedule:read', 'schedule:write'];
+
+export const API_KEY_PREFIX = 'fbk_';
+
+/**
+ * Personal API keys for programmatic access. Only a SHA-256 hash of the key is
+ * stored; the first characters are kept in clear so users can tell keys apart.
+ * A key acts on behalf of its user, so it can never do more than the user's
+ * workspace roles allow, and it can be narrowed further to one workspace.
+ */
+export class ApiKeyService {
+  private static readonly VISIBLE_PREFIX_LENGTH = 12;
+  private static readonly LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+  static isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  static async createKey(
+    userId: string,
+    data: { name: string; scopes: string[]; workspaceId?: string; expiresAt?: string }
+  ) {
+    if (!data.name || !data.name.trim()) {
+      throw new ValidationError('Name is required');
+    }
+
+    if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+      throw new ValidationError('At least one scope is required');
+    }
+
+    const invalidScopes = data.scopes.filter((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+    if (invalidScopes.length > 0) {
+      throw new ValidationError(`Invalid scopes: ${invalidScopes.join(', ')}. Must be one of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    let expiresAt: Date | undefined;
+    if (data.expiresAt) {
+      expiresAt = new Date(data.expiresAt);
+      if (isNaN(expiresAt.getTime())) {
+        throw new ValidationError('Invalid expiresAt date');
+      }
+      if (expiresAt < new Date()) {
+        throw new ValidationError('Expiry must be in the future');
+      }
+    }
+
+    if (data.workspaceId) {
+      await WorkspaceService.assertPermission(userId, data.workspaceId, 'accounts:read');
+    }
+
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+    const apiKey = await ApiKey.create({
+      userId,
+      workspaceId: data.workspaceId,
+      name: data.name.trim(),
+      prefix: key.slice(0, this.VISIBLE_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      scopes: [...new Set(data.scopes)],
+      expiresAt,
+    });
+
+    console.log(`API key created: ${apiKey.id} for user ${userId}`);
+
+    return { apiKey, key };
+  }
+
+  static async listKeys(userId: string) {
+    return ApiKey.findAll({
+      where: { userId, revokedAt: null },
+      order: [['createdAt', 'DESC']],
+    });
+  }
+
+  static async revokeKey(userId: string, keyId: string) {
+    const apiKey = await ApiKey.findOne({ where: { id: keyId, userId, revokedAt: null } });
+
+    if (!apiKey) {
+      throw new NotFoundError('API key not found');
+    }
+
+    apiKey.revokedAt = new Date();
+    await apiKey.save();
+
+    console.log(`API key revoked: ${apiKey.id}`);
+
+    return apiKey;
+  }
+
+  /**
+   * Resolves a presented key to its key record and user, or throws
+   * AuthenticationError for unknown, revoked or expired keys.
+   */
+  static async authenticate(key: string, ip?: string) {
+    const apiKey = await ApiKey.findOne({
+      where: { keyHash: this.hashKey(key) },
+      include: [User],
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+      throw new AuthenticationError('API key has expired');
+    }
+
+    if (!apiKey.user) {
+      throw new AuthenticationError('User not found');
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > this.LAST_USED_RESOLUTION_MS) {
+      try {
+        await apiKey.update({ lastUsedAt: new Date(), lastUsedIp: ip });
+      } catch (error: any) {
+        console.error(`Failed to update API key last use: ${apiKey.id}`, error.message);
+      }
+    }
+
+    return { apiKey, user: apiKey.user };
+  }
+
+  static hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+    return apiKey.scopes.includes(scope);
+  }
+
+  private static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,186 @@
+import { Op } from 'sequelize';
+import { AuditLog, User } from '../models';
+import { ValidationError } from '../errors';
+import { SessionContext } from './SessionService';
+
+export interface AuditActor extends SessionContext {
+  userId?: string;
+  apiKeyId?: string;
+}
+
+export interface AuditEntry {
+  action: string;
+  targetType: string;
+  targetId?: string;
+  workspaceId?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+}
+
+export interface AuditLogFilters {
+  workspaceId?: string;
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+const REDACTED_FIELDS = /token|password|secret|keyHash|recoveryCodes/i;
+const IGNORED_FIELDS = ['createdAt', 'updatedAt'];
+
+export class AuditService {
+  static readonly MAX_EXPORT_ROWS = 10000;
+
+  /**
+   * Writes an audit entry. Failures are logged rather than thrown so that an
+   * audit outage never rolls back the action being audited.
+   */
+  static async record(actor: AuditActor, entry: AuditEntry): Promise<void> {
+    try {
+      await AuditLog.create({
+        actorId: actor.userId,
+        apiKeyId: actor.apiKeyId,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        workspaceId: entry.workspaceId || undefined,
+        before: entry.before ? this.redact(entry.before) : null,
+        after: entry.after ? this.redact(entry.after) : null,
+        ip: actor.ip,
+        userAgent: actor.userAgent,
+        metadata: entry.metadata || {},
+      });
+    } catch (error: any) {
+      console.error(`Failed to write audit log "${entry.action}":`, error.message);
+    }
+  }
+
+  /**
+   * Reduces two snapshots of a record to the fields that differ.
+   */
+  static diff(before: Record<string, any>, after: Record<string, any>) {
+    const changedBefore: Record<string, any> = {};
+    const changedAfter: Record<string, any> = {};
+
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (IGNORED_FIELDS.includes(key)) {
+        continue;
+      }
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changedBefore[key] = before[key];
+        changedAfter[key] = after[key];
+      }
+    }
+
+    return { before: changedBefore, after: changedAfter };
+  }
+
+  static buildWhere(filters: AuditLogFilters) {
+    const where: any = {};
+
+    for (const field of ['workspaceId', 'actorId', 'action', 'targetType', 'targetId'] as const) {
+      if (filters[field]) {
+        where[field] = filters[field];
+      }
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) {
+        const start = new Date(filters.startDate);
+        if (isNaN(start.getTime())) {
+          throw new ValidationError('Invalid startDate format');
+        }
+        where.createdAt[Op.gte] = start;
+      }
+      if (filters.endDate) {
+        const end = new Date(filters.endDate);
+        if (isNaN(end.getTime())) {
+          throw new ValidationError('Invalid endDate format');
+        }
+        where.createdAt[Op.lte] = end;
+      }
+    }
+
+    return where;
+  }
+
+  static async query(filters: AuditLogFilters, limit: number, offset: number) {
+    return AuditLog.findAndCountAll({
+      where: this.buildWhere(filters),
+      include: [{ model: User, attributes: ['id', 'email', 'firstName', 'lastName'] }],
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset,
+    });
+  }
+
+  static async exportCsv(filters: AuditLogFilters): Promise<string> {
+    const logs = await AuditLog.findAll({
+      where: this.buildWhere(filters),
+      include: [{ model: User, attributes: ['email'] }],
+      order: [['createdAt', 'DESC']],
+      limit: this.MAX_EXPORT_ROWS,
+    });
+
+    const header = [
+      'createdAt',
+      'actorId',
+      'actorEmail',
+      'apiKeyId',
+      'action',
+      'targetType',
+      'targetId',
+      'workspaceId',
+      'ip',
+      'userAgent',
+      'before',
+      'after',
+      'metadata',
+    ];
+
+    const rows = logs.map((log) => [
+      log.createdAt.toISOString(),
+      log.actorId,
+      log.actor?.email,
+      log.apiKeyId,
+      log.action,
+      log.targetType,
+      log.targetId,
+      log.workspaceId,
+      log.ip,
+      log.userAgent,
+      log.before ? JSON.stringify(log.before) : '',
+      log.after ? JSON.stringify(log.after) : '',
+      JSON.stringify(log.metadata || {}),
+    ]);
+
+    return [header, ...rows].map((row) => row.map((value) => this.csvCell(value)).join(',')).join('\n') + '\n';
+  }
+
+  private static csvCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    let text = String(value);
+    // Neutralise spreadsheet formulas in user-controlled fields.
+    if (/^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private static redact(values: Record<string, any>): Record<string, any> {
+    const redacted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (IGNORED_FIELDS.includes(key)) {
+        continue;
+      }
+      redacted[key] = REDACTED_FIELDS.test(key) && value ? '[REDACTED]' : value;
+    }
+    return redacted;
+  }
+}
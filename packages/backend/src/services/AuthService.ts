@@ -1,14 +1,49 @@
 import jwt from 'jsonwebtoken';
-import { User } from '../models';
-import { ValidationError, AuthenticationError, NotFoundError, ConflictError } from '../errors';
+import { User, FacebookAccount } from '../models';
+import {
+  AppError,
+  ValidationError,
+  AuthenticationError,
+  NotFoundError,
+  ConflictError,
+  AccountLockedError,
+  ServiceUnavailableError,
+} from '../errors';
 import { handleSequelizeError } from '../utils/errorHelpers';
+import { TwoFactorService } from './TwoFactorService';
+import { SessionService, SessionContext } from './SessionService';
+import { OneTimeTokenService } from './OneTimeTokenService';
+import { MailService } from './MailService';
+import { LoginThrottleService } from './LoginThrottleService';
+import { WorkspaceService } from './WorkspaceService';
+import { FacebookService } from './FacebookService';
+import { AuditService } from './AuditService';
+import { redisClient } from '../config/redis';
 
 export class AuthService {
-  static generateToken(userId: string): string {
+  private static readonly MFA_TOKEN_TTL_SECONDS = 300;
+  private static readonly EMAIL_VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+  private static readonly PASSWORD_RESET_TTL_SECONDS = 60 * 60;
+  private static readonly FACEBOOK_LINK_TTL_SECONDS = 10 * 60;
+
+  static generateToken(userId: string, sessionId: string): string {
     const secret = process.env.JWT_SECRET || 'secret';
-    const expiresIn = process.env.JWT_EXPIRES_IN || '7d';
+    const expiresIn = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900');
     
-    return jwt.sign({ userId }, secret, { expiresIn });
+    return jwt.sign({ userId, sid: sessionId }, secret, { expiresIn });
+  }
+
+  static async issueTokens(user: User, context: SessionContext = {}) {
+    const { sessionId, refreshToken } = await SessionService.createSession(user.id, context);
+    const token = this.generateToken(user.id, sessionId);
+
+    return { token, refreshToken };
+  }
+
+  static generateMfaToken(userId: string): string {
+    const secret = process.env.JWT_SECRET || 'secret';
+
+    return jwt.sign({ userId, type: 'mfa_pending' }, secret, { expiresIn: this.MFA_TOKEN_TTL_SECONDS });
   }
 
   static async register(data: {
@@ -16,7 +51,7 @@ export class AuthService {
     password: string;
     firstName: string;
     lastName: string;
-  }) {
+  }, context: SessionContext = {}) {
     if (!data.email || !data.password || !data.firstName || !data.lastName) {
       throw new ValidationError('All fields are required');
     }
@@ -37,9 +72,16 @@ export class AuthService {
       }
 
       const user = await User.create(data);
-      const token = this.generateToken(user.id);
+      await WorkspaceService.createWorkspace(user.id, `${user.firstName}'s Workspace`);
+      const tokens = await this.issueTokens(user, context);
 
-      return { user, token };
+      try {
+        await this.sendVerificationEmail(user);
+      } catch (error: any) {
+        console.error(`Failed to send verification email to user: ${user.id}`, error.message);
+      }
+
+      return { user, ...tokens };
     } catch (error: any) {
       if (error instanceof ValidationError || error instanceof ConflictError) {
         throw error;
@@ -48,7 +90,7 @@ export class AuthService {
     }
   }
 
-  static async login(email: string, password: string) {
+  static async login(email: string, password: string, context: SessionContext = {}) {
     if (!email || !password) {
       throw new ValidationError('Email and password are required');
     }
@@ -58,12 +100,19 @@ export class AuthService {
     }
 
     try {
+      await LoginThrottleService.assertAllowed(email, context);
+
       const user = await User.findOne({ where: { email } });
 
       if (!user) {
+        await LoginThrottleService.recordFailure(email, context);
         throw new AuthenticationError('Invalid email or password');
       }
 
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        throw new AccountLockedError('Account is temporarily locked due to too many failed login attempts. Use the unlock link sent by email or try again later.');
+      }
+
       if (!user.password) {
         throw new AuthenticationError('Account uses OAuth. Please login with Facebook.');
       }
@@ -71,27 +120,24 @@ export class AuthService {
       const isValid = await user.comparePassword(password);
 
       if (!isValid) {
+        await LoginThrottleService.recordFailure(email, context, user);
         throw new AuthenticationError('Invalid email or password');
       }
 
+      await LoginThrottleService.clearFailures(email);
+
       if (!user.isActive) {
         throw new AuthenticationError('Account is inactive. Please contact support.');
       }
 
-      try {
-        user.lastLogin = new Date();
-        await user.save();
-      } catch (error: any) {
-        console.error(`Failed to update user last login: ${user.id}`, error.message);
+      if (user.twoFactorEnabled) {
+        console.log(`Password verified, awaiting two-factor code: ${user.id}`);
+        return { mfaRequired: true as const, mfaToken: this.generateMfaToken(user.id) };
       }
 
-      console.log(`User login successful: ${user.id} (${user.email})`);
-
-      const token = this.generateToken(user.id);
-
-      return { user, token };
+      return await this.completeLogin(user, context);
     } catch (error: any) {
-      if (error instanceof ValidationError || error instanceof AuthenticationError) {
+      if (error instanceof AppError) {
         console.log(`Failed login attempt for email: ${email}`, {
           reason: error.message,
         });
@@ -101,7 +147,332 @@ export class AuthService {
     }
   }
 
-  static async updatePassword(userId: string, oldPassword: string, newPassword: string) {
+  static async verifyTwoFactorLogin(
+    mfaToken: string,
+    response: { code?: string; recoveryCode?: string },
+    context: SessionContext = {}
+  ) {
+    if (!mfaToken) {
+      throw new ValidationError('MFA token is required');
+    }
+
+    if (!response.code && !response.recoveryCode) {
+      throw new ValidationError('Verification code or recovery code is required');
+    }
+
+    const decoded = this.decodeToken(mfaToken);
+
+    if (decoded.type !== 'mfa_pending') {
+      throw new AuthenticationError('Invalid MFA token');
+    }
+
+    try {
+      const user = await User.findByPk(decoded.userId);
+
+      if (!user || !user.isActive) {
+        throw new AuthenticationError('Invalid MFA token');
+      }
+
+      await LoginThrottleService.assertAllowed(user.email, context);
+
+      const isValid = await TwoFactorService.verifyChallenge(user, response);
+
+      if (!isValid) {
+        console.log(`Failed two-factor attempt for user: ${user.id}`);
+        await LoginThrottleService.recordFailure(user.email, context, user);
+        throw new AuthenticationError('Invalid verification code');
+      }
+
+      await LoginThrottleService.clearFailures(user.email);
+
+      return await this.completeLogin(user, context);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  /**
+   * Signs in with a Facebook OAuth code, creating the user on first sign-in.
+   * Only a user who linked this Facebook login is signed in directly. If the
+   * Facebook email belongs to an existing user, or a user connected this
+   * Facebook login as an account, nothing is signed in: the caller gets a
+   * link token to redeem with that user's password.
+   */
+  static async loginWithFacebook(code: string, redirectUri: string, context: SessionContext = {}) {
+    if (!code || !redirectUri) {
+      throw new ValidationError('Authorization code and redirect URI are required');
+    }
+
+    const tokenData = await FacebookService.exchangeCodeForLongLivedToken(code, redirectUri);
+    const profile = await FacebookService.getUserProfile(tokenData.access_token);
+
+    try {
+      let user = await User.findOne({ where: { facebookId: profile.id } });
+      let created = false;
+
+      if (!user) {
+        const existingUser = await this.findFacebookLinkCandidate(profile);
+
+        if (existingUser) {
+          if (!existingUser.isActive) {
+            throw new AuthenticationError('Account is inactive. Please contact support.');
+          }
+
+          const linkToken = await OneTimeTokenService.create('facebook_link', existingUser.id, this.FACEBOOK_LINK_TTL_SECONDS);
+          await this.storePendingFacebookLink(existingUser.id, { profile, tokenData });
+
+          console.log(`Facebook sign-in matched existing user, link required: ${existingUser.id}`);
+
+          return {
+            linkRequired: true as const,
+            linkToken,
+            email: existingUser.email === profile.email ? existingUser.email : this.maskEmail(existingUser.email),
+            twoFactorRequired: existingUser.twoFactorEnabled,
+          };
+        }
+
+        if (!profile.email) {
+          throw new ValidationError('Your Facebook account did not share an email address. Allow email access or sign up with email.');
+        }
+
+        user = await this.createFacebookUser(profile);
+        created = true;
+      }
+
+      if (!user.isActive) {
+        throw new AuthenticationError('Account is inactive. Please contact support.');
+      }
+
+      await LoginThrottleService.assertAllowed(user.email, context);
+
+      await this.connectFacebookLogin(user, profile, tokenData, context, created ? 'user.facebook_signup' : undefined);
+
+      if (user.twoFactorEnabled) {
+        console.log(`Facebook sign-in verified, awaiting two-factor code: ${user.id}`);
+        return { mfaRequired: true as const, mfaToken: this.generateMfaToken(user.id) };
+      }
+
+      return await this.completeLogin(user, context);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  /**
+   * Links a pending Facebook sign-in to the existing account with the same
+   * email once the user proves they own it. The link token is single-use, so
+   * a wrong password means starting the Facebook sign-in again.
+   */
+  static async completeFacebookLink(
+    linkToken: string,
+    credentials: { password?: string; code?: string; recoveryCode?: string },
+    context: SessionContext = {}
+  ) {
+    if (!linkToken || !credentials.password) {
+      throw new ValidationError('Link token and password are required');
+    }
+
+    const userId = await OneTimeTokenService.consume('facebook_link', linkToken);
+    const pending = await this.takePendingFacebookLink(userId);
+
+    try {
+      const user = await User.findByPk(userId);
+
+      if (!user || !user.isActive || !pending) {
+        throw new AuthenticationError('Invalid or expired link');
+      }
+
+      await LoginThrottleService.assertAllowed(user.email, context);
+
+      if (!user.password) {
+        throw new ValidationError('Account has no password. Reset your password first, then sign in with Facebook again.');
+      }
+
+      const isValid = await user.comparePassword(credentials.password);
+
+      if (!isValid) {
+        await LoginThrottleService.recordFailure(user.email, context, user);
+        throw new AuthenticationError('Invalid password');
+      }
+
+      if (user.twoFactorEnabled && !(await TwoFactorService.verifyChallenge(user, credentials))) {
+        await LoginThrottleService.recordFailure(user.email, context, user);
+        throw new AuthenticationError('Invalid verification code');
+      }
+
+      await LoginThrottleService.clearFailures(user.email);
+
+      user.facebookId = pending.profile.id;
+      if (!user.emailVerified) {
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+      }
+      await user.save();
+
+      await this.connectFacebookLogin(user, pending.profile, pending.tokenData, context, 'user.facebook_link');
+
+      return await this.completeLogin(user, context);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  static async refresh(refreshToken: string, context: SessionContext = {}) {
+    if (!refreshToken) {
+      throw new ValidationError('Refresh token is required');
+    }
+
+    const session = await SessionService.rotateRefreshToken(refreshToken, context);
+
+    try {
+      const user = await User.findByPk(session.userId);
+
+      if (!user || !user.isActive) {
+        await SessionService.revokeAllSessions(session.userId);
+        throw new AuthenticationError('Account is inactive');
+      }
+
+      const token = this.generateToken(user.id, session.sessionId);
+
+      return { user, token, refreshToken: session.refreshToken };
+    } catch (error: any) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  static async sendVerificationEmail(user: User) {
+    if (user.emailVerified) {
+      throw new ValidationError('Email address is already verified');
+    }
+
+    const token = await OneTimeTokenService.create('email_verification', user.id, this.EMAIL_VERIFICATION_TTL_SECONDS);
+    await MailService.sendEmailVerification(user.email, user.firstName, token);
+  }
+
+  static async resendVerificationEmail(userId: string) {
+    try {
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      await this.sendVerificationEmail(user);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  static async verifyEmail(token: string) {
+    const userId = await OneTimeTokenService.consume('email_verification', token);
+
+    try {
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+
+      console.log(`Email verified for user: ${user.id}`);
+
+      return user;
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  /**
+   * Always resolves, whether or not the address belongs to an account, so the
+   * endpoint cannot be used to discover registered emails.
+   */
+  static async requestPasswordReset(email: string) {
+    if (!email || !this.isValidEmail(email)) {
+      throw new ValidationError('A valid email is required');
+    }
+
+    try {
+      const user = await User.findOne({ where: { email } });
+
+      if (!user || !user.isActive) {
+        console.log(`Password reset requested for unknown or inactive email: ${email}`);
+        return;
+      }
+
+      const token = await OneTimeTokenService.create('password_reset', user.id, this.PASSWORD_RESET_TTL_SECONDS);
+      await MailService.sendPasswordReset(user.email, user.firstName, token);
+
+      console.log(`Password reset email sent to user: ${user.id}`);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  static async resetPassword(token: string, newPassword: string) {
+    if (!token || !newPassword) {
+      throw new ValidationError('Token and new password are required');
+    }
+
+    if (newPassword.length < 8) {
+      throw new ValidationError('New password must be at least 8 characters long');
+    }
+
+    const userId = await OneTimeTokenService.consume('password_reset', token);
+
+    try {
+      const user = await User.findByPk(userId);
+
+      if (!user || !user.isActive) {
+        throw new AuthenticationError('Invalid or expired link');
+      }
+
+      user.password = newPassword;
+      if (!user.emailVerified) {
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+      }
+      await user.save();
+
+      await SessionService.revokeAllSessions(user.id);
+
+      if (user.lockedUntil) {
+        await LoginThrottleService.unlock(user, {}, { method: 'password_reset' });
+      }
+
+      console.log(`Password reset for user: ${user.id}`);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  static async updatePassword(userId: string, oldPassword: string, newPassword: string, currentSessionId?: string) {
     if (!oldPassword || !newPassword) {
       throw new ValidationError('Current password and new password are required');
     }
@@ -132,6 +503,8 @@ export class AuthService {
 
       console.log(`Password updated for user: ${userId}`);
 
+      await SessionService.revokeAllSessions(userId, currentSessionId);
+
       return user;
     } catch (error: any) {
       if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof NotFoundError) {
@@ -141,12 +514,142 @@ export class AuthService {
     }
   }
 
-  static verifyToken(token: string): { userId: string } {
+  static verifyToken(token: string): { userId: string; sid?: string } {
+    const decoded = this.decodeToken(token);
+
+    if (decoded.type === 'mfa_pending') {
+      throw new AuthenticationError('Two-factor verification required');
+    }
+
+    return decoded;
+  }
+
+  private static async completeLogin(user: User, context: SessionContext) {
+    try {
+      user.lastLogin = new Date();
+      await user.save();
+    } catch (error: any) {
+      console.error(`Failed to update user last login: ${user.id}`, error.message);
+    }
+
+    console.log(`User login successful: ${user.id} (${user.email})`);
+
+    const tokens = await this.issueTokens(user, context);
+
+    return { user, ...tokens };
+  }
+
+  /**
+   * The existing user a new Facebook login may belong to: the user with the
+   * same email, else the user who connected this Facebook login as an
+   * account. Either has to confirm with their password before it is linked.
+   */
+  private static async findFacebookLinkCandidate(profile: any): Promise<User | null> {
+    if (profile.email) {
+      const user = await User.findOne({ where: { email: profile.email } });
+
+      if (user) {
+        return user;
+      }
+    }
+
+    const account = await FacebookAccount.findOne({ where: { facebookId: profile.id }, include: [User] });
+
+    return account?.user || null;
+  }
+
+  private static maskEmail(email: string): string {
+    const [local, domain] = email.split('@');
+    return `${local.slice(0, 1)}***@${domain}`;
+  }
+
+  /**
+   * Facebook only shares confirmed email addresses, so users created from a
+   * Facebook profile start out verified and without a password.
+   */
+  private static async createFacebookUser(profile: any) {
+    const [firstName, ...rest] = (profile.name || '').split(' ');
+
+    const user = await User.create({
+      email: profile.email,
+      facebookId: profile.id,
+      firstName: profile.first_name || firstName || 'Facebook',
+      lastName: profile.last_name || rest.join(' ') || 'User',
+      avatar: profile.picture?.data?.url,
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+    });
+    await WorkspaceService.createWorkspace(user.id, `${user.firstName}'s Workspace`);
+
+    console.log(`User registered with Facebook: ${user.id}`);
+
+    return user;
+  }
+
+  private static async connectFacebookLogin(
+    user: User,
+    profile: any,
+    tokenData: any,
+    context: SessionContext,
+    userAction?: 'user.facebook_signup' | 'user.facebook_link'
+  ) {
+    const actor = { ...context, userId: user.id };
+
+    if (userAction) {
+      await AuditService.record(actor, {
+        action: userAction,
+        targetType: 'User',
+        targetId: user.id,
+        after: { facebookId: profile.id },
+      });
+    }
+
+    try {
+      const { account, created } = await FacebookService.linkAccount(user, profile, tokenData);
+
+      await AuditService.record(actor, {
+        action: 'facebook_account.connect',
+        targetType: 'FacebookAccount',
+        targetId: account.id,
+        workspaceId: account.workspaceId,
+        after: { facebookId: account.facebookId, name: account.name },
+        metadata: { created, via: 'facebook_login' },
+      });
+    } catch (error: any) {
+      // Another user may already have connected this Facebook account; that
+      // should not stop the user from signing in.
+      console.error(`Failed to link Facebook account for user ${user.id}:`, error.message);
+    }
+  }
+
+  private static async storePendingFacebookLink(userId: string, pending: { profile: any; tokenData: any }) {
+    try {
+      await redisClient.set(this.facebookLinkKey(userId), JSON.stringify(pending), {
+        EX: this.FACEBOOK_LINK_TTL_SECONDS,
+      });
+    } catch (error: any) {
+      throw new ServiceUnavailableError('Failed to start account linking', { originalError: error.message });
+    }
+  }
+
+  private static async takePendingFacebookLink(userId: string): Promise<{ profile: any; tokenData: any } | null> {
+    try {
+      const pending = await redisClient.getDel(this.facebookLinkKey(userId));
+      return pending ? JSON.parse(pending) : null;
+    } catch (error: any) {
+      throw new ServiceUnavailableError('Failed to complete account linking', { originalError: error.message });
+    }
+  }
+
+  private static facebookLinkKey(userId: string): string {
+    return `facebook_link:${userId}`;
+  }
+
+  private static decodeToken(token: string): { userId: string; sid?: string; type?: string } {
     const secret = process.env.JWT_SECRET || 'secret';
-    
+
     try {
-      const decoded = jwt.verify(token, secret) as { userId: string };
-      return decoded;
+      return jwt.verify(token, secret) as { userId: string; sid?: string; type?: string };
     } catch (error: any) {
       if (error.name === 'TokenExpiredError') {
         throw new AuthenticationError('Token has expired');
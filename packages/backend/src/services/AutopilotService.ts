@@ -1,9 +1,11 @@
 import OpenAI from 'openai';
-import { AutopilotSettings, ScheduledPost, TrendResearch, FacebookAccount } from '../models';
+import { AutopilotSettings, ScheduledPost, TrendResearch, FacebookAccount, FacebookPage, Content } from '../models';
 import { FacebookService } from './FacebookService';
-import { Op } from 'sequelize';
-import { ExternalServiceError, RateLimitError, AppError, DatabaseError } from '../errors';
+import { InstagramService } from './InstagramService';
+import { Op, literal } from 'sequelize';
+import { ExternalServiceError, RateLimitError, AppError, ConflictError, DatabaseError, ValidationError } from '../errors';
 import { withRetry, handleOpenAIError } from '../utils/errorHelpers';
+import { MetricsService } from './MetricsService';
 
 export class AutopilotService {
   private static openai = new OpenAI({
@@ -11,6 +13,17 @@ export class AutopilotService {
     maxRetries: 0,
   });
 
+  private static async createCompletion(params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming) {
+    await MetricsService.increment('ai_calls');
+
+    try {
+      return await this.openai.chat.completions.create(params);
+    } catch (error) {
+      await MetricsService.increment('ai_failures');
+      throw error;
+    }
+  }
+
   static async researchTrendingTopics(category?: string) {
     try {
       const prompt = `As a social media expert, identify 5 trending topics ${
@@ -26,7 +39,7 @@ export class AutopilotService {
 Return the response as a JSON array.`;
 
       const response = await withRetry(
-        () => this.openai.chat.completions.create({
+        () => this.createCompletion({
           model: 'gpt-4',
           messages: [{ role: 'user', content: prompt }],
           response_format: { type: 'json_object' },
@@ -88,7 +101,7 @@ For each idea, provide:
 Return as JSON array.`;
 
       const response = await withRetry(
-        () => this.openai.chat.completions.create({
+        () => this.createCompletion({
           model: 'gpt-4',
           messages: [{ role: 'user', content: prompt }],
           response_format: { type: 'json_object' },
@@ -131,7 +144,7 @@ ${historicalData ? `Historical performance data: ${JSON.stringify(historicalData
 Provide a performance score (1-100) and detailed analysis as JSON.`;
 
       const response = await withRetry(
-        () => this.openai.chat.completions.create({
+        () => this.createCompletion({
           model: 'gpt-4',
           messages: [{ role: 'user', content: prompt }],
           response_format: { type: 'json_object' },
@@ -155,10 +168,10 @@ Provide a performance score (1-100) and detailed analysis as JSON.`;
     }
   }
 
-  static async suggestOptimalPostingTimes(accountId: string) {
+  static async suggestOptimalPostingTimes(pageId: string) {
     try {
       const settings = await AutopilotSettings.findOne({
-        where: { facebookAccountId: accountId },
+        where: { facebookPageId: pageId },
       });
 
       if (settings && settings.preferredHours) {
@@ -198,7 +211,7 @@ Mix of:
 Return as JSON array.`;
 
       const response = await withRetry(
-        () => this.openai.chat.completions.create({
+        () => this.createCompletion({
           model: 'gpt-4',
           messages: [{ role: 'user', content: prompt }],
           response_format: { type: 'json_object' },
@@ -220,10 +233,77 @@ Return as JSON array.`;
     }
   }
 
-  static async scheduleAutoPosts(accountId: string) {
+  /**
+   * Applies the settings a client may change; the page, account and owner of
+   * the settings are not among them, and other fields are ignored. Autopilot
+   * cannot be enabled while the account needs reconnecting.
+   */
+  static async updateSettings(settings: AutopilotSettings, account: FacebookAccount, input: Record<string, any>) {
+    const values: Record<string, any> = {};
+
+    for (const field of ['autoPostEnabled', 'useOptimalTiming', 'contentResearchEnabled', 'autoHashtags', 'performancePrediction']) {
+      if (input[field] !== undefined) {
+        if (typeof input[field] !== 'boolean') {
+          throw new ValidationError(`${field} must be a boolean`);
+        }
+        values[field] = input[field];
+      }
+    }
+
+    for (const [field, min, max] of [['postsPerDay', 1, 10], ['minPredictedScore', 0, 100]] as const) {
+      if (input[field] !== undefined) {
+        if (!Number.isInteger(input[field]) || input[field] < min || input[field] > max) {
+          throw new ValidationError(`${field} must be a whole number from ${min} to ${max}`);
+        }
+        values[field] = input[field];
+      }
+    }
+
+    if (input.preferredHours !== undefined) {
+      if (
+        !Array.isArray(input.preferredHours) ||
+        input.preferredHours.some((hour: unknown) => !Number.isInteger(hour) || (hour as number) < 0 || (hour as number) > 23)
+      ) {
+        throw new ValidationError('preferredHours must be an array of hours from 0 to 23');
+      }
+      values.preferredHours = [...new Set<number>(input.preferredHours)].sort((a, b) => a - b);
+    }
+
+    for (const field of ['targetTopics', 'excludedTopics']) {
+      if (input[field] !== undefined) {
+        if (!Array.isArray(input[field]) || input[field].some((topic: unknown) => typeof topic !== 'string')) {
+          throw new ValidationError(`${field} must be an array of strings`);
+        }
+        values[field] = [...new Set<string>(input[field].map((topic: string) => topic.trim()).filter(Boolean))];
+      }
+    }
+
+    if (input.postingStrategy !== undefined) {
+      if (!['conservative', 'moderate', 'aggressive'].includes(input.postingStrategy)) {
+        throw new ValidationError('postingStrategy must be conservative, moderate or aggressive');
+      }
+      values.postingStrategy = input.postingStrategy;
+    }
+
+    if (input.advancedSettings !== undefined) {
+      if (!input.advancedSettings || typeof input.advancedSettings !== 'object' || Array.isArray(input.advancedSettings)) {
+        throw new ValidationError('advancedSettings must be an object');
+      }
+      values.advancedSettings = input.advancedSettings;
+    }
+
+    if (values.autoPostEnabled && !settings.autoPostEnabled && account.needsReconnect) {
+      throw new ValidationError('Reconnect the Facebook account before enabling autopilot');
+    }
+
+    await settings.update(values);
+    return settings;
+  }
+
+  static async scheduleAutoPosts(pageId: string) {
     try {
       const settings = await AutopilotSettings.findOne({
-        where: { facebookAccountId: accountId },
+        where: { facebookPageId: pageId },
       });
 
       if (!settings || !settings.autoPostEnabled) {
@@ -259,7 +339,8 @@ Return as JSON array.`;
 
             const post = await ScheduledPost.create({
               userId: settings.userId,
-              facebookAccountId: accountId,
+              facebookAccountId: settings.facebookAccountId,
+              facebookPageId: pageId,
               content: idea.caption,
               contentType: 'post',
               hashtags: idea.hashtags,
@@ -280,7 +361,7 @@ Return as JSON array.`;
       return scheduledPosts;
     } catch (error: any) {
       console.error('Failed to schedule auto posts:', error.message);
-      throw new ExternalServiceError('Failed to schedule posts', { accountId });
+      throw new ExternalServiceError('Failed to schedule posts', { pageId });
     }
   }
 
@@ -295,39 +376,61 @@ Return as JSON array.`;
     return tomorrow;
   }
 
+  /**
+   * Claims a pending post by moving it to processing, counting the attempt,
+   * then publishes it. Only one caller can claim a post; the others get a
+   * ConflictError. On failure the post is left processing for the caller to
+   * settle.
+   */
   static async executeScheduledPost(postId: string) {
-    const post = await ScheduledPost.findByPk(postId, {
-      include: [FacebookAccount],
-    });
-
-    if (!post || post.status !== 'pending') {
-      throw new AppError('Post not found or already processed', 404, true, { postId });
-    }
+    let claimed: number;
 
     try {
-      post.status = 'processing';
-      await post.save();
+      [claimed] = await ScheduledPost.update(
+        { status: 'processing', retryCount: literal('"retryCount" + 1'), lastRetryAt: new Date() },
+        { where: { id: postId, status: 'pending' } }
+      );
     } catch (error: any) {
       console.error(`Failed to update post status to processing: ${postId}`, error.message);
       throw new DatabaseError('Failed to update post status', { postId });
     }
 
-    const account = post.facebookAccount;
-    if (!account || !account.pageId || !account.pageAccessToken) {
-      throw new AppError('Account not properly configured', 400, true, {
+    if (claimed === 0) {
+      throw new ConflictError('Post not found or already processed', { postId });
+    }
+
+    const post = await ScheduledPost.findByPk(postId, {
+      include: [FacebookPage],
+    });
+
+    if (!post) {
+      throw new AppError('Post not found or already processed', 404, true, { postId });
+    }
+
+    const page = post.facebookPage;
+    if (!page || !page.isActive) {
+      throw new AppError('Page not properly configured', 400, true, {
         postId,
-        hasAccount: !!account,
-        hasPageId: !!account?.pageId,
-        hasAccessToken: !!account?.pageAccessToken,
+        hasPage: !!page,
+        isActive: !!page?.isActive,
       });
     }
 
+    if (post.platform === 'instagram' && !page.instagramAccountId) {
+      throw new AppError('No Instagram account is linked to this page', 400, true, { postId, pageId: page.pageId });
+    }
+
     try {
-      const result = await FacebookService.publishPost(
-        account.pageId,
-        account.pageAccessToken,
-        post.content
-      );
+      const request = {
+        contentType: post.contentType,
+        content: post.content,
+        mediaUrls: post.mediaUrls,
+        hashtags: post.hashtags,
+      };
+      const result =
+        post.platform === 'instagram'
+          ? await InstagramService.publishPost(page.instagramAccountId!, page.accessToken, request)
+          : await FacebookService.publishPost(page.pageId, page.accessToken, request);
 
       post.status = 'published';
       post.publishedContentId = result.id;
@@ -346,4 +449,115 @@ Return as JSON array.`;
       throw error;
     }
   }
+
+  /**
+   * Replaces the text of a published post on Facebook, and stores the new
+   * content and hashtags on the scheduled post and its synced content.
+   */
+  static async editPublishedPost(post: ScheduledPost, changes: { content?: string; hashtags?: string[] }) {
+    const page = this.getPublishedPage(post);
+    const request = {
+      contentType: post.contentType,
+      content: changes.content ?? post.content,
+      mediaUrls: post.mediaUrls,
+      hashtags: changes.hashtags ?? post.hashtags,
+    };
+
+    const message = await FacebookService.editPost(post.publishedContentId!, page.accessToken, request);
+
+    post.content = request.content;
+    post.hashtags = request.hashtags;
+    post.editedAt = new Date();
+    await post.save();
+
+    await Content.update(
+      { description: message, facebookUpdatedAt: post.editedAt },
+      { where: { facebookPageId: page.id, contentId: post.publishedContentId! } }
+    );
+
+    return post;
+  }
+
+  /**
+   * Deletes a published post from Facebook. The scheduled post is kept with
+   * status deleted.
+   */
+  static async deletePublishedPost(post: ScheduledPost) {
+    const page = this.getPublishedPage(post);
+
+    await this.removeFromFacebook(post, page);
+
+    post.status = 'deleted';
+    await post.save();
+
+    return post;
+  }
+
+  /**
+   * Deletes a published post from Facebook and queues it to be published
+   * again at scheduledFor. The removed publication is kept in the post's
+   * metadata.
+   */
+  static async unpublishAndReschedule(post: ScheduledPost, scheduledFor: Date) {
+    const page = this.getPublishedPage(post);
+
+    await this.removeFromFacebook(post, page);
+
+    post.metadata = {
+      ...post.metadata,
+      unpublished: [
+        ...(post.metadata?.unpublished || []),
+        { contentId: post.publishedContentId, publishedAt: post.publishedAt, unpublishedAt: new Date() },
+      ],
+    };
+    post.status = 'pending';
+    post.scheduledFor = scheduledFor;
+    post.publishedContentId = null;
+    post.publishedAt = null;
+    post.editedAt = null;
+    post.errorMessage = null;
+    post.retryCount = 0;
+    post.lastRetryAt = null;
+    await post.save();
+
+    return post;
+  }
+
+  private static getPublishedPage(post: ScheduledPost): FacebookPage {
+    if (post.status !== 'published' || !post.publishedContentId) {
+      throw new ValidationError('Only published posts can be changed', { postId: post.id, status: post.status });
+    }
+
+    if (post.platform === 'instagram') {
+      throw new ValidationError('Instagram does not allow published posts to be edited or deleted through its API', {
+        postId: post.id,
+      });
+    }
+
+    const page = post.facebookPage;
+    if (!page || !page.isActive) {
+      throw new ValidationError('This page is no longer selected for its account', { postId: post.id });
+    }
+
+    return page;
+  }
+
+  /**
+   * Deletes the post on Facebook and marks its synced content as removed.
+   * Posts a sync or webhook already saw removed are not deleted again.
+   */
+  private static async removeFromFacebook(post: ScheduledPost, page: FacebookPage) {
+    const content = await Content.findOne({ where: { facebookPageId: page.id, contentId: post.publishedContentId! } });
+
+    if (content?.deletedOnFacebookAt) {
+      return;
+    }
+
+    await FacebookService.deletePost(post.publishedContentId!, page.accessToken);
+
+    if (content) {
+      content.deletedOnFacebookAt = new Date();
+      await content.save();
+    }
+  }
 }
@@ -0,0 +1,459 @@
+import axios from 'axios';
+import { Op, WhereOptions } from 'sequelize';
+import { FacebookAccount, FacebookPage, Content, Comment, ModerationSettings } from '../models';
+import { AppError, ExternalServiceError, ValidationError } from '../errors';
+import { handleAxiosError } from '../utils/errorHelpers';
+import { AutoHideSettings, findAutoHideRule, getSentiment } from '../utils/comments';
+import { GraphClient, HttpGraphClient, NO_RETRY } from './GraphClient';
+import { FacebookService, GraphBatchRequest, GraphBatchResult } from './FacebookService';
+
+const FACEBOOK_COMMENT_FIELDS = 'id,message,from{id,name},created_time,parent{id},is_hidden';
+
+const INSTAGRAM_REPLY_FIELDS = 'id,text,username,from{id,username},timestamp,hidden';
+const INSTAGRAM_COMMENT_FIELDS = `${INSTAGRAM_REPLY_FIELDS},replies{${INSTAGRAM_REPLY_FIELDS}}`;
+
+// Graph accepts at most 50 sub-requests per batch call.
+const CONTENTS_PER_BATCH = 50;
+
+export type CommentStatusFilter = 'unreplied' | 'negative' | 'hidden';
+
+export interface CommentFilters {
+  accountIds: string[];
+  pageId?: string;
+  platform?: string;
+  status?: CommentStatusFilter;
+  keyword?: string;
+  limit: number;
+  offset: number;
+}
+
+interface CommentData {
+  commentId: string;
+  parentCommentId: string | null;
+  authorId: string | null;
+  authorName: string | null;
+  message: string | null;
+  commentedAt: Date;
+  isHidden?: boolean;
+}
+
+const DEFAULT_SETTINGS: AutoHideSettings = { autoHideEnabled: false, hideKeywords: [], hideLinks: false, hideSpam: true };
+
+/**
+ * Comments on synced content, from Facebook pages and linked Instagram
+ * accounts, and the moderation actions taken on them.
+ *
+ * Comments arrive through webhooks as they are written, and the comments job
+ * polls the newest comments of content published in the last
+ * COMMENT_SYNC_DAYS to catch what webhooks missed. Each new comment gets a
+ * sentiment and is checked against the page's auto-hide rules; matching
+ * comments are hidden right away. Replies the page writes are stored too,
+ * so comments can be filtered by whether they were answered.
+ */
+export class CommentService {
+  private static graph: GraphClient = new HttpGraphClient();
+
+  static setGraphClient(client: GraphClient) {
+    this.graph = client;
+  }
+
+  static get lookbackDays(): number {
+    return parseInt(process.env.COMMENT_SYNC_DAYS || '14');
+  }
+
+  static async syncAll() {
+    const pages = await FacebookPage.findAll({
+      where: { isActive: true },
+      include: [{ model: FacebookAccount, where: { isActive: true, needsReconnect: false } }],
+    });
+
+    const counts = { pages: pages.length, created: 0, updated: 0, failed: 0 };
+
+    for (const page of pages) {
+      const result = await this.syncPage(page);
+      counts.created += result.created;
+      counts.updated += result.updated;
+      counts.failed += result.failed;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Reads the newest comments of the page's recent content, one request per
+   * content item in batch calls. Failures are handled like insights
+   * collection: a failed item is counted and skipped, and a token or budget
+   * problem stops the page.
+   */
+  static async syncPage(page: FacebookPage) {
+    const since = new Date(Date.now() - this.lookbackDays * 24 * 60 * 60 * 1000);
+    const contents = await Content.findAll({
+      where: {
+        facebookPageId: page.id,
+        deletedOnFacebookAt: null,
+        contentType: { [Op.ne]: 'story' },
+        publishedAt: { [Op.gte]: since },
+      },
+    });
+    const settings = await this.getRules(page);
+    const result = { created: 0, updated: 0, failed: 0 };
+
+    for (let start = 0; start < contents.length; start += CONTENTS_PER_BATCH) {
+      const chunk = contents.slice(start, start + CONTENTS_PER_BATCH);
+
+      let responses: GraphBatchResult[];
+      try {
+        responses = await FacebookService.batch(chunk.map((content) => this.commentsRequest(content)), page.accessToken);
+      } catch (error: any) {
+        console.error(`Failed to sync comments for page ${page.id}:`, error.message);
+
+        if (error instanceof AppError && [401, 403, 429].includes(error.statusCode)) {
+          result.failed += contents.length - start;
+          break;
+        }
+        result.failed += chunk.length;
+        continue;
+      }
+
+      for (const [index, content] of chunk.entries()) {
+        const response = responses[index];
+
+        if (response.error) {
+          result.failed++;
+          console.error(`Failed to sync comments for content ${content.id}:`, response.error.message);
+          continue;
+        }
+
+        for (const data of this.toCommentData(content, response.data?.data || [])) {
+          try {
+            const outcome = await this.ingest(page, content, data, settings);
+            if (outcome) {
+              result[outcome]++;
+            }
+          } catch (error: any) {
+            console.error(`Failed to store comment ${data.commentId}:`, error.message);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Applies a comment change from a page feed webhook. Resolves to false
+   * when the change refers to a comment that is not stored.
+   */
+  static async applyFeedChange(page: FacebookPage, content: Content, value: Record<string, any>): Promise<boolean> {
+    const where = { facebookPageId: page.id, commentId: value.comment_id };
+
+    switch (value.verb) {
+      case 'remove': {
+        const [count] = await Comment.update({ deletedOnFacebookAt: new Date() }, { where });
+        return count > 0;
+      }
+      case 'hide':
+      case 'unhide': {
+        const [count] = await Comment.update({ isHidden: value.verb === 'hide' }, { where });
+        return count > 0;
+      }
+      case 'add':
+      case 'edited':
+        await this.ingest(
+          page,
+          content,
+          {
+            commentId: value.comment_id,
+            // Top-level comments name the post as their parent.
+            parentCommentId: value.parent_id && value.parent_id !== value.post_id ? value.parent_id : null,
+            authorId: value.from?.id ?? null,
+            authorName: value.from?.name ?? null,
+            message: value.message ?? null,
+            commentedAt: value.created_time ? new Date(value.created_time * 1000) : new Date(),
+          },
+          await this.getRules(page)
+        );
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Applies an Instagram `comments` webhook of the page's linked account.
+   * Resolves to false when the media is not synced.
+   */
+  static async applyInstagramChange(page: FacebookPage, value: Record<string, any>): Promise<boolean> {
+    const content = await Content.findOne({
+      where: { facebookPageId: page.id, platform: 'instagram', contentId: value.media?.id, deletedOnFacebookAt: null },
+    });
+
+    if (!content || !value.id) {
+      return false;
+    }
+
+    await this.ingest(
+      page,
+      content,
+      {
+        commentId: value.id,
+        parentCommentId: value.parent_id ?? null,
+        authorId: value.from?.id ?? null,
+        authorName: value.from?.username ?? null,
+        message: value.text ?? null,
+        commentedAt: new Date(),
+      },
+      await this.getRules(page)
+    );
+    return true;
+  }
+
+  static async list(filters: CommentFilters) {
+    const where: WhereOptions = {
+      facebookAccountId: filters.accountIds,
+      fromPage: false,
+      deletedOnFacebookAt: null,
+      ...(filters.pageId ? { facebookPageId: filters.pageId } : {}),
+      ...(filters.platform ? { platform: filters.platform } : {}),
+      ...(filters.status === 'unreplied' ? { repliedAt: null, isHidden: false } : {}),
+      ...(filters.status === 'negative' ? { sentiment: 'negative' } : {}),
+      ...(filters.status === 'hidden' ? { isHidden: true } : {}),
+      ...(filters.keyword ? { message: { [Op.iLike]: `%${filters.keyword.replace(/[\\%_]/g, '\\$&')}%` } } : {}),
+    };
+
+    return Comment.findAndCountAll({
+      where,
+      include: [
+        { model: Content, attributes: ['id', 'contentId', 'platform', 'contentType', 'description', 'contentUrl', 'thumbnailUrl'] },
+        { model: FacebookPage, attributes: ['id', 'pageId', 'name', 'instagramUsername'] },
+      ],
+      order: [['commentedAt', 'DESC']],
+      limit: filters.limit,
+      offset: filters.offset,
+    });
+  }
+
+  /**
+   * Replies as the page. The reply joins the comment's thread and marks the
+   * comment as replied.
+   */
+  static async reply(comment: Comment, page: FacebookPage, message: string) {
+    if (typeof message !== 'string' || !message.trim()) {
+      throw new ValidationError('Reply message is required');
+    }
+
+    const threadId = comment.parentCommentId || comment.commentId;
+    const edge = comment.platform === 'instagram' ? 'replies' : 'comments';
+    const result = await this.send('reply to comment', comment, () =>
+      this.graph.post(`/${threadId}/${edge}`, null, { message: message.trim(), access_token: page.accessToken }, NO_RETRY)
+    );
+
+    const now = new Date();
+    const reply = await Comment.create({
+      facebookAccountId: comment.facebookAccountId,
+      facebookPageId: comment.facebookPageId,
+      contentId: comment.contentId,
+      platform: comment.platform,
+      commentId: result.id,
+      parentCommentId: threadId,
+      authorId: comment.platform === 'instagram' ? page.instagramAccountId : page.pageId,
+      authorName: comment.platform === 'instagram' ? page.instagramUsername : page.name,
+      message: message.trim(),
+      fromPage: true,
+      sentiment: getSentiment(message),
+      commentedAt: now,
+    });
+
+    await comment.update({ repliedAt: now });
+
+    return reply;
+  }
+
+  static async setHidden(comment: Comment, page: FacebookPage, hidden: boolean) {
+    await this.send(hidden ? 'hide comment' : 'unhide comment', comment, () =>
+      this.graph.post(`/${comment.commentId}`, null, {
+        ...(comment.platform === 'instagram' ? { hide: hidden } : { is_hidden: hidden }),
+        access_token: page.accessToken,
+      })
+    );
+
+    return comment.update({ isHidden: hidden, hiddenByRule: null });
+  }
+
+  static async remove(comment: Comment, page: FacebookPage) {
+    await this.send('delete comment', comment, () =>
+      this.graph.delete(`/${comment.commentId}`, { access_token: page.accessToken })
+    );
+
+    return comment.update({ deletedOnFacebookAt: new Date() });
+  }
+
+  static async getSettings(page: FacebookPage) {
+    const [settings] = await ModerationSettings.findOrCreate({
+      where: { facebookPageId: page.id },
+      defaults: { facebookAccountId: page.facebookAccountId, facebookPageId: page.id },
+    });
+    return settings;
+  }
+
+  static async updateSettings(page: FacebookPage, input: Record<string, any>) {
+    const values: Partial<AutoHideSettings> = {};
+
+    for (const field of ['autoHideEnabled', 'hideLinks', 'hideSpam'] as const) {
+      if (input[field] !== undefined) {
+        if (typeof input[field] !== 'boolean') {
+          throw new ValidationError(`${field} must be a boolean`);
+        }
+        values[field] = input[field];
+      }
+    }
+
+    if (input.hideKeywords !== undefined) {
+      if (!Array.isArray(input.hideKeywords) || input.hideKeywords.some((keyword: unknown) => typeof keyword !== 'string')) {
+        throw new ValidationError('hideKeywords must be an array of strings');
+      }
+      values.hideKeywords = [...new Set<string>(input.hideKeywords.map((keyword: string) => keyword.trim()).filter(Boolean))];
+    }
+
+    const settings = await this.getSettings(page);
+    const before = settings.toJSON();
+    await settings.update(values);
+
+    return { settings, before };
+  }
+
+  private static async getRules(page: FacebookPage): Promise<AutoHideSettings> {
+    const settings = await ModerationSettings.findOne({ where: { facebookPageId: page.id } });
+    return settings || DEFAULT_SETTINGS;
+  }
+
+  private static commentsRequest(content: Content): GraphBatchRequest {
+    if (content.platform === 'instagram') {
+      return { path: `/${content.contentId}/comments`, params: { fields: INSTAGRAM_COMMENT_FIELDS, limit: 50 } };
+    }
+
+    return {
+      path: `/${content.contentId}/comments`,
+      params: { fields: FACEBOOK_COMMENT_FIELDS, filter: 'stream', order: 'reverse_chronological', limit: 100 },
+    };
+  }
+
+  /**
+   * Normalizes a comments response. Facebook lists replies alongside
+   * comments (stream filter); Instagram nests them under their comment.
+   */
+  private static toCommentData(content: Content, items: any[]): CommentData[] {
+    if (content.platform === 'instagram') {
+      const toData = (item: any, parentCommentId: string | null): CommentData => ({
+        commentId: item.id,
+        parentCommentId,
+        authorId: item.from?.id ?? null,
+        authorName: item.from?.username ?? item.username ?? null,
+        message: item.text ?? null,
+        commentedAt: new Date(item.timestamp),
+        isHidden: !!item.hidden,
+      });
+
+      return items.flatMap((item) => [toData(item, null), ...(item.replies?.data || []).map((reply: any) => toData(reply, item.id))]);
+    }
+
+    return items.map((item) => ({
+      commentId: item.id,
+      parentCommentId: item.parent?.id ?? null,
+      authorId: item.from?.id ?? null,
+      authorName: item.from?.name ?? null,
+      message: item.message ?? null,
+      commentedAt: new Date(item.created_time),
+      isHidden: !!item.is_hidden,
+    }));
+  }
+
+  /**
+   * Creates or refreshes a comment. A new reply from the page marks its
+   * thread as replied; a new comment from anyone else that matches an
+   * auto-hide rule is hidden. Resolves to what happened, or null when the
+   * stored comment was already current.
+   */
+  private static async ingest(
+    page: FacebookPage,
+    content: Content,
+    data: CommentData,
+    rules: AutoHideSettings
+  ): Promise<'created' | 'updated' | null> {
+    const pageAuthorId = content.platform === 'instagram' ? page.instagramAccountId : page.pageId;
+    const fromPage = !!data.authorId && data.authorId === pageAuthorId;
+    const values = {
+      parentCommentId: data.parentCommentId,
+      authorId: data.authorId,
+      authorName: data.authorName,
+      message: data.message,
+      sentiment: getSentiment(data.message),
+      fromPage,
+      ...(data.isHidden !== undefined ? { isHidden: data.isHidden } : {}),
+      deletedOnFacebookAt: null,
+    };
+
+    const existing = await Comment.findOne({ where: { facebookPageId: page.id, commentId: data.commentId } });
+
+    if (existing) {
+      existing.set(values);
+      if (!existing.changed()) {
+        return null;
+      }
+      await existing.save();
+      return 'updated';
+    }
+
+    const comment = await Comment.create({
+      ...values,
+      facebookAccountId: page.facebookAccountId,
+      facebookPageId: page.id,
+      contentId: content.id,
+      platform: content.platform,
+      commentId: data.commentId,
+      commentedAt: data.commentedAt,
+    });
+
+    if (fromPage && data.parentCommentId) {
+      await Comment.update(
+        { repliedAt: data.commentedAt },
+        {
+          where: {
+            facebookPageId: page.id,
+            commentId: data.parentCommentId,
+            [Op.or]: [{ repliedAt: null }, { repliedAt: { [Op.lt]: data.commentedAt } }],
+          },
+        }
+      );
+    }
+
+    const rule = fromPage || comment.isHidden ? null : findAutoHideRule(comment.message, rules);
+    if (rule) {
+      try {
+        await this.setHidden(comment, page, true);
+        await comment.update({ hiddenByRule: rule });
+      } catch (error: any) {
+        console.error(`Failed to auto-hide comment ${comment.commentId}:`, error.message);
+      }
+    }
+
+    return 'created';
+  }
+
+  private static async send<T = any>(action: string, comment: Comment, request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, comment.platform === 'instagram' ? 'Instagram Comments API' : 'Facebook Comments API');
+      }
+      throw new ExternalServiceError(`Failed to ${action}: ${error.message}`, {
+        service: comment.platform === 'instagram' ? 'Instagram' : 'Facebook',
+        commentId: comment.commentId,
+      });
+    }
+  }
+}
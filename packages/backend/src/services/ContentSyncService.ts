@@ -0,0 +1,276 @@
+import { Op } from 'sequelize';
+import { FacebookPage, Content, SyncStatus } from '../models';
+import { AppError, ConflictError } from '../errors';
+import { FacebookService, ContentEdge, GraphBatchRequest } from './FacebookService';
+import { InstagramService } from './InstagramService';
+import { MonetizationService } from './MonetizationService';
+
+export interface ContentSyncOptions {
+  full?: boolean;
+}
+
+interface SyncCounts {
+  fetched: number;
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+// The Facebook edges of a page, plus the media of its linked Instagram
+// account.
+type SyncEdge = ContentEdge | 'instagram_media';
+
+const EDGES: ContentEdge[] = ['posts', 'videos', 'video_reels'];
+
+const EDGE_CONTENT_TYPES: Record<ContentEdge, string> = {
+  posts: 'post',
+  videos: 'video',
+  video_reels: 'reel',
+};
+
+// Incremental syncs start this far before the watermark to catch posts that
+// were still being created when the last sync ran.
+const WATERMARK_OVERLAP_MS = 60 * 60 * 1000;
+
+// A sync still marked as running after this long is assumed to have died.
+const STALE_SYNC_MS = 60 * 60 * 1000;
+
+/**
+ * Syncs page content (posts, videos and reels, and the media of a linked
+ * Instagram account) into the contents table.
+ *
+ * Full syncs page through a page's whole history and mark content that is
+ * gone from Facebook as deleted. Incremental syncs only read content created
+ * since the page's watermark (the start of its last successful sync). A full
+ * sync runs when requested, on a page's first sync and whenever the last one
+ * is older than FACEBOOK_FULL_SYNC_DAYS, which is also when edits to older
+ * posts are picked up. Graph reads go out as batch calls: the edges of a
+ * page are read together, and the linked Instagram accounts of all synced
+ * pages are checked in one call at the start and their monetization status
+ * at the end, which records the day's monetization snapshot.
+ */
+export class ContentSyncService {
+  static get fullSyncDays(): number {
+    return parseInt(process.env.FACEBOOK_FULL_SYNC_DAYS || '7');
+  }
+
+  static async getStatus(accountId: string) {
+    const [status] = await SyncStatus.findOrCreate({ where: { facebookAccountId: accountId } });
+    return status;
+  }
+
+  /**
+   * Syncs every selected page of the account.
+   */
+  static async syncAccount(accountId: string, options: ContentSyncOptions = {}) {
+    const pages = await FacebookService.getActivePages(accountId);
+
+    if (pages.length === 0) {
+      throw new AppError('Account not found or not configured', 400, true, { accountId, hasPages: false });
+    }
+
+    return this.run(accountId, pages, options);
+  }
+
+  static async syncPage(page: FacebookPage, options: ContentSyncOptions = {}) {
+    return this.run(page.facebookAccountId, [page], options);
+  }
+
+  private static async run(accountId: string, pages: FacebookPage[], options: ContentSyncOptions) {
+    const status = await this.getStatus(accountId);
+
+    if (status.status === 'running' && status.startedAt && Date.now() - status.startedAt.getTime() < STALE_SYNC_MS) {
+      throw new ConflictError('A sync is already running for this account', { accountId });
+    }
+
+    await status.update({
+      status: 'running',
+      mode: options.full || pages.some((page) => this.needsFullSync(page)) ? 'full' : 'incremental',
+      pagesTotal: pages.length,
+      pagesCompleted: 0,
+      fetched: 0,
+      created: 0,
+      updated: 0,
+      deleted: 0,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null,
+    });
+
+    const results = [];
+    try {
+      await InstagramService.discoverAccounts(pages);
+
+      for (const page of pages) {
+        results.push(await this.syncPageContent(page, status, options));
+        status.pagesCompleted++;
+        await status.save();
+      }
+    } catch (error: any) {
+      await status.update({ status: 'failed', error: error.message, finishedAt: new Date() });
+      throw error;
+    }
+
+    // The content is synced by now; a failed monetization snapshot is left
+    // for the next sync rather than failing this one.
+    try {
+      await MonetizationService.checkPages(accountId, pages);
+    } catch (error: any) {
+      console.error(`Failed to check monetization for account ${accountId}:`, error.message);
+    }
+
+    await status.update({ status: 'completed', finishedAt: new Date(), lastSucceededAt: new Date() });
+
+    return { status, pages: results };
+  }
+
+  private static needsFullSync(page: FacebookPage): boolean {
+    return (
+      !page.lastSyncedAt ||
+      !page.lastFullSyncAt ||
+      Date.now() - page.lastFullSyncAt.getTime() > this.fullSyncDays * 24 * 60 * 60 * 1000
+    );
+  }
+
+  private static async syncPageContent(page: FacebookPage, status: SyncStatus, options: ContentSyncOptions) {
+    const startedAt = new Date();
+    const full = options.full || this.needsFullSync(page);
+    const since = full ? undefined : Math.floor((page.lastSyncedAt!.getTime() - WATERMARK_OVERLAP_MS) / 1000);
+    const counts: SyncCounts = { fetched: 0, created: 0, updated: 0, deleted: 0 };
+    const seen = new Set<string>();
+
+    // Each round reads the next page of every edge that has more, in one
+    // batch call.
+    const edges: SyncEdge[] = page.instagramAccountId ? [...EDGES, 'instagram_media'] : EDGES;
+    let pending: Array<{ edge: SyncEdge; after?: string }> = edges.map((edge) => ({ edge }));
+
+    while (pending.length > 0) {
+      const responses = await FacebookService.batch(
+        pending.map(({ edge, after }) => this.edgeRequest(page, edge, { after, since })),
+        page.accessToken
+      );
+      const next: typeof pending = [];
+
+      for (const [index, { edge }] of pending.entries()) {
+        const response = responses[index];
+        if (response.error) {
+          throw response.error;
+        }
+
+        const batch = FacebookService.toContentPage(response.data);
+
+        for (const item of batch.data) {
+          // Video posts come back from the videos edge with their video ID.
+          if (edge === 'posts' && item.type === 'video') {
+            continue;
+          }
+
+          seen.add(item.id);
+          counts.fetched++;
+          status.fetched++;
+
+          try {
+            const result = await this.upsertContent(page, edge, item);
+            if (result) {
+              counts[result]++;
+              status[result]++;
+            }
+          } catch (error: any) {
+            console.error(`Failed to sync ${edge} item ${item.id}:`, error.message);
+          }
+        }
+
+        if (batch.after) {
+          next.push({ edge, after: batch.after });
+        }
+      }
+
+      await status.save();
+      pending = next;
+    }
+
+    // Instagram media IDs never collide with Facebook ones, so one pass
+    // covers both platforms. Media of an unlinked account count as gone.
+    if (full) {
+      const [deleted] = await Content.update(
+        { deletedOnFacebookAt: new Date() },
+        {
+          where: {
+            facebookPageId: page.id,
+            sourceEdge: { [Op.ne]: null },
+            deletedOnFacebookAt: null,
+            ...(seen.size > 0 ? { contentId: { [Op.notIn]: [...seen] } } : {}),
+          },
+        }
+      );
+      counts.deleted = deleted;
+      status.deleted += deleted;
+    }
+
+    page.lastSyncedAt = startedAt;
+    if (full) {
+      page.lastFullSyncAt = startedAt;
+    }
+    await page.save();
+
+    return { pageId: page.id, mode: full ? 'full' : 'incremental', ...counts };
+  }
+
+  private static edgeRequest(page: FacebookPage, edge: SyncEdge, options: { after?: string; since?: number }): GraphBatchRequest {
+    return edge === 'instagram_media'
+      ? InstagramService.mediaPageRequest(page.instagramAccountId!, options)
+      : FacebookService.contentPageRequest(page.pageId, edge, options);
+  }
+
+  /**
+   * Creates or refreshes the content row for a Graph item. Resolves to what
+   * happened, or null when the stored row was already current.
+   */
+  private static async upsertContent(page: FacebookPage, edge: SyncEdge, item: any): Promise<'created' | 'updated' | null> {
+    const values =
+      edge === 'instagram_media'
+        ? {
+            platform: 'instagram',
+            contentType: InstagramService.getContentType(item),
+            title: null,
+            description: item.caption ?? null,
+            thumbnailUrl: item.thumbnail_url ?? item.media_url ?? null,
+            contentUrl: item.permalink ?? null,
+            facebookUpdatedAt: null,
+            sourceEdge: edge,
+            deletedOnFacebookAt: null,
+          }
+        : {
+            platform: 'facebook',
+            contentType: EDGE_CONTENT_TYPES[edge],
+            title: item.title ?? null,
+            description: item.message ?? item.description ?? null,
+            thumbnailUrl: item.full_picture ?? item.picture ?? null,
+            contentUrl: item.permalink_url?.startsWith('/') ? `https://www.facebook.com${item.permalink_url}` : item.permalink_url ?? null,
+            facebookUpdatedAt: item.updated_time ? new Date(item.updated_time) : null,
+            sourceEdge: edge,
+            deletedOnFacebookAt: null,
+          };
+
+    const content = await Content.findOne({ where: { facebookPageId: page.id, contentId: item.id } });
+
+    if (!content) {
+      await Content.create({
+        ...values,
+        facebookAccountId: page.facebookAccountId,
+        facebookPageId: page.id,
+        contentId: item.id,
+        publishedAt: new Date(item.created_time ?? item.timestamp),
+      });
+      return 'created';
+    }
+
+    content.set(values);
+    if (!content.changed()) {
+      return null;
+    }
+
+    await content.save();
+    return 'updated';
+  }
+}
@@ -1,33 +1,95 @@
 import axios, { AxiosError } from 'axios';
-import { FacebookAccount, Content, Earning, Analytics } from '../models';
-import { AppError, ExternalServiceError, RateLimitError, AuthenticationError } from '../errors';
-import { handleAxiosError, withRetry } from '../utils/errorHelpers';
+import { User, FacebookAccount, FacebookPage, Earning, Analytics } from '../models';
+import { AppError, ExternalServiceError, RateLimitError, AuthenticationError, ValidationError } from '../errors';
+import { handleAxiosError, handleSequelizeError } from '../utils/errorHelpers';
+import { WorkspaceService } from './WorkspaceService';
+import { GraphBatchItem, GraphClient, GraphParams, HttpGraphClient, NO_RETRY } from './GraphClient';
+import { getGraphApiConfig } from '../config/graph';
+import { MediaKind, buildPostMessage, getMediaKind } from '../utils/media';
+
+export interface ManagedPage {
+  id: string;
+  name: string;
+  category?: string;
+  tasks?: string[];
+  access_token: string;
+  instagram_business_account?: { id: string; username?: string };
+}
+
+export type ContentEdge = 'posts' | 'videos' | 'video_reels';
+
+const CONTENT_EDGE_FIELDS: Record<ContentEdge, string> = {
+  posts: 'id,message,created_time,updated_time,full_picture,type,permalink_url',
+  videos: 'id,title,description,created_time,updated_time,picture,permalink_url,length',
+  video_reels: 'id,description,created_time,updated_time,picture,permalink_url,length',
+};
+
+const MONETIZATION_FIELDS =
+  'is_eligible_for_branded_content,fan_count,followers_count,is_published,is_permanently_closed,verification_status';
+
+// Graph accepts at most this many sub-requests in one batch call.
+const BATCH_LIMIT = 50;
+
+export interface GraphBatchRequest {
+  method?: 'GET' | 'POST' | 'DELETE';
+  path: string;
+  params?: GraphParams;
+}
+
+/**
+ * Outcome of one sub-request of a batch: its response body, or the error it
+ * failed with, mapped like the error of a standalone call.
+ */
+export type GraphBatchResult<T = any> = { data: T; error?: undefined } | { data?: undefined; error: AppError };
+
+export interface EngagementCounts {
+  reactions: number;
+  comments: number;
+  shares: number;
+}
+
+export interface ContentPageOptions {
+  after?: string;
+  since?: number;
+}
+
+export interface ContentPage {
+  data: any[];
+  after?: string;
+}
+
+export type PublishTarget = 'text' | 'link' | 'photo' | 'photos' | 'video' | 'reel' | 'photo_story' | 'video_story';
+
+export interface PublishRequest {
+  contentType: string;
+  content: string;
+  mediaUrls?: string[];
+  hashtags?: string[];
+}
 
 export class FacebookService {
-  private static readonly GRAPH_API_URL = 'https://graph.facebook.com/v18.0';
-  private static readonly TIMEOUT = 30000;
+  private static graph: GraphClient = new HttpGraphClient();
+
+  /**
+   * Replaces the Graph API transport, e.g. with a client pointed at the mock
+   * Graph server or a stub in tests.
+   */
+  static setGraphClient(client: GraphClient) {
+    this.graph = client;
+  }
 
   static async exchangeCodeForToken(code: string, redirectUri: string) {
     try {
-      const response = await withRetry(
-        () => axios.get(`${this.GRAPH_API_URL}/oauth/access_token`, {
-          params: {
-            client_id: process.env.FACEBOOK_APP_ID,
-            client_secret: process.env.FACEBOOK_APP_SECRET,
-            redirect_uri: redirectUri,
-            code,
-          },
-          timeout: this.TIMEOUT,
-        }),
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000,
-          backoffMultiplier: 2,
-        }
-      );
-
-      return response.data;
+      return await this.graph.get('/oauth/access_token', {
+        client_id: process.env.FACEBOOK_APP_ID,
+        client_secret: process.env.FACEBOOK_APP_SECRET,
+        redirect_uri: redirectUri,
+        code,
+      });
     } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         handleAxiosError(error, 'Facebook OAuth');
       }
@@ -35,25 +97,74 @@ export class FacebookService {
     }
   }
 
-  static async getUserProfile(accessToken: string) {
+  /**
+   * Trades a short-lived user token (about two hours) for a long-lived one
+   * (about 60 days). Page tokens fetched with a long-lived user token do not
+   * expire on their own.
+   */
+  static async exchangeForLongLivedToken(accessToken: string) {
     try {
-      const response = await withRetry(
-        () => axios.get(`${this.GRAPH_API_URL}/me`, {
-          params: {
-            fields: 'id,name,email,picture',
-            access_token: accessToken,
-          },
-          timeout: this.TIMEOUT,
-        }),
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000,
-          backoffMultiplier: 2,
-        }
-      );
+      return await this.graph.get('/oauth/access_token', {
+        grant_type: 'fb_exchange_token',
+        client_id: process.env.FACEBOOK_APP_ID,
+        client_secret: process.env.FACEBOOK_APP_SECRET,
+        fb_exchange_token: accessToken,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Facebook OAuth');
+      }
+      throw new ExternalServiceError(`Facebook long-lived token exchange failed: ${error.message}`, { service: 'Facebook' });
+    }
+  }
+
+  static async exchangeCodeForLongLivedToken(code: string, redirectUri: string) {
+    const tokenData = await this.exchangeCodeForToken(code, redirectUri);
+    return this.exchangeForLongLivedToken(tokenData.access_token);
+  }
+
+  /**
+   * Inspects a user token with the app token: validity, expiry and data
+   * access expiry. `expires_at` is 0 for tokens that do not expire.
+   */
+  static async debugToken(accessToken: string): Promise<{
+    is_valid: boolean;
+    expires_at?: number;
+    data_access_expires_at?: number;
+    scopes?: string[];
+    error?: { code: number; message: string; subcode?: number };
+  }> {
+    try {
+      const response = await this.graph.get('/debug_token', {
+        input_token: accessToken,
+        access_token: `${process.env.FACEBOOK_APP_ID}|${process.env.FACEBOOK_APP_SECRET}`,
+      });
 
       return response.data;
     } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Facebook Graph API');
+      }
+      throw new ExternalServiceError(`Failed to inspect Facebook token: ${error.message}`, { service: 'Facebook' });
+    }
+  }
+
+  static async getUserProfile(accessToken: string) {
+    try {
+      return await this.graph.get('/me', {
+        fields: 'id,name,first_name,last_name,email,picture',
+        access_token: accessToken,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         handleAxiosError(error, 'Facebook Graph API');
       }
@@ -61,57 +172,352 @@ export class FacebookService {
     }
   }
 
+  /**
+   * Stores the Facebook login as an account of `user`, in `workspaceId` or the
+   * user's default workspace. Reconnecting refreshes the stored token and the
+   * tokens of the account's pages, and clears a pending reconnection.
+   */
+  static async linkAccount(
+    user: User,
+    profile: { id: string; name: string },
+    tokenData: { access_token: string; expires_in?: number },
+    workspaceId?: string
+  ) {
+    try {
+      const targetWorkspaceId = workspaceId || (await WorkspaceService.getDefaultWorkspace(user)).id;
+      const tokenExpiry = tokenData.expires_in ? new Date(Date.now() + tokenData.expires_in * 1000) : null;
+
+      const [account, created] = await FacebookAccount.findOrCreate({
+        where: {
+          userId: user.id,
+          facebookId: profile.id,
+        },
+        defaults: {
+          workspaceId: targetWorkspaceId,
+          name: profile.name,
+          accessToken: tokenData.access_token,
+          tokenExpiry,
+        },
+      });
+
+      if (!created) {
+        account.accessToken = tokenData.access_token;
+        account.tokenExpiry = tokenExpiry;
+        account.dataAccessExpiry = null;
+        account.tokenExpiryNotifiedAt = null;
+        account.needsReconnect = false;
+        account.reconnectReason = null;
+      }
+
+      if (!account.workspaceId) {
+        account.workspaceId = targetWorkspaceId;
+      }
+
+      if (account.changed()) {
+        await account.save();
+      }
+
+      if (!created) {
+        await this.refreshPageTokens(account);
+      }
+
+      return { account, created };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  /**
+   * Revokes every permission the user granted the app, which invalidates the
+   * user token and the page tokens derived from it.
+   */
+  static async revokeAccess(accessToken: string) {
+    try {
+      await this.graph.delete('/me/permissions', {
+        access_token: accessToken,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Facebook Graph API');
+      }
+      throw new ExternalServiceError(`Failed to revoke Facebook access: ${error.message}`, { service: 'Facebook' });
+    }
+  }
+
+  /**
+   * Pages the Facebook user can manage, with their page access tokens and the
+   * tasks the user may perform on each. Follows pagination, since agency
+   * logins can manage more pages than fit in one response.
+   */
+  static async getManagedPages(userId: string, accessToken: string): Promise<ManagedPage[]> {
+    try {
+      const pages: ManagedPage[] = [];
+      let after: string | undefined;
+
+      do {
+        const response = await this.graph.get(`/${userId}/accounts`, {
+          fields: 'id,name,category,tasks,access_token,instagram_business_account{id,username}',
+          limit: 100,
+          after,
+          access_token: accessToken,
+        });
+
+        pages.push(...response.data);
+        after = response.paging?.next ? response.paging.cursors?.after : undefined;
+      } while (after);
+
+      return pages;
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Facebook Graph API');
+      }
+      throw new ExternalServiceError(`Failed to list Facebook pages: ${error.message}`, { service: 'Facebook' });
+    }
+  }
+
   static async getPageAccessToken(userId: string, accessToken: string, pageId: string) {
+    const pages = await this.getManagedPages(userId, accessToken);
+    const page = pages.find((p) => p.id === pageId);
+    return page?.access_token || null;
+  }
+
+  static async getGrantedPermissions(accessToken: string): Promise<string[]> {
     try {
-      const response = await withRetry(
-        () => axios.get(
-          `${this.GRAPH_API_URL}/${userId}/accounts`,
-          {
-            params: {
-              access_token: accessToken,
-            },
-            timeout: this.TIMEOUT,
-          }
-        ),
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000,
-          backoffMultiplier: 2,
-        }
-      );
+      const response = await this.graph.get('/me/permissions', {
+        access_token: accessToken,
+      });
 
-      const page = response.data.data.find((p: any) => p.id === pageId);
-      return page?.access_token || null;
+      return response.data
+        .filter((entry: any) => entry.status === 'granted')
+        .map((entry: any) => entry.permission);
     } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         handleAxiosError(error, 'Facebook Graph API');
       }
-      throw new ExternalServiceError(`Failed to get page access token: ${error.message}`, { service: 'Facebook' });
+      throw new ExternalServiceError(`Failed to get granted permissions: ${error.message}`, { service: 'Facebook' });
     }
   }
 
-  static async getPageInsights(pageId: string, accessToken: string, metric: string) {
+  /**
+   * Stores the chosen pages of the account with their page access tokens and
+   * refreshes the permissions granted to the app. Pages that are no longer
+   * selected are deactivated rather than deleted, so their content, earnings
+   * and scheduled posts stay attached to them.
+   */
+  static async selectPages(account: FacebookAccount, pageIds: string[]) {
+    if (!Array.isArray(pageIds) || pageIds.length === 0) {
+      throw new ValidationError('Select at least one page');
+    }
+
+    const [pages, permissions] = await Promise.all([
+      this.getManagedPages(account.facebookId, account.accessToken),
+      this.getGrantedPermissions(account.accessToken),
+    ]);
+
+    const selected = [...new Set(pageIds)].map((pageId) => ({
+      pageId,
+      page: pages.find((p) => p.id === pageId),
+    }));
+    const missing = selected.filter(({ page }) => !page).map(({ pageId }) => pageId);
+
+    if (missing.length > 0) {
+      throw new ValidationError(`This Facebook login cannot manage page(s): ${missing.join(', ')}`, { pageIds: missing });
+    }
+
     try {
-      const response = await withRetry(
-        () => axios.get(
-          `${this.GRAPH_API_URL}/${pageId}/insights`,
-          {
-            params: {
-              metric,
-              access_token: accessToken,
-            },
-            timeout: this.TIMEOUT,
-          }
-        ),
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000,
-          backoffMultiplier: 2,
+      const existing = await FacebookPage.findAll({ where: { facebookAccountId: account.id } });
+      const selectedPages: FacebookPage[] = [];
+
+      for (const { page } of selected) {
+        const values = {
+          name: page!.name,
+          category: page!.category,
+          tasks: page!.tasks || [],
+          accessToken: page!.access_token,
+          instagramAccountId: page!.instagram_business_account?.id || null,
+          instagramUsername: page!.instagram_business_account?.username || null,
+          isActive: true,
+        };
+        const stored = existing.find((p) => p.pageId === page!.id);
+
+        selectedPages.push(
+          stored
+            ? await stored.update(values)
+            : await FacebookPage.create({ facebookAccountId: account.id, pageId: page!.id, ...values })
+        );
+      }
+
+      for (const stored of existing) {
+        if (stored.isActive && !pageIds.includes(stored.pageId)) {
+          await stored.update({ isActive: false });
         }
-      );
+      }
 
-      return response.data;
+      account.permissions = permissions;
+      await account.save();
+
+      return selectedPages;
     } catch (error: any) {
+      handleSequelizeError(error);
+    }
+  }
+
+  /**
+   * Replaces the stored page tokens with ones derived from the account's
+   * current user token, and picks up Instagram accounts linked or unlinked
+   * since. Failures are logged, as the pages keep working until their old
+   * tokens are rejected.
+   */
+  static async refreshPageTokens(account: FacebookAccount) {
+    try {
+      const stored = await FacebookPage.findAll({ where: { facebookAccountId: account.id } });
+
+      if (stored.length === 0) {
+        return;
+      }
+
+      const pages = await this.getManagedPages(account.facebookId, account.accessToken);
+
+      for (const page of stored) {
+        const managed = pages.find((p) => p.id === page.pageId);
+        if (!managed) {
+          continue;
+        }
+
+        const instagramAccountId = managed.instagram_business_account?.id || null;
+        if (managed.access_token !== page.accessToken || instagramAccountId !== page.instagramAccountId) {
+          await page.update({
+            accessToken: managed.access_token,
+            instagramAccountId,
+            instagramUsername: managed.instagram_business_account?.username || null,
+          });
+        }
+      }
+    } catch (error: any) {
+      console.error(`Failed to refresh page tokens for account ${account.id}:`, error.message);
+    }
+  }
+
+  static async getActivePages(accountId: string) {
+    return FacebookPage.findAll({
+      where: { facebookAccountId: accountId, isActive: true },
+      order: [['name', 'ASC']],
+    });
+  }
+
+  /**
+   * The page a request that names only the account refers to: the account's
+   * single selected page. Accounts with several selected pages need an
+   * explicit facebookPageId.
+   */
+  static async getDefaultPage(accountId: string) {
+    const pages = await this.getActivePages(accountId);
+
+    if (pages.length === 0) {
+      throw new ValidationError('No page is selected for this account');
+    }
+
+    if (pages.length > 1) {
+      throw new ValidationError('facebookPageId is required for accounts with several pages');
+    }
+
+    return pages[0];
+  }
+
+  /**
+   * Runs Graph requests as batch calls of up to 50 sub-requests each, all
+   * with the given token. Results are in request order; a failed
+   * sub-request yields an error for its item and does not fail the others.
+   * A batch call that fails as a whole (network, rate limit, expired token)
+   * rejects.
+   */
+  static async batch<T = any>(requests: GraphBatchRequest[], accessToken: string): Promise<GraphBatchResult<T>[]> {
+    const results: GraphBatchResult<T>[] = [];
+
+    for (let start = 0; start < requests.length; start += BATCH_LIMIT) {
+      const chunk = requests.slice(start, start + BATCH_LIMIT);
+      const items: GraphBatchItem[] = chunk.map((request) => this.toBatchItem(request));
+
+      let responses;
+      try {
+        responses = await this.graph.batch(items, accessToken);
+      } catch (error: any) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        if (axios.isAxiosError(error)) {
+          handleAxiosError(error, 'Facebook Batch API');
+        }
+        throw new ExternalServiceError(`Facebook batch request failed: ${error.message}`, { service: 'Facebook' });
+      }
+
+      chunk.forEach((request, index) => {
+        const response = responses[index];
+
+        if (!response) {
+          results.push({
+            error: new ExternalServiceError('Facebook batch sub-request did not complete', { service: 'Facebook', path: request.path }),
+          });
+        } else if (response.code >= 400) {
+          results.push({ error: this.toBatchError(response.code, response.headers, response.body) });
+        } else {
+          results.push({ data: response.body });
+        }
+      });
+    }
+
+    return results;
+  }
+
+  private static toBatchItem(request: GraphBatchRequest): GraphBatchItem {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(request.params || {})) {
+      if (value !== undefined) {
+        params.append(key, String(value));
+      }
+    }
+
+    const path = request.path.replace(/^\//, '');
+    const method = request.method || 'GET';
+
+    if (method === 'POST') {
+      return { method, relative_url: path, body: params.toString() };
+    }
+
+    const query = params.toString();
+    return { method, relative_url: query ? `${path}?${query}` : path };
+  }
+
+  private static toBatchError(status: number, headers: Record<string, string>, data: any): AppError {
+    try {
+      handleAxiosError({ response: { status, headers, data } }, 'Facebook Graph API');
+    } catch (error: any) {
+      return error;
+    }
+  }
+
+  static async getPageInsights(pageId: string, accessToken: string, metric: string) {
+    try {
+      return await this.graph.get(`/${pageId}/insights`, {
+        metric,
+        access_token: accessToken,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         handleAxiosError(error, 'Facebook Insights API');
       }
@@ -119,57 +525,72 @@ export class FacebookService {
     }
   }
 
-  static async getContentList(pageId: string, accessToken: string) {
+  /**
+   * Reads one page of a page's posts, videos or reels, newest first. Pass
+   * the returned `after` cursor to read the next page; `since` (unix
+   * seconds) limits the results to content created after it.
+   */
+  static async getContentPage(
+    pageId: string,
+    accessToken: string,
+    edge: ContentEdge,
+    options: ContentPageOptions = {}
+  ): Promise<ContentPage> {
     try {
-      const response = await withRetry(
-        () => axios.get(
-          `${this.GRAPH_API_URL}/${pageId}/posts`,
-          {
-            params: {
-              fields: 'id,message,created_time,full_picture,type,permalink_url',
-              access_token: accessToken,
-            },
-            timeout: this.TIMEOUT,
-          }
-        ),
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000,
-          backoffMultiplier: 2,
-        }
-      );
+      const request = this.contentPageRequest(pageId, edge, options);
+      const response = await this.graph.get(request.path, { ...request.params, access_token: accessToken });
 
-      return response.data.data;
+      return this.toContentPage(response);
     } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         handleAxiosError(error, 'Facebook Posts API');
       }
-      throw new ExternalServiceError(`Failed to get content list: ${error.message}`, { service: 'Facebook', pageId });
+      throw new ExternalServiceError(`Failed to get content list: ${error.message}`, { service: 'Facebook', pageId, edge });
     }
   }
 
-  static async getVideoInsights(videoId: string, accessToken: string) {
+  /**
+   * The request behind getContentPage, for use in a batch; read its
+   * response with toContentPage.
+   */
+  static contentPageRequest(pageId: string, edge: ContentEdge, options: ContentPageOptions = {}): GraphBatchRequest {
+    return {
+      path: `/${pageId}/${edge}`,
+      params: {
+        fields: CONTENT_EDGE_FIELDS[edge],
+        limit: 100,
+        after: options.after,
+        since: options.since,
+      },
+    };
+  }
+
+  static toContentPage(response: any): ContentPage {
+    return {
+      data: response?.data || [],
+      after: response?.paging?.next ? response.paging.cursors?.after : undefined,
+    };
+  }
+
+  static async getVideoInsights(
+    videoId: string,
+    accessToken: string,
+    metrics: string[] = ['total_video_views', 'total_video_impressions', 'total_video_ad_break_earnings']
+  ) {
     try {
-      const response = await withRetry(
-        () => axios.get(
-          `${this.GRAPH_API_URL}/${videoId}/video_insights`,
-          {
-            params: {
-              metric: 'total_video_views,total_video_impressions,total_video_ad_break_earnings',
-              access_token: accessToken,
-            },
-            timeout: this.TIMEOUT,
-          }
-        ),
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000,
-          backoffMultiplier: 2,
-        }
-      );
+      const response = await this.graph.get(`/${videoId}/video_insights`, {
+        metric: metrics.join(','),
+        access_token: accessToken,
+      });
 
-      return response.data.data;
+      return response.data;
     } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         handleAxiosError(error, 'Facebook Video API');
       }
@@ -177,37 +598,188 @@ export class FacebookService {
     }
   }
 
-  static async publishPost(
-    pageId: string,
-    accessToken: string,
-    message: string,
-    mediaUrl?: string
-  ) {
+  static async getPostInsights(postId: string, accessToken: string, metrics: string[]) {
     try {
-      const params: any = {
-        message,
+      const response = await this.graph.get(`/${postId}/insights`, {
+        metric: metrics.join(','),
         access_token: accessToken,
-      };
+      });
 
-      if (mediaUrl) {
-        params.url = mediaUrl;
+      return response.data;
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
       }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Facebook Insights API');
+      }
+      throw new ExternalServiceError(`Failed to get post insights: ${error.message}`, { service: 'Facebook', postId });
+    }
+  }
 
-      const response = await withRetry(
-        () => axios.post(
-          `${this.GRAPH_API_URL}/${pageId}/photos`,
-          null,
-          { params, timeout: this.TIMEOUT }
-        ),
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000,
-          backoffMultiplier: 2,
+  /**
+   * Lifetime reaction and comment counts of a post or video, and share
+   * counts for posts (videos have no shares field).
+   */
+  static async getEngagementCounts(objectId: string, accessToken: string, withShares: boolean): Promise<EngagementCounts> {
+    try {
+      const request = this.engagementRequest(objectId, withShares);
+      const response = await this.graph.get(request.path, { ...request.params, access_token: accessToken });
+
+      return this.toEngagementCounts(response);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Facebook Graph API');
+      }
+      throw new ExternalServiceError(`Failed to get engagement counts: ${error.message}`, { service: 'Facebook', objectId });
+    }
+  }
+
+  /**
+   * The request behind getEngagementCounts, for use in a batch; read its
+   * response with toEngagementCounts.
+   */
+  static engagementRequest(objectId: string, withShares: boolean): GraphBatchRequest {
+    return {
+      path: `/${objectId}`,
+      params: {
+        fields: [
+          'reactions.summary(total_count).limit(0)',
+          'comments.summary(total_count).limit(0)',
+          ...(withShares ? ['shares'] : []),
+        ].join(','),
+      },
+    };
+  }
+
+  static toEngagementCounts(response: any): EngagementCounts {
+    return {
+      reactions: response?.reactions?.summary?.total_count || 0,
+      comments: response?.comments?.summary?.total_count || 0,
+      shares: response?.shares?.count || 0,
+    };
+  }
+
+  /**
+   * Insights of a post (`insights`) or of a video or reel
+   * (`video_insights`), for use in a batch.
+   */
+  static insightsRequest(objectId: string, edge: 'insights' | 'video_insights', metrics: string[]): GraphBatchRequest {
+    return { path: `/${objectId}/${edge}`, params: { metric: metrics.join(',') } };
+  }
+
+  /**
+   * Daily minutes of the page's videos watched between since and until, for
+   * use in a batch. Facebook reports them in milliseconds.
+   */
+  static videoViewTimeRequest(pageId: string, since: Date, until: Date): GraphBatchRequest {
+    return {
+      path: `/${pageId}/insights`,
+      params: {
+        metric: 'page_video_view_time',
+        period: 'day',
+        since: Math.floor(since.getTime() / 1000),
+        until: Math.floor(until.getTime() / 1000),
+      },
+    };
+  }
+
+  /**
+   * Picks the Graph publishing path for a post from its content type and
+   * media URLs, rejecting combinations Facebook cannot publish.
+   */
+  static getPublishTarget(contentType: string, mediaUrls: string[] = []): PublishTarget {
+    const kinds = mediaUrls.map(getMediaKind);
+    const count = (kind: MediaKind) => kinds.filter((candidate) => candidate === kind).length;
+
+    switch (contentType) {
+      case 'post':
+        if (mediaUrls.length === 0) {
+          return 'text';
         }
-      );
+        if (count('image') === mediaUrls.length) {
+          return mediaUrls.length === 1 ? 'photo' : 'photos';
+        }
+        if (mediaUrls.length === 1) {
+          return kinds[0] === 'video' ? 'video' : 'link';
+        }
+        throw new ValidationError('A post can include several photos, or a single video or link, but not a mix', {
+          contentType,
+          mediaUrls,
+        });
+      case 'video':
+      case 'reel':
+        if (mediaUrls.length !== 1 || kinds[0] === 'image') {
+          throw new ValidationError(`A ${contentType} needs exactly one video URL`, { contentType, mediaUrls });
+        }
+        return contentType;
+      case 'story':
+        if (mediaUrls.length !== 1 || kinds[0] === 'link') {
+          throw new ValidationError('A story needs exactly one photo or video URL', { contentType, mediaUrls });
+        }
+        return kinds[0] === 'image' ? 'photo_story' : 'video_story';
+      default:
+        throw new ValidationError(`Unsupported content type: ${contentType}`, { contentType });
+    }
+  }
 
-      return response.data;
+  /**
+   * Publishes a post to a page through the path matching its content type
+   * and media, with hashtags appended to the message. Resolves to the id of
+   * the published post or video.
+   */
+  static async publishPost(pageId: string, accessToken: string, post: PublishRequest): Promise<{ id: string }> {
+    const mediaUrls = post.mediaUrls || [];
+    const target = this.getPublishTarget(post.contentType, mediaUrls);
+    const message = buildPostMessage(post.content, post.hashtags);
+
+    try {
+      switch (target) {
+        case 'text':
+          return await this.graph.post(`/${pageId}/feed`, null, { message, access_token: accessToken }, NO_RETRY);
+        case 'link':
+          return await this.graph.post(`/${pageId}/feed`, null, { message, link: mediaUrls[0], access_token: accessToken }, NO_RETRY);
+        case 'photo': {
+          const photo = await this.graph.post(
+            `/${pageId}/photos`,
+            null,
+            { url: mediaUrls[0], caption: message, access_token: accessToken },
+            NO_RETRY
+          );
+          return { id: photo.post_id || photo.id };
+        }
+        case 'photos': {
+          const photoIds: string[] = [];
+          for (const url of mediaUrls) {
+            photoIds.push(await this.uploadUnpublishedPhoto(pageId, accessToken, url));
+          }
+
+          const attachedMedia: GraphParams = {};
+          photoIds.forEach((id, index) => {
+            attachedMedia[`attached_media[${index}]`] = JSON.stringify({ media_fbid: id });
+          });
+
+          return await this.graph.post(`/${pageId}/feed`, null, { message, ...attachedMedia, access_token: accessToken }, NO_RETRY);
+        }
+        case 'video':
+          return await this.publishVideo(pageId, accessToken, mediaUrls[0], message);
+        case 'reel':
+          return { id: await this.uploadHostedVideo(`/${pageId}/video_reels`, accessToken, mediaUrls[0], { description: message }) };
+        case 'photo_story': {
+          const photoId = await this.uploadUnpublishedPhoto(pageId, accessToken, mediaUrls[0]);
+          const story = await this.graph.post(`/${pageId}/photo_stories`, null, { photo_id: photoId, access_token: accessToken }, NO_RETRY);
+          return { id: story.post_id || photoId };
+        }
+        case 'video_story':
+          return { id: await this.uploadHostedVideo(`/${pageId}/video_stories`, accessToken, mediaUrls[0]) };
+      }
     } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 401) {
           throw new AuthenticationError(
@@ -217,80 +789,198 @@ export class FacebookService {
         }
         handleAxiosError(error, 'Facebook Publish API');
       }
-      throw new ExternalServiceError(`Failed to publish post: ${error.message}`, { service: 'Facebook', pageId });
+      throw new ExternalServiceError(`Failed to publish post: ${error.message}`, { service: 'Facebook', pageId, target });
+    }
+  }
+
+  /**
+   * Replaces the message of a published post with the post's current
+   * content and hashtags. Videos and reels keep their text in the
+   * description; stories have no text and cannot be edited.
+   */
+  static async editPost(objectId: string, accessToken: string, post: PublishRequest) {
+    const target = this.getPublishTarget(post.contentType, post.mediaUrls);
+
+    if (target === 'photo_story' || target === 'video_story') {
+      throw new ValidationError('Stories cannot be edited', { objectId });
+    }
+
+    const message = buildPostMessage(post.content, post.hashtags);
+    const field = target === 'video' || target === 'reel' ? 'description' : 'message';
+
+    try {
+      await this.graph.post(`/${objectId}`, null, { [field]: message, access_token: accessToken });
+      return message;
+    } catch (error: any) {
+      this.handlePostError(error, 'edit', objectId);
     }
   }
 
-  static async syncAccountData(accountId: string) {
+  /**
+   * Deletes a published post, video or story.
+   */
+  static async deletePost(objectId: string, accessToken: string) {
     try {
-      const account = await FacebookAccount.findByPk(accountId);
-      
-      if (!account || !account.pageId || !account.pageAccessToken) {
-        throw new AppError('Account not found or not configured', 400, true, { 
-          accountId,
-          hasAccount: !!account,
-          hasPageId: !!account?.pageId,
-          hasAccessToken: !!account?.pageAccessToken,
-        });
-      }
+      await this.graph.delete(`/${objectId}`, { access_token: accessToken });
+    } catch (error: any) {
+      this.handlePostError(error, 'delete', objectId);
+    }
+  }
 
-      const posts = await this.getContentList(account.pageId, account.pageAccessToken);
-      
-      let syncedCount = 0;
-      for (const post of posts) {
-        try {
-          await Content.findOrCreate({
-            where: {
-              facebookAccountId: accountId,
-              contentId: post.id,
-            },
-            defaults: {
-              contentType: post.type === 'video' ? 'video' : 'post',
-              description: post.message,
-              thumbnailUrl: post.full_picture,
-              contentUrl: post.permalink_url,
-              publishedAt: new Date(post.created_time),
-            },
-          });
-          syncedCount++;
-        } catch (error: any) {
-          console.error(`Failed to sync post ${post.id}:`, error.message);
-        }
+  private static handlePostError(error: any, action: string, objectId: string): never {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 401) {
+        throw new AuthenticationError(
+          'Facebook page access token expired or invalid. Please reconnect your account.',
+          { objectId }
+        );
       }
+      handleAxiosError(error, 'Facebook Publish API');
+    }
+    throw new ExternalServiceError(`Failed to ${action} post: ${error.message}`, { service: 'Facebook', objectId });
+  }
+
+  private static async uploadUnpublishedPhoto(pageId: string, accessToken: string, url: string): Promise<string> {
+    const photo = await this.graph.post(`/${pageId}/photos`, null, { url, published: false, access_token: accessToken }, NO_RETRY);
+    return photo.id;
+  }
+
+  /**
+   * Page videos are fetched by Facebook from their URL. Videos over the
+   * resumable threshold are instead uploaded in the chunks Facebook asks for,
+   * read from the source with range requests.
+   */
+  private static async publishVideo(pageId: string, accessToken: string, url: string, description: string) {
+    const size = await this.getRemoteFileSize(url);
+
+    if (size === null || size <= getGraphApiConfig().resumableVideoBytes) {
+      return await this.graph.post(`/${pageId}/videos`, null, { file_url: url, description, access_token: accessToken }, NO_RETRY);
+    }
+
+    let session = await this.graph.post(
+      `/${pageId}/videos`,
+      null,
+      { upload_phase: 'start', file_size: size, access_token: accessToken },
+      NO_RETRY
+    );
+    const { upload_session_id: uploadSessionId, video_id: videoId } = session;
+
+    while (Number(session.start_offset) < Number(session.end_offset)) {
+      const chunk = await axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        headers: { Range: `bytes=${session.start_offset}-${Number(session.end_offset) - 1}` },
+        timeout: getGraphApiConfig().timeoutMs,
+      });
+
+      const form = new FormData();
+      form.append('video_file_chunk', new Blob([chunk.data]), 'chunk');
+
+      session = await this.graph.post(
+        `/${pageId}/videos`,
+        form,
+        { upload_phase: 'transfer', upload_session_id: uploadSessionId, start_offset: session.start_offset, access_token: accessToken },
+        NO_RETRY
+      );
+    }
+
+    await this.graph.post(
+      `/${pageId}/videos`,
+      null,
+      { upload_phase: 'finish', upload_session_id: uploadSessionId, description, access_token: accessToken },
+      NO_RETRY
+    );
+
+    return { id: videoId };
+  }
+
+  /**
+   * Reels and video stories: start an upload session, have Facebook fetch
+   * the video from its URL, then publish it.
+   */
+  private static async uploadHostedVideo(path: string, accessToken: string, url: string, finishParams: GraphParams = {}) {
+    const session = await this.graph.post(path, null, { upload_phase: 'start', access_token: accessToken }, NO_RETRY);
+
+    await this.graph.post(session.upload_url, null, undefined, {
+      ...NO_RETRY,
+      headers: { Authorization: `OAuth ${accessToken}`, file_url: url },
+    });
+
+    const result = await this.graph.post(
+      path,
+      null,
+      { upload_phase: 'finish', video_id: session.video_id, video_state: 'PUBLISHED', ...finishParams, access_token: accessToken },
+      NO_RETRY
+    );
+
+    return (result.post_id || session.video_id) as string;
+  }
+
+  private static async getRemoteFileSize(url: string): Promise<number | null> {
+    try {
+      const response = await axios.head(url, { timeout: 10000 });
+      const length = parseInt(response.headers['content-length'] || '', 10);
+      return isNaN(length) ? null : length;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Monetization status of several pages, read in batch calls with each
+   * page's own token. Keyed by Facebook page ID; a page whose check failed
+   * maps to null.
+   */
+  static async getMonetizationStatuses(pages: Array<{ pageId: string; accessToken: string }>) {
+    const statuses = new Map<string, any | null>(pages.map((page) => [page.pageId, null]));
 
-      return { synced: syncedCount, total: posts.length };
+    if (pages.length === 0) {
+      return statuses;
+    }
+
+    try {
+      const results = await this.batch(
+        pages.map((page) => ({
+          path: `/${page.pageId}`,
+          params: { fields: MONETIZATION_FIELDS, access_token: page.accessToken },
+        })),
+        pages[0].accessToken
+      );
+
+      results.forEach((result, index) => {
+        if (result.error) {
+          console.error(`Failed to get monetization status for page ${pages[index].pageId}:`, result.error.message);
+        } else {
+          statuses.set(pages[index].pageId, result.data);
+        }
+      });
     } catch (error: any) {
-      if (error instanceof AppError) {
-        throw error;
-      }
-      throw new ExternalServiceError(`Failed to sync account data: ${error.message}`, { accountId });
+      console.error('Failed to get monetization statuses:', error.message);
     }
+
+    return statuses;
   }
 
   static async getMonetizationStatus(pageId: string, accessToken: string) {
     try {
-      const response = await withRetry(
-        () => axios.get(
-          `${this.GRAPH_API_URL}/${pageId}`,
-          {
-            params: {
-              fields: 'is_eligible_for_branded_content,fan_count',
-              access_token: accessToken,
-            },
-            timeout: this.TIMEOUT,
-          }
-        ),
+      return await this.graph.get(
+        `/${pageId}`,
         {
-          maxAttempts: 2,
-          initialDelayMs: 1000,
-          backoffMultiplier: 2,
-        }
+          fields: MONETIZATION_FIELDS,
+          access_token: accessToken,
+        },
+        { retry: { maxAttempts: 2 } }
       );
-
-      return response.data;
     } catch (error: any) {
-      console.error(`Failed to get monetization status for page ${pageId}:`, error.message);
-      return null;
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Facebook Graph API');
+      }
+      throw new ExternalServiceError(`Failed to get monetization status: ${error.message}`, { service: 'Facebook', pageId });
     }
   }
 }
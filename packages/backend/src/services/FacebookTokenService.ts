@@ -0,0 +1,127 @@
+import { User, FacebookAccount, AutopilotSettings } from '../models';
+import { FacebookService } from './FacebookService';
+import { AuditService } from './AuditService';
+import { MailService } from './MailService';
+
+export type TokenCheckResult = 'valid' | 'expiring' | 'reconnect';
+
+/**
+ * Watches the user tokens of connected Facebook accounts. The daily token job
+ * inspects each token with debug_token; accounts whose token is invalid or
+ * expired are marked as needing reconnection and their autopilot is paused,
+ * and owners are warned FACEBOOK_TOKEN_WARNING_DAYS before a token or its data
+ * access expires. Reconnecting the account (FacebookService.linkAccount)
+ * clears the flag; autopilot stays off until the owner turns it back on.
+ */
+export class FacebookTokenService {
+  static get warningDays(): number {
+    return parseInt(process.env.FACEBOOK_TOKEN_WARNING_DAYS || '7');
+  }
+
+  static async checkAllAccounts() {
+    const accounts = await FacebookAccount.findAll({
+      where: { isActive: true, needsReconnect: false },
+      include: [User],
+    });
+
+    const counts: Record<TokenCheckResult | 'failed', number> = { valid: 0, expiring: 0, reconnect: 0, failed: 0 };
+
+    for (const account of accounts) {
+      try {
+        counts[await this.checkAccount(account)]++;
+      } catch (error: any) {
+        counts.failed++;
+        console.error(`Token check failed for account ${account.id}:`, error.message);
+      }
+    }
+
+    return counts;
+  }
+
+  static async checkAccount(account: FacebookAccount): Promise<TokenCheckResult> {
+    const info = await FacebookService.debugToken(account.accessToken);
+    const now = new Date();
+
+    account.tokenCheckedAt = now;
+    if (info.expires_at !== undefined) {
+      account.tokenExpiry = info.expires_at ? new Date(info.expires_at * 1000) : null;
+    }
+    if (info.data_access_expires_at) {
+      account.dataAccessExpiry = new Date(info.data_access_expires_at * 1000);
+    }
+
+    if (!info.is_valid) {
+      await this.markNeedsReconnect(account, info.error?.message || 'the access token is no longer valid');
+      return 'reconnect';
+    }
+
+    if (account.tokenExpiry && account.tokenExpiry <= now) {
+      await this.markNeedsReconnect(account, 'the access token has expired');
+      return 'reconnect';
+    }
+
+    if (account.dataAccessExpiry && account.dataAccessExpiry <= now) {
+      await this.markNeedsReconnect(account, 'data access has expired');
+      return 'reconnect';
+    }
+
+    const expiresAt = [account.tokenExpiry, account.dataAccessExpiry]
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+
+    if (!expiresAt || expiresAt.getTime() - now.getTime() > this.warningDays * 24 * 60 * 60 * 1000) {
+      await account.save();
+      return 'valid';
+    }
+
+    if (!account.tokenExpiryNotifiedAt) {
+      await this.notifyOwner(account, (user) =>
+        MailService.sendFacebookTokenExpiring(user.email, user.firstName, account.name, expiresAt)
+      );
+      account.tokenExpiryNotifiedAt = now;
+    }
+
+    await account.save();
+    return 'expiring';
+  }
+
+  static async markNeedsReconnect(account: FacebookAccount, reason: string) {
+    account.needsReconnect = true;
+    account.reconnectReason = reason;
+    await account.save();
+
+    const [paused] = await AutopilotSettings.update(
+      { autoPostEnabled: false },
+      { where: { facebookAccountId: account.id, autoPostEnabled: true } }
+    );
+
+    console.log(`Facebook account ${account.id} needs reconnection (${reason}), paused autopilot on ${paused} pages`);
+
+    await AuditService.record({}, {
+      action: 'facebook_account.reconnect_required',
+      targetType: 'FacebookAccount',
+      targetId: account.id,
+      workspaceId: account.workspaceId,
+      after: { needsReconnect: true, reconnectReason: reason },
+      metadata: { autopilotPaused: paused },
+    });
+
+    await this.notifyOwner(account, (user) =>
+      MailService.sendFacebookReconnectRequired(user.email, user.firstName, account.name, reason)
+    );
+  }
+
+  private static async notifyOwner(account: FacebookAccount, send: (user: User) => Promise<void>) {
+    const user = account.user || (await User.findByPk(account.userId));
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    try {
+      await send(user);
+    } catch (error: any) {
+      console.error(`Failed to send token email for account ${account.id}:`, error.message);
+    }
+  }
+}
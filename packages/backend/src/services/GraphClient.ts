@@ -0,0 +1,160 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { GraphApiConfig, getGraphApiConfig } from '../config/graph';
+import { RateLimitError } from '../errors';
+import { RetryOptions, defaultRetryOptions, withRetry } from '../utils/errorHelpers';
+import { GraphScheduler } from './GraphScheduler';
+
+export type GraphParams = Record<string, string | number | boolean | undefined>;
+
+export interface GraphRequestOptions {
+  retry?: RetryOptions;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * One sub-request of a Graph batch call. `relative_url` is relative to the
+ * versioned base URL and carries the query string; `body` is a form-encoded
+ * string for POST sub-requests.
+ */
+export interface GraphBatchItem {
+  method: 'GET' | 'POST' | 'DELETE';
+  relative_url: string;
+  body?: string;
+}
+
+/**
+ * Response to one sub-request, with its headers as a map and its body
+ * parsed. `null` stands for a sub-request Facebook did not complete in time.
+ */
+export interface GraphBatchResponse {
+  code: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Transport for Facebook Graph API calls. Paths are relative to the versioned
+ * base URL (e.g. `/me/accounts`), or absolute for upload hosts Graph hands
+ * out, and calls resolve to the response body.
+ * Failed calls reject with the underlying axios error so callers can map it
+ * with `handleAxiosError`.
+ */
+export interface GraphClient {
+  get<T = any>(path: string, params?: GraphParams, options?: GraphRequestOptions): Promise<T>;
+  post<T = any>(path: string, data?: any, params?: GraphParams, options?: GraphRequestOptions): Promise<T>;
+  delete<T = any>(path: string, params?: GraphParams, options?: GraphRequestOptions): Promise<T>;
+  batch(items: GraphBatchItem[], accessToken: string, options?: GraphRequestOptions): Promise<Array<GraphBatchResponse | null>>;
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffMultiplier: 2,
+  // Calls the scheduler deferred would only be deferred again.
+  shouldRetry: (error: any) => !(error instanceof RateLimitError) && defaultRetryOptions.shouldRetry!(error),
+};
+
+/**
+ * For calls that create something on Facebook (posts, uploads, comments): a
+ * timed-out attempt may still have gone through, so a retry could publish
+ * it twice.
+ */
+export const NO_RETRY: GraphRequestOptions = { retry: { maxAttempts: 1 } };
+
+/**
+ * Graph client over HTTP. Every attempt, retries included, goes through the
+ * GraphScheduler, which holds back or defers calls when the app or page is
+ * near its rate limit and learns the current usage from each response.
+ */
+export class HttpGraphClient implements GraphClient {
+  private readonly http: AxiosInstance;
+
+  constructor(config: GraphApiConfig = getGraphApiConfig()) {
+    this.http = axios.create({
+      baseURL: `${config.baseUrl}/${config.version}`,
+      timeout: config.timeoutMs,
+    });
+  }
+
+  async get<T = any>(path: string, params?: GraphParams, options: GraphRequestOptions = {}): Promise<T> {
+    return this.send(path, () => this.http.get<T>(path, { params, timeout: options.timeoutMs, headers: options.headers }), options);
+  }
+
+  async post<T = any>(path: string, data?: any, params?: GraphParams, options: GraphRequestOptions = {}): Promise<T> {
+    return this.send(
+      path,
+      () => this.http.post<T>(path, data ?? null, { params, timeout: options.timeoutMs, headers: options.headers }),
+      options
+    );
+  }
+
+  async delete<T = any>(path: string, params?: GraphParams, options: GraphRequestOptions = {}): Promise<T> {
+    return this.send(path, () => this.http.delete<T>(path, { params, timeout: options.timeoutMs, headers: options.headers }), options);
+  }
+
+  /**
+   * Sends up to 50 sub-requests as one Graph batch call. The call as a whole
+   * is scheduled and retried like any other; each sub-request's usage
+   * headers are recorded as if it had been sent on its own.
+   */
+  async batch(items: GraphBatchItem[], accessToken: string, options: GraphRequestOptions = {}): Promise<Array<GraphBatchResponse | null>> {
+    const form = new URLSearchParams({ access_token: accessToken, batch: JSON.stringify(items), include_headers: 'true' });
+    const raw = await this.send<Array<{ code: number; headers?: Array<{ name: string; value: string }>; body?: string } | null>>(
+      '/',
+      () => this.http.post('/', form, { timeout: options.timeoutMs, headers: options.headers }),
+      options,
+      items.map((item) => `/${item.relative_url}`)
+    );
+
+    const responses: Array<GraphBatchResponse | null> = [];
+
+    for (const [index, item] of (raw || []).entries()) {
+      if (!item) {
+        responses.push(null);
+        continue;
+      }
+
+      const headers: Record<string, string> = {};
+      for (const header of item.headers || []) {
+        headers[header.name.toLowerCase()] = header.value;
+      }
+
+      let body: any = item.body;
+      try {
+        body = item.body ? JSON.parse(item.body) : null;
+      } catch {
+        // Non-JSON bodies are passed through as text.
+      }
+
+      await GraphScheduler.record(`/${items[index].relative_url}`, item.code, headers, body);
+      responses.push({ code: item.code, headers, body });
+    }
+
+    return responses;
+  }
+
+  private async send<T>(
+    path: string,
+    request: () => Promise<AxiosResponse<T>>,
+    options: GraphRequestOptions,
+    schedulePaths: string[] = [path]
+  ): Promise<T> {
+    const response = await withRetry(async () => {
+      await GraphScheduler.schedule(schedulePaths);
+
+      try {
+        const response = await request();
+        await GraphScheduler.record(path, response.status, response.headers);
+        return response;
+      } catch (error: any) {
+        if (error.response) {
+          await GraphScheduler.record(path, error.response.status, error.response.headers, error.response.data);
+        }
+        throw error;
+      }
+    }, { ...DEFAULT_RETRY, ...options.retry });
+
+    return response.data;
+  }
+}
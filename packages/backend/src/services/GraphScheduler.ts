@@ -0,0 +1,307 @@
+import { redisClient } from '../config/redis';
+import { RateLimitError } from '../errors';
+import { sleep } from '../utils/errorHelpers';
+
+export type GraphBudgetScope = 'app' | string;
+
+export interface GraphUsage {
+  callCount: number;
+  totalTime: number;
+  totalCputime: number;
+  type?: string;
+  estimatedTimeToRegainAccess?: number;
+  updatedAt: string;
+}
+
+export interface GraphBudget {
+  scope: GraphBudgetScope;
+  usage: GraphUsage | null;
+  percent: number;
+  blockedUntil: string | null;
+  state: 'ok' | 'throttled' | 'deferred';
+}
+
+// Graph error codes that mean a rate limit was hit: application (4), user
+// (17), page (32), custom-level (613) and business use case (80000-80014).
+const THROTTLE_ERROR_CODES = [4, 17, 32, 613];
+const APP_THROTTLE_ERROR_CODES = [4];
+
+// Usage is reported over a rolling hour, so older readings are dropped.
+const USAGE_TTL_SECONDS = 60 * 60;
+const USAGE_PROBE_MS = 5 * 60 * 1000;
+
+/**
+ * Central budget check for Graph API calls, shared by every process through
+ * Redis.
+ *
+ * Each response's `x-app-usage` (app-wide) and `x-business-use-case-usage`
+ * (per page or business) headers are stored as the latest usage of that
+ * scope. Before a call, the scheduler looks at the app budget and at the
+ * budget of the object the path starts with: above GRAPH_THROTTLE_PERCENT it
+ * delays the call, more the closer the budget is to GRAPH_DEFER_PERCENT; at
+ * or above that, or while Facebook has blocked the scope, it defers the call
+ * by rejecting it with a RateLimitError marked `deferred`, so jobs can put
+ * the work back instead of spending retries on it. Blocks shorter than
+ * GRAPH_MAX_THROTTLE_WAIT_MS are waited out instead. An exhausted budget is
+ * probed with a single call every five minutes to pick up recovered usage;
+ * a Redis lock makes sure only one process sends it.
+ *
+ * Without Redis the scheduler lets every call through.
+ */
+export class GraphScheduler {
+  static get throttlePercent(): number {
+    return parseInt(process.env.GRAPH_THROTTLE_PERCENT || '75');
+  }
+
+  static get deferPercent(): number {
+    return parseInt(process.env.GRAPH_DEFER_PERCENT || '95');
+  }
+
+  static get maxWaitMs(): number {
+    return parseInt(process.env.GRAPH_MAX_THROTTLE_WAIT_MS || '10000');
+  }
+
+  /**
+   * Waits until the call to `path` fits the budget, or rejects it with a
+   * deferred RateLimitError. Batch calls pass the paths of all their
+   * sub-requests.
+   */
+  static async schedule(path: string | string[]) {
+    const paths = Array.isArray(path) ? path : [path];
+    const budgets = await this.getBudgets([...new Set(paths.flatMap((candidate) => this.scopesFor(candidate)))]);
+    const probes: GraphBudgetScope[] = [];
+    let waitMs = 0;
+
+    for (const budget of budgets) {
+      const blockedMs = budget.blockedUntil ? new Date(budget.blockedUntil).getTime() - Date.now() : 0;
+      const exhaustedMs = this.exhaustedFor(budget);
+
+      if (blockedMs > this.maxWaitMs || exhaustedMs > 0) {
+        throw this.deferredError(budget.scope, Math.max(blockedMs, exhaustedMs));
+      }
+      if (budget.usage && budget.percent >= this.deferPercent) {
+        probes.push(budget.scope);
+      }
+
+      waitMs = Math.max(waitMs, blockedMs, this.throttleDelayFor(budget));
+    }
+
+    // Probe locks are taken last, so a call deferred for another scope does
+    // not use up a probe.
+    for (const scope of probes) {
+      const lockedMs = await this.acquireProbe(scope);
+      if (lockedMs > 0) {
+        throw this.deferredError(scope, lockedMs);
+      }
+    }
+
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Stores the usage a Graph response reports. Rate-limit errors without
+   * usage headers block the scope for the response's Retry-After (default
+   * 60s).
+   */
+  static async record(path: string, status: number, headers: Record<string, any> = {}, body?: any) {
+    if (!redisClient.isOpen) {
+      return;
+    }
+
+    try {
+      const now = new Date().toISOString();
+      let blocked = false;
+
+      const appUsage = this.parseHeader(headers['x-app-usage']);
+      if (appUsage) {
+        await this.saveUsage('app', {
+          callCount: Number(appUsage.call_count) || 0,
+          totalTime: Number(appUsage.total_time) || 0,
+          totalCputime: Number(appUsage.total_cputime) || 0,
+          updatedAt: now,
+        });
+      }
+
+      const businessUsage = this.parseHeader(headers['x-business-use-case-usage']) || {};
+      for (const [objectId, entries] of Object.entries<any>(businessUsage)) {
+        if (!Array.isArray(entries) || entries.length === 0) {
+          continue;
+        }
+
+        // An object can report several use cases; the busiest one decides.
+        const entry = entries.reduce((busiest, candidate) =>
+          this.percentOf(this.toUsage(candidate, now)) > this.percentOf(this.toUsage(busiest, now)) ? candidate : busiest
+        );
+        const usage = this.toUsage(entry, now);
+        await this.saveUsage(objectId, usage);
+
+        if (usage.estimatedTimeToRegainAccess && usage.estimatedTimeToRegainAccess > 0) {
+          await this.block(objectId, usage.estimatedTimeToRegainAccess * 60);
+          blocked = true;
+        }
+      }
+
+      const errorCode = Number(body?.error?.code);
+      const isThrottled = status === 429 || THROTTLE_ERROR_CODES.includes(errorCode) || (errorCode >= 80000 && errorCode <= 80014);
+
+      if (isThrottled && !blocked) {
+        const scope = APP_THROTTLE_ERROR_CODES.includes(errorCode) ? 'app' : this.objectScope(path) || 'app';
+        await this.block(scope, parseInt(headers['retry-after']) || 60);
+      }
+    } catch (error: any) {
+      console.warn('Failed to record Facebook API usage:', error.message);
+    }
+  }
+
+  static async getBudget(scope: GraphBudgetScope): Promise<GraphBudget> {
+    const [budget] = await this.getBudgets([scope]);
+    return budget;
+  }
+
+  static async getBudgets(scopes: GraphBudgetScope[]): Promise<GraphBudget[]> {
+    if (!redisClient.isOpen || scopes.length === 0) {
+      return scopes.map((scope) => ({ scope, usage: null, percent: 0, blockedUntil: null, state: 'ok' }));
+    }
+
+    try {
+      const values = await redisClient.mGet(scopes.flatMap((scope) => [this.usageKey(scope), this.blockKey(scope)]));
+
+      return scopes.map((scope, index) => {
+        const usage = values[index * 2] ? (JSON.parse(values[index * 2]!) as GraphUsage) : null;
+        const blockedUntil = values[index * 2 + 1] ? new Date(parseInt(values[index * 2 + 1]!)).toISOString() : null;
+        const percent = usage ? this.percentOf(usage) : 0;
+
+        let state: GraphBudget['state'] = 'ok';
+        if (blockedUntil || percent >= this.deferPercent) {
+          state = 'deferred';
+        } else if (percent >= this.throttlePercent) {
+          state = 'throttled';
+        }
+
+        return { scope, usage, percent, blockedUntil, state };
+      });
+    } catch (error: any) {
+      console.warn('Failed to read Facebook API budget:', error.message);
+      return scopes.map((scope) => ({ scope, usage: null, percent: 0, blockedUntil: null, state: 'ok' }));
+    }
+  }
+
+  /**
+   * The app scope plus, for paths like `/{page-id}/feed` or
+   * `/{page-id}_{post-id}`, the scope of the page the path starts with.
+   */
+  private static scopesFor(path: string): GraphBudgetScope[] {
+    if (/^https?:\/\//.test(path)) {
+      return [];
+    }
+
+    const objectScope = this.objectScope(path);
+    return objectScope ? ['app', objectScope] : ['app'];
+  }
+
+  private static objectScope(path: string): string | null {
+    const match = path.match(/^\/?(\d+)(?:_\d+)?(?:[/?]|$)/);
+    return match ? match[1] : null;
+  }
+
+  private static throttleDelayFor(budget: GraphBudget): number {
+    if (budget.state !== 'throttled') {
+      return 0;
+    }
+
+    const range = Math.max(this.deferPercent - this.throttlePercent, 1);
+    return Math.round(((budget.percent - this.throttlePercent) / range) * this.maxWaitMs);
+  }
+
+  /**
+   * How much longer a budget at or above GRAPH_DEFER_PERCENT keeps deferring
+   * calls. No calls means no fresh reading, so once its reading is
+   * USAGE_PROBE_MS old one call is let through to refresh it (see
+   * acquireProbe).
+   */
+  private static exhaustedFor(budget: GraphBudget): number {
+    if (!budget.usage || budget.percent < this.deferPercent) {
+      return 0;
+    }
+    return Math.max(new Date(budget.usage.updatedAt).getTime() + USAGE_PROBE_MS - Date.now(), 0);
+  }
+
+  /**
+   * Takes the probe lock of an exhausted scope whose reading is stale, so
+   * that across all processes only one call goes out to refresh it. Resolves
+   * to 0 when the lock was taken, or to how long the current probe still
+   * holds it.
+   */
+  private static async acquireProbe(scope: GraphBudgetScope): Promise<number> {
+    try {
+      const acquired = await redisClient.set(this.probeKey(scope), Date.now().toString(), { NX: true, PX: USAGE_PROBE_MS });
+      if (acquired) {
+        return 0;
+      }
+
+      const remainingMs = await redisClient.pTTL(this.probeKey(scope));
+      return remainingMs > 0 ? remainingMs : USAGE_PROBE_MS;
+    } catch (error: any) {
+      console.warn('Failed to take Facebook API probe lock:', error.message);
+      return 0;
+    }
+  }
+
+  private static deferredError(scope: GraphBudgetScope, delayMs: number): RateLimitError {
+    const retryAfter = Math.ceil(delayMs / 1000);
+    return new RateLimitError(
+      `Facebook API budget ${scope === 'app' ? 'of the app' : `of ${scope}`} is exhausted. Retry after ${retryAfter}s.`,
+      { service: 'Facebook', scope, retryAfter, deferred: true }
+    );
+  }
+
+  private static percentOf(usage: GraphUsage): number {
+    return Math.max(usage.callCount, usage.totalTime, usage.totalCputime);
+  }
+
+  private static toUsage(entry: any, updatedAt: string): GraphUsage {
+    return {
+      callCount: Number(entry.call_count) || 0,
+      totalTime: Number(entry.total_time) || 0,
+      totalCputime: Number(entry.total_cputime) || 0,
+      type: entry.type,
+      estimatedTimeToRegainAccess: Number(entry.estimated_time_to_regain_access) || 0,
+      updatedAt,
+    };
+  }
+
+  private static parseHeader(value: unknown): Record<string, any> | null {
+    if (typeof value !== 'string' || value === '') {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  private static async saveUsage(scope: GraphBudgetScope, usage: GraphUsage) {
+    await redisClient.set(this.usageKey(scope), JSON.stringify(usage), { EX: USAGE_TTL_SECONDS });
+  }
+
+  private static async block(scope: GraphBudgetScope, seconds: number) {
+    const until = Date.now() + seconds * 1000;
+    await redisClient.set(this.blockKey(scope), until.toString(), { PX: seconds * 1000 });
+  }
+
+  private static usageKey(scope: GraphBudgetScope): string {
+    return `graph:usage:${scope}`;
+  }
+
+  private static blockKey(scope: GraphBudgetScope): string {
+    return `graph:blocked:${scope}`;
+  }
+
+  private static probeKey(scope: GraphBudgetScope): string {
+    return `graph:probe:${scope}`;
+  }
+}
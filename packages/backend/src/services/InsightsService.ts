@@ -0,0 +1,389 @@
+import { Op } from 'sequelize';
+import { FacebookAccount, FacebookPage, Content, Analytics } from '../models';
+import { AppError } from '../errors';
+import { FacebookService, GraphBatchRequest, GraphBatchResult } from './FacebookService';
+import { InstagramService } from './InstagramService';
+
+export interface ContentMetrics {
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  clicks: number;
+  reach: number;
+  impressions: number;
+  averageWatchTime: number;
+  completionRate: number;
+}
+
+const POST_METRICS = ['post_impressions', 'post_impressions_unique', 'post_clicks'];
+
+const VIDEO_METRICS = [
+  'total_video_views',
+  'total_video_impressions',
+  'total_video_impressions_unique',
+  'total_video_avg_time_watched',
+  'total_video_complete_views',
+];
+
+const REEL_METRICS = ['blue_reels_play_count', 'post_impressions_unique', 'post_video_avg_time_watched'];
+
+const INSTAGRAM_MEDIA_METRICS = ['impressions', 'reach', 'saved'];
+
+const INSTAGRAM_REEL_METRICS = ['plays', 'reach', 'shares', 'ig_reels_avg_watch_time'];
+
+// Two sub-requests per item keep each batch call within Graph's 50.
+const CONTENTS_PER_BATCH = 25;
+
+/**
+ * Collects post, video and reel insights of synced content, Instagram media
+ * included, into daily Analytics snapshots. Facebook reports lifetime totals, so each snapshot
+ * holds the totals as of its day and growth is the difference between days.
+ * Only content published in the last INSIGHTS_LOOKBACK_DAYS is collected,
+ * and content deleted from Facebook is skipped.
+ */
+export class InsightsService {
+  static get lookbackDays(): number {
+    return parseInt(process.env.INSIGHTS_LOOKBACK_DAYS || '90');
+  }
+
+  static async collectAll() {
+    const pages = await FacebookPage.findAll({
+      where: { isActive: true },
+      include: [{ model: FacebookAccount, where: { isActive: true, needsReconnect: false } }],
+    });
+
+    const counts = { pages: pages.length, collected: 0, failed: 0 };
+
+    for (const page of pages) {
+      const result = await this.collectPage(page);
+      counts.collected += result.collected;
+      counts.failed += result.failed;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Collects the page's content in batch calls of CONTENTS_PER_BATCH items
+   * (engagement and insights requests for each). A failed item is counted
+   * and skipped; a batch rejected as a whole stops the page when its token
+   * no longer works (the token job flags the account) or the Graph
+   * scheduler deferred it until its budget recovers.
+   */
+  static async collectPage(page: FacebookPage) {
+    const since = new Date(Date.now() - this.lookbackDays * 24 * 60 * 60 * 1000);
+    const contents = await Content.findAll({
+      where: {
+        facebookPageId: page.id,
+        deletedOnFacebookAt: null,
+        publishedAt: { [Op.gte]: since },
+      },
+    });
+
+    const result = { collected: 0, failed: 0 };
+
+    for (let start = 0; start < contents.length; start += CONTENTS_PER_BATCH) {
+      const chunk = contents.slice(start, start + CONTENTS_PER_BATCH);
+
+      let responses: GraphBatchResult[];
+      try {
+        responses = await FacebookService.batch(chunk.flatMap((content) => this.metricRequests(content)), page.accessToken);
+      } catch (error: any) {
+        console.error(`Failed to collect insights for page ${page.id}:`, error.message);
+
+        if (error instanceof AppError && [401, 403, 429].includes(error.statusCode)) {
+          result.failed += contents.length - start;
+          break;
+        }
+        result.failed += chunk.length;
+        continue;
+      }
+
+      for (const [index, content] of chunk.entries()) {
+        const [engagement, insights] = responses.slice(index * 2, index * 2 + 2);
+
+        try {
+          if (engagement.error || insights.error) {
+            throw engagement.error || insights.error;
+          }
+
+          await this.saveSnapshot(content, this.toMetrics(content, engagement.data, insights.data));
+          result.collected++;
+        } catch (error: any) {
+          result.failed++;
+          console.error(`Failed to collect insights for content ${content.id}:`, error.message);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Stores metrics as today's snapshot, replacing an earlier snapshot from
+   * the same day.
+   */
+  private static async saveSnapshot(content: Content, metrics: ContentMetrics) {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+
+    const values = { ...metrics, engagementRate: this.engagementRate(metrics) };
+
+    const [snapshot, created] = await Analytics.findOrCreate({
+      where: { contentId: content.id, date },
+      defaults: values,
+    });
+
+    if (!created) {
+      await snapshot.update(values);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Refreshes only the reaction, comment and share counts of today's
+   * snapshot, carrying the other metrics forward from the latest snapshot.
+   * Used when a webhook reports new engagement between daily collections.
+   */
+  static async refreshEngagement(content: Content, page: FacebookPage) {
+    const isVideo = content.contentType === 'video' || content.contentType === 'reel';
+    const engagement = await FacebookService.getEngagementCounts(content.contentId, page.accessToken, !isVideo);
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+
+    const latest = await Analytics.findOne({
+      where: { contentId: content.id },
+      order: [['date', 'DESC']],
+    });
+
+    const metrics: ContentMetrics = {
+      views: latest?.views || 0,
+      clicks: latest?.clicks || 0,
+      reach: latest?.reach || 0,
+      impressions: latest?.impressions || 0,
+      averageWatchTime: latest?.averageWatchTime || 0,
+      completionRate: Number(latest?.completionRate) || 0,
+      likes: engagement.reactions,
+      comments: engagement.comments,
+      shares: isVideo ? latest?.shares || 0 : engagement.shares,
+    };
+
+    const values = { ...metrics, engagementRate: this.engagementRate(metrics) };
+
+    if (latest && new Date(latest.date).getTime() === date.getTime()) {
+      await latest.update(values);
+      return latest;
+    }
+
+    return Analytics.create({ ...values, contentId: content.id, date });
+  }
+
+  /**
+   * Engaged users per 100 reached: reactions, comments, shares and clicks
+   * over reach, as a percentage.
+   */
+  static engagementRate(metrics: ContentMetrics): number {
+    if (metrics.reach <= 0) {
+      return 0;
+    }
+
+    const engagements = metrics.likes + metrics.comments + metrics.shares + metrics.clicks;
+    return Math.min(999.99, Math.round((engagements / metrics.reach) * 10000) / 100);
+  }
+
+  /**
+   * The engagement and insights requests for one content item, in the order
+   * toMetrics reads their responses.
+   */
+  private static metricRequests(content: Content): GraphBatchRequest[] {
+    if (content.platform === 'instagram') {
+      return [
+        InstagramService.engagementRequest(content.contentId),
+        InstagramService.insightsRequest(
+          content.contentId,
+          content.contentType === 'reel' ? INSTAGRAM_REEL_METRICS : INSTAGRAM_MEDIA_METRICS
+        ),
+      ];
+    }
+
+    if (content.contentType === 'reel') {
+      return [
+        FacebookService.engagementRequest(content.contentId, false),
+        FacebookService.insightsRequest(content.contentId, 'video_insights', REEL_METRICS),
+      ];
+    }
+
+    if (content.contentType === 'video') {
+      return [
+        FacebookService.engagementRequest(content.contentId, false),
+        FacebookService.insightsRequest(content.contentId, 'video_insights', VIDEO_METRICS),
+      ];
+    }
+
+    return [
+      FacebookService.engagementRequest(content.contentId, true),
+      FacebookService.insightsRequest(content.contentId, 'insights', POST_METRICS),
+    ];
+  }
+
+  private static toMetrics(content: Content, engagementResponse: any, insightsResponse: any): ContentMetrics {
+    if (content.platform === 'instagram') {
+      return this.toInstagramMetrics(content, engagementResponse, insightsResponse);
+    }
+
+    const engagement = FacebookService.toEngagementCounts(engagementResponse);
+    const insights = this.toMap(insightsResponse?.data);
+    const base = { likes: engagement.reactions, comments: engagement.comments, shares: engagement.shares };
+
+    if (content.contentType === 'reel') {
+      const reach = insights.post_impressions_unique || 0;
+
+      return {
+        ...base,
+        views: insights.blue_reels_play_count || 0,
+        clicks: 0,
+        reach,
+        impressions: reach,
+        averageWatchTime: Math.round((insights.post_video_avg_time_watched || 0) / 1000),
+        completionRate: 0,
+      };
+    }
+
+    if (content.contentType === 'video') {
+      const views = insights.total_video_views || 0;
+
+      return {
+        ...base,
+        views,
+        clicks: 0,
+        reach: insights.total_video_impressions_unique || 0,
+        impressions: insights.total_video_impressions || 0,
+        averageWatchTime: Math.round((insights.total_video_avg_time_watched || 0) / 1000),
+        completionRate: views > 0 ? Math.round(((insights.total_video_complete_views || 0) / views) * 10000) / 100 : 0,
+      };
+    }
+
+    return {
+      ...base,
+      views: insights.post_impressions || 0,
+      clicks: insights.post_clicks || 0,
+      reach: insights.post_impressions_unique || 0,
+      impressions: insights.post_impressions || 0,
+      averageWatchTime: 0,
+      completionRate: 0,
+    };
+  }
+
+  /**
+   * Instagram reports likes rather than reactions and no clicks; saves count
+   * as clicks so they weigh into the engagement rate.
+   */
+  private static toInstagramMetrics(content: Content, engagementResponse: any, insightsResponse: any): ContentMetrics {
+    const engagement = InstagramService.toEngagementCounts(engagementResponse);
+    const insights = this.toMap(insightsResponse?.data);
+    const reach = insights.reach || 0;
+
+    if (content.contentType === 'reel') {
+      return {
+        likes: engagement.reactions,
+        comments: engagement.comments,
+        shares: insights.shares || 0,
+        views: insights.plays || 0,
+        clicks: 0,
+        reach,
+        impressions: insights.plays || reach,
+        averageWatchTime: Math.round((insights.ig_reels_avg_watch_time || 0) / 1000),
+        completionRate: 0,
+      };
+    }
+
+    return {
+      likes: engagement.reactions,
+      comments: engagement.comments,
+      shares: 0,
+      views: insights.impressions || 0,
+      clicks: insights.saved || 0,
+      reach,
+      impressions: insights.impressions || 0,
+      averageWatchTime: 0,
+      completionRate: 0,
+    };
+  }
+
+  /**
+   * Latest value of each metric in a Graph insights response.
+   */
+  private static toMap(data: Array<{ name: string; values?: Array<{ value: any }> }> = []): Record<string, number> {
+    const map: Record<string, number> = {};
+
+    for (const metric of data) {
+      const value = metric.values?.[metric.values.length - 1]?.value;
+      map[metric.name] = typeof value === 'number' ? value : Number(value) || 0;
+    }
+
+    return map;
+  }
+
+  /**
+   * Dashboard figures from a set of snapshots: per-day totals, the latest
+   * totals (each content's most recent snapshot) and the most engaging
+   * content.
+   */
+  static summarize(snapshots: Analytics[]) {
+    const series = new Map<string, { date: string; views: number; reach: number; engagements: number; engagementRate: number; count: number }>();
+    const latest = new Map<string, Analytics>();
+
+    for (const snapshot of snapshots) {
+      const date = new Date(snapshot.date).toISOString().slice(0, 10);
+      const day = series.get(date) || { date, views: 0, reach: 0, engagements: 0, engagementRate: 0, count: 0 };
+
+      day.views += snapshot.views;
+      day.reach += snapshot.reach;
+      day.engagements += snapshot.likes + snapshot.comments + snapshot.shares + snapshot.clicks;
+      day.engagementRate += Number(snapshot.engagementRate);
+      day.count++;
+      series.set(date, day);
+
+      const current = latest.get(snapshot.contentId);
+      if (!current || new Date(current.date) < new Date(snapshot.date)) {
+        latest.set(snapshot.contentId, snapshot);
+      }
+    }
+
+    const latestSnapshots = [...latest.values()];
+    const totals = latestSnapshots.reduce(
+      (sum, snapshot) => ({
+        views: sum.views + snapshot.views,
+        likes: sum.likes + snapshot.likes,
+        comments: sum.comments + snapshot.comments,
+        shares: sum.shares + snapshot.shares,
+        clicks: sum.clicks + snapshot.clicks,
+        reach: sum.reach + snapshot.reach,
+        impressions: sum.impressions + snapshot.impressions,
+      }),
+      { views: 0, likes: 0, comments: 0, shares: 0, clicks: 0, reach: 0, impressions: 0 }
+    );
+
+    return {
+      totals: {
+        ...totals,
+        engagementRate: this.engagementRate({ ...totals, averageWatchTime: 0, completionRate: 0 }),
+        contents: latestSnapshots.length,
+      },
+      series: [...series.values()]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(({ count, ...day }) => ({ ...day, engagementRate: Math.round((day.engagementRate / count) * 100) / 100 })),
+      topContent: latestSnapshots
+        .sort((a, b) => Number(b.engagementRate) - Number(a.engagementRate))
+        .slice(0, 5)
+        .map((snapshot) => ({
+          content: snapshot.content,
+          views: snapshot.views,
+          reach: snapshot.reach,
+          engagementRate: Number(snapshot.engagementRate),
+        })),
+    };
+  }
+}
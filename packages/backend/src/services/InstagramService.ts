@@ -0,0 +1,276 @@
+import axios from 'axios';
+import { FacebookPage } from '../models';
+import { AppError, ExternalServiceError, ValidationError } from '../errors';
+import { handleAxiosError, sleep } from '../utils/errorHelpers';
+import { GraphClient, GraphParams, HttpGraphClient, NO_RETRY } from './GraphClient';
+import { ContentPage, ContentPageOptions, EngagementCounts, FacebookService, GraphBatchRequest, PublishRequest } from './FacebookService';
+import { buildPostMessage, getMediaKind } from '../utils/media';
+
+export type InstagramPublishTarget = 'image' | 'carousel' | 'reel';
+
+const MEDIA_FIELDS = 'id,caption,media_type,media_product_type,media_url,thumbnail_url,permalink,timestamp';
+
+// Instagram accepts at most this many items in a carousel.
+const CAROUSEL_LIMIT = 10;
+
+// Containers are processed asynchronously; videos can take minutes.
+const CONTAINER_POLL_MS = 5000;
+const CONTAINER_POLL_ATTEMPTS = 60;
+
+/**
+ * Instagram professional accounts linked to Facebook pages. They are reached
+ * through the Graph API with the page access token, so their calls share
+ * the transport, batching and budget of the page's Facebook calls.
+ *
+ * Publishing follows Instagram's two-step flow: a media container is created
+ * from a hosted image or video URL, and published once Instagram has
+ * finished processing it.
+ */
+export class InstagramService {
+  private static graph: GraphClient = new HttpGraphClient();
+
+  static setGraphClient(client: GraphClient) {
+    this.graph = client;
+  }
+
+  /**
+   * Refreshes the Instagram account linked to each page, read in one batch
+   * with each page's own token. Pages whose check failed keep their link.
+   */
+  static async discoverAccounts(pages: FacebookPage[]) {
+    if (pages.length === 0) {
+      return;
+    }
+
+    try {
+      const results = await FacebookService.batch(
+        pages.map((page) => ({
+          path: `/${page.pageId}`,
+          params: { fields: 'instagram_business_account{id,username}', access_token: page.accessToken },
+        })),
+        pages[0].accessToken
+      );
+
+      for (const [index, result] of results.entries()) {
+        const page = pages[index];
+
+        if (result.error) {
+          console.error(`Failed to check Instagram account of page ${page.pageId}:`, result.error.message);
+          continue;
+        }
+
+        const account = result.data?.instagram_business_account;
+        page.instagramAccountId = account?.id || null;
+        page.instagramUsername = account?.username || null;
+        if (page.changed()) {
+          await page.save();
+        }
+      }
+    } catch (error: any) {
+      console.error('Failed to check linked Instagram accounts:', error.message);
+    }
+  }
+
+  /**
+   * Reads one page of an Instagram account's media, newest first, like
+   * FacebookService.getContentPage.
+   */
+  static async getMediaPage(instagramAccountId: string, accessToken: string, options: ContentPageOptions = {}): Promise<ContentPage> {
+    try {
+      const request = this.mediaPageRequest(instagramAccountId, options);
+      const response = await this.graph.get(request.path, { ...request.params, access_token: accessToken });
+
+      return FacebookService.toContentPage(response);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Instagram Graph API');
+      }
+      throw new ExternalServiceError(`Failed to get Instagram media: ${error.message}`, {
+        service: 'Instagram',
+        instagramAccountId,
+      });
+    }
+  }
+
+  /**
+   * The request behind getMediaPage, for use in a batch; read its response
+   * with FacebookService.toContentPage.
+   */
+  static mediaPageRequest(instagramAccountId: string, options: ContentPageOptions = {}): GraphBatchRequest {
+    return {
+      path: `/${instagramAccountId}/media`,
+      params: {
+        fields: MEDIA_FIELDS,
+        limit: 100,
+        after: options.after,
+        since: options.since,
+      },
+    };
+  }
+
+  /**
+   * Content type of an Instagram media item.
+   */
+  static getContentType(media: { media_type?: string; media_product_type?: string }): string {
+    if (media.media_product_type === 'REELS') {
+      return 'reel';
+    }
+    if (media.media_product_type === 'STORY') {
+      return 'story';
+    }
+    return media.media_type === 'VIDEO' ? 'video' : 'post';
+  }
+
+  /**
+   * Like and comment counts of a media item, for use in a batch; read its
+   * response with toEngagementCounts. Instagram does not count shares here.
+   */
+  static engagementRequest(mediaId: string): GraphBatchRequest {
+    return { path: `/${mediaId}`, params: { fields: 'like_count,comments_count' } };
+  }
+
+  static toEngagementCounts(response: any): EngagementCounts {
+    return {
+      reactions: response?.like_count || 0,
+      comments: response?.comments_count || 0,
+      shares: 0,
+    };
+  }
+
+  static insightsRequest(mediaId: string, metrics: string[]): GraphBatchRequest {
+    return { path: `/${mediaId}/insights`, params: { metric: metrics.join(',') } };
+  }
+
+  /**
+   * Picks the Instagram publishing path for a post, rejecting posts
+   * Instagram cannot publish: every post needs media, and text and link
+   * posts have no Instagram equivalent.
+   */
+  static getPublishTarget(contentType: string, mediaUrls: string[] = []): InstagramPublishTarget {
+    const kinds = mediaUrls.map(getMediaKind);
+
+    if (kinds.includes('link')) {
+      throw new ValidationError('Instagram posts need image or video URLs', { contentType, mediaUrls });
+    }
+
+    switch (contentType) {
+      case 'post':
+        if (mediaUrls.length === 0) {
+          throw new ValidationError('An Instagram post needs at least one image or video URL', { contentType, mediaUrls });
+        }
+        if (mediaUrls.length > CAROUSEL_LIMIT) {
+          throw new ValidationError(`An Instagram carousel holds at most ${CAROUSEL_LIMIT} items`, { contentType, mediaUrls });
+        }
+        if (mediaUrls.length === 1) {
+          return kinds[0] === 'image' ? 'image' : 'reel';
+        }
+        return 'carousel';
+      case 'video':
+      case 'reel':
+        if (mediaUrls.length !== 1 || kinds[0] !== 'video') {
+          throw new ValidationError(`An Instagram ${contentType} needs exactly one video URL`, { contentType, mediaUrls });
+        }
+        return 'reel';
+      default:
+        throw new ValidationError(`Instagram publishing does not support content type: ${contentType}`, { contentType });
+    }
+  }
+
+  /**
+   * Publishes a post to an Instagram account: single images as image posts,
+   * several media as a carousel and videos as reels. Resolves to the id of
+   * the published media.
+   */
+  static async publishPost(instagramAccountId: string, accessToken: string, post: PublishRequest): Promise<{ id: string }> {
+    const mediaUrls = post.mediaUrls || [];
+    const target = this.getPublishTarget(post.contentType, mediaUrls);
+    const caption = buildPostMessage(post.content, post.hashtags);
+
+    try {
+      let containerId: string;
+
+      if (target === 'carousel') {
+        const children: string[] = [];
+        for (const url of mediaUrls) {
+          const childId = await this.createContainer(instagramAccountId, accessToken, { ...this.mediaParams(url), is_carousel_item: true });
+          // The carousel can only be created from processed items.
+          await this.waitForContainer(childId, accessToken);
+          children.push(childId);
+        }
+
+        containerId = await this.createContainer(instagramAccountId, accessToken, {
+          media_type: 'CAROUSEL',
+          children: children.join(','),
+          caption,
+        });
+      } else {
+        containerId = await this.createContainer(instagramAccountId, accessToken, { ...this.mediaParams(mediaUrls[0], target), caption });
+      }
+
+      await this.waitForContainer(containerId, accessToken);
+
+      const published = await this.graph.post(
+        `/${instagramAccountId}/media_publish`,
+        null,
+        { creation_id: containerId, access_token: accessToken },
+        NO_RETRY
+      );
+
+      return { id: published.id };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        handleAxiosError(error, 'Instagram Publish API');
+      }
+      throw new ExternalServiceError(`Failed to publish Instagram post: ${error.message}`, {
+        service: 'Instagram',
+        instagramAccountId,
+        target,
+      });
+    }
+  }
+
+  /**
+   * Container parameters for one hosted image or video. Carousel videos are
+   * plain VIDEO items; standalone videos are published as reels.
+   */
+  private static mediaParams(url: string, target?: InstagramPublishTarget): GraphParams {
+    if (getMediaKind(url) === 'image') {
+      return { image_url: url };
+    }
+    return { video_url: url, media_type: target === 'reel' ? 'REELS' : 'VIDEO' };
+  }
+
+  private static async createContainer(instagramAccountId: string, accessToken: string, params: GraphParams): Promise<string> {
+    const container = await this.graph.post(`/${instagramAccountId}/media`, null, { ...params, access_token: accessToken }, NO_RETRY);
+    return container.id;
+  }
+
+  /**
+   * Polls a container until Instagram has processed its media.
+   */
+  private static async waitForContainer(containerId: string, accessToken: string) {
+    for (let attempt = 0; attempt < CONTAINER_POLL_ATTEMPTS; attempt++) {
+      const container = await this.graph.get(`/${containerId}`, { fields: 'status_code,status', access_token: accessToken });
+
+      if (container.status_code === 'FINISHED' || container.status_code === 'PUBLISHED') {
+        return;
+      }
+      if (container.status_code === 'ERROR' || container.status_code === 'EXPIRED') {
+        throw new ExternalServiceError(`Instagram could not process the media: ${container.status || container.status_code}`, {
+          service: 'Instagram',
+          containerId,
+        });
+      }
+
+      await sleep(CONTAINER_POLL_MS);
+    }
+
+    throw new ExternalServiceError('Instagram did not finish processing the media in time', { service: 'Instagram', containerId });
+  }
+}
@@ -0,0 +1,214 @@
+import { redisClient } from '../config/redis';
+import { User, SecurityEvent } from '../models';
+import { AccountLockedError, AppError, NotFoundError, RateLimitError, ServiceUnavailableError } from '../errors';
+import { SessionContext } from './SessionService';
+import { OneTimeTokenService } from './OneTimeTokenService';
+import { MailService } from './MailService';
+
+/**
+ * Failed-login tracking in Redis, per account (email) and per IP.
+ *
+ * After a few account failures each further attempt must wait an
+ * exponentially growing delay; after LOGIN_MAX_FAILURES the account is locked
+ * for LOGIN_LOCKOUT_MINUTES and the owner is emailed an unlock link. An IP
+ * exceeding LOGIN_IP_MAX_FAILURES is blocked for the rest of the window.
+ */
+export class LoginThrottleService {
+  private static readonly DELAY_AFTER_FAILURES = 3;
+  private static readonly MAX_DELAY_SECONDS = 60;
+  private static readonly UNLOCK_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+  static get maxAccountFailures(): number {
+    return parseInt(process.env.LOGIN_MAX_FAILURES || '5');
+  }
+
+  static get maxIpFailures(): number {
+    return parseInt(process.env.LOGIN_IP_MAX_FAILURES || '50');
+  }
+
+  static get failureWindowSeconds(): number {
+    return parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15') * 60;
+  }
+
+  static get lockoutSeconds(): number {
+    return parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '30') * 60;
+  }
+
+  static async assertAllowed(email: string, context: SessionContext = {}): Promise<void> {
+    await this.withRedis('check login attempts', () => this.checkAllowed(email, context));
+  }
+
+  static async recordFailure(email: string, context: SessionContext = {}, user?: User | null): Promise<void> {
+    await this.withRedis('record failed login', () => this.addFailure(email, context, user));
+  }
+
+  static async clearFailures(email: string): Promise<void> {
+    await this.withRedis('clear failed logins', () => redisClient.del(this.accountKey(email)));
+  }
+
+  static async unlockWithToken(token: string, context: SessionContext = {}): Promise<void> {
+    const userId = await OneTimeTokenService.consume('account_unlock', token);
+    const user = await User.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await this.unlock(user, context, { method: 'email' });
+  }
+
+  static async unlock(user: User, context: SessionContext = {}, metadata: Record<string, any> = {}): Promise<void> {
+    await redisClient.del(this.lockKey(user.email));
+    await this.clearFailures(user.email);
+
+    await user.update({ lockedUntil: null });
+
+    console.log(`Account unlocked: ${user.id} (${metadata.method || 'unknown'})`);
+    await this.recordEvent('account_unlocked', { email: user.email, user, context, metadata });
+  }
+
+  private static async checkAllowed(email: string, context: SessionContext): Promise<void> {
+    const accountKey = this.accountKey(email);
+
+    const lockTtl = await redisClient.ttl(this.lockKey(email));
+    if (lockTtl > 0) {
+      throw new AccountLockedError(
+        `Account is temporarily locked due to too many failed login attempts. Try again in ${Math.ceil(lockTtl / 60)} minute(s) or use the unlock link sent by email.`
+      );
+    }
+
+    if (context.ip) {
+      const ipFailures = parseInt((await redisClient.hGet(this.ipKey(context.ip), 'count')) || '0');
+      if (ipFailures >= this.maxIpFailures) {
+        const retryAfter = await redisClient.ttl(this.ipKey(context.ip));
+        throw new RateLimitError('Too many failed login attempts from this IP. Please try again later.', {
+          retryAfter: Math.max(retryAfter, 1),
+        });
+      }
+    }
+
+    const failures = await redisClient.hGetAll(accountKey);
+    const count = parseInt(failures.count || '0');
+    const delaySeconds = this.delayFor(count);
+
+    if (delaySeconds > 0 && failures.lastFailureAt) {
+      const waitMs = parseInt(failures.lastFailureAt) + delaySeconds * 1000 - Date.now();
+      if (waitMs > 0) {
+        const retryAfter = Math.ceil(waitMs / 1000);
+        throw new RateLimitError(`Too many failed login attempts. Try again in ${retryAfter}s.`, { retryAfter });
+      }
+    }
+  }
+
+  private static async addFailure(email: string, context: SessionContext, user?: User | null): Promise<void> {
+    const now = Date.now().toString();
+    const accountKey = this.accountKey(email);
+
+    const count = await redisClient.hIncrBy(accountKey, 'count', 1);
+    await redisClient.hSet(accountKey, 'lastFailureAt', now);
+    await redisClient.expire(accountKey, this.failureWindowSeconds);
+
+    await this.recordEvent('login_failed', { email, user, context, metadata: { failures: count } });
+
+    if (context.ip) {
+      const ipKey = this.ipKey(context.ip);
+      const ipCount = await redisClient.hIncrBy(ipKey, 'count', 1);
+      if (ipCount === 1) {
+        await redisClient.expire(ipKey, this.failureWindowSeconds);
+      }
+      if (ipCount === this.maxIpFailures) {
+        console.warn(`IP blocked after ${ipCount} failed login attempts: ${context.ip}`);
+        await this.recordEvent('ip_blocked', { email, context, metadata: { failures: ipCount } });
+      }
+    }
+
+    if (count >= this.maxAccountFailures) {
+      await this.lockAccount(email, context, user, count);
+    }
+  }
+
+  /**
+   * Runs a throttle step, reporting a Redis failure as a 503 rather than
+   * letting it surface as an unhandled error.
+   */
+  private static async withRedis<T>(action: string, step: () => Promise<T>): Promise<T> {
+    try {
+      return await step();
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new ServiceUnavailableError(`Failed to ${action}`, { originalError: error.message });
+    }
+  }
+
+  private static async lockAccount(email: string, context: SessionContext, user: User | null | undefined, failures: number) {
+    await redisClient.set(this.lockKey(email), '1', { EX: this.lockoutSeconds });
+    await this.clearFailures(email);
+
+    console.warn(`Account locked after ${failures} failed login attempts: ${email}`);
+
+    if (!user) {
+      await this.recordEvent('account_locked', { email, context, metadata: { failures, knownUser: false } });
+      return;
+    }
+
+    user.lockedUntil = new Date(Date.now() + this.lockoutSeconds * 1000);
+    await user.save();
+
+    await this.recordEvent('account_locked', {
+      email,
+      user,
+      context,
+      metadata: { failures, lockedUntil: user.lockedUntil.toISOString() },
+    });
+
+    try {
+      const token = await OneTimeTokenService.create('account_unlock', user.id, this.UNLOCK_TOKEN_TTL_SECONDS);
+      await MailService.sendAccountUnlock(user.email, user.firstName, token);
+    } catch (error: any) {
+      console.error(`Failed to send unlock email to user: ${user.id}`, error.message);
+    }
+  }
+
+  private static async recordEvent(
+    eventType: string,
+    data: { email?: string; user?: User | null; context?: SessionContext; metadata?: Record<string, any> }
+  ) {
+    try {
+      await SecurityEvent.create({
+        eventType,
+        userId: data.user?.id,
+        email: data.email,
+        ip: data.context?.ip,
+        userAgent: data.context?.userAgent,
+        metadata: data.metadata || {},
+      });
+    } catch (error: any) {
+      console.error(`Failed to record security event "${eventType}":`, error.message);
+    }
+  }
+
+  private static delayFor(failures: number): number {
+    if (failures < this.DELAY_AFTER_FAILURES) {
+      return 0;
+    }
+    return Math.min(2 ** (failures - this.DELAY_AFTER_FAILURES + 1), this.MAX_DELAY_SECONDS);
+  }
+
+  private static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private static accountKey(email: string): string {
+    return `login_failures:account:${this.normalizeEmail(email)}`;
+  }
+
+  private static ipKey(ip: string): string {
+    return `login_failures:ip:${ip}`;
+  }
+
+  private static lockKey(email: string): string {
+    return `login_lock:account:${this.normalizeEmail(email)}`;
+  }
+}
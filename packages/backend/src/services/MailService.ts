@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sgMail from '@sendgrid/mail';
+import { ExternalServiceError } from '../errors';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(value: unknown): string {
+  return String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Template tag for mail bodies: every interpolated value is HTML-escaped,
+ * since names and page titles come from users and Facebook.
+ */
+function html(strings: TemplateStringsArray, ...values: unknown[]): string {
+  return strings.reduce((result, string, index) => result + escapeHtml(values[index - 1]) + string);
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message as a JSON file so mail can be inspected, or asserted
+ * on, without a mail provider.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+export class MemoryMailTransport implements MailTransport {
+  public readonly sent: Array<MailMessage & { from: string }> = [];
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+export class SendGridMailTransport implements MailTransport {
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    try {
+      await sgMail.send({
+        to: message.to,
+        from: message.from,
+        subject: message.subject,
+        text: message.text,
+        ...(message.html ? { html: message.html } : {}),
+      });
+    } catch (error: any) {
+      throw new ExternalServiceError(`SendGrid delivery failed: ${error.message}`, {
+        service: 'SendGrid',
+        status: error.code,
+      });
+    }
+  }
+}
+
+export class MailService {
+  private static transport: MailTransport | null = null;
+
+  static setTransport(transport: MailTransport) {
+    this.transport = transport;
+  }
+
+  static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = this.createTransportFromEnv();
+    }
+    return this.transport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    const from = process.env.FROM_EMAIL || 'noreply@localhost';
+    await this.getTransport().send({ ...message, from });
+  }
+
+  static async sendEmailVerification(to: string, firstName: string, token: string) {
+    const link = `${this.frontendUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      text: `Hi ${firstName},\n\nPlease confirm your email address by opening the link below:\n\n${link}\n\nThe link expires in 24 hours.`,
+      html: html`<p>Hi ${firstName},</p><p>Please confirm your email address:</p><p><a href="${link}">Verify email</a></p><p>The link expires in 24 hours.</p>`,
+    });
+  }
+
+  static async sendPasswordReset(to: string, firstName: string, token: string) {
+    const link = `${this.frontendUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text: `Hi ${firstName},\n\nSomeone requested a password reset for your account. Open the link below to choose a new password:\n\n${link}\n\nThe link expires in 1 hour. If you did not request this, you can ignore this email.`,
+      html: html`<p>Hi ${firstName},</p><p>Someone requested a password reset for your account.</p><p><a href="${link}">Choose a new password</a></p><p>The link expires in 1 hour. If you did not request this, you can ignore this email.</p>`,
+    });
+  }
+
+  static async sendAccountUnlock(to: string, firstName: string, token: string) {
+    const link = `${this.frontendUrl()}/unlock-account?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Your account has been locked',
+      text: `Hi ${firstName},\n\nYour account was locked after several failed sign-in attempts. If this was you, open the link below to unlock it now:\n\n${link}\n\nIf it was not you, someone may be trying to access your account. Consider resetting your password and enabling two-factor authentication.`,
+      html: html`<p>Hi ${firstName},</p><p>Your account was locked after several failed sign-in attempts.</p><p><a href="${link}">Unlock my account</a></p><p>If it was not you, someone may be trying to access your account. Consider resetting your password and enabling two-factor authentication.</p>`,
+    });
+  }
+
+  static async sendDataExportReady(to: string, firstName: string, availableDays: number) {
+    const link = `${this.frontendUrl()}/settings`;
+
+    await this.send({
+      to,
+      subject: 'Your data export is ready',
+      text: `Hi ${firstName},\n\nThe copy of your data you requested is ready. Download it from your account settings:\n\n${link}\n\nThe download is available for ${availableDays} days.`,
+      html: html`<p>Hi ${firstName},</p><p>The copy of your data you requested is ready.</p><p><a href="${link}">Download it from your account settings</a></p><p>The download is available for ${availableDays} days.</p>`,
+    });
+  }
+
+  static async sendAccountDeletionScheduled(to: string, firstName: string, scheduledFor: Date) {
+    const link = `${this.frontendUrl()}/settings`;
+    const date = scheduledFor.toUTCString();
+
+    await this.send({
+      to,
+      subject: 'Your account is scheduled for deletion',
+      text: `Hi ${firstName},\n\nYour account and its data will be permanently deleted on ${date}. Your connected Facebook accounts will be disconnected.\n\nChanged your mind? Sign in and cancel the deletion from your account settings before then:\n\n${link}`,
+      html: html`<p>Hi ${firstName},</p><p>Your account and its data will be permanently deleted on <strong>${date}</strong>. Your connected Facebook accounts will be disconnected.</p><p>Changed your mind? <a href="${link}">Sign in and cancel the deletion</a> before then.</p>`,
+    });
+  }
+
+  static async sendFacebookTokenExpiring(to: string, firstName: string, accountName: string, expiresAt: Date) {
+    const link = `${this.frontendUrl()}/accounts`;
+    const date = expiresAt.toUTCString();
+
+    await this.send({
+      to,
+      subject: 'Reconnect your Facebook account soon',
+      text: `Hi ${firstName},\n\nAccess to the Facebook account "${accountName}" expires on ${date}. After that, syncing and scheduled posts for its pages will stop until you reconnect.\n\nReconnect it from the accounts page:\n\n${link}`,
+      html: html`<p>Hi ${firstName},</p><p>Access to the Facebook account <strong>${accountName}</strong> expires on <strong>${date}</strong>. After that, syncing and scheduled posts for its pages will stop until you reconnect.</p><p><a href="${link}">Reconnect it from the accounts page</a>.</p>`,
+    });
+  }
+
+  static async sendFacebookReconnectRequired(to: string, firstName: string, accountName: string, reason: string) {
+    const link = `${this.frontendUrl()}/accounts`;
+
+    await this.send({
+      to,
+      subject: 'Your Facebook account needs to be reconnected',
+      text: `Hi ${firstName},\n\nWe can no longer access the Facebook account "${accountName}": ${reason}. Autopilot has been paused for its pages.\n\nReconnect the account, then turn autopilot back on:\n\n${link}`,
+      html: html`<p>Hi ${firstName},</p><p>We can no longer access the Facebook account <strong>${accountName}</strong>: ${reason}. Autopilot has been paused for its pages.</p><p><a href="${link}">Reconnect the account</a>, then turn autopilot back on.</p>`,
+    });
+  }
+
+  static async sendMonetizationStatusChanged(to: string, firstName: string, pageName: string, changes: string[]) {
+    const link = `${this.frontendUrl()}/accounts`;
+
+    await this.send({
+      to,
+      subject: `Monetization status of ${pageName} changed`,
+      text: `Hi ${firstName},\n\nThe Facebook page "${pageName}":\n\n${changes.map((change) => `- ${change}`).join('\n')}\n\nSee its monetization history on the accounts page:\n\n${link}`,
+      html:
+        html`<p>Hi ${firstName},</p><p>The Facebook page <strong>${pageName}</strong>:</p><ul>` +
+        changes.map((change) => html`<li>${change}</li>`).join('') +
+        html`</ul><p><a href="${link}">See its monetization history</a>.</p>`,
+    });
+  }
+
+  private static frontendUrl(): string {
+    return process.env.FRONTEND_URL || 'http://localhost:3000';
+  }
+
+  private static createTransportFromEnv(): MailTransport {
+    const transport = process.env.MAIL_TRANSPORT || (process.env.SENDGRID_API_KEY ? 'sendgrid' : 'console');
+
+    switch (transport) {
+      case 'sendgrid':
+        if (!process.env.SENDGRID_API_KEY) {
+          throw new ExternalServiceError('SENDGRID_API_KEY is required for the sendgrid mail transport', { service: 'SendGrid' });
+        }
+        return new SendGridMailTransport(process.env.SENDGRID_API_KEY);
+      case 'file':
+        return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+      case 'memory':
+        return new MemoryMailTransport();
+      default:
+        return new ConsoleMailTransport();
+    }
+  }
+}
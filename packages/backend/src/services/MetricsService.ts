@@ -0,0 +1,45 @@
+import { redisClient } from '../config/redis';
+
+export type MetricName = 'ai_calls' | 'ai_failures';
+
+/**
+ * Daily platform counters kept in Redis for the admin console. Counting is
+ * best-effort: a Redis outage never fails the operation being counted.
+ */
+export class MetricsService {
+  private static readonly RETENTION_DAYS = 90;
+
+  static async increment(metric: MetricName, by = 1): Promise<void> {
+    const key = this.key(metric, this.day(new Date()));
+
+    try {
+      await redisClient.incrBy(key, by);
+      await redisClient.expire(key, this.RETENTION_DAYS * 24 * 60 * 60);
+    } catch (error: any) {
+      console.error(`Failed to record metric "${metric}":`, error.message);
+    }
+  }
+
+  /**
+   * Returns one entry per day, oldest first, for the last `days` days
+   * including today.
+   */
+  static async getDaily(metric: MetricName, days: number): Promise<Array<{ date: string; count: number }>> {
+    const dates: string[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      dates.push(this.day(new Date(Date.now() - i * 24 * 60 * 60 * 1000)));
+    }
+
+    const values = await redisClient.mGet(dates.map((date) => this.key(metric, date)));
+
+    return dates.map((date, index) => ({ date, count: parseInt(values[index] || '0') }));
+  }
+
+  private static day(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static key(metric: MetricName, day: string): string {
+    return `metrics:${metric}:${day}`;
+  }
+}
@@ -0,0 +1,267 @@
+import { Op } from 'sequelize';
+import { User, FacebookAccount, FacebookPage, MonetizationSnapshot } from '../models';
+import { FacebookService } from './FacebookService';
+import { AuditService } from './AuditService';
+import { MailService } from './MailService';
+
+// Facebook measures video minutes for in-stream ads over this window.
+const VIEW_WINDOW_DAYS = 60;
+
+// Signals whose change alerts the account owner, with how to describe them.
+const ALERT_SIGNALS: Record<string, (value: any) => string> = {
+  isEligible: (value) => (value ? 'is now eligible for monetization' : 'is no longer eligible for monetization'),
+  isPublished: (value) => (value ? 'is published again' : 'has been unpublished'),
+  isPermanentlyClosed: (value) => (value ? 'is marked as permanently closed' : 'is no longer marked as permanently closed'),
+  verificationStatus: (value) => `verification status changed to ${value || 'none'}`,
+};
+
+interface PageSignals {
+  isEligible: boolean;
+  followers: number;
+  fans: number;
+  minutesViewed: number | null;
+  policyFlags: Record<string, any>;
+}
+
+/**
+ * Monetization eligibility of pages over time. The monetization job and
+ * every content sync check the selected pages in batch calls and keep one
+ * snapshot per page and day, with the page's eligibility, audience, video
+ * minutes over the last 60 days and the page state that affects
+ * eligibility. The monetizationEnabled flags of pages and accounts follow
+ * the latest check, and a change in eligibility or page state is recorded
+ * in the audit log and emailed to the account owner.
+ */
+export class MonetizationService {
+  static get followerThreshold(): number {
+    return parseInt(process.env.MONETIZATION_FOLLOWER_THRESHOLD || '5000');
+  }
+
+  static get minutesThreshold(): number {
+    return parseInt(process.env.MONETIZATION_MINUTES_THRESHOLD || '60000');
+  }
+
+  static async checkAll() {
+    const pages = await FacebookPage.findAll({
+      where: { isActive: true },
+      include: [{ model: FacebookAccount, where: { isActive: true, needsReconnect: false } }],
+    });
+
+    const byAccount = new Map<string, FacebookPage[]>();
+    for (const page of pages) {
+      byAccount.set(page.facebookAccountId, [...(byAccount.get(page.facebookAccountId) || []), page]);
+    }
+
+    const counts = { pages: pages.length, recorded: 0, changed: 0, failed: 0 };
+
+    for (const [accountId, accountPages] of byAccount) {
+      try {
+        const result = await this.checkPages(accountId, accountPages);
+        counts.recorded += result.recorded;
+        counts.changed += result.changed;
+        counts.failed += result.failed;
+      } catch (error: any) {
+        counts.failed += accountPages.length;
+        console.error(`Monetization check failed for account ${accountId}:`, error.message);
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Checks the pages of one account in batch calls, records today's
+   * snapshots and updates the monetization flags of the pages and of the
+   * account (monetized when any of its pages is). Pages whose check failed
+   * keep their flag.
+   */
+  static async checkPages(accountId: string, pages: FacebookPage[]) {
+    const result = { recorded: 0, changed: 0, failed: 0 };
+    const statuses = await FacebookService.getMonetizationStatuses(pages);
+    const minutes = await this.getMinutesViewed(pages);
+
+    for (const page of pages) {
+      const status = statuses.get(page.pageId);
+      if (!status) {
+        result.failed++;
+        continue;
+      }
+
+      try {
+        const changes = await this.record(page, {
+          isEligible: !!status.is_eligible_for_branded_content,
+          followers: status.followers_count ?? status.fan_count ?? 0,
+          fans: status.fan_count ?? 0,
+          minutesViewed: minutes.get(page.pageId) ?? null,
+          policyFlags: {
+            isPublished: status.is_published ?? true,
+            isPermanentlyClosed: status.is_permanently_closed ?? false,
+            verificationStatus: status.verification_status ?? null,
+          },
+        });
+
+        result.recorded++;
+        if (changes.length > 0) {
+          result.changed++;
+        }
+      } catch (error: any) {
+        result.failed++;
+        console.error(`Failed to record monetization status of page ${page.id}:`, error.message);
+      }
+    }
+
+    const monetizedPages = await FacebookPage.count({
+      where: { facebookAccountId: accountId, isActive: true, monetizationEnabled: true },
+    });
+    await FacebookAccount.update({ monetizationEnabled: monetizedPages > 0 }, { where: { id: accountId } });
+
+    return result;
+  }
+
+  /**
+   * A page's snapshots of the last `days` days, oldest first, with its
+   * progress toward the monetization thresholds from the latest one.
+   */
+  static async getHistory(page: FacebookPage, days: number) {
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - days + 1);
+
+    const snapshots = await MonetizationSnapshot.findAll({
+      where: { facebookPageId: page.id, date: { [Op.gte]: since } },
+      order: [['date', 'ASC']],
+    });
+    const latest = snapshots[snapshots.length - 1];
+
+    return {
+      snapshots,
+      progress: latest ? this.getProgress(latest) : null,
+    };
+  }
+
+  static getProgress(snapshot: MonetizationSnapshot) {
+    const toward = (current: number | null | undefined, threshold: number) => ({
+      current: current ?? null,
+      threshold,
+      percent: current == null ? null : Math.min(100, Math.round((current / threshold) * 100)),
+    });
+
+    return {
+      isEligible: snapshot.isEligible,
+      followers: toward(snapshot.followers, this.followerThreshold),
+      minutesViewed: toward(snapshot.minutesViewed, this.minutesThreshold),
+      checkedAt: snapshot.updatedAt,
+    };
+  }
+
+  /**
+   * Stores today's signals of a page and resolves to the alert signals that
+   * changed since the last check.
+   */
+  private static async record(page: FacebookPage, signals: PageSignals): Promise<string[]> {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+
+    const previous = await MonetizationSnapshot.findOne({
+      where: { facebookPageId: page.id },
+      order: [['date', 'DESC']],
+    });
+
+    const before: Record<string, any> | null = previous ? { isEligible: previous.isEligible, ...previous.policyFlags } : null;
+    const after: Record<string, any> = { isEligible: signals.isEligible, ...signals.policyFlags };
+    const changes = before ? Object.keys(ALERT_SIGNALS).filter((signal) => before[signal] !== after[signal]) : [];
+
+    if (previous && new Date(previous.date).getTime() === date.getTime()) {
+      await previous.update({ ...signals, changes: [...new Set([...previous.changes, ...changes])] });
+    } else {
+      await MonetizationSnapshot.create({
+        ...signals,
+        changes,
+        facebookAccountId: page.facebookAccountId,
+        facebookPageId: page.id,
+        date,
+      });
+    }
+
+    page.monetizationEnabled = signals.isEligible;
+    if (page.changed()) {
+      await page.save();
+    }
+
+    if (before && changes.length > 0) {
+      await this.alert(page, changes, before, after);
+    }
+
+    return changes;
+  }
+
+  private static async alert(page: FacebookPage, changes: string[], before: Record<string, any>, after: Record<string, any>) {
+    const account = page.facebookAccount || (await FacebookAccount.findByPk(page.facebookAccountId));
+
+    await AuditService.record({}, {
+      action: 'facebook_page.monetization_change',
+      targetType: 'FacebookPage',
+      targetId: page.id,
+      workspaceId: account?.workspaceId,
+      before: Object.fromEntries(changes.map((signal) => [signal, before[signal]])),
+      after: Object.fromEntries(changes.map((signal) => [signal, after[signal]])),
+    });
+
+    const user = account && (await User.findByPk(account.userId));
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    try {
+      await MailService.sendMonetizationStatusChanged(
+        user.email,
+        user.firstName,
+        page.name,
+        changes.map((signal) => ALERT_SIGNALS[signal](after[signal]))
+      );
+    } catch (error: any) {
+      console.error(`Failed to send monetization email for page ${page.id}:`, error.message);
+    }
+  }
+
+  /**
+   * Minutes of video watched on each page over the view window, read in
+   * batch calls with each page's own token. Pages whose insights failed are
+   * left out.
+   */
+  private static async getMinutesViewed(pages: FacebookPage[]) {
+    const minutes = new Map<string, number>();
+
+    if (pages.length === 0) {
+      return minutes;
+    }
+
+    const until = new Date();
+    const since = new Date(until.getTime() - VIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    try {
+      const results = await FacebookService.batch(
+        pages.map((page) => {
+          const request = FacebookService.videoViewTimeRequest(page.pageId, since, until);
+          return { ...request, params: { ...request.params, access_token: page.accessToken } };
+        }),
+        pages[0].accessToken
+      );
+
+      results.forEach((result, index) => {
+        if (result.error) {
+          console.error(`Failed to get video view time of page ${pages[index].pageId}:`, result.error.message);
+          return;
+        }
+
+        const values: Array<{ value?: number }> = result.data?.data?.[0]?.values || [];
+        const milliseconds = values.reduce((total, day) => total + (Number(day.value) || 0), 0);
+        minutes.set(pages[index].pageId, Math.round(milliseconds / 60000));
+      });
+    } catch (error: any) {
+      console.error('Failed to get video view time:', error.message);
+    }
+
+    return minutes;
+  }
+}
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { redisClient } from '../config/redis';
+import { AuthenticationError, ServiceUnavailableError } from '../errors';
+
+export type OneTimeTokenPurpose = 'password_reset' | 'email_verification' | 'account_unlock' | 'facebook_link';
+
+/**
+ * Single-use, expiring tokens for links sent by email. Only a hash of the
+ * token is stored, and issuing a new token for the same purpose invalidates
+ * the previous one.
+ */
+export class OneTimeTokenService {
+  static async create(purpose: OneTimeTokenPurpose, userId: string, ttlSeconds: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const tokenHash = this.hashToken(token);
+
+    try {
+      const previousHash = await redisClient.get(this.userKey(purpose, userId));
+      if (previousHash) {
+        await redisClient.del(this.tokenKey(purpose, previousHash));
+      }
+
+      await redisClient.set(this.tokenKey(purpose, tokenHash), userId, { EX: ttlSeconds });
+      await redisClient.set(this.userKey(purpose, userId), tokenHash, { EX: ttlSeconds });
+    } catch (error: any) {
+      throw new ServiceUnavailableError('Failed to issue token', { purpose, originalError: error.message });
+    }
+
+    return token;
+  }
+
+  /**
+   * Returns the user the token was issued for and deletes it, so a second
+   * call with the same token fails.
+   */
+  static async consume(purpose: OneTimeTokenPurpose, token: string): Promise<string> {
+    if (!token) {
+      throw new AuthenticationError('Invalid or expired link');
+    }
+
+    const tokenHash = this.hashToken(token);
+    let userId: string | null;
+
+    try {
+      userId = await redisClient.getDel(this.tokenKey(purpose, tokenHash));
+    } catch (error: any) {
+      throw new ServiceUnavailableError('Failed to verify token', { purpose, originalError: error.message });
+    }
+
+    if (!userId) {
+      throw new AuthenticationError('Invalid or expired link');
+    }
+
+    await redisClient.del(this.userKey(purpose, userId));
+
+    return userId;
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static tokenKey(purpose: OneTimeTokenPurpose, tokenHash: string): string {
+    return `one_time_token:${purpose}:${tokenHash}`;
+  }
+
+  private static userKey(purpose: OneTimeTokenPurpose, userId: string): string {
+    return `one_time_token_user:${purpose}:${userId}`;
+  }
+}
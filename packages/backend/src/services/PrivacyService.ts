@@ -0,0 +1,408 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Op } from 'sequelize';
+import {
+  User,
+  FacebookAccount,
+  FacebookPage,
+  SyncStatus,
+  Content,
+  Analytics,
+  Earning,
+  ScheduledPost,
+  AutopilotSettings,
+  Comment,
+  ModerationSettings,
+  MonetizationSnapshot,
+  WorkspaceMember,
+  Workspace,
+  ApiKey,
+  SecurityEvent,
+  DataExport,
+} from '../models';
+import { AuthenticationError, ConflictError, NotFoundError, ValidationError } from '../errors';
+import { createTarGz } from '../utils/archive';
+import { FacebookService } from './FacebookService';
+import { FacebookTokenService } from './FacebookTokenService';
+import { SessionService } from './SessionService';
+import { MailService } from './MailService';
+
+const TOKEN_ATTRIBUTES = ['accessToken', 'refreshToken'];
+
+/**
+ * "Download my data" exports and account deletion.
+ *
+ * Exports are built by the data export job and kept on disk for
+ * DATA_EXPORT_TTL_DAYS. Deletion is scheduled ACCOUNT_DELETION_GRACE_DAYS
+ * ahead and can be cancelled until then; the account deletion job then
+ * leaves the user's workspaces, revokes Facebook tokens, removes the user's
+ * Facebook accounts with their data unless other workspace members still use
+ * them, and anonymizes the user row so shared records keep a valid author.
+ */
+export class PrivacyService {
+  static get exportDirectory(): string {
+    return process.env.DATA_EXPORT_DIR || path.join(process.cwd(), 'tmp', 'exports');
+  }
+
+  static get exportTtlDays(): number {
+    return parseInt(process.env.DATA_EXPORT_TTL_DAYS || '7');
+  }
+
+  static get deletionGraceDays(): number {
+    return parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30');
+  }
+
+  static async requestExport(userId: string) {
+    const inProgress = await DataExport.findOne({
+      where: { userId, status: { [Op.in]: ['pending', 'processing'] } },
+    });
+
+    if (inProgress) {
+      throw new ConflictError('A data export is already being prepared');
+    }
+
+    const dataExport = await DataExport.create({ userId });
+
+    console.log(`Data export requested: ${dataExport.id} by user ${userId}`);
+
+    return dataExport;
+  }
+
+  static async listExports(userId: string) {
+    return DataExport.findAll({
+      where: { userId },
+      order: [['createdAt', 'DESC']],
+      limit: 10,
+    });
+  }
+
+  static async getExportFile(userId: string, exportId: string) {
+    const dataExport = await DataExport.findOne({ where: { id: exportId, userId } });
+
+    if (!dataExport || dataExport.status !== 'completed' || !dataExport.filePath) {
+      throw new NotFoundError('Export not found or not ready');
+    }
+
+    if (dataExport.expiresAt && dataExport.expiresAt < new Date()) {
+      throw new NotFoundError('Export has expired');
+    }
+
+    return {
+      filePath: dataExport.filePath,
+      fileName: `data-export-${dataExport.createdAt.toISOString().slice(0, 10)}.tar.gz`,
+    };
+  }
+
+  static async processPendingExports(limit = 5) {
+    const exports = await DataExport.findAll({
+      where: { status: 'pending' },
+      order: [['createdAt', 'ASC']],
+      limit,
+    });
+
+    for (const dataExport of exports) {
+      await this.buildExport(dataExport);
+    }
+
+    return exports.length;
+  }
+
+  static async buildExport(dataExport: DataExport) {
+    await dataExport.update({ status: 'processing' });
+
+    try {
+      const user = await User.findByPk(dataExport.userId);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const generatedAt = new Date();
+      const data = await this.collectUserData(user);
+      const archive = createTarGz(
+        [
+          {
+            name: 'README.txt',
+            content: `Data export for ${user.email}\nGenerated at ${generatedAt.toISOString()}\n\nEach JSON file holds one kind of record. Facebook access tokens are not included.\n`,
+          },
+          ...Object.entries(data).map(([name, records]) => ({
+            name: `${name}.json`,
+            content: JSON.stringify(records, null, 2),
+          })),
+        ],
+        generatedAt
+      );
+
+      await fs.mkdir(this.exportDirectory, { recursive: true });
+      const filePath = path.join(this.exportDirectory, `${dataExport.id}.tar.gz`);
+      await fs.writeFile(filePath, archive);
+
+      await dataExport.update({
+        status: 'completed',
+        filePath,
+        fileSize: archive.length,
+        completedAt: generatedAt,
+        expiresAt: new Date(generatedAt.getTime() + this.exportTtlDays * 24 * 60 * 60 * 1000),
+      });
+
+      console.log(`Data export completed: ${dataExport.id} (${archive.length} bytes)`);
+
+      try {
+        await MailService.sendDataExportReady(user.email, user.firstName, this.exportTtlDays);
+      } catch (error: any) {
+        console.error(`Failed to send export email to user: ${user.id}`, error.message);
+      }
+    } catch (error: any) {
+      console.error(`Data export failed: ${dataExport.id}`, error.message);
+      await dataExport.update({ status: 'failed', errorMessage: error.message });
+    }
+  }
+
+  static async cleanupExpiredExports() {
+    const expired = await DataExport.findAll({
+      where: { status: 'completed', expiresAt: { [Op.lt]: new Date() } },
+    });
+
+    for (const dataExport of expired) {
+      await this.removeExportFile(dataExport);
+      await dataExport.update({ status: 'expired', filePath: null });
+    }
+
+    return expired.length;
+  }
+
+  static async requestDeletion(user: User, confirmation: { password?: string; confirm?: string }) {
+    if (user.password) {
+      if (!confirmation.password || !(await user.comparePassword(confirmation.password))) {
+        throw new AuthenticationError('Password is incorrect');
+      }
+    } else if (confirmation.confirm !== 'DELETE') {
+      throw new ValidationError('Type DELETE to confirm account deletion');
+    }
+
+    if (user.deletionScheduledFor) {
+      throw new ConflictError('Account deletion is already scheduled');
+    }
+
+    const now = new Date();
+    user.deletionRequestedAt = now;
+    user.deletionScheduledFor = new Date(now.getTime() + this.deletionGraceDays * 24 * 60 * 60 * 1000);
+    await user.save();
+
+    console.log(`Account deletion scheduled for user ${user.id} at ${user.deletionScheduledFor.toISOString()}`);
+
+    try {
+      await MailService.sendAccountDeletionScheduled(user.email, user.firstName, user.deletionScheduledFor);
+    } catch (error: any) {
+      console.error(`Failed to send deletion email to user: ${user.id}`, error.message);
+    }
+
+    return user;
+  }
+
+  static async cancelDeletion(user: User) {
+    if (!user.deletionScheduledFor) {
+      throw new ValidationError('No account deletion is scheduled');
+    }
+
+    await user.update({ deletionRequestedAt: null, deletionScheduledFor: null });
+
+    console.log(`Account deletion cancelled for user ${user.id}`);
+
+    return user;
+  }
+
+  static async processDueDeletions(limit = 10) {
+    const users = await User.findAll({
+      where: { deletionScheduledFor: { [Op.lte]: new Date() }, deletedAt: null },
+      limit,
+    });
+
+    for (const user of users) {
+      try {
+        await this.deleteAccount(user);
+      } catch (error: any) {
+        console.error(`Account deletion failed for user ${user.id}:`, error.message);
+      }
+    }
+
+    return users.length;
+  }
+
+  static async deleteAccount(user: User) {
+    await SessionService.revokeAllSessions(user.id);
+    await ApiKey.update({ revokedAt: new Date() }, { where: { userId: user.id, revokedAt: null } });
+
+    await this.leaveWorkspaces(user.id);
+
+    const accounts = await FacebookAccount.findAll({ where: { userId: user.id } });
+
+    for (const account of accounts) {
+      try {
+        await FacebookService.revokeAccess(account.accessToken);
+      } catch (error: any) {
+        console.error(`Failed to revoke Facebook access for account ${account.id}:`, error.message);
+      }
+
+      const owner = account.workspaceId
+        ? await WorkspaceMember.findOne({ where: { workspaceId: account.workspaceId, role: 'owner' }, order: [['createdAt', 'ASC']] })
+        : null;
+
+      if (owner) {
+        await this.handOverFacebookAccount(account, owner.userId);
+      } else {
+        await this.deleteFacebookAccount(account);
+      }
+    }
+
+    const exports = await DataExport.findAll({ where: { userId: user.id } });
+    for (const dataExport of exports) {
+      await this.removeExportFile(dataExport);
+      await dataExport.destroy();
+    }
+
+    await SecurityEvent.update(
+      { email: null, ip: null, userAgent: null },
+      { where: { [Op.or]: [{ userId: user.id }, { email: user.email }] } }
+    );
+
+    await user.update({
+      email: `deleted-${user.id}@deleted.invalid`,
+      firstName: 'Deleted',
+      lastName: 'User',
+      password: null,
+      avatar: null,
+      facebookId: null,
+      isActive: false,
+      emailVerified: false,
+      emailVerifiedAt: null,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: [],
+      lastLogin: null,
+      lockedUntil: null,
+      deletionScheduledFor: null,
+      deletedAt: new Date(),
+    });
+
+    console.log(`Account deleted and anonymized: ${user.id}`);
+  }
+
+  private static async collectUserData(user: User) {
+    const accounts = await FacebookAccount.findAll({
+      where: { userId: user.id },
+      attributes: { exclude: TOKEN_ATTRIBUTES },
+    });
+    const accountIds = accounts.map((account) => account.id);
+
+    const contents = await Content.findAll({ where: { facebookAccountId: accountIds } });
+    const contentIds = contents.map((content) => content.id);
+
+    const [pages, analytics, earnings, scheduledPosts, autopilotSettings, comments, moderationSettings, monetizationSnapshots, workspaces] =
+      await Promise.all([
+        FacebookPage.findAll({ where: { facebookAccountId: accountIds }, attributes: { exclude: TOKEN_ATTRIBUTES } }),
+        Analytics.findAll({ where: { contentId: contentIds } }),
+        Earning.findAll({ where: { facebookAccountId: accountIds } }),
+        ScheduledPost.findAll({ where: { [Op.or]: [{ userId: user.id }, { facebookAccountId: accountIds }] } }),
+        AutopilotSettings.findAll({ where: { facebookAccountId: accountIds } }),
+        Comment.findAll({ where: { facebookAccountId: accountIds } }),
+        ModerationSettings.findAll({ where: { facebookAccountId: accountIds } }),
+        MonetizationSnapshot.findAll({ where: { facebookAccountId: accountIds } }),
+        WorkspaceMember.findAll({ where: { userId: user.id }, include: [Workspace] }),
+      ]);
+
+    return {
+      profile: user.toJSON(),
+      'facebook-accounts': accounts.map((account) => account.toJSON()),
+      'facebook-pages': pages.map((page) => page.toJSON()),
+      content: contents.map((content) => content.toJSON()),
+      analytics: analytics.map((row) => row.toJSON()),
+      earnings: earnings.map((earning) => earning.toJSON()),
+      'scheduled-posts': scheduledPosts.map((post) => post.toJSON()),
+      'autopilot-settings': autopilotSettings.map((settings) => settings.toJSON()),
+      comments: comments.map((comment) => comment.toJSON()),
+      'moderation-settings': moderationSettings.map((settings) => settings.toJSON()),
+      'monetization-snapshots': monetizationSnapshots.map((snapshot) => snapshot.toJSON()),
+      workspaces: workspaces.map((membership) => ({
+        id: membership.workspaceId,
+        name: membership.workspace?.name,
+        role: membership.role,
+        joinedAt: membership.createdAt,
+      })),
+    };
+  }
+
+  private static async deleteFacebookAccount(account: FacebookAccount) {
+    const contents = await Content.findAll({ where: { facebookAccountId: account.id }, attributes: ['id'] });
+    const contentIds = contents.map((content) => content.id);
+
+    await Analytics.destroy({ where: { contentId: contentIds } });
+    await Comment.destroy({ where: { facebookAccountId: account.id } });
+    await ModerationSettings.destroy({ where: { facebookAccountId: account.id } });
+    await Earning.destroy({ where: { facebookAccountId: account.id } });
+    await MonetizationSnapshot.destroy({ where: { facebookAccountId: account.id } });
+    await Content.destroy({ where: { facebookAccountId: account.id } });
+    await ScheduledPost.destroy({ where: { facebookAccountId: account.id } });
+    await AutopilotSettings.destroy({ where: { facebookAccountId: account.id } });
+    await FacebookPage.destroy({ where: { facebookAccountId: account.id } });
+    await SyncStatus.destroy({ where: { facebookAccountId: account.id } });
+    await account.destroy();
+  }
+
+  /**
+   * Keeps an account that other workspace members still use: its content,
+   * earnings and queued posts stay, and it passes to the workspace owner,
+   * who has to reconnect it since the departing user's token was revoked.
+   */
+  private static async handOverFacebookAccount(account: FacebookAccount, ownerId: string) {
+    account.userId = ownerId;
+    await FacebookTokenService.markNeedsReconnect(account, 'the member who connected it deleted their account');
+
+    console.log(`Facebook account ${account.id} handed over to workspace owner ${ownerId}`);
+  }
+
+  /**
+   * Removes the user's memberships. Workspaces left without members are
+   * deleted; workspaces left without an owner get their longest-standing
+   * member promoted.
+   */
+  private static async leaveWorkspaces(userId: string) {
+    const memberships = await WorkspaceMember.findAll({ where: { userId } });
+
+    for (const membership of memberships) {
+      const { workspaceId } = membership;
+      await membership.destroy();
+
+      const remaining = await WorkspaceMember.findAll({
+        where: { workspaceId },
+        order: [['createdAt', 'ASC']],
+      });
+
+      if (remaining.length === 0) {
+        await FacebookAccount.update({ workspaceId: null }, { where: { workspaceId } });
+        await ApiKey.destroy({ where: { workspaceId } });
+        await Workspace.destroy({ where: { id: workspaceId } });
+        continue;
+      }
+
+      if (!remaining.some((member) => member.role === 'owner')) {
+        await remaining[0].update({ role: 'owner' });
+        console.log(`User ${remaining[0].userId} promoted to owner of workspace ${workspaceId}`);
+      }
+    }
+  }
+
+  private static async removeExportFile(dataExport: DataExport) {
+    if (!dataExport.filePath) {
+      return;
+    }
+
+    try {
+      await fs.unlink(dataExport.filePath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to remove export file ${dataExport.filePath}:`, error.message);
+      }
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient } from '../config/redis';
+import { AuthenticationError, NotFoundError, ServiceUnavailableError } from '../errors';
+import { decryptToken, encryptToken } from '../utils/tokenCrypto';
+
+export interface SessionContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  userId: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+// Rotates a session's refresh token in one step. Resolves to ['rotated']
+// when the current token was presented, ['grace', next] when the token
+// rotated last is presented again within the grace window (next being the
+// token it was rotated to, encrypted like stored OAuth tokens), ['reused']
+// for any other token and ['missing'] when the session is gone.
+const ROTATE_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'refreshTokenHash')
+if not current then
+  return {'missing'}
+end
+if current == ARGV[1] then
+  redis.call('HSET', KEYS[1], 'refreshTokenHash', ARGV[2], 'lastUsedAt', ARGV[4])
+  redis.call('EXPIRE', KEYS[1], ARGV[5])
+  redis.call('SET', KEYS[2], ARGV[1] .. ' ' .. ARGV[3], 'PX', ARGV[6])
+  return {'rotated'}
+end
+local grace = redis.call('GET', KEYS[2])
+if grace then
+  local separator = string.find(grace, ' ', 1, true)
+  if string.sub(grace, 1, separator - 1) == ARGV[1] then
+    return {'grace', string.sub(grace, separator + 1)}
+  end
+end
+return {'reused'}
+`;
+
+/**
+ * Server-side sessions backed by Redis. Every access token carries the id of
+ * the session it was issued for, so deleting the session revokes both the
+ * refresh token and any access tokens still in flight.
+ */
+export class SessionService {
+  static get refreshTokenTtlSeconds(): number {
+    return parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || '2592000');
+  }
+
+  static get refreshTokenGraceSeconds(): number {
+    return parseInt(process.env.REFRESH_TOKEN_GRACE_SECONDS || '30');
+  }
+
+  static async createSession(userId: string, context: SessionContext = {}) {
+    const sessionId = uuidv4();
+    const refreshToken = this.buildRefreshToken(sessionId);
+    const now = new Date().toISOString();
+
+    try {
+      await redisClient.hSet(this.sessionKey(sessionId), {
+        userId,
+        refreshTokenHash: this.hashToken(refreshToken),
+        ip: context.ip || '',
+        userAgent: context.userAgent || '',
+        createdAt: now,
+        lastUsedAt: now,
+      });
+      await redisClient.expire(this.sessionKey(sessionId), this.refreshTokenTtlSeconds);
+      await redisClient.sAdd(this.userSessionsKey(userId), sessionId);
+    } catch (error: any) {
+      throw new ServiceUnavailableError('Failed to create session', { originalError: error.message });
+    }
+
+    return { sessionId, refreshToken };
+  }
+
+  /**
+   * Exchanges a refresh token for a new one. Presenting a token that was
+   * already rotated means it leaked, so the whole session is revoked. The
+   * token rotated last stays valid for a short grace window and gets the
+   * same replacement, so concurrent refreshes (two browser tabs) do not
+   * look like reuse.
+   */
+  static async rotateRefreshToken(refreshToken: string, context: SessionContext = {}) {
+    const sessionId = this.parseSessionId(refreshToken);
+    const session = await this.getRawSession(sessionId);
+
+    if (!session) {
+      throw new AuthenticationError('Session has expired or been revoked');
+    }
+
+    const nextRefreshToken = this.buildRefreshToken(sessionId);
+    let result: string[];
+
+    try {
+      result = (await redisClient.eval(ROTATE_SCRIPT, {
+        keys: [this.sessionKey(sessionId), this.graceKey(sessionId)],
+        arguments: [
+          this.hashToken(refreshToken),
+          this.hashToken(nextRefreshToken),
+          encryptToken(nextRefreshToken),
+          new Date().toISOString(),
+          String(this.refreshTokenTtlSeconds),
+          String(this.refreshTokenGraceSeconds * 1000),
+        ],
+      })) as string[];
+    } catch (error: any) {
+      throw new ServiceUnavailableError('Failed to rotate session', { originalError: error.message });
+    }
+
+    const [outcome, graceRefreshToken] = result;
+
+    if (outcome === 'missing') {
+      throw new AuthenticationError('Session has expired or been revoked');
+    }
+
+    if (outcome === 'reused') {
+      console.warn(`Refresh token reuse detected for session ${sessionId} (user ${session.userId}), revoking`);
+      await this.revokeSession(session.userId, sessionId);
+      throw new AuthenticationError('Refresh token has already been used');
+    }
+
+    if (context.ip || context.userAgent) {
+      try {
+        await redisClient.hSet(this.sessionKey(sessionId), {
+          ...(context.ip ? { ip: context.ip } : {}),
+          ...(context.userAgent ? { userAgent: context.userAgent } : {}),
+        });
+      } catch (error: any) {
+        console.error(`Failed to update session client details: ${sessionId}`, error.message);
+      }
+    }
+
+    return {
+      sessionId,
+      userId: session.userId,
+      refreshToken: outcome === 'grace' ? decryptToken(graceRefreshToken) : nextRefreshToken,
+    };
+  }
+
+  static async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    try {
+      const session = await this.getRawSession(sessionId);
+      return !!session && session.userId === userId;
+    } catch (error: any) {
+      throw new ServiceUnavailableError('Session store unavailable', { originalError: error.message });
+    }
+  }
+
+  static async touchSession(sessionId: string): Promise<void> {
+    try {
+      await redisClient.hSet(this.sessionKey(sessionId), 'lastUsedAt', new Date().toISOString());
+    } catch (error: any) {
+      console.error(`Failed to update session last used time: ${sessionId}`, error.message);
+    }
+  }
+
+  static async listSessions(userId: string): Promise<SessionInfo[]> {
+    const sessionIds = await redisClient.sMembers(this.userSessionsKey(userId));
+    const sessions: SessionInfo[] = [];
+
+    for (const sessionId of sessionIds) {
+      const session = await this.getRawSession(sessionId);
+
+      if (!session) {
+        await redisClient.sRem(this.userSessionsKey(userId), sessionId);
+        continue;
+      }
+
+      sessions.push({
+        id: sessionId,
+        userId: session.userId,
+        ip: session.ip || undefined,
+        userAgent: session.userAgent || undefined,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+      });
+    }
+
+    return sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const session = await this.getRawSession(sessionId);
+
+    if (!session || session.userId !== userId) {
+      throw new NotFoundError('Session not found');
+    }
+
+    await redisClient.del([this.sessionKey(sessionId), this.graceKey(sessionId)]);
+    await redisClient.sRem(this.userSessionsKey(userId), sessionId);
+
+    console.log(`Session revoked: ${sessionId} (user ${userId})`);
+  }
+
+  static async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const sessionIds = await redisClient.sMembers(this.userSessionsKey(userId));
+    let revoked = 0;
+
+    for (const sessionId of sessionIds) {
+      if (sessionId === exceptSessionId) {
+        continue;
+      }
+
+      await redisClient.del([this.sessionKey(sessionId), this.graceKey(sessionId)]);
+      await redisClient.sRem(this.userSessionsKey(userId), sessionId);
+      revoked++;
+    }
+
+    console.log(`Revoked ${revoked} session(s) for user ${userId}`);
+
+    return revoked;
+  }
+
+  private static async getRawSession(sessionId: string): Promise<Record<string, string> | null> {
+    const session = await redisClient.hGetAll(this.sessionKey(sessionId));
+    return session && session.userId ? session : null;
+  }
+
+  private static buildRefreshToken(sessionId: string): string {
+    return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private static parseSessionId(refreshToken: string): string {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+
+    if (!sessionId || !secret) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    return sessionId;
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static sessionKey(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  private static graceKey(sessionId: string): string {
+    return `session_grace:${sessionId}`;
+  }
+
+  private static userSessionsKey(userId: string): string {
+    return `user_sessions:${userId}`;
+  }
+}
@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Op } from 'sequelize';
+import { User } from '../models';
+import { ValidationError, AuthenticationError, NotFoundError, ConflictError, AppError } from '../errors';
+import { handleSequelizeError } from '../utils/errorHelpers';
+import { generateTotpSecret, matchTotpStep, buildOtpauthUri } from '../utils/totp';
+
+export class TwoFactorService {
+  private static readonly RECOVERY_CODE_COUNT = 10;
+
+  static async setup(userId: string) {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.twoFactorEnabled) {
+        throw new ConflictError('Two-factor authentication is already enabled');
+      }
+
+      const secret = generateTotpSecret();
+      user.twoFactorSecret = secret;
+      await user.save();
+
+      const issuer = process.env.TWO_FACTOR_ISSUER || 'FB Earnings';
+
+      return {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, issuer),
+      };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  static async enable(userId: string, code: string) {
+    if (!code) {
+      throw new ValidationError('Verification code is required');
+    }
+
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.twoFactorEnabled) {
+        throw new ConflictError('Two-factor authentication is already enabled');
+      }
+
+      if (!user.twoFactorSecret) {
+        throw new ValidationError('Two-factor setup has not been started');
+      }
+
+      if (!(await this.consumeTotp(user, code))) {
+        throw new AuthenticationError('Invalid verification code');
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      user.twoFactorRecoveryCodes = await this.hashRecoveryCodes(recoveryCodes);
+      user.twoFactorEnabled = true;
+      await user.save();
+
+      console.log(`Two-factor authentication enabled for user: ${userId}`);
+
+      return { recoveryCodes };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  static async disable(userId: string, password: string) {
+    if (!password) {
+      throw new ValidationError('Password is required');
+    }
+
+    try {
+      const user = await this.findUser(userId);
+
+      if (!user.twoFactorEnabled) {
+        throw new ValidationError('Two-factor authentication is not enabled');
+      }
+
+      const isValid = await user.comparePassword(password);
+
+      if (!isValid) {
+        throw new AuthenticationError('Password is incorrect');
+      }
+
+      await user.update({
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastUsedStep: null,
+        twoFactorRecoveryCodes: [],
+      });
+
+      console.log(`Two-factor authentication disabled for user: ${userId}`);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  static async regenerateRecoveryCodes(userId: string, code: string) {
+    if (!code) {
+      throw new ValidationError('Verification code is required');
+    }
+
+    try {
+      const user = await this.findUser(userId);
+
+      if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+        throw new ValidationError('Two-factor authentication is not enabled');
+      }
+
+      if (!(await this.consumeTotp(user, code))) {
+        throw new AuthenticationError('Invalid verification code');
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      user.twoFactorRecoveryCodes = await this.hashRecoveryCodes(recoveryCodes);
+      await user.save();
+
+      return { recoveryCodes };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      handleSequelizeError(error);
+    }
+  }
+
+  /**
+   * Checks a login challenge response. A TOTP code is tried first; a recovery
+   * code is accepted instead and is removed from the user so it cannot be reused.
+   */
+  static async verifyChallenge(user: User, response: { code?: string; recoveryCode?: string }): Promise<boolean> {
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    if (response.code) {
+      return this.consumeTotp(user, response.code);
+    }
+
+    if (response.recoveryCode) {
+      const normalized = response.recoveryCode.trim().toLowerCase();
+      const hashes = user.twoFactorRecoveryCodes || [];
+
+      for (const hash of hashes) {
+        if (await bcrypt.compare(normalized, hash)) {
+          return this.consumeRecoveryCode(user, hash);
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Accepts a TOTP code once: the code's time step must be later than the
+   * last accepted one, and recording it is a conditional update so two
+   * requests racing with the same code cannot both succeed.
+   */
+  private static async consumeTotp(user: User, code: string): Promise<boolean> {
+    const step = matchTotpStep(user.twoFactorSecret!, code);
+
+    if (step === null) {
+      return false;
+    }
+
+    const [count] = await User.update(
+      { twoFactorLastUsedStep: step },
+      {
+        where: {
+          id: user.id,
+          [Op.or]: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { [Op.lt]: step } }],
+        },
+      }
+    );
+
+    if (count === 0) {
+      console.log(`Rejected reused two-factor code for user: ${user.id}`);
+      return false;
+    }
+
+    user.twoFactorLastUsedStep = step;
+    return true;
+  }
+
+  /**
+   * Removes a recovery code from the user's row while holding a lock on it,
+   * so a code presented by two concurrent requests is accepted once.
+   */
+  private static async consumeRecoveryCode(user: User, hash: string): Promise<boolean> {
+    const remaining = await User.sequelize!.transaction(async (transaction) => {
+      const locked = await User.findByPk(user.id, { transaction, lock: transaction.LOCK.UPDATE });
+      const stored = locked?.twoFactorRecoveryCodes || [];
+
+      if (!locked || !stored.includes(hash)) {
+        return null;
+      }
+
+      locked.twoFactorRecoveryCodes = stored.filter((code) => code !== hash);
+      await locked.save({ transaction });
+      return locked.twoFactorRecoveryCodes;
+    });
+
+    if (!remaining) {
+      return false;
+    }
+
+    user.twoFactorRecoveryCodes = remaining;
+    console.log(`Recovery code used for user: ${user.id} (${remaining.length} remaining)`);
+    return true;
+  }
+
+  private static async findUser(userId: string): Promise<User> {
+    const user = await User.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user;
+  }
+
+  private static generateRecoveryCodes(): string[] {
+    const codes: string[] = [];
+    for (let i = 0; i < this.RECOVERY_CODE_COUNT; i++) {
+      const raw = crypto.randomBytes(5).toString('hex');
+      codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+    }
+    return codes;
+  }
+
+  private static async hashRecoveryCodes(codes: string[]): Promise<string[]> {
+    return Promise.all(codes.map((code) => bcrypt.hash(code, 10)));
+  }
+}
@@ -0,0 +1,324 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import { FacebookPage, Content, WebhookEvent } from '../models';
+import { AppError, AuthenticationError, AuthorizationError, ValidationError } from '../errors';
+import { InsightsService } from './InsightsService';
+import { CommentService } from './CommentService';
+
+// Feed items that are page posts; comments and reactions refer to one of these.
+const POST_ITEMS = ['status', 'post', 'photo', 'video', 'share'];
+const ENGAGEMENT_ITEMS = ['comment', 'reaction', 'like'];
+
+type ProcessOutcome = 'processed' | 'ignored';
+
+// An event left processing this long was abandoned by a crashed worker.
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+/**
+ * Receives Facebook page and Instagram webhooks into the webhook_events
+ * inbox and applies feed and comment changes to Content, Comment and
+ * Analytics.
+ *
+ * Deliveries are acknowledged as soon as their changes are stored, so
+ * Facebook does not retry while we process. Processing is idempotent:
+ * posts are upserted, deletions set a timestamp and engagement is refetched
+ * as absolute counts, so a redelivered or replayed event gives the same
+ * result. Failed events are retried by the webhook events job until
+ * WEBHOOK_MAX_ATTEMPTS is reached, and admins can replay any stored event.
+ */
+export class WebhookService {
+  static get maxAttempts(): number {
+    return parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+  }
+
+  /**
+   * Answers the subscription handshake: echoes the challenge when the verify
+   * token matches FACEBOOK_WEBHOOK_VERIFY_TOKEN.
+   */
+  static verifySubscription(mode?: string, verifyToken?: string, challenge?: string): string {
+    const expected = process.env.FACEBOOK_WEBHOOK_VERIFY_TOKEN;
+
+    if (!expected) {
+      throw new AppError('Webhook verify token is not configured', 500, false);
+    }
+
+    if (mode !== 'subscribe' || !verifyToken || !challenge || !this.safeEqual(verifyToken, expected)) {
+      throw new AuthorizationError('Webhook verification failed');
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Checks the X-Hub-Signature-256 header: an HMAC-SHA256 of the raw request
+   * body keyed with the app secret.
+   */
+  static verifySignature(rawBody: Buffer, signature?: string) {
+    const secret = process.env.FACEBOOK_APP_SECRET;
+
+    if (!secret) {
+      throw new AppError('Facebook app secret is not configured', 500, false);
+    }
+
+    if (!signature || !signature.startsWith('sha256=')) {
+      throw new AuthenticationError('Missing webhook signature');
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+
+    if (!this.safeEqual(signature.slice('sha256='.length), expected)) {
+      throw new AuthenticationError('Invalid webhook signature');
+    }
+  }
+
+  /**
+   * Stores each change of a delivery in the inbox. Resolves to the events
+   * that were not stored before; redelivered changes are skipped.
+   */
+  static async receive(source: string, body: any): Promise<WebhookEvent[]> {
+    if (!body || typeof body.object !== 'string' || !Array.isArray(body.entry)) {
+      throw new ValidationError('Invalid webhook payload');
+    }
+
+    const received: WebhookEvent[] = [];
+
+    for (const entry of body.entry) {
+      for (const change of entry.changes || []) {
+        const eventKey = crypto
+          .createHash('sha256')
+          .update(JSON.stringify([source, body.object, entry.id, entry.time, change]))
+          .digest('hex');
+
+        const [event, created] = await WebhookEvent.findOrCreate({
+          where: { eventKey },
+          defaults: {
+            source,
+            eventKey,
+            object: body.object,
+            objectId: String(entry.id),
+            field: change.field,
+            payload: change.value || {},
+            receivedAt: new Date(),
+          },
+        });
+
+        if (created) {
+          received.push(event);
+        }
+      }
+    }
+
+    return received;
+  }
+
+  /**
+   * Processes one event and records the outcome on it. Never throws; a
+   * failure is stored on the event for the retry job. Resolves to null when
+   * another worker claimed the event first.
+   */
+  static async process(event: WebhookEvent): Promise<WebhookEvent | null> {
+    if (!(await this.claim(event))) {
+      return null;
+    }
+
+    try {
+      const outcome = await this.apply(event);
+      event.status = outcome;
+      event.error = null;
+      event.processedAt = new Date();
+    } catch (error: any) {
+      event.status = 'failed';
+      event.error = error.message;
+      console.error(`Failed to process webhook event ${event.id}:`, error.message);
+    }
+
+    await event.save();
+    return event;
+  }
+
+  /**
+   * Processes pending events, retries failed ones that have attempts left and
+   * picks up abandoned ones, oldest first.
+   */
+  static async processPending(limit: number = 100) {
+    const events = await WebhookEvent.findAll({
+      where: {
+        [Op.or]: [
+          { status: 'pending' },
+          { status: 'failed', attempts: { [Op.lt]: this.maxAttempts } },
+          { status: 'processing', updatedAt: { [Op.lt]: new Date(Date.now() - STALE_PROCESSING_MS) } },
+        ],
+      },
+      order: [['receivedAt', 'ASC']],
+      limit,
+    });
+
+    const counts = { processed: 0, ignored: 0, failed: 0 };
+
+    for (const event of events) {
+      if (await this.process(event)) {
+        counts[event.status as keyof typeof counts]++;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Marks the event processing and counts the attempt, as long as nobody
+   * changed it since it was read and no worker is still on it. The receiving
+   * request and the retry job both pick up new events; only the one whose
+   * claim lands processes it.
+   */
+  private static async claim(event: WebhookEvent): Promise<boolean> {
+    if (event.status === 'processing' && Date.now() - event.updatedAt.getTime() < STALE_PROCESSING_MS) {
+      return false;
+    }
+
+    const [count] = await WebhookEvent.update(
+      { status: 'processing', attempts: event.attempts + 1 },
+      { where: { id: event.id, status: event.status, updatedAt: event.updatedAt } }
+    );
+
+    if (count === 0) {
+      return false;
+    }
+
+    event.status = 'processing';
+    event.attempts += 1;
+    return true;
+  }
+
+  private static async apply(event: WebhookEvent): Promise<ProcessOutcome> {
+    if (event.source === 'facebook' && event.object === 'instagram' && event.field === 'comments') {
+      return this.applyInstagramComment(event);
+    }
+
+    if (event.source !== 'facebook' || event.object !== 'page' || event.field !== 'feed') {
+      return 'ignored';
+    }
+
+    const pages = await FacebookPage.findAll({ where: { pageId: event.objectId, isActive: true } });
+
+    if (pages.length === 0) {
+      return 'ignored';
+    }
+
+    let outcome: ProcessOutcome = 'ignored';
+
+    // A page can be connected by more than one account.
+    for (const page of pages) {
+      if ((await this.applyFeedChange(page, event.payload)) === 'processed') {
+        outcome = 'processed';
+      }
+    }
+
+    return outcome;
+  }
+
+  private static async applyFeedChange(page: FacebookPage, value: Record<string, any>): Promise<ProcessOutcome> {
+    const { item, verb } = value;
+
+    if (POST_ITEMS.includes(item)) {
+      const contentIds = [value.post_id, value.video_id].filter(Boolean);
+
+      if (verb === 'remove') {
+        const [count] = await Content.update(
+          { deletedOnFacebookAt: new Date() },
+          { where: { facebookPageId: page.id, contentId: contentIds, deletedOnFacebookAt: null } }
+        );
+        return count > 0 ? 'processed' : 'ignored';
+      }
+
+      if (verb === 'add' || verb === 'edited') {
+        await this.upsertPost(page, value);
+        return 'processed';
+      }
+
+      return 'ignored';
+    }
+
+    if (ENGAGEMENT_ITEMS.includes(item)) {
+      const content = await Content.findOne({
+        where: { facebookPageId: page.id, contentId: value.post_id, deletedOnFacebookAt: null },
+      });
+
+      if (!content) {
+        return 'ignored';
+      }
+
+      if (item === 'comment') {
+        await CommentService.applyFeedChange(page, content, value);
+      }
+
+      await InsightsService.refreshEngagement(content, page);
+      return 'processed';
+    }
+
+    return 'ignored';
+  }
+
+  /**
+   * Instagram comment webhooks name the Instagram account; the comment is
+   * stored for every page the account is linked to.
+   */
+  private static async applyInstagramComment(event: WebhookEvent): Promise<ProcessOutcome> {
+    const pages = await FacebookPage.findAll({ where: { instagramAccountId: event.objectId, isActive: true } });
+    let outcome: ProcessOutcome = 'ignored';
+
+    for (const page of pages) {
+      if (await CommentService.applyInstagramChange(page, event.payload)) {
+        outcome = 'processed';
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Creates or updates the content row for a post from the fields the feed
+   * change carries. Fields the change leaves out keep their synced values.
+   */
+  private static async upsertPost(page: FacebookPage, value: Record<string, any>) {
+    const isVideo = value.item === 'video' && value.video_id;
+    const contentId = isVideo ? value.video_id : value.post_id;
+
+    if (!contentId) {
+      throw new ValidationError('Feed change has no post ID');
+    }
+
+    const values: Record<string, any> = { deletedOnFacebookAt: null };
+    if (value.message !== undefined) {
+      values.description = value.message;
+    }
+    if (value.item === 'photo' && value.link) {
+      values.thumbnailUrl = value.link;
+    }
+    if (value.verb === 'edited') {
+      values.facebookUpdatedAt = new Date();
+    }
+
+    const content = await Content.findOne({ where: { facebookPageId: page.id, contentId } });
+
+    if (content) {
+      await content.update(values);
+      return content;
+    }
+
+    return Content.create({
+      ...values,
+      facebookAccountId: page.facebookAccountId,
+      facebookPageId: page.id,
+      contentId,
+      contentType: isVideo ? 'video' : 'post',
+      sourceEdge: isVideo ? 'videos' : 'posts',
+      publishedAt: value.created_time ? new Date(value.created_time * 1000) : new Date(),
+    });
+  }
+
+  private static safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+}
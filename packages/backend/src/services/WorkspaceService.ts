@@ -0,0 +1,317 @@
+import { Op } from 'sequelize';
+import { User, FacebookAccount, FacebookPage, Workspace, WorkspaceMember } from '../models';
+import { WorkspaceRole } from '../models/WorkspaceMember';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../errors';
+
+export type WorkspacePermission =
+  | 'accounts:read'
+  | 'accounts:manage'
+  | 'autopilot:read'
+  | 'autopilot:manage'
+  | 'posts:schedule'
+  | 'comments:moderate'
+  | 'earnings:read'
+  | 'earnings:write'
+  | 'members:manage'
+  | 'audit:read';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'publisher', 'analyst', 'viewer'];
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: [
+    'accounts:read',
+    'accounts:manage',
+    'autopilot:read',
+    'autopilot:manage',
+    'posts:schedule',
+    'comments:moderate',
+    'earnings:read',
+    'earnings:write',
+    'members:manage',
+    'audit:read',
+  ],
+  editor: [
+    'accounts:read',
+    'accounts:manage',
+    'autopilot:read',
+    'autopilot:manage',
+    'posts:schedule',
+    'comments:moderate',
+    'earnings:read',
+  ],
+  publisher: ['accounts:read', 'autopilot:read', 'posts:schedule', 'comments:moderate'],
+  analyst: ['accounts:read', 'autopilot:read', 'earnings:read', 'earnings:write'],
+  viewer: ['accounts:read', 'autopilot:read'],
+};
+
+/**
+ * Workspaces own Facebook accounts; users reach an account through their
+ * membership role in the account's workspace.
+ *
+ * Accounts that were connected before workspaces existed and have not been
+ * migrated yet (no workspaceId) stay reachable by the user who connected them.
+ */
+export class WorkspaceService {
+  static hasPermission(role: WorkspaceRole, permission: WorkspacePermission): boolean {
+    return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+  }
+
+  static getPermissions(role: WorkspaceRole): WorkspacePermission[] {
+    return ROLE_PERMISSIONS[role] || [];
+  }
+
+  static async createWorkspace(userId: string, name: string) {
+    if (!name || !name.trim()) {
+      throw new ValidationError('Workspace name is required');
+    }
+
+    const workspace = await Workspace.create({ name: name.trim(), createdById: userId });
+    await WorkspaceMember.create({ workspaceId: workspace.id, userId, role: 'owner' });
+
+    console.log(`Workspace created: ${workspace.id} by user ${userId}`);
+
+    return workspace;
+  }
+
+  /**
+   * The first workspace the user owns, created on demand for users that
+   * registered before workspaces existed.
+   */
+  static async getDefaultWorkspace(user: User) {
+    const membership = await WorkspaceMember.findOne({
+      where: { userId: user.id, role: 'owner' },
+      include: [Workspace],
+      order: [['createdAt', 'ASC']],
+    });
+
+    if (membership) {
+      return membership.workspace;
+    }
+
+    return this.createWorkspace(user.id, `${user.firstName}'s Workspace`);
+  }
+
+  static async listWorkspaces(userId: string) {
+    const memberships = await WorkspaceMember.findAll({
+      where: { userId },
+      include: [Workspace],
+      order: [['createdAt', 'ASC']],
+    });
+
+    return memberships.map((membership) => ({
+      ...membership.workspace.toJSON(),
+      role: membership.role,
+      permissions: this.getPermissions(membership.role),
+    }));
+  }
+
+  static async assertPermission(userId: string, workspaceId: string, permission: WorkspacePermission) {
+    const membership = await WorkspaceMember.findOne({
+      where: { workspaceId, userId },
+    });
+
+    if (!membership) {
+      throw new NotFoundError('Workspace not found');
+    }
+
+    if (!this.hasPermission(membership.role, permission)) {
+      throw new AuthorizationError(`The ${membership.role} role does not have the ${permission} permission`, {
+        workspaceId,
+        permission,
+      });
+    }
+
+    return membership;
+  }
+
+  /**
+   * Loads an account the user can reach with the given permission. Accounts
+   * in workspaces the user does not belong to, or outside `restrictToWorkspaceId`
+   * when given, are reported as not found.
+   */
+  static async getAccount(
+    userId: string,
+    accountId: string,
+    permission: WorkspacePermission,
+    restrictToWorkspaceId?: string
+  ) {
+    const account = await FacebookAccount.findByPk(accountId);
+
+    if (!account || (restrictToWorkspaceId && account.workspaceId !== restrictToWorkspaceId)) {
+      throw new NotFoundError('Account not found');
+    }
+
+    if (!account.workspaceId) {
+      if (account.userId !== userId) {
+        throw new NotFoundError('Account not found');
+      }
+      return account;
+    }
+
+    const membership = await WorkspaceMember.findOne({
+      where: { workspaceId: account.workspaceId, userId },
+    });
+
+    if (!membership) {
+      throw new NotFoundError('Account not found');
+    }
+
+    if (!this.hasPermission(membership.role, permission)) {
+      throw new AuthorizationError(`The ${membership.role} role does not have the ${permission} permission`, {
+        accountId,
+        permission,
+      });
+    }
+
+    return account;
+  }
+
+  /**
+   * Loads a page and the account it belongs to, with the same access rules as
+   * getAccount.
+   */
+  static async getPage(
+    userId: string,
+    pageId: string,
+    permission: WorkspacePermission,
+    restrictToWorkspaceId?: string
+  ) {
+    const page = await FacebookPage.findByPk(pageId);
+
+    if (!page) {
+      throw new NotFoundError('Page not found');
+    }
+
+    try {
+      const account = await this.getAccount(userId, page.facebookAccountId, permission, restrictToWorkspaceId);
+      return { page, account };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new NotFoundError('Page not found');
+      }
+      throw error;
+    }
+  }
+
+  static async getAccountIds(userId: string, permission: WorkspacePermission, workspaceId?: string): Promise<string[]> {
+    const memberships = await WorkspaceMember.findAll({
+      where: workspaceId ? { userId, workspaceId } : { userId },
+    });
+
+    const workspaceIds = memberships
+      .filter((membership) => this.hasPermission(membership.role, permission))
+      .map((membership) => membership.workspaceId);
+
+    const scopes: any[] = [{ workspaceId: { [Op.in]: workspaceIds } }];
+    if (!workspaceId) {
+      scopes.push({ workspaceId: null, userId });
+    }
+
+    const accounts = await FacebookAccount.findAll({
+      where: { [Op.or]: scopes },
+      attributes: ['id'],
+    });
+
+    return accounts.map((account) => account.id);
+  }
+
+  static async listMembers(userId: string, workspaceId: string) {
+    await this.assertPermission(userId, workspaceId, 'accounts:read');
+
+    return WorkspaceMember.findAll({
+      where: { workspaceId },
+      include: [{ model: User, attributes: ['id', 'email', 'firstName', 'lastName', 'avatar'] }],
+      order: [['createdAt', 'ASC']],
+    });
+  }
+
+  static async addMember(actorId: string, workspaceId: string, email: string, role: WorkspaceRole) {
+    this.validateRole(role);
+    await this.assertPermission(actorId, workspaceId, 'members:manage');
+
+    if (!email) {
+      throw new ValidationError('Email is required');
+    }
+
+    const user = await User.findOne({ where: { email } });
+
+    if (!user || !user.isActive) {
+      throw new NotFoundError('No active user with this email');
+    }
+
+    const existing = await WorkspaceMember.findOne({ where: { workspaceId, userId: user.id } });
+
+    if (existing) {
+      throw new ConflictError('User is already a member of this workspace', { field: 'email' });
+    }
+
+    const member = await WorkspaceMember.create({ workspaceId, userId: user.id, role });
+
+    console.log(`User ${user.id} added to workspace ${workspaceId} as ${role}`);
+
+    return member;
+  }
+
+  static async updateMemberRole(actorId: string, workspaceId: string, memberId: string, role: WorkspaceRole) {
+    this.validateRole(role);
+    await this.assertPermission(actorId, workspaceId, 'members:manage');
+
+    const member = await this.findMember(workspaceId, memberId);
+
+    if (member.role === 'owner' && role !== 'owner') {
+      await this.assertNotLastOwner(workspaceId);
+    }
+
+    const previousRole = member.role;
+    member.role = role;
+    await member.save();
+
+    return { member, previousRole };
+  }
+
+  /**
+   * Owners can remove anyone; any member can remove themselves to leave the
+   * workspace. The last owner cannot leave.
+   */
+  static async removeMember(actorId: string, workspaceId: string, memberId: string) {
+    const member = await this.findMember(workspaceId, memberId);
+
+    if (member.userId !== actorId) {
+      await this.assertPermission(actorId, workspaceId, 'members:manage');
+    }
+
+    if (member.role === 'owner') {
+      await this.assertNotLastOwner(workspaceId);
+    }
+
+    await member.destroy();
+
+    console.log(`User ${member.userId} removed from workspace ${workspaceId}`);
+
+    return member;
+  }
+
+  private static async findMember(workspaceId: string, memberId: string) {
+    const member = await WorkspaceMember.findOne({ where: { id: memberId, workspaceId } });
+
+    if (!member) {
+      throw new NotFoundError('Member not found');
+    }
+
+    return member;
+  }
+
+  private static async assertNotLastOwner(workspaceId: string) {
+    const owners = await WorkspaceMember.count({ where: { workspaceId, role: 'owner' } });
+
+    if (owners <= 1) {
+      throw new ValidationError('A workspace must keep at least one owner');
+    }
+  }
+
+  private static validateRole(role: string) {
+    if (!WORKSPACE_ROLES.includes(role as WorkspaceRole)) {
+      throw new ValidationError(`Invalid role. Must be one of: ${WORKSPACE_ROLES.join(', ')}`);
+    }
+  }
+}
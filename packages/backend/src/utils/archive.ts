@@ -0,0 +1,62 @@
+import zlib from 'zlib';
+
+export interface ArchiveEntry {
+  name: string;
+  content: string | Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value.slice(0, length), offset, length, 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+}
+
+/**
+ * Builds a gzip-compressed ustar archive in memory. Meant for small bundles
+ * such as data exports; entry names must be shorter than 100 bytes.
+ */
+export function createTarGz(entries: ArchiveEntry[], modifiedAt: Date = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+  const mtime = Math.floor(modifiedAt.getTime() / 1000);
+
+  for (const entry of entries) {
+    if (Buffer.byteLength(entry.name) >= 100) {
+      throw new Error(`Archive entry name too long: ${entry.name}`);
+    }
+
+    const content = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8');
+    const header = Buffer.alloc(BLOCK_SIZE, 0);
+
+    writeString(header, entry.name, 0, 100);
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, content.length, 124, 12);
+    writeOctal(header, mtime, 136, 12);
+    header.fill(' ', 148, 156);
+    header.write('0', 156);
+    writeString(header, 'ustar\0', 257, 6);
+    writeString(header, '00', 263, 2);
+
+    let checksum = 0;
+    for (const byte of header) {
+      checksum += byte;
+    }
+    writeString(header, checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+
+    blocks.push(header, content);
+
+    const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding, 0));
+    }
+  }
+
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2, 0));
+
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
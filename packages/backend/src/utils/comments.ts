@@ -0,0 +1,104 @@
+export type CommentSentiment = 'positive' | 'neutral' | 'negative';
+
+export type AutoHideRule = 'keyword' | 'link' | 'spam';
+
+export interface AutoHideSettings {
+  autoHideEnabled: boolean;
+  hideKeywords: string[];
+  hideLinks: boolean;
+  hideSpam: boolean;
+}
+
+// Whole words only, each inflection listed: matching prefixes would count
+// "goodbye" as good and "badge" as bad.
+const POSITIVE_WORDS = [
+  'amazing', 'awesome', 'beautiful', 'best', 'brilliant', 'delicious', 'excellent', 'fantastic', 'good', 'great',
+  'happy', 'helpful', 'incredible', 'love', 'loved', 'loves', 'loving', 'lovely', 'nice', 'perfect', 'recommend',
+  'recommended', 'recommending', 'thank', 'thanks', 'thankyou', 'wonderful', 'wow', 'yum', 'yummy',
+];
+
+const NEGATIVE_WORDS = [
+  'angry', 'annoyed', 'annoying', 'awful', 'bad', 'boring', 'broken', 'disappointed', 'disappointing', 'disgusting',
+  'fake', 'hate', 'hated', 'hates', 'hating', 'horrible', 'lie', 'lied', 'lies', 'lying', 'liar', 'liars', 'poor',
+  'rude', 'scam', 'scams', 'scammer', 'scammers', 'stupid', 'terrible', 'trash', 'ugly', 'unfollow', 'unfollowed',
+  'unfollowing', 'useless', 'waste', 'wasted', 'worst', 'wrong',
+];
+
+// Emoji count like words, also when written without spaces around them.
+const POSITIVE_EMOJI = ['❤️', '❤', '😍', '🔥', '👍'];
+const NEGATIVE_EMOJI = ['👎', '😡', '🤮'];
+const EMOJI_PATTERN = new RegExp(`(${[...POSITIVE_EMOJI, ...NEGATIVE_EMOJI].join('|')})`, 'gu');
+
+const POSITIVE = new Set([...POSITIVE_WORDS, ...POSITIVE_EMOJI]);
+const NEGATIVE = new Set([...NEGATIVE_WORDS, ...NEGATIVE_EMOJI]);
+
+const NEGATIONS = ['not', "don't", 'dont', 'never', 'no', "isn't", "wasn't", "didn't"];
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|co|me|ly|xyz|info|biz|link|shop)\b/i;
+
+// Common comment spam: follower and giveaway bait, requests to move the
+// conversation elsewhere, crypto pitches and walls of repeated characters.
+const SPAM_PATTERNS = [
+  /\b(free|cheap|buy|get)\s+(followers|likes|views|subscribers)\b/i,
+  /\b(check|visit)\s+(out\s+)?(my|our)\s+(profile|page|bio|channel)\b/i,
+  /\b(dm|inbox|message|whats\s?app|telegram)\s+(me|us)\b/i,
+  /\blink\s+in\s+(my\s+)?bio\b/i,
+  /\b(bitcoin|btc|crypto|forex)\b.*\b(invest|profit|earn|trading)\b/i,
+  /\b(earn|make)\s+\$?\d+.*\b(day|week|home)\b/i,
+  /(.)\1{9,}/,
+  /(@\w+[\s,]*){5,}/,
+];
+
+const words = (message: string): string[] =>
+  message
+    .toLowerCase()
+    .replace(EMOJI_PATTERN, ' $1 ')
+    .split(/[\s.,!?;:()"]+/u)
+    .filter(Boolean);
+
+/**
+ * Word-list sentiment of a comment: positive and negative words cancel out,
+ * and a negation flips the word after it.
+ */
+export const getSentiment = (message?: string | null): CommentSentiment => {
+  if (!message) {
+    return 'neutral';
+  }
+
+  const tokens = words(message);
+  let score = 0;
+
+  tokens.forEach((token, index) => {
+    const negated = index > 0 && NEGATIONS.includes(tokens[index - 1]);
+    const value = POSITIVE.has(token) ? 1 : NEGATIVE.has(token) ? -1 : 0;
+    score += negated ? -value : value;
+  });
+
+  if (score > 0) {
+    return 'positive';
+  }
+  return score < 0 ? 'negative' : 'neutral';
+};
+
+/**
+ * The first enabled auto-hide rule a comment matches, or null.
+ */
+export const findAutoHideRule = (message: string | null | undefined, settings: AutoHideSettings): AutoHideRule | null => {
+  if (!message || !settings.autoHideEnabled) {
+    return null;
+  }
+
+  const lower = message.toLowerCase();
+
+  if (settings.hideKeywords.some((keyword) => keyword.trim() && lower.includes(keyword.trim().toLowerCase()))) {
+    return 'keyword';
+  }
+  if (settings.hideLinks && LINK_PATTERN.test(message)) {
+    return 'link';
+  }
+  if (settings.hideSpam && SPAM_PATTERNS.some((pattern) => pattern.test(message))) {
+    return 'spam';
+  }
+
+  return null;
+};
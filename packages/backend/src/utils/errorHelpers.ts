@@ -1,4 +1,4 @@
-import { AppError, ExternalServiceError, RateLimitError } from '../errors';
+import { AppError, ConflictError, DatabaseError, ExternalServiceError, RateLimitError, ValidationError } from '../errors';
 
 export interface RetryOptions {
   maxAttempts?: number;
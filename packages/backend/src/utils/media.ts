@@ -0,0 +1,46 @@
+export type MediaKind = 'image' | 'video' | 'link';
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'tif', 'tiff', 'heic'];
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v', 'avi', 'wmv', 'webm', 'mkv', '3gp', 'mpeg', 'mpg'];
+
+/**
+ * Classifies a media URL by its file extension. URLs without a known image
+ * or video extension are treated as links to share.
+ */
+export const getMediaKind = (url: string): MediaKind => {
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    pathname = url.split(/[?#]/)[0];
+  }
+
+  const extension = pathname.split('.').pop()?.toLowerCase() || '';
+
+  if (IMAGE_EXTENSIONS.includes(extension)) {
+    return 'image';
+  }
+  if (VIDEO_EXTENSIONS.includes(extension)) {
+    return 'video';
+  }
+  return 'link';
+};
+
+/**
+ * Appends hashtags to a post message, adding the leading # where missing
+ * and skipping tags the message already contains.
+ */
+export const buildPostMessage = (content: string, hashtags: string[] = []): string => {
+  const existing = new Set((content.match(/#[\p{L}\p{N}_]+/gu) || []).map((tag) => tag.toLowerCase()));
+  const tags: string[] = [];
+
+  for (const hashtag of hashtags) {
+    const tag = `#${hashtag.trim().replace(/^#+/, '').replace(/\s+/g, '')}`;
+    if (tag.length > 1 && !existing.has(tag.toLowerCase())) {
+      existing.add(tag.toLowerCase());
+      tags.push(tag);
+    }
+  }
+
+  return tags.length > 0 ? `${content.trimEnd()}\n\n${tags.join(' ')}` : content;
+};
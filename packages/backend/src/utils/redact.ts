@@ -0,0 +1,78 @@
+import util from 'util';
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_KEYS = [
+  'access_token',
+  'accessToken',
+  'pageAccessToken',
+  'input_token',
+  'fb_exchange_token',
+  'client_secret',
+  'appsecret_proof',
+].join('|');
+
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // Query strings and form bodies: access_token=...
+  [new RegExp(`\\b(${SECRET_KEYS})=[^&\\s"']+`, 'g'), `$1=${REDACTED}`],
+  // JSON and util.inspect output: "accessToken": "..." / accessToken: '...'
+  [new RegExp(`(["']?\\b(?:${SECRET_KEYS})["']?\\s*:\\s*)(["'\`])(?:(?!\\2).)*\\2`, 'g'), `$1$2${REDACTED}$2`],
+  // Bare Facebook user and page tokens
+  [/\bEAA[A-Za-z0-9]{20,}/g, REDACTED],
+  // Encrypted token envelopes
+  [/\benc:v1\.[A-Za-z0-9_.-]+/g, REDACTED],
+];
+
+/**
+ * Masks Facebook tokens and app secrets in free text such as log lines.
+ */
+export const redactSecrets = (text: string): string =>
+  SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+const SECRET_KEY_NAMES = new Set(SECRET_KEYS.split('|'));
+
+/**
+ * Deep copy of a JSON-able value with Facebook token fields removed and
+ * token-looking strings masked. Used on every API response body.
+ */
+export const redactValue = (value: any, seen: WeakSet<object> = new WeakSet()): any => {
+  if (typeof value === 'string') {
+    return redactSecrets(value);
+  }
+
+  if (value === null || typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) {
+    return value;
+  }
+
+  if (typeof value.toJSON === 'function') {
+    return redactValue(value.toJSON(), seen);
+  }
+
+  if (seen.has(value)) {
+    return undefined;
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, seen));
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (!SECRET_KEY_NAMES.has(key)) {
+      result[key] = redactValue(item, seen);
+    }
+  }
+  return result;
+};
+
+/**
+ * Routes console output through redactSecrets so no log line carries a
+ * token, whatever gets logged (axios errors include request params).
+ */
+export const installConsoleRedaction = () => {
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: any[]) => original(redactSecrets(util.format(...args)));
+  }
+};
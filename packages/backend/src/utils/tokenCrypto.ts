@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { getTokenEncryptionConfig } from '../config/encryption';
+import { AppError } from '../errors';
+
+/**
+ * Envelope encryption for stored tokens. Each value gets its own random data
+ * key that encrypts the token with AES-256-GCM; the data key is in turn
+ * encrypted ("wrapped") with the active key-encryption key from config.
+ * Rotating keys only rewraps data keys, the token ciphertext is untouched.
+ *
+ * Stored format: enc:v1.<keyId>.<wrappedKey>.<iv>.<tag>.<ciphertext>, with
+ * base64url parts. Values without the prefix are legacy plaintext and are
+ * returned as is until the encryption migration has run.
+ */
+
+const PREFIX = 'enc:v1.';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const seal = (key: Buffer, plaintext: Buffer) => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+};
+
+const open = (key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer) => {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+const wrapKey = (kek: Buffer, dataKey: Buffer): string => {
+  const { iv, tag, ciphertext } = seal(kek, dataKey);
+  return Buffer.concat([iv, tag, ciphertext]).toString('base64url');
+};
+
+const unwrapKey = (kek: Buffer, wrapped: string): Buffer => {
+  const raw = Buffer.from(wrapped, 'base64url');
+  return open(kek, raw.subarray(0, IV_LENGTH), raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH), raw.subarray(IV_LENGTH + TAG_LENGTH));
+};
+
+const parse = (value: string) => {
+  const [keyId, wrappedKey, iv, tag, ciphertext] = value.slice(PREFIX.length).split('.');
+
+  if (!keyId || !wrappedKey || !iv || !tag || ciphertext === undefined) {
+    throw new AppError('Malformed encrypted token', 500, false);
+  }
+
+  return { keyId, wrappedKey, iv, tag, ciphertext };
+};
+
+const getKey = (keyId: string): Buffer => {
+  const key = getTokenEncryptionConfig().keys[keyId];
+
+  if (!key) {
+    throw new AppError(`Token encryption key "${keyId}" is not configured`, 500, false, { keyId });
+  }
+
+  return key;
+};
+
+export const isEncryptedToken = (value: string | null | undefined): boolean =>
+  typeof value === 'string' && value.startsWith(PREFIX);
+
+export function encryptToken(value: string): string;
+export function encryptToken(value: string | null | undefined): string | null | undefined;
+export function encryptToken(value: string | null | undefined) {
+  if (value === null || value === undefined || isEncryptedToken(value)) {
+    return value;
+  }
+
+  const { activeKeyId, keys } = getTokenEncryptionConfig();
+  const dataKey = crypto.randomBytes(32);
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(value, 'utf8'));
+
+  return (
+    PREFIX +
+    [activeKeyId, wrapKey(keys[activeKeyId], dataKey), iv, tag, ciphertext]
+      .map((part) => (Buffer.isBuffer(part) ? part.toString('base64url') : part))
+      .join('.')
+  );
+}
+
+export function decryptToken(value: string): string;
+export function decryptToken(value: string | null | undefined): string | null | undefined;
+export function decryptToken(value: string | null | undefined) {
+  if (!isEncryptedToken(value)) {
+    return value;
+  }
+
+  const { keyId, wrappedKey, iv, tag, ciphertext } = parse(value!);
+  const dataKey = unwrapKey(getKey(keyId), wrappedKey);
+
+  return open(
+    dataKey,
+    Buffer.from(iv, 'base64url'),
+    Buffer.from(tag, 'base64url'),
+    Buffer.from(ciphertext, 'base64url')
+  ).toString('utf8');
+}
+
+/**
+ * The key a stored value is wrapped with, or null for plaintext.
+ */
+export const getTokenKeyId = (value: string | null | undefined): string | null =>
+  isEncryptedToken(value) ? parse(value!).keyId : null;
+
+/**
+ * Rewraps the data key of an encrypted value with the active key, leaving
+ * the token ciphertext as is. Plaintext values are encrypted.
+ */
+export const rewrapToken = (value: string): string => {
+  if (!isEncryptedToken(value)) {
+    return encryptToken(value);
+  }
+
+  const { activeKeyId, keys } = getTokenEncryptionConfig();
+  const { keyId, wrappedKey, iv, tag, ciphertext } = parse(value);
+
+  if (keyId === activeKeyId) {
+    return value;
+  }
+
+  const dataKey = unwrapKey(getKey(keyId), wrappedKey);
+
+  return PREFIX + [activeKeyId, wrapKey(keys[activeKeyId], dataKey), iv, tag, ciphertext].join('.');
+};
@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits?: number;
+  periodSeconds?: number;
+  window?: number;
+}
+
+const defaultTotpOptions: Required<TotpOptions> = {
+  digits: 6,
+  periodSeconds: 30,
+  window: 1,
+};
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(sizeBytes: number = 20): string {
+  return base32Encode(crypto.randomBytes(sizeBytes));
+}
+
+export function generateTotp(secret: string, timestamp: number = Date.now(), options: TotpOptions = {}): string {
+  const opts = { ...defaultTotpOptions, ...options };
+  const counter = Math.floor(timestamp / 1000 / opts.periodSeconds);
+  return generateHotp(secret, counter, opts.digits);
+}
+
+export function verifyTotp(secret: string, code: string, timestamp: number = Date.now(), options: TotpOptions = {}): boolean {
+  return matchTotpStep(secret, code, timestamp, options) !== null;
+}
+
+/**
+ * The time step a code was generated for, or null when the code does not
+ * match any step within the window. Callers record the step to reject a
+ * code that is presented again.
+ */
+export function matchTotpStep(secret: string, code: string, timestamp: number = Date.now(), options: TotpOptions = {}): number | null {
+  const opts = { ...defaultTotpOptions, ...options };
+  const normalized = (code || '').replace(/\s/g, '');
+
+  if (!/^\d+$/.test(normalized) || normalized.length !== opts.digits) {
+    return null;
+  }
+
+  const counter = Math.floor(timestamp / 1000 / opts.periodSeconds);
+
+  for (let offset = -opts.window; offset <= opts.window; offset++) {
+    const candidate = generateHotp(secret, counter + offset, opts.digits);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return counter + offset;
+    }
+  }
+
+  return null;
+}
+
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(defaultTotpOptions.digits),
+    period: String(defaultTotpOptions.periodSeconds),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function generateHotp(secret: string, counter: number, digits: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff);
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
@@ -12,6 +12,16 @@ import Dashboard from './pages/Dashboard';
 import Earnings from './pages/Earnings';
 import Autopilot from './pages/Autopilot';
 import Accounts from './pages/Accounts';
+import Comments from './pages/Comments';
+import Settings from './pages/Settings';
+import Team from './pages/Team';
+import Admin from './pages/Admin';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
+import UnlockAccount from './pages/UnlockAccount';
+import FacebookCallback from './pages/FacebookCallback';
+import FacebookConnectCallback from './pages/FacebookConnectCallback';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -34,6 +44,11 @@ function App() {
         <Routes>
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
+          <Route path="/unlock-account" element={<UnlockAccount />} />
+          <Route path="/auth/facebook/callback" element={<FacebookCallback />} />
           
           <Route
             path="/"
@@ -47,7 +62,12 @@ function App() {
             <Route path="dashboard" element={<Dashboard />} />
             <Route path="earnings" element={<Earnings />} />
             <Route path="autopilot" element={<Autopilot />} />
+            <Route path="comments" element={<Comments />} />
             <Route path="accounts" element={<Accounts />} />
+            <Route path="facebook/callback" element={<FacebookConnectCallback />} />
+            <Route path="team" element={<Team />} />
+            <Route path="settings" element={<Settings />} />
+            <Route path="admin" element={<Admin />} />
           </Route>
 
           <Route path="*" element={<Navigate to="/dashboard" />} />
@@ -0,0 +1,61 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { facebookAPI } from '../services/api';
+
+interface ApiBudgetProps {
+  accountId: string;
+}
+
+const STATE_STYLES: Record<string, { bar: string; label: string }> = {
+  ok: { bar: 'bg-green-500', label: 'text-gray-600' },
+  throttled: { bar: 'bg-yellow-500', label: 'text-yellow-700' },
+  deferred: { bar: 'bg-red-500', label: 'text-red-600' },
+};
+
+const BudgetRow: React.FC<{ name: string; budget: any }> = ({ name, budget }) => {
+  const style = STATE_STYLES[budget.state] || STATE_STYLES.ok;
+  const percent = Math.min(budget.percent || 0, 100);
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs">
+        <span className="truncate">{name}</span>
+        <span className={style.label}>
+          {budget.usage ? `${percent}%` : 'No usage reported'}
+          {budget.state === 'throttled' && ' · throttled'}
+          {budget.state === 'deferred' &&
+            (budget.blockedUntil ? ` · paused until ${new Date(budget.blockedUntil).toLocaleTimeString()}` : ' · paused')}
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded mt-1">
+        <div className={`h-1.5 rounded ${style.bar}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const ApiBudget: React.FC<ApiBudgetProps> = ({ accountId }) => {
+  const { data: budget } = useQuery({
+    queryKey: ['facebook-budget', accountId],
+    queryFn: async () => {
+      const res = await facebookAPI.getApiBudget(accountId);
+      return res.data.data;
+    },
+    refetchInterval: 60000,
+  });
+
+  if (!budget) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <BudgetRow name="App (shared)" budget={budget.app} />
+      {budget.pages.map((page: any) => (
+        <BudgetRow key={page.id} name={page.name} budget={page} />
+      ))}
+    </div>
+  );
+};
+
+export default ApiBudget;
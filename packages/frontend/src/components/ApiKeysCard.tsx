@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiKeysAPI, workspacesAPI } from '../services/api';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { FaKey } from 'react-icons/fa';
+
+const ApiKeysCard: React.FC = () => {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [workspaceId, setWorkspaceId] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: apiKeys } = useQuery({
+    queryKey: ['api-keys'],
+    queryFn: async () => {
+      const res = await apiKeysAPI.getApiKeys();
+      return res.data;
+    },
+  });
+
+  const { data: workspaces } = useQuery({
+    queryKey: ['workspaces'],
+    queryFn: async () => {
+      const res = await workspacesAPI.getWorkspaces();
+      return res.data.data;
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiKeysAPI.create({
+        name,
+        scopes,
+        workspaceId: workspaceId || undefined,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+      }),
+    onSuccess: (response) => {
+      setCreatedKey(response.data.data.key);
+      setName('');
+      setScopes([]);
+      setExpiresAt('');
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+      toast.success('API key created');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create API key');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: string) => apiKeysAPI.revoke(keyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+      toast.success('API key revoked');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to revoke API key');
+    },
+  });
+
+  const toggleScope = (scope: string) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]));
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center gap-3 mb-4">
+        <FaKey className="text-primary-600" size={20} />
+        <h2 className="text-xl font-bold">API Keys</h2>
+      </div>
+      <p className="text-gray-600 mb-4">
+        Use API keys to pull earnings and manage scheduled posts from scripts. Send the key in the{' '}
+        <code>X-API-Key</code> header. A key can never do more than your workspace roles allow.
+      </p>
+
+      <div className="space-y-3 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="input"
+            placeholder="Key name, e.g. Reporting script"
+          />
+          <select value={workspaceId} onChange={(e) => setWorkspaceId(e.target.value)} className="input">
+            <option value="">All my workspaces</option>
+            {workspaces?.map((workspace: any) => (
+              <option key={workspace.id} value={workspace.id}>
+                {workspace.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            className="input"
+            title="Expiry date (optional)"
+          />
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {apiKeys?.scopes?.map((scope: string) => (
+            <label key={scope} className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              <code>{scope}</code>
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !name || scopes.length === 0}
+          className="btn-primary"
+        >
+          Create API Key
+        </button>
+      </div>
+
+      {createdKey && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="font-semibold text-yellow-800 mb-2">Copy your new API key</p>
+          <p className="text-sm text-yellow-700 mb-3">It will not be shown again.</p>
+          <code className="text-sm break-all">{createdKey}</code>
+        </div>
+      )}
+
+      <div className="divide-y">
+        {apiKeys?.data?.map((apiKey: any) => (
+          <div key={apiKey.id} className="py-3 flex items-center justify-between">
+            <div>
+              <p className="font-medium text-sm">
+                {apiKey.name} <code className="text-gray-500">{apiKey.prefix}…</code>
+              </p>
+              <p className="text-xs text-gray-500">
+                {apiKey.scopes.join(', ')} ·{' '}
+                {apiKey.expiresAt ? `Expires ${format(new Date(apiKey.expiresAt), 'MMM dd, yyyy')}` : 'No expiry'} ·{' '}
+                {apiKey.lastUsedAt
+                  ? `Last used ${format(new Date(apiKey.lastUsedAt), 'MMM dd, yyyy HH:mm')}`
+                  : 'Never used'}
+              </p>
+            </div>
+            <button
+              onClick={() => revokeMutation.mutate(apiKey.id)}
+              disabled={revokeMutation.isPending}
+              className="text-sm text-red-600 hover:text-red-700"
+            >
+              Revoke
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeysCard;
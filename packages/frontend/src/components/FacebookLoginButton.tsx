@@ -0,0 +1,42 @@
+import React from 'react';
+import { FaFacebook } from 'react-icons/fa';
+
+export const FACEBOOK_DIALOG_URL =
+  process.env.REACT_APP_FACEBOOK_DIALOG_URL || 'https://www.facebook.com/v18.0/dialog/oauth';
+
+export const FACEBOOK_LOGIN_STATE_KEY = 'facebookLoginState';
+
+export const getFacebookLoginRedirectUri = () => `${window.location.origin}/auth/facebook/callback`;
+
+const FacebookLoginButton: React.FC<{ label?: string }> = ({ label = 'Continue with Facebook' }) => {
+  const handleClick = () => {
+    const clientId = process.env.REACT_APP_FACEBOOK_APP_ID;
+    const scope = 'email,public_profile,pages_show_list,pages_read_engagement,pages_manage_posts,pages_read_user_content';
+    const state = crypto.randomUUID();
+
+    // Checked on the callback so a forged redirect cannot sign the browser into someone else's account.
+    sessionStorage.setItem(FACEBOOK_LOGIN_STATE_KEY, state);
+
+    const params = new URLSearchParams({
+      client_id: clientId || '',
+      redirect_uri: getFacebookLoginRedirectUri(),
+      scope,
+      state,
+    });
+
+    window.location.href = `${FACEBOOK_DIALOG_URL}?${params.toString()}`;
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className="w-full btn-secondary flex items-center justify-center gap-2"
+    >
+      <FaFacebook className="text-blue-600" size={18} />
+      {label}
+    </button>
+  );
+};
+
+export default FacebookLoginButton;
@@ -1,13 +1,19 @@
 import React from 'react';
 import { Link, useNavigate, Outlet } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
-import { FaHome, FaDollarSign, FaRobot, FaFacebook, FaCog, FaSignOutAlt } from 'react-icons/fa';
+import { authAPI } from '../services/api';
+import { FaHome, FaDollarSign, FaRobot, FaFacebook, FaCog, FaSignOutAlt, FaUsers, FaUserShield, FaComments } from 'react-icons/fa';
 
 const Layout: React.FC = () => {
   const { user, logout } = useAuthStore();
   const navigate = useNavigate();
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await authAPI.logout();
+    } catch (error) {
+      // The local session is cleared regardless of whether the server call succeeds.
+    }
     logout();
     navigate('/login');
   };
@@ -16,8 +22,11 @@ const Layout: React.FC = () => {
     { name: 'Dashboard', path: '/dashboard', icon: FaHome },
     { name: 'Earnings', path: '/earnings', icon: FaDollarSign },
     { name: 'Autopilot', path: '/autopilot', icon: FaRobot },
+    { name: 'Comments', path: '/comments', icon: FaComments },
     { name: 'Accounts', path: '/accounts', icon: FaFacebook },
+    { name: 'Team', path: '/team', icon: FaUsers },
     { name: 'Settings', path: '/settings', icon: FaCog },
+    ...(user?.role === 'admin' ? [{ name: 'Admin', path: '/admin', icon: FaUserShield }] : []),
   ];
 
   return (
@@ -0,0 +1,78 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { facebookAPI } from '../services/api';
+
+interface MonetizationProgressProps {
+  pageId: string;
+  pageName: string;
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  isEligible: 'eligibility',
+  isPublished: 'published state',
+  isPermanentlyClosed: 'closed state',
+  verificationStatus: 'verification',
+};
+
+const ProgressRow: React.FC<{ name: string; progress: any }> = ({ name, progress }) => {
+  const percent = progress.percent || 0;
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs">
+        <span>{name}</span>
+        <span className="text-gray-600">
+          {progress.current == null
+            ? 'Not reported'
+            : `${progress.current.toLocaleString()} / ${progress.threshold.toLocaleString()}`}
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded mt-1">
+        <div
+          className={`h-1.5 rounded ${percent >= 100 ? 'bg-green-500' : 'bg-primary-600'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+const MonetizationProgress: React.FC<MonetizationProgressProps> = ({ pageId, pageName }) => {
+  const { data: history } = useQuery({
+    queryKey: ['monetization-history', pageId],
+    queryFn: async () => {
+      const res = await facebookAPI.getMonetizationHistory(pageId, { days: 30 });
+      return res.data.data;
+    },
+  });
+
+  if (!history?.progress) {
+    return null;
+  }
+
+  const { progress } = history;
+  const changes = history.snapshots.filter((snapshot: any) => snapshot.changes?.length > 0).reverse();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs">
+        <span className="font-semibold truncate">{pageName}</span>
+        {progress.isEligible ? (
+          <span className="text-green-600">Eligible</span>
+        ) : (
+          <span className="text-gray-400">Not eligible</span>
+        )}
+      </div>
+      <ProgressRow name="Followers" progress={progress.followers} />
+      <ProgressRow name="Minutes viewed (60 days)" progress={progress.minutesViewed} />
+      {changes.slice(0, 3).map((snapshot: any) => (
+        <p key={snapshot.id} className="text-xs text-gray-500">
+          {new Date(snapshot.date).toLocaleDateString()}:{' '}
+          {snapshot.changes.map((change: string) => CHANGE_LABELS[change] || change).join(', ')} changed
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default MonetizationProgress;
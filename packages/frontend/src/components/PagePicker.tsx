@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { facebookAPI } from '../services/api';
+import { toast } from 'react-toastify';
+
+interface PagePickerProps {
+  accountId: string;
+  onClose: () => void;
+}
+
+const PagePicker: React.FC<PagePickerProps> = ({ accountId, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+
+  const { data: pages, isLoading, error } = useQuery({
+    queryKey: ['facebook-pages', accountId],
+    queryFn: async () => {
+      const res = await facebookAPI.getPages(accountId);
+      return res.data.data;
+    },
+  });
+
+  useEffect(() => {
+    if (pages) {
+      setSelectedIds(pages.filter((page: any) => page.selected).map((page: any) => page.id));
+    }
+  }, [pages]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => facebookAPI.selectPages(accountId, selectedIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['facebook-accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['facebook-pages'] });
+      toast.success('Pages saved');
+      onClose();
+    },
+    onError: (err: any) => {
+      toast.error(err.response?.data?.error || 'Failed to save pages');
+    },
+  });
+
+  const togglePage = (pageId: string) => {
+    setSelectedIds((current) =>
+      current.includes(pageId) ? current.filter((id) => id !== pageId) : [...current, pageId]
+    );
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t">
+      <h4 className="font-semibold mb-2">Choose Pages</h4>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading pages from Facebook...</p>}
+      {error && (
+        <p className="text-sm text-red-600">
+          {(error as any).response?.data?.error || 'Failed to load pages'}
+        </p>
+      )}
+      {pages?.length === 0 && (
+        <p className="text-sm text-gray-500">This Facebook login does not manage any pages.</p>
+      )}
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {pages?.map((page: any) => (
+          <label key={page.id} className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(page.id)}
+              onChange={() => togglePage(page.id)}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium">{page.name}</span>
+              {page.category && <span className="text-gray-500"> · {page.category}</span>}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-4 flex gap-2">
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || selectedIds.length === 0}
+          className="flex-1 btn-primary"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Pages'}
+        </button>
+        <button onClick={onClose} className="flex-1 btn-secondary">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PagePicker;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { privacyAPI } from '../services/api';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { FaDownload, FaUserSlash } from 'react-icons/fa';
+
+interface PrivacyCardProps {
+  deletionScheduledFor?: string | null;
+}
+
+const PrivacyCard: React.FC<PrivacyCardProps> = ({ deletionScheduledFor }) => {
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data: exports } = useQuery({
+    queryKey: ['data-exports'],
+    queryFn: async () => {
+      const res = await privacyAPI.getExports();
+      return res.data.data;
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some((dataExport: any) => ['pending', 'processing'].includes(dataExport.status)) ? 10000 : false,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: () => privacyAPI.requestExport(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['data-exports'] });
+      toast.success('Export requested. We will email you when it is ready.');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to request data export');
+    },
+  });
+
+  const deletionMutation = useMutation({
+    mutationFn: () => privacyAPI.requestDeletion({ password: password || undefined, confirm: confirm || undefined }),
+    onSuccess: () => {
+      setPassword('');
+      setConfirm('');
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast.success('Account deletion scheduled');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to schedule account deletion');
+    },
+  });
+
+  const cancelDeletionMutation = useMutation({
+    mutationFn: () => privacyAPI.cancelDeletion(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast.success('Account deletion cancelled');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to cancel account deletion');
+    },
+  });
+
+  const handleDownload = async (dataExport: any) => {
+    try {
+      const res = await privacyAPI.downloadExport(dataExport.id);
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `data-export-${format(new Date(dataExport.createdAt), 'yyyy-MM-dd')}.tar.gz`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error('Failed to download data export');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <FaDownload className="text-primary-600" size={20} />
+          <h2 className="text-xl font-bold">Your Data</h2>
+        </div>
+        <button
+          onClick={() => exportMutation.mutate()}
+          disabled={exportMutation.isPending}
+          className="btn-secondary"
+        >
+          Request Export
+        </button>
+      </div>
+      <p className="text-gray-600 mb-4">
+        Download your profile, connected accounts, content, analytics, earnings, scheduled posts and autopilot
+        settings. Facebook access tokens are never included.
+      </p>
+
+      {exports?.length > 0 && (
+        <div className="divide-y mb-6">
+          {exports.map((dataExport: any) => (
+            <div key={dataExport.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-sm">
+                  Requested {format(new Date(dataExport.createdAt), 'MMM dd, yyyy HH:mm')}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {dataExport.status}
+                  {dataExport.status === 'completed' && dataExport.expiresAt &&
+                    ` · Available until ${format(new Date(dataExport.expiresAt), 'MMM dd, yyyy')}`}
+                </p>
+              </div>
+              {dataExport.status === 'completed' && (
+                <button
+                  onClick={() => handleDownload(dataExport)}
+                  className="text-sm text-primary-600 hover:text-primary-700"
+                >
+                  Download
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border-t pt-4">
+        <div className="flex items-center gap-3 mb-2">
+          <FaUserSlash className="text-red-600" size={18} />
+          <h3 className="font-semibold">Delete Account</h3>
+        </div>
+
+        {deletionScheduledFor ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800 mb-3">
+              Your account will be deleted on {format(new Date(deletionScheduledFor), 'MMM dd, yyyy HH:mm')}. Your
+              Facebook connections will be revoked and your data removed.
+            </p>
+            <button
+              onClick={() => cancelDeletionMutation.mutate()}
+              disabled={cancelDeletionMutation.isPending}
+              className="btn-secondary"
+            >
+              Cancel Deletion
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Deletion is scheduled with a grace period during which you can change your mind. Enter your password,
+              or type DELETE if you signed up with Facebook.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input"
+                placeholder="Password"
+              />
+              <input
+                type="text"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                className="input"
+                placeholder="DELETE"
+              />
+              <button
+                onClick={() => deletionMutation.mutate()}
+                disabled={deletionMutation.isPending || (!password && !confirm)}
+                className="btn-secondary text-red-600"
+              >
+                Delete Account
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrivacyCard;
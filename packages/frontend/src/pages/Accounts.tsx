@@ -1,11 +1,25 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { facebookAPI } from '../services/api';
+import { facebookAPI, authAPI } from '../services/api';
 import { toast } from 'react-toastify';
 import { FaSync, FaCheckCircle, FaTimesCircle } from 'react-icons/fa';
+import { FACEBOOK_DIALOG_URL } from '../components/FacebookLoginButton';
+import PagePicker from '../components/PagePicker';
+import ApiBudget from '../components/ApiBudget';
+import MonetizationProgress from '../components/MonetizationProgress';
 
 const Accounts: React.FC = () => {
   const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [pickerAccountId, setPickerAccountId] = useState<string | null>(searchParams.get('select'));
+
+  const closePicker = () => {
+    setPickerAccountId(null);
+    if (searchParams.has('select')) {
+      setSearchParams({}, { replace: true });
+    }
+  };
 
   const { data: accounts } = useQuery({
     queryKey: ['facebook-accounts'],
@@ -15,14 +29,32 @@ const Accounts: React.FC = () => {
     },
   });
 
+  const { data: profile } = useQuery({
+    queryKey: ['profile'],
+    queryFn: async () => {
+      const res = await authAPI.getProfile();
+      return res.data.data;
+    },
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: () => authAPI.resendVerificationEmail(),
+    onSuccess: () => {
+      toast.success('Verification email sent!');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to send verification email');
+    },
+  });
+
   const syncMutation = useMutation({
     mutationFn: (accountId: string) => facebookAPI.syncAccount(accountId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['facebook-accounts'] });
       toast.success('Account synced successfully!');
     },
-    onError: () => {
-      toast.error('Failed to sync account');
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to sync account');
     },
   });
 
@@ -31,7 +63,7 @@ const Accounts: React.FC = () => {
     const redirectUri = `${window.location.origin}/facebook/callback`;
     const scope = 'pages_show_list,pages_read_engagement,pages_manage_posts,pages_read_user_content';
     
-    window.location.href = `https://www.facebook.com/v18.0/dialog/oauth?client_id=${clientId}&redirect_uri=${redirectUri}&scope=${scope}`;
+    window.location.href = `${FACEBOOK_DIALOG_URL}?client_id=${clientId}&redirect_uri=${redirectUri}&scope=${scope}`;
   };
 
   return (
@@ -43,21 +75,47 @@ const Accounts: React.FC = () => {
         </div>
         <button
           onClick={handleConnectFacebook}
-          className="btn-primary"
+          disabled={profile && !profile.emailVerified}
+          className="btn-primary disabled:opacity-50"
         >
           Connect Facebook Account
         </button>
       </div>
 
+      {profile && !profile.emailVerified && (
+        <div className="card bg-yellow-50 border border-yellow-200 flex items-center justify-between">
+          <p className="text-yellow-800">
+            Verify your email address ({profile.email}) before connecting Facebook accounts.
+          </p>
+          <button
+            onClick={() => resendVerificationMutation.mutate()}
+            disabled={resendVerificationMutation.isPending}
+            className="btn-secondary whitespace-nowrap"
+          >
+            Resend Email
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {accounts?.map((account: any) => (
           <div key={account.id} className="card">
             <div className="flex items-start justify-between">
               <div className="flex-1">
                 <h3 className="text-lg font-bold">{account.name}</h3>
-                {account.pageName && (
+                {account.pages?.length > 0 && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    {account.pages.length === 1 ? 'Page' : 'Pages'}:{' '}
+                    {account.pages.map((page: any) => page.name).join(', ')}
+                  </p>
+                )}
+                {account.pages?.some((page: any) => page.instagramUsername) && (
                   <p className="text-sm text-gray-600 mt-1">
-                    Page: {account.pageName}
+                    Instagram:{' '}
+                    {account.pages
+                      .filter((page: any) => page.instagramUsername)
+                      .map((page: any) => `@${page.instagramUsername} (${page.name})`)
+                      .join(', ')}
                   </p>
                 )}
                 <p className="text-xs text-gray-500 mt-2">
@@ -65,14 +123,28 @@ const Accounts: React.FC = () => {
                 </p>
               </div>
               <div className="flex items-center gap-2">
-                {account.isActive ? (
+                {account.isActive && !account.needsReconnect ? (
                   <FaCheckCircle className="text-green-500" title="Active" />
                 ) : (
-                  <FaTimesCircle className="text-red-500" title="Inactive" />
+                  <FaTimesCircle
+                    className="text-red-500"
+                    title={account.needsReconnect ? 'Reconnect required' : 'Inactive'}
+                  />
                 )}
               </div>
             </div>
 
+            {account.needsReconnect && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between gap-2">
+                <p className="text-sm text-red-700">
+                  Reconnect required{account.reconnectReason && `: ${account.reconnectReason}`}. Autopilot is paused.
+                </p>
+                <button onClick={handleConnectFacebook} className="btn-secondary whitespace-nowrap">
+                  Reconnect
+                </button>
+              </div>
+            )}
+
             <div className="mt-4 pt-4 border-t">
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
@@ -93,6 +165,33 @@ const Accounts: React.FC = () => {
                       : 'Never'}
                   </p>
                 </div>
+                <div className="col-span-2">
+                  <p className="text-gray-600">Last Sync</p>
+                  <p className="font-semibold text-xs">
+                    {!account.syncStatus?.startedAt
+                      ? 'Never'
+                      : account.syncStatus.status === 'running'
+                        ? `Running (${account.syncStatus.pagesCompleted}/${account.syncStatus.pagesTotal} pages, ${account.syncStatus.fetched} items)`
+                        : account.syncStatus.status === 'failed'
+                          ? <span className="text-red-600">Failed: {account.syncStatus.error}</span>
+                          : `${new Date(account.syncStatus.finishedAt).toLocaleString()} (${account.syncStatus.mode}: ` +
+                            `${account.syncStatus.created} new, ${account.syncStatus.updated} updated, ${account.syncStatus.deleted} deleted)`}
+                  </p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-gray-600 mb-1">API Budget</p>
+                  <ApiBudget accountId={account.id} />
+                </div>
+                {account.pages?.length > 0 && (
+                  <div className="col-span-2">
+                    <p className="text-gray-600 mb-1">Monetization Progress</p>
+                    <div className="space-y-3">
+                      {account.pages.map((page: any) => (
+                        <MonetizationProgress key={page.id} pageId={page.id} pageName={page.name} />
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -105,10 +204,15 @@ const Accounts: React.FC = () => {
                 <FaSync className={syncMutation.isPending ? 'animate-spin' : ''} />
                 {syncMutation.isPending ? 'Syncing...' : 'Sync Data'}
               </button>
-              <button className="flex-1 btn-secondary">
-                View Details
+              <button
+                onClick={() => setPickerAccountId(pickerAccountId === account.id ? null : account.id)}
+                className="flex-1 btn-secondary"
+              >
+                {account.pages?.length > 0 ? 'Change Pages' : 'Choose Pages'}
               </button>
             </div>
+
+            {pickerAccountId === account.id && <PagePicker accountId={account.id} onClose={closePicker} />}
           </div>
         ))}
       </div>
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { adminAPI } from '../services/api';
+import { useAuthStore } from '../store/authStore';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { FaUsers, FaFacebook, FaCheckCircle, FaExclamationTriangle } from 'react-icons/fa';
+
+const UserDetails: React.FC<{ userId: string }> = ({ userId }) => {
+  const { data: accounts } = useQuery({
+    queryKey: ['admin-user-accounts', userId],
+    queryFn: async () => {
+      const res = await adminAPI.getUserAccounts(userId);
+      return res.data.data;
+    },
+  });
+
+  const { data: failedPosts } = useQuery({
+    queryKey: ['admin-user-failed-posts', userId],
+    queryFn: async () => {
+      const res = await adminAPI.getUserFailedPosts(userId);
+      return res.data.data;
+    },
+  });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 bg-gray-50 p-4">
+      <div>
+        <h3 className="font-semibold mb-2">Facebook Accounts</h3>
+        {accounts?.length ? (
+          <ul className="space-y-1 text-sm">
+            {accounts.map((account: any) => (
+              <li key={account.id}>
+                {account.name}
+                {account.pages?.length > 0 && (
+                  <span className="text-gray-500"> — {account.pages.map((page: any) => page.name).join(', ')}</span>
+                )}
+                {!account.isActive && <span className="text-red-600"> (inactive)</span>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No connected accounts</p>
+        )}
+      </div>
+      <div>
+        <h3 className="font-semibold mb-2">Failed Scheduled Posts</h3>
+        {failedPosts?.length ? (
+          <ul className="space-y-2 text-sm">
+            {failedPosts.map((post: any) => (
+              <li key={post.id}>
+                <p className="truncate">{post.content}</p>
+                <p className="text-red-600 text-xs">
+                  {format(new Date(post.scheduledFor), 'MMM d, yyyy HH:mm')} — {post.errorMessage || 'Unknown error'}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No failed posts</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const Admin: React.FC = () => {
+  const [search, setSearch] = useState('');
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const currentUser = useAuthStore((state) => state.user);
+
+  const { data: stats } = useQuery({
+    queryKey: ['admin-stats'],
+    queryFn: async () => {
+      const res = await adminAPI.getStats({ days: 14 });
+      return res.data.data;
+    },
+    enabled: currentUser?.role === 'admin',
+  });
+
+  const { data: users } = useQuery({
+    queryKey: ['admin-users', search],
+    queryFn: async () => {
+      const res = await adminAPI.getUsers({ search: search || undefined });
+      return res.data;
+    },
+    enabled: currentUser?.role === 'admin',
+  });
+
+  const onMutationSuccess = (message: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-users'] });
+    toast.success(message);
+  };
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.error || fallback);
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: ({ userId, isActive }: { userId: string; isActive: boolean }) =>
+      adminAPI.updateUserStatus(userId, isActive),
+    onSuccess: onMutationSuccess('User status updated'),
+    onError: onMutationError('Failed to update user status'),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: string }) => adminAPI.updateUserRole(userId, role),
+    onSuccess: onMutationSuccess('User role updated'),
+    onError: onMutationError('Failed to update user role'),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (userId: string) => adminAPI.revokeUserSessions(userId),
+    onSuccess: onMutationSuccess('All sessions revoked'),
+    onError: onMutationError('Failed to revoke sessions'),
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: (userId: string) => adminAPI.unlockUser(userId),
+    onSuccess: onMutationSuccess('User unlocked'),
+    onError: onMutationError('Failed to unlock user'),
+  });
+
+  if (currentUser?.role !== 'admin') {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const cards = [
+    { title: 'Users', value: `${stats?.users.active ?? 0} / ${stats?.users.total ?? 0} active`, icon: FaUsers, color: 'bg-blue-500' },
+    {
+      title: 'Facebook Accounts',
+      value: `${stats?.facebookAccounts.active ?? 0} / ${stats?.facebookAccounts.total ?? 0} active`,
+      icon: FaFacebook,
+      color: 'bg-indigo-500',
+    },
+    { title: 'Published Posts', value: stats?.scheduledPosts.published ?? 0, icon: FaCheckCircle, color: 'bg-green-500' },
+    { title: 'Failed Posts', value: stats?.scheduledPosts.failed ?? 0, icon: FaExclamationTriangle, color: 'bg-red-500' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Admin</h1>
+        <p className="text-gray-600 mt-1">Manage users and monitor the platform</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {cards.map((card) => (
+          <div key={card.title} className="card">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{card.title}</p>
+                <p className="text-2xl font-bold mt-1">{card.value}</p>
+              </div>
+              <div className={`${card.color} p-3 rounded-lg text-white`}>
+                <card.icon size={24} />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="card">
+        <h2 className="text-xl font-bold mb-4">Last 14 Days</h2>
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={stats?.daily || []}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="postsPublished" name="Posts published" fill="#10b981" />
+            <Bar dataKey="postsFailed" name="Posts failed" fill="#ef4444" />
+            <Bar dataKey="aiCalls" name="AI calls" fill="#3b82f6" />
+            <Bar dataKey="aiFailures" name="AI failures" fill="#f59e0b" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Users ({users?.total ?? 0})</h2>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="input w-64"
+            placeholder="Search by name or email"
+          />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-3 px-4">User</th>
+                <th className="text-left py-3 px-4">Role</th>
+                <th className="text-left py-3 px-4">Status</th>
+                <th className="text-left py-3 px-4">Last Login</th>
+                <th className="text-right py-3 px-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users?.data?.map((user: any) => {
+                const isLocked = user.lockedUntil && new Date(user.lockedUntil) > new Date();
+                const isSelf = user.id === currentUser.id;
+
+                return (
+                  <React.Fragment key={user.id}>
+                    <tr
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedUserId(expandedUserId === user.id ? null : user.id)}
+                    >
+                      <td className="py-3 px-4">
+                        <p className="font-medium">
+                          {user.firstName} {user.lastName}
+                        </p>
+                        <p className="text-sm text-gray-500">{user.email}</p>
+                      </td>
+                      <td className="py-3 px-4" onClick={(e) => e.stopPropagation()}>
+                        <select
+                          value={user.role}
+                          disabled={isSelf}
+                          onChange={(e) => roleMutation.mutate({ userId: user.id, role: e.target.value })}
+                          className="input"
+                        >
+                          <option value="user">user</option>
+                          <option value="admin">admin</option>
+                        </select>
+                      </td>
+                      <td className="py-3 px-4">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs ${
+                            user.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {user.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                        {isLocked && (
+                          <span className="ml-2 px-2 py-1 rounded-full text-xs bg-red-100 text-red-800">Locked</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {user.lastLogin ? format(new Date(user.lastLogin), 'MMM d, yyyy HH:mm') : 'Never'}
+                      </td>
+                      <td className="py-3 px-4" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex justify-end gap-2">
+                          {isLocked && (
+                            <button onClick={() => unlockMutation.mutate(user.id)} className="btn-secondary text-sm">
+                              Unlock
+                            </button>
+                          )}
+                          <button onClick={() => revokeMutation.mutate(user.id)} className="btn-secondary text-sm">
+                            Revoke Sessions
+                          </button>
+                          {!isSelf && (
+                            <button
+                              onClick={() => statusMutation.mutate({ userId: user.id, isActive: !user.isActive })}
+                              className="btn-secondary text-sm"
+                            >
+                              {user.isActive ? 'Deactivate' : 'Activate'}
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {expandedUserId === user.id && (
+                      <tr className="border-b">
+                        <td colSpan={5}>
+                          <UserDetails userId={user.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
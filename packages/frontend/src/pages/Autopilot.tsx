@@ -2,30 +2,34 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { autopilotAPI, facebookAPI } from '../services/api';
 import { toast } from 'react-toastify';
-import { FaRobot, FaLightbulb, FaCalendar, FaHashtag } from 'react-icons/fa';
+import { FaRobot, FaLightbulb, FaCalendar, FaHashtag, FaCheckCircle } from 'react-icons/fa';
 
 const Autopilot: React.FC = () => {
-  const [selectedAccount, setSelectedAccount] = useState<string>('');
+  const [selectedPage, setSelectedPage] = useState<string>('');
   const [contentTopic, setContentTopic] = useState('');
   const [contentText, setContentText] = useState('');
+  const [editingPost, setEditingPost] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [reschedulingPost, setReschedulingPost] = useState<string | null>(null);
+  const [rescheduleAt, setRescheduleAt] = useState('');
   const queryClient = useQueryClient();
 
-  const { data: accounts } = useQuery({
-    queryKey: ['facebook-accounts'],
+  const { data: pages } = useQuery({
+    queryKey: ['facebook-pages'],
     queryFn: async () => {
-      const res = await facebookAPI.getAccounts();
+      const res = await facebookAPI.getAllPages();
       return res.data.data;
     },
   });
 
   const { data: settings } = useQuery({
-    queryKey: ['autopilot-settings', selectedAccount],
+    queryKey: ['autopilot-settings', selectedPage],
     queryFn: async () => {
-      if (!selectedAccount) return null;
-      const res = await autopilotAPI.getSettings(selectedAccount);
+      if (!selectedPage) return null;
+      const res = await autopilotAPI.getSettings(selectedPage);
       return res.data.data;
     },
-    enabled: !!selectedAccount,
+    enabled: !!selectedPage,
   });
 
   const { data: trends } = useQuery({
@@ -37,19 +41,31 @@ const Autopilot: React.FC = () => {
   });
 
   const { data: scheduledPosts } = useQuery({
-    queryKey: ['scheduled-posts', selectedAccount],
+    queryKey: ['scheduled-posts', selectedPage],
     queryFn: async () => {
       const res = await autopilotAPI.getScheduledPosts({ 
-        accountId: selectedAccount,
+        pageId: selectedPage,
         status: 'pending'
       });
       return res.data.data;
     },
-    enabled: !!selectedAccount,
+    enabled: !!selectedPage,
+  });
+
+  const { data: publishedPosts } = useQuery({
+    queryKey: ['published-posts', selectedPage],
+    queryFn: async () => {
+      const res = await autopilotAPI.getScheduledPosts({
+        pageId: selectedPage,
+        status: 'published',
+      });
+      return res.data.data;
+    },
+    enabled: !!selectedPage,
   });
 
   const updateSettingsMutation = useMutation({
-    mutationFn: (data: any) => autopilotAPI.updateSettings(selectedAccount, data),
+    mutationFn: (data: any) => autopilotAPI.updateSettings(selectedPage, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['autopilot-settings'] });
       toast.success('Settings updated successfully!');
@@ -81,13 +97,67 @@ const Autopilot: React.FC = () => {
   });
 
   const scheduleAutoPostsMutation = useMutation({
-    mutationFn: () => autopilotAPI.scheduleAutoPosts(selectedAccount),
+    mutationFn: () => autopilotAPI.scheduleAutoPosts(selectedPage),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['scheduled-posts'] });
       toast.success('Auto-posts scheduled!');
     },
   });
 
+  const onPublishedPostChanged = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['published-posts'] });
+    queryClient.invalidateQueries({ queryKey: ['scheduled-posts'] });
+    toast.success(message);
+  };
+
+  const editPublishedMutation = useMutation({
+    mutationFn: ({ postId, content }: { postId: string; content: string }) =>
+      autopilotAPI.editPublishedPost(postId, { content }),
+    onSuccess: () => {
+      setEditingPost(null);
+      onPublishedPostChanged('Post updated on Facebook');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to edit post');
+    },
+  });
+
+  const deletePublishedMutation = useMutation({
+    mutationFn: (postId: string) => autopilotAPI.deletePublishedPost(postId),
+    onSuccess: () => onPublishedPostChanged('Post deleted from Facebook'),
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete post');
+    },
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ postId, scheduledFor }: { postId: string; scheduledFor: string }) =>
+      autopilotAPI.reschedulePost(postId, scheduledFor),
+    onSuccess: () => {
+      setReschedulingPost(null);
+      onPublishedPostChanged('Post unpublished and rescheduled');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to reschedule post');
+    },
+  });
+
+  const handleDeletePublished = (postId: string) => {
+    if (window.confirm('Delete this post from Facebook? Its likes and comments are lost and this cannot be undone.')) {
+      deletePublishedMutation.mutate(postId);
+    }
+  };
+
+  const handleReschedule = (postId: string) => {
+    if (
+      window.confirm(
+        'Unpublish this post and publish it again at the new time? Its likes and comments on Facebook are lost.'
+      )
+    ) {
+      rescheduleMutation.mutate({ postId, scheduledFor: new Date(rescheduleAt).toISOString() });
+    }
+  };
+
   const handleToggleAutopilot = async (enabled: boolean) => {
     await updateSettingsMutation.mutateAsync({
       ...settings,
@@ -104,23 +174,28 @@ const Autopilot: React.FC = () => {
 
       <div className="card">
         <label className="block text-sm font-medium text-gray-700 mb-2">
-          Select Facebook Account
+          Select Facebook Page
         </label>
         <select
-          value={selectedAccount}
-          onChange={(e) => setSelectedAccount(e.target.value)}
+          value={selectedPage}
+          onChange={(e) => setSelectedPage(e.target.value)}
           className="input"
         >
-          <option value="">Choose an account...</option>
-          {accounts?.map((account: any) => (
-            <option key={account.id} value={account.id}>
-              {account.name} - {account.pageName || 'No page connected'}
+          <option value="">Choose a page...</option>
+          {pages?.map((page: any) => (
+            <option key={page.id} value={page.id}>
+              {page.name} - {page.facebookAccount?.name}
             </option>
           ))}
         </select>
+        {pages?.length === 0 && (
+          <p className="text-sm text-gray-500 mt-2">
+            Choose pages for your connected accounts on the Accounts page first.
+          </p>
+        )}
       </div>
 
-      {selectedAccount && settings && (
+      {selectedPage && settings && (
         <>
           <div className="card">
             <div className="flex items-center justify-between mb-4">
@@ -336,6 +411,7 @@ const Autopilot: React.FC = () => {
                   <tr className="border-b">
                     <th className="text-left py-3 px-4">Scheduled For</th>
                     <th className="text-left py-3 px-4">Content Preview</th>
+                    <th className="text-left py-3 px-4">Platform</th>
                     <th className="text-left py-3 px-4">Type</th>
                     <th className="text-left py-3 px-4">Status</th>
                   </tr>
@@ -349,6 +425,7 @@ const Autopilot: React.FC = () => {
                       <td className="py-3 px-4">
                         {post.content.substring(0, 50)}...
                       </td>
+                      <td className="py-3 px-4 capitalize">{post.platform}</td>
                       <td className="py-3 px-4">
                         <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs">
                           {post.contentType}
@@ -365,6 +442,104 @@ const Autopilot: React.FC = () => {
               </table>
             </div>
           </div>
+
+          <div className="card">
+            <div className="flex items-center gap-2 mb-4">
+              <FaCheckCircle className="text-blue-500" size={24} />
+              <h2 className="text-xl font-bold">Published Posts</h2>
+            </div>
+
+            {publishedPosts?.length === 0 && <p className="text-sm text-gray-500">No published posts yet.</p>}
+
+            <div className="divide-y">
+              {publishedPosts?.map((post: any) => (
+                <div key={post.id} className="py-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-500">
+                        {new Date(post.publishedAt).toLocaleString()} · <span className="capitalize">{post.platform}</span> ·{' '}
+                        {post.contentType}
+                        {post.editedAt && ' · edited'}
+                      </p>
+                      {editingPost === post.id ? (
+                        <textarea
+                          value={editText}
+                          onChange={(e) => setEditText(e.target.value)}
+                          className="input mt-2"
+                          rows={3}
+                        />
+                      ) : (
+                        <p className="mt-1 break-words">{post.content}</p>
+                      )}
+                    </div>
+                    {post.platform === 'facebook' && (
+                      <div className="flex gap-2 shrink-0">
+                        {editingPost === post.id ? (
+                          <>
+                            <button
+                              onClick={() => editPublishedMutation.mutate({ postId: post.id, content: editText })}
+                              disabled={!editText.trim() || editPublishedMutation.isPending}
+                              className="btn-primary"
+                            >
+                              Save
+                            </button>
+                            <button onClick={() => setEditingPost(null)} className="btn-secondary">
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            {post.contentType !== 'story' && (
+                              <button
+                                onClick={() => {
+                                  setEditingPost(post.id);
+                                  setEditText(post.content);
+                                }}
+                                className="btn-secondary"
+                              >
+                                Edit
+                              </button>
+                            )}
+                            <button onClick={() => setReschedulingPost(post.id)} className="btn-secondary">
+                              Reschedule
+                            </button>
+                            <button
+                              onClick={() => handleDeletePublished(post.id)}
+                              disabled={deletePublishedMutation.isPending}
+                              className="btn-secondary text-red-600"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {reschedulingPost === post.id && (
+                    <div className="mt-3 flex gap-2 items-center">
+                      <input
+                        type="datetime-local"
+                        value={rescheduleAt}
+                        onChange={(e) => setRescheduleAt(e.target.value)}
+                        className="input"
+                      />
+                      <button
+                        onClick={() => handleReschedule(post.id)}
+                        disabled={!rescheduleAt || rescheduleMutation.isPending}
+                        className="btn-primary"
+                      >
+                        Unpublish &amp; Reschedule
+                      </button>
+                      <button onClick={() => setReschedulingPost(null)} className="btn-secondary">
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
         </>
       )}
     </div>
@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { commentsAPI, facebookAPI } from '../services/api';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { FaComments, FaSync, FaEyeSlash, FaEye, FaTrash, FaReply, FaShieldAlt } from 'react-icons/fa';
+
+const STATUS_FILTERS = [
+  { value: '', label: 'All' },
+  { value: 'unreplied', label: 'Unreplied' },
+  { value: 'negative', label: 'Negative' },
+  { value: 'hidden', label: 'Hidden' },
+];
+
+const SENTIMENT_STYLES: Record<string, string> = {
+  positive: 'bg-green-100 text-green-800',
+  neutral: 'bg-gray-100 text-gray-700',
+  negative: 'bg-red-100 text-red-800',
+};
+
+const Comments: React.FC = () => {
+  const [selectedPage, setSelectedPage] = useState('');
+  const [status, setStatus] = useState('');
+  const [keyword, setKeyword] = useState('');
+  const [search, setSearch] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [rules, setRules] = useState({ autoHideEnabled: false, hideKeywords: '', hideLinks: false, hideSpam: true });
+  const queryClient = useQueryClient();
+
+  const { data: pages } = useQuery({
+    queryKey: ['facebook-pages'],
+    queryFn: async () => {
+      const res = await facebookAPI.getAllPages();
+      return res.data.data;
+    },
+  });
+
+  const { data: comments, isLoading } = useQuery({
+    queryKey: ['comments', selectedPage, status, search],
+    queryFn: async () => {
+      const res = await commentsAPI.getComments({
+        pageId: selectedPage || undefined,
+        status: status || undefined,
+        keyword: search || undefined,
+        limit: 100,
+      });
+      return res.data;
+    },
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['moderation-settings', selectedPage],
+    queryFn: async () => {
+      const res = await commentsAPI.getSettings(selectedPage);
+      return res.data.data;
+    },
+    enabled: !!selectedPage,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setRules({
+        autoHideEnabled: settings.autoHideEnabled,
+        hideKeywords: (settings.hideKeywords || []).join('\n'),
+        hideLinks: settings.hideLinks,
+        hideSpam: settings.hideSpam,
+      });
+    }
+  }, [settings]);
+
+  const replyMutation = useMutation({
+    mutationFn: ({ commentId, message }: { commentId: string; message: string }) =>
+      commentsAPI.reply(commentId, message),
+    onSuccess: () => {
+      setReplyingTo(null);
+      setReplyText('');
+      queryClient.invalidateQueries({ queryKey: ['comments'] });
+      toast.success('Reply posted');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to reply');
+    },
+  });
+
+  const hideMutation = useMutation({
+    mutationFn: ({ commentId, hidden }: { commentId: string; hidden: boolean }) =>
+      commentsAPI.hide(commentId, hidden),
+    onSuccess: (_response, { hidden }) => {
+      queryClient.invalidateQueries({ queryKey: ['comments'] });
+      toast.success(hidden ? 'Comment hidden' : 'Comment unhidden');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update comment');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (commentId: string) => commentsAPI.delete(commentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comments'] });
+      toast.success('Comment deleted');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete comment');
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => commentsAPI.syncPage(selectedPage),
+    onSuccess: (response) => {
+      const result = response.data.data;
+      queryClient.invalidateQueries({ queryKey: ['comments'] });
+      toast.success(`Comments synced: ${result.created} new, ${result.updated} updated`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to sync comments');
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: () =>
+      commentsAPI.updateSettings(selectedPage, {
+        autoHideEnabled: rules.autoHideEnabled,
+        hideKeywords: rules.hideKeywords.split('\n').map((keyword) => keyword.trim()).filter(Boolean),
+        hideLinks: rules.hideLinks,
+        hideSpam: rules.hideSpam,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-settings', selectedPage] });
+      toast.success('Moderation rules saved');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to save moderation rules');
+    },
+  });
+
+  const handleDelete = (commentId: string) => {
+    if (window.confirm('Delete this comment? This cannot be undone.')) {
+      deleteMutation.mutate(commentId);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Comments</h1>
+        <p className="text-gray-600 mt-1">Answer and moderate comments across your pages and Instagram accounts</p>
+      </div>
+
+      <div className="card">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select value={selectedPage} onChange={(e) => setSelectedPage(e.target.value)} className="input">
+            <option value="">All pages</option>
+            {pages?.map((page: any) => (
+              <option key={page.id} value={page.id}>
+                {page.name} - {page.facebookAccount?.name}
+              </option>
+            ))}
+          </select>
+          <select value={status} onChange={(e) => setStatus(e.target.value)} className="input">
+            {STATUS_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSearch(keyword.trim());
+            }}
+          >
+            <input
+              type="text"
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              placeholder="Search comments..."
+              className="input"
+            />
+          </form>
+        </div>
+        {selectedPage && (
+          <button
+            onClick={() => syncMutation.mutate()}
+            disabled={syncMutation.isPending}
+            className="btn-secondary mt-4 flex items-center gap-2"
+          >
+            <FaSync className={syncMutation.isPending ? 'animate-spin' : ''} />
+            Sync Comments
+          </button>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="flex items-center gap-3 mb-4">
+          <FaComments className="text-primary-600" size={20} />
+          <h2 className="text-xl font-bold">Inbox</h2>
+          {comments && <span className="text-sm text-gray-500">{comments.total} comments</span>}
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-500">Loading comments...</p>
+        ) : comments?.data?.length === 0 ? (
+          <p className="text-gray-500">No comments match these filters.</p>
+        ) : (
+          <div className="divide-y">
+            {comments?.data?.map((comment: any) => (
+              <div key={comment.id} className="py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap text-sm">
+                      <span className="font-semibold">{comment.authorName || 'Unknown'}</span>
+                      <span className="text-gray-500">
+                        {comment.platform === 'instagram'
+                          ? `@${comment.facebookPage?.instagramUsername}`
+                          : comment.facebookPage?.name}
+                      </span>
+                      <span className="px-2 py-0.5 rounded text-xs bg-blue-100 text-blue-800">{comment.platform}</span>
+                      <span className={`px-2 py-0.5 rounded text-xs ${SENTIMENT_STYLES[comment.sentiment]}`}>
+                        {comment.sentiment}
+                      </span>
+                      {comment.isHidden && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800">
+                          hidden{comment.hiddenByRule ? ` (${comment.hiddenByRule})` : ''}
+                        </span>
+                      )}
+                      {comment.repliedAt && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">replied</span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-gray-800 break-words">{comment.message}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {format(new Date(comment.commentedAt), 'MMM d, yyyy HH:mm')}
+                      {comment.content?.description && ` · on "${comment.content.description.slice(0, 60)}"`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 text-gray-500">
+                    <button onClick={() => setReplyingTo(comment.id)} title="Reply" className="hover:text-primary-600">
+                      <FaReply />
+                    </button>
+                    <button
+                      onClick={() => hideMutation.mutate({ commentId: comment.id, hidden: !comment.isHidden })}
+                      title={comment.isHidden ? 'Unhide' : 'Hide'}
+                      className="hover:text-primary-600"
+                    >
+                      {comment.isHidden ? <FaEye /> : <FaEyeSlash />}
+                    </button>
+                    <button onClick={() => handleDelete(comment.id)} title="Delete" className="hover:text-red-600">
+                      <FaTrash />
+                    </button>
+                  </div>
+                </div>
+
+                {replyingTo === comment.id && (
+                  <form
+                    className="mt-3 flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      replyMutation.mutate({ commentId: comment.id, message: replyText });
+                    }}
+                  >
+                    <input
+                      type="text"
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      placeholder="Write a reply..."
+                      className="input"
+                      autoFocus
+                    />
+                    <button type="submit" disabled={!replyText.trim() || replyMutation.isPending} className="btn-primary">
+                      Reply
+                    </button>
+                    <button type="button" onClick={() => setReplyingTo(null)} className="btn-secondary">
+                      Cancel
+                    </button>
+                  </form>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedPage && settings && (
+        <div className="card">
+          <div className="flex items-center gap-3 mb-4">
+            <FaShieldAlt className="text-primary-600" size={20} />
+            <h2 className="text-xl font-bold">Auto-Hide Rules</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            New comments matching a rule are hidden as soon as they arrive. Hidden comments stay visible to their author.
+          </p>
+
+          <div className="space-y-3">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rules.autoHideEnabled}
+                onChange={(e) => setRules({ ...rules, autoHideEnabled: e.target.checked })}
+              />
+              <span>Hide matching comments automatically</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rules.hideLinks}
+                onChange={(e) => setRules({ ...rules, hideLinks: e.target.checked })}
+              />
+              <span>Hide comments with links</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rules.hideSpam}
+                onChange={(e) => setRules({ ...rules, hideSpam: e.target.checked })}
+              />
+              <span>Hide common spam</span>
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Hide comments containing (one per line)</label>
+              <textarea
+                value={rules.hideKeywords}
+                onChange={(e) => setRules({ ...rules, hideKeywords: e.target.value })}
+                rows={4}
+                className="input"
+              />
+            </div>
+            <button
+              onClick={() => settingsMutation.mutate()}
+              disabled={settingsMutation.isPending}
+              className="btn-primary"
+            >
+              Save Rules
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Comments;
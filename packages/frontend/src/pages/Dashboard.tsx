@@ -1,8 +1,8 @@
 import React from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { earningsAPI, facebookAPI } from '../services/api';
+import { earningsAPI, facebookAPI, analyticsAPI } from '../services/api';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { FaDollarSign, FaChartLine, FaUsers, FaFacebook } from 'react-icons/fa';
+import { FaDollarSign, FaChartLine, FaUsers, FaFacebook, FaEye } from 'react-icons/fa';
 
 const Dashboard: React.FC = () => {
   const { data: summary } = useQuery({
@@ -29,6 +29,14 @@ const Dashboard: React.FC = () => {
     },
   });
 
+  const { data: analytics } = useQuery({
+    queryKey: ['analytics-summary'],
+    queryFn: async () => {
+      const res = await analyticsAPI.getSummary({ period: 'month' });
+      return res.data.data;
+    },
+  });
+
   const stats = [
     {
       title: 'Total Earnings (30d)',
@@ -49,13 +57,19 @@ const Dashboard: React.FC = () => {
       color: 'bg-purple-500',
     },
     {
-      title: 'Growth Rate',
-      value: '+12.5%',
+      title: 'Engagement Rate',
+      value: `${analytics?.totals?.engagementRate?.toFixed(2) || '0.00'}%`,
       icon: FaUsers,
       color: 'bg-orange-500',
     },
   ];
 
+  const performanceData = analytics?.series?.map((day: any) => ({
+    date: new Date(day.date).toLocaleDateString(),
+    views: day.views,
+    reach: day.reach,
+  })) || [];
+
   const chartData = earnings?.slice(0, 7).reverse().map((e: any) => ({
     date: new Date(e.earningDate).toLocaleDateString(),
     amount: parseFloat(e.amount),
@@ -114,6 +128,31 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Content Performance</h2>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <FaEye />
+            {(analytics?.totals?.views || 0).toLocaleString()} views · {(analytics?.totals?.reach || 0).toLocaleString()} reached
+          </div>
+        </div>
+        {performanceData.length > 0 ? (
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={performanceData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis />
+              <Tooltip />
+              <Legend />
+              <Line type="monotone" dataKey="views" stroke="#8b5cf6" strokeWidth={2} />
+              <Line type="monotone" dataKey="reach" stroke="#f59e0b" strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="text-gray-500">Insights appear here after the first daily collection of synced content.</p>
+        )}
+      </div>
+
       <div className="card">
         <h2 className="text-xl font-bold mb-4">Recent Earnings</h2>
         <div className="overflow-x-auto">
@@ -111,7 +111,7 @@ const Earnings: React.FC = () => {
                     <div>
                       <div className="font-medium">{earning.facebookAccount?.name}</div>
                       <div className="text-xs text-gray-500">
-                        {earning.facebookAccount?.pageName}
+                        {earning.facebookPage?.name}
                       </div>
                     </div>
                   </td>
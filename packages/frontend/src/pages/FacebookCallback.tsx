@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { useAuthStore } from '../store/authStore';
+import { authAPI } from '../services/api';
+import { toast } from 'react-toastify';
+import { FACEBOOK_LOGIN_STATE_KEY, getFacebookLoginRedirectUri } from '../components/FacebookLoginButton';
+
+const FacebookCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState('');
+  const [link, setLink] = useState<{ linkToken: string; email: string; twoFactorRequired: boolean } | null>(null);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const requested = useRef(false);
+  const navigate = useNavigate();
+  const setAuth = useAuthStore((state) => state.setAuth);
+
+  const signIn = (data: any) => {
+    setAuth(data.user, data.token, data.refreshToken);
+    toast.success('Logged in successfully!');
+    navigate('/dashboard');
+  };
+
+  useEffect(() => {
+    // Authorization codes are single-use, so guard against the double effect run in StrictMode.
+    if (requested.current) return;
+    requested.current = true;
+
+    const expectedState = sessionStorage.getItem(FACEBOOK_LOGIN_STATE_KEY);
+    sessionStorage.removeItem(FACEBOOK_LOGIN_STATE_KEY);
+
+    if (searchParams.get('error')) {
+      setError(searchParams.get('error_description') || 'Facebook sign-in was cancelled');
+      return;
+    }
+
+    if (!expectedState || searchParams.get('state') !== expectedState) {
+      setError('Facebook sign-in could not be verified. Please try again.');
+      return;
+    }
+
+    authAPI
+      .facebookLogin({ code: searchParams.get('code'), redirectUri: getFacebookLoginRedirectUri() })
+      .then((response) => {
+        const data = response.data.data;
+        if (data.linkRequired) {
+          setLink({ linkToken: data.linkToken, email: data.email, twoFactorRequired: data.twoFactorRequired });
+        } else if (data.mfaRequired) {
+          navigate('/login', { state: { mfaToken: data.mfaToken } });
+        } else {
+          signIn(data);
+        }
+      })
+      .catch((err: any) => {
+        setError(err.response?.data?.error || 'Facebook sign-in failed');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const response = await authAPI.linkFacebook({
+        linkToken: link!.linkToken,
+        password,
+        code: code || undefined,
+      });
+      signIn(response.data.data);
+    } catch (err: any) {
+      setLink(null);
+      setError(err.response?.data?.error || 'Failed to link Facebook');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-500 to-primary-700 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
+        <h1 className="text-3xl font-bold text-gray-800 mb-4 text-center">Sign in with Facebook</h1>
+
+        {link ? (
+          <form onSubmit={handleLink} className="space-y-4">
+            <p className="text-gray-600">
+              An account for <span className="font-medium">{link.email}</span> already exists. Enter its password to
+              link your Facebook login.
+            </p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="input"
+              placeholder="Password"
+              autoFocus
+              required
+            />
+            {link.twoFactorRequired && (
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="input text-center tracking-widest"
+                placeholder="123456"
+                autoComplete="one-time-code"
+                required
+              />
+            )}
+            <button type="submit" disabled={loading} className="w-full btn-primary">
+              {loading ? 'Linking...' : 'Link and Sign In'}
+            </button>
+          </form>
+        ) : error ? (
+          <p className="text-red-600 text-center">{error}</p>
+        ) : (
+          <p className="text-gray-600 text-center">Signing you in...</p>
+        )}
+
+        {!link && error && (
+          <div className="mt-6 text-center">
+            <Link to="/login" className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+              Back to sign in
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FacebookCallback;
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { facebookAPI } from '../services/api';
+import { toast } from 'react-toastify';
+
+const FacebookConnectCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState('');
+  const requested = useRef(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    // Authorization codes are single-use, so guard against the double effect run in StrictMode.
+    if (requested.current) return;
+    requested.current = true;
+
+    if (searchParams.get('error')) {
+      setError(searchParams.get('error_description') || 'Facebook connection was cancelled');
+      return;
+    }
+
+    facebookAPI
+      .connectAccount({
+        code: searchParams.get('code'),
+        redirectUri: `${window.location.origin}/facebook/callback`,
+      })
+      .then((response) => {
+        queryClient.invalidateQueries({ queryKey: ['facebook-accounts'] });
+        toast.success('Facebook account connected! Choose the pages to manage.');
+        navigate(`/accounts?select=${response.data.data.id}`, { replace: true });
+      })
+      .catch((err: any) => {
+        setError(err.response?.data?.error || 'Failed to connect Facebook account');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="card text-center py-12">
+      {error ? (
+        <>
+          <p className="text-red-600 mb-4">{error}</p>
+          <Link to="/accounts" className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+            Back to accounts
+          </Link>
+        </>
+      ) : (
+        <p className="text-gray-600">Connecting your Facebook account...</p>
+      )}
+    </div>
+  );
+};
+
+export default FacebookConnectCallback;
@@ -1,13 +1,20 @@
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
 import { authAPI } from '../services/api';
 import { toast } from 'react-toastify';
+import FacebookLoginButton from '../components/FacebookLoginButton';
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
+  const location = useLocation();
+  const [mfaToken, setMfaToken] = useState<string | null>(
+    (location.state as { mfaToken?: string } | null)?.mfaToken || null
+  );
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const navigate = useNavigate();
   const setAuth = useAuthStore((state) => state.setAuth);
 
@@ -17,7 +24,11 @@ const Login: React.FC = () => {
 
     try {
       const response = await authAPI.login({ email, password });
-      setAuth(response.data.data.user, response.data.data.token);
+      if (response.data.data.mfaRequired) {
+        setMfaToken(response.data.data.mfaToken);
+        return;
+      }
+      setAuth(response.data.data.user, response.data.data.token, response.data.data.refreshToken);
       toast.success('Logged in successfully!');
       navigate('/dashboard');
     } catch (error: any) {
@@ -27,6 +38,78 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const response = await authAPI.verifyTwoFactor(
+        useRecoveryCode ? { mfaToken, recoveryCode: code } : { mfaToken, code }
+      );
+      setAuth(response.data.data.user, response.data.data.token, response.data.data.refreshToken);
+      toast.success('Logged in successfully!');
+      navigate('/dashboard');
+    } catch (error: any) {
+      if (error.response?.data?.error === 'Token has expired') {
+        setMfaToken(null);
+        setCode('');
+      }
+      toast.error(error.response?.data?.error || 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (mfaToken) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary-500 to-primary-700 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-800">Two-Factor Authentication</h1>
+            <p className="text-gray-600 mt-2">
+              {useRecoveryCode
+                ? 'Enter one of your recovery codes'
+                : 'Enter the 6-digit code from your authenticator app'}
+            </p>
+          </div>
+
+          <form onSubmit={handleVerify} className="space-y-4">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="input text-center tracking-widest"
+              placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+              autoComplete="one-time-code"
+              autoFocus
+              required
+            />
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full btn-primary"
+            >
+              {loading ? 'Verifying...' : 'Verify'}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <button
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode('');
+              }}
+              className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+            >
+              {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-500 to-primary-700 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
@@ -64,6 +147,12 @@ const Login: React.FC = () => {
             />
           </div>
 
+          <div className="text-right">
+            <Link to="/forgot-password" className="text-sm text-primary-600 hover:text-primary-700">
+              Forgot password?
+            </Link>
+          </div>
+
           <button
             type="submit"
             disabled={loading}
@@ -73,6 +162,14 @@ const Login: React.FC = () => {
           </button>
         </form>
 
+        <div className="my-6 flex items-center gap-3">
+          <div className="flex-1 border-t" />
+          <span className="text-sm text-gray-500">or</span>
+          <div className="flex-1 border-t" />
+        </div>
+
+        <FacebookLoginButton />
+
         <div className="mt-6 text-center">
           <p className="text-sm text-gray-600">
             Don't have an account?{' '}
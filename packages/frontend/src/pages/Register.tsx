@@ -3,6 +3,7 @@ import { useNavigate, Link } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
 import { authAPI } from '../services/api';
 import { toast } from 'react-toastify';
+import FacebookLoginButton from '../components/FacebookLoginButton';
 
 const Register: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -21,7 +22,7 @@ const Register: React.FC = () => {
 
     try {
       const response = await authAPI.register(formData);
-      setAuth(response.data.data.user, response.data.data.token);
+      setAuth(response.data.data.user, response.data.data.token, response.data.data.refreshToken);
       toast.success('Account created successfully!');
       navigate('/dashboard');
     } catch (error: any) {
@@ -110,6 +111,14 @@ const Register: React.FC = () => {
           </button>
         </form>
 
+        <div className="my-6 flex items-center gap-3">
+          <div className="flex-1 border-t" />
+          <span className="text-sm text-gray-500">or</span>
+          <div className="flex-1 border-t" />
+        </div>
+
+        <FacebookLoginButton label="Sign up with Facebook" />
+
         <div className="mt-6 text-center">
           <p className="text-sm text-gray-600">
             Already have an account?{' '}
@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { authAPI } from '../services/api';
+import { useAuthStore } from '../store/authStore';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { FaShieldAlt, FaDesktop } from 'react-icons/fa';
+import ApiKeysCard from '../components/ApiKeysCard';
+import PrivacyCard from '../components/PrivacyCard';
+
+const Settings: React.FC = () => {
+  const [setupData, setSetupData] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const logout = useAuthStore((state) => state.logout);
+
+  const { data: profile } = useQuery({
+    queryKey: ['profile'],
+    queryFn: async () => {
+      const res = await authAPI.getProfile();
+      return res.data.data;
+    },
+  });
+
+  const { data: sessions } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const res = await authAPI.getSessions();
+      return res.data.data;
+    },
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: (sessionId: string) => authAPI.revokeSession(sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast.success('Session revoked');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to revoke session');
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: () => authAPI.logoutAll(),
+    onSuccess: () => {
+      logout();
+      navigate('/login');
+      toast.success('Logged out of all devices');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to log out everywhere');
+    },
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: () => authAPI.setupTwoFactor(),
+    onSuccess: (response) => {
+      setSetupData(response.data.data);
+      setRecoveryCodes([]);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to start two-factor setup');
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (verificationCode: string) => authAPI.enableTwoFactor(verificationCode),
+    onSuccess: (response) => {
+      setRecoveryCodes(response.data.data.recoveryCodes);
+      setSetupData(null);
+      setCode('');
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast.success('Two-factor authentication enabled!');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to enable two-factor authentication');
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: (currentPassword: string) => authAPI.disableTwoFactor(currentPassword),
+    onSuccess: () => {
+      setPassword('');
+      setRecoveryCodes([]);
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast.success('Two-factor authentication disabled');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to disable two-factor authentication');
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (verificationCode: string) => authAPI.regenerateRecoveryCodes(verificationCode),
+    onSuccess: (response) => {
+      setRecoveryCodes(response.data.data.recoveryCodes);
+      setCode('');
+      toast.success('New recovery codes generated');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to regenerate recovery codes');
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Settings</h1>
+        <p className="text-gray-600 mt-1">Manage your account security</p>
+      </div>
+
+      <div className="card">
+        <div className="flex items-center gap-3 mb-4">
+          <FaShieldAlt className="text-primary-600" size={20} />
+          <h2 className="text-xl font-bold">Two-Factor Authentication</h2>
+          {profile?.twoFactorEnabled ? (
+            <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">Enabled</span>
+          ) : (
+            <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs">Disabled</span>
+          )}
+        </div>
+
+        {!profile?.twoFactorEnabled && !setupData && (
+          <div>
+            <p className="text-gray-600 mb-4">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+            <button
+              onClick={() => setupMutation.mutate()}
+              disabled={setupMutation.isPending}
+              className="btn-primary"
+            >
+              {setupMutation.isPending ? 'Preparing...' : 'Set Up Two-Factor Authentication'}
+            </button>
+          </div>
+        )}
+
+        {setupData && (
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              Add this account to your authenticator app using the setup link or the secret key, then enter the
+              6-digit code it shows.
+            </p>
+            <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+              <div>
+                <p className="text-xs text-gray-500">Secret key</p>
+                <code className="text-sm break-all">{setupData.secret}</code>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Setup link</p>
+                <a href={setupData.otpauthUri} className="text-sm text-primary-600 break-all">
+                  {setupData.otpauthUri}
+                </a>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="input"
+                placeholder="123456"
+                autoComplete="one-time-code"
+              />
+              <button
+                onClick={() => enableMutation.mutate(code)}
+                disabled={enableMutation.isPending || !code}
+                className="btn-primary whitespace-nowrap"
+              >
+                Verify & Enable
+              </button>
+            </div>
+          </div>
+        )}
+
+        {profile?.twoFactorEnabled && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="font-semibold mb-2">Recovery Codes</h3>
+              <p className="text-sm text-gray-600 mb-2">
+                Enter a current authenticator code to generate a new set. Old codes stop working.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="input"
+                  placeholder="123456"
+                />
+                <button
+                  onClick={() => regenerateMutation.mutate(code)}
+                  disabled={regenerateMutation.isPending || !code}
+                  className="btn-secondary whitespace-nowrap"
+                >
+                  Regenerate
+                </button>
+              </div>
+            </div>
+            <div>
+              <h3 className="font-semibold mb-2">Disable</h3>
+              <p className="text-sm text-gray-600 mb-2">Confirm your password to turn off two-factor authentication.</p>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input"
+                  placeholder="••••••••"
+                />
+                <button
+                  onClick={() => disableMutation.mutate(password)}
+                  disabled={disableMutation.isPending || !password}
+                  className="btn-secondary whitespace-nowrap"
+                >
+                  Disable
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {recoveryCodes.length > 0 && (
+          <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="font-semibold text-yellow-800 mb-2">Save your recovery codes</p>
+            <p className="text-sm text-yellow-700 mb-3">
+              Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {recoveryCodes.map((recoveryCode) => (
+                <code key={recoveryCode} className="text-sm">{recoveryCode}</code>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <FaDesktop className="text-primary-600" size={20} />
+            <h2 className="text-xl font-bold">Active Sessions</h2>
+          </div>
+          <button
+            onClick={() => logoutAllMutation.mutate()}
+            disabled={logoutAllMutation.isPending}
+            className="btn-secondary"
+          >
+            Log Out Everywhere
+          </button>
+        </div>
+
+        <div className="divide-y">
+          {sessions?.map((session: any) => (
+            <div key={session.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-sm">
+                  {session.userAgent || 'Unknown device'}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {session.ip || 'Unknown IP'} · Last active{' '}
+                  {format(new Date(session.lastUsedAt), 'MMM dd, yyyy HH:mm')}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => revokeSessionMutation.mutate(session.id)}
+                  disabled={revokeSessionMutation.isPending}
+                  className="text-sm text-red-600 hover:text-red-700"
+                >
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <ApiKeysCard />
+
+      <PrivacyCard deletionScheduledFor={profile?.deletionScheduledFor} />
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { workspacesAPI, auditLogsAPI } from '../services/api';
+import { useAuthStore } from '../store/authStore';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { FaUsers, FaPlus, FaTrash, FaHistory, FaDownload } from 'react-icons/fa';
+
+const ROLES = ['owner', 'editor', 'publisher', 'analyst', 'viewer'];
+
+const ROLE_DESCRIPTIONS: Record<string, string> = {
+  owner: 'Full access, including members',
+  editor: 'Manage accounts, autopilot, posts and comments; read earnings',
+  publisher: 'Schedule and cancel posts; moderate comments',
+  analyst: 'Read and record earnings',
+  viewer: 'Read-only access to accounts and schedules',
+};
+
+const Team: React.FC = () => {
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState('');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState('viewer');
+  const queryClient = useQueryClient();
+  const currentUser = useAuthStore((state) => state.user);
+
+  const { data: workspaces } = useQuery({
+    queryKey: ['workspaces'],
+    queryFn: async () => {
+      const res = await workspacesAPI.getWorkspaces();
+      return res.data.data;
+    },
+  });
+
+  const workspace = workspaces?.find((w: any) => w.id === selectedWorkspaceId) || workspaces?.[0];
+  const canManage = workspace?.permissions?.includes('members:manage');
+  const canReadAudit = workspace?.permissions?.includes('audit:read');
+
+  const { data: members } = useQuery({
+    queryKey: ['workspace-members', workspace?.id],
+    queryFn: async () => {
+      const res = await workspacesAPI.getMembers(workspace.id);
+      return res.data.data;
+    },
+    enabled: !!workspace,
+  });
+
+  const { data: auditLogs } = useQuery({
+    queryKey: ['audit-logs', workspace?.id],
+    queryFn: async () => {
+      const res = await auditLogsAPI.getAuditLogs({ workspaceId: workspace.id, limit: 20 });
+      return res.data.data;
+    },
+    enabled: !!canReadAudit,
+  });
+
+  const handleExport = async () => {
+    try {
+      const res = await auditLogsAPI.exportCsv({ workspaceId: workspace.id });
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${workspace.id}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error('Failed to export audit log');
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => workspacesAPI.create(name),
+    onSuccess: (response) => {
+      setNewWorkspaceName('');
+      setSelectedWorkspaceId(response.data.data.id);
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+      toast.success('Workspace created');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create workspace');
+    },
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: () => workspacesAPI.addMember(workspace.id, { email: inviteEmail, role: inviteRole }),
+    onSuccess: () => {
+      setInviteEmail('');
+      queryClient.invalidateQueries({ queryKey: ['workspace-members', workspace?.id] });
+      toast.success('Member added');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to add member');
+    },
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: ({ memberId, role }: { memberId: string; role: string }) =>
+      workspacesAPI.updateMember(workspace.id, memberId, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspace-members', workspace?.id] });
+      toast.success('Role updated');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update role');
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (memberId: string) => workspacesAPI.removeMember(workspace.id, memberId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspace-members', workspace?.id] });
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+      toast.success('Member removed');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to remove member');
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Team</h1>
+        <p className="text-gray-600 mt-1">Share Facebook accounts with your team using workspace roles</p>
+      </div>
+
+      <div className="card">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <FaUsers className="text-primary-600" size={20} />
+            <select
+              value={workspace?.id || ''}
+              onChange={(e) => setSelectedWorkspaceId(e.target.value)}
+              className="input"
+            >
+              {workspaces?.map((w: any) => (
+                <option key={w.id} value={w.id}>
+                  {w.name} ({w.role})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              className="input"
+              placeholder="New workspace name"
+            />
+            <button
+              onClick={() => createMutation.mutate(newWorkspaceName)}
+              disabled={!newWorkspaceName || createMutation.isPending}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <FaPlus /> Create
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {workspace && (
+        <div className="card">
+          <h2 className="text-xl font-bold mb-4">Members</h2>
+
+          {canManage && (
+            <div className="flex gap-2 mb-6">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="input flex-1"
+                placeholder="colleague@example.com"
+              />
+              <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value)} className="input">
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => addMemberMutation.mutate()}
+                disabled={!inviteEmail || addMemberMutation.isPending}
+                className="btn-primary"
+              >
+                Add Member
+              </button>
+            </div>
+          )}
+
+          <div className="divide-y">
+            {members?.map((member: any) => (
+              <div key={member.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium">
+                    {member.user?.firstName} {member.user?.lastName}
+                  </p>
+                  <p className="text-sm text-gray-500">{member.user?.email}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {canManage ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => updateMemberMutation.mutate({ memberId: member.id, role: e.target.value })}
+                      className="input"
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs">{member.role}</span>
+                  )}
+                  {(canManage || member.userId === currentUser?.id) && (
+                    <button
+                      onClick={() => removeMemberMutation.mutate(member.id)}
+                      className="text-red-600 hover:text-red-800"
+                      title={member.userId === currentUser?.id ? 'Leave workspace' : 'Remove member'}
+                    >
+                      <FaTrash />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-600">
+            {ROLES.map((role) => (
+              <p key={role}>
+                <span className="font-medium capitalize">{role}:</span> {ROLE_DESCRIPTIONS[role]}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {canReadAudit && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <FaHistory className="text-primary-600" size={20} />
+              <h2 className="text-xl font-bold">Audit Log</h2>
+            </div>
+            <button onClick={handleExport} className="btn-secondary flex items-center gap-2">
+              <FaDownload /> Export CSV
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 px-3">When</th>
+                  <th className="text-left py-2 px-3">Who</th>
+                  <th className="text-left py-2 px-3">Action</th>
+                  <th className="text-left py-2 px-3">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {auditLogs?.map((log: any) => (
+                  <tr key={log.id} className="border-b align-top">
+                    <td className="py-2 px-3 whitespace-nowrap">{format(new Date(log.createdAt), 'MMM dd, yyyy HH:mm')}</td>
+                    <td className="py-2 px-3">
+                      {log.actor?.email || 'System'}
+                      {log.apiKeyId && <span className="text-gray-500"> (API key)</span>}
+                    </td>
+                    <td className="py-2 px-3">
+                      <code>{log.action}</code>
+                    </td>
+                    <td className="py-2 px-3 text-gray-600">
+                      {log.before && <div>Before: <code>{JSON.stringify(log.before)}</code></div>}
+                      {log.after && <div>After: <code>{JSON.stringify(log.after)}</code></div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Team;
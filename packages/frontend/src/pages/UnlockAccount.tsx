@@ -0,0 +1,43 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { authAPI } from '../services/api';
+
+const UnlockAccount: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<'unlocking' | 'unlocked' | 'failed'>('unlocking');
+  const [error, setError] = useState('');
+  const requested = useRef(false);
+  const token = searchParams.get('token') || '';
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+
+    authAPI
+      .unlockAccount(token)
+      .then(() => setStatus('unlocked'))
+      .catch((err: any) => {
+        setError(err.response?.data?.error || 'Unlock failed');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-500 to-primary-700 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md text-center">
+        <h1 className="text-3xl font-bold text-gray-800 mb-4">Unlock Account</h1>
+        {status === 'unlocking' && <p className="text-gray-600">Unlocking your account...</p>}
+        {status === 'unlocked' && <p className="text-green-600">Your account has been unlocked. You can sign in again.</p>}
+        {status === 'failed' && <p className="text-red-600">{error}</p>}
+
+        <div className="mt-6">
+          <Link to="/login" className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+            Go to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockAccount;
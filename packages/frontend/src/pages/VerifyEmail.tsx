@@ -0,0 +1,44 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { authAPI } from '../services/api';
+
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+  const requested = useRef(false);
+  const token = searchParams.get('token') || '';
+
+  useEffect(() => {
+    // Tokens are single-use, so guard against the double effect run in StrictMode.
+    if (requested.current) return;
+    requested.current = true;
+
+    authAPI
+      .verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err: any) => {
+        setError(err.response?.data?.error || 'Verification failed');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-500 to-primary-700 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md text-center">
+        <h1 className="text-3xl font-bold text-gray-800 mb-4">Email Verification</h1>
+        {status === 'verifying' && <p className="text-gray-600">Verifying your email...</p>}
+        {status === 'verified' && <p className="text-green-600">Your email address has been verified.</p>}
+        {status === 'failed' && <p className="text-red-600">{error}</p>}
+
+        <div className="mt-6">
+          <Link to="/dashboard" className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+            Continue to dashboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
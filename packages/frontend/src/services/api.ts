@@ -1,4 +1,5 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
+import { useAuthStore } from '../store/authStore';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
@@ -17,13 +18,46 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    throw new Error('No refresh token');
+  }
+
+  const response = await axios.post(`${API_URL}/api/auth/refresh`, { refreshToken });
+  const { token, refreshToken: nextRefreshToken } = response.data.data;
+  useAuthStore.getState().setTokens(token, nextRefreshToken);
+  return token;
+};
+
+const isAuthEndpoint = (url?: string) =>
+  !!url && ['/auth/login', '/auth/facebook', '/auth/facebook/link', '/auth/register', '/auth/refresh', '/auth/2fa/verify', '/auth/reset-password', '/auth/verify-email', '/auth/unlock'].some((path) => url.endsWith(path));
+
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      window.location.href = '/login';
+  async (error) => {
+    const originalRequest = error.config as AxiosRequestConfig & { _retry?: boolean };
+
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint(originalRequest.url)) {
+      originalRequest._retry = true;
+
+      try {
+        // Concurrent 401s share one refresh call; rotating twice would revoke the session.
+        refreshPromise = refreshPromise || refreshAccessToken().finally(() => {
+          refreshPromise = null;
+        });
+        const token = await refreshPromise;
+        originalRequest.headers = { ...originalRequest.headers, Authorization: `Bearer ${token}` };
+        return api(originalRequest);
+      } catch (refreshError) {
+        useAuthStore.getState().logout();
+        window.location.href = '/login';
+        return Promise.reject(refreshError);
+      }
     }
+
     return Promise.reject(error);
   }
 );
@@ -31,16 +65,72 @@ api.interceptors.response.use(
 export const authAPI = {
   register: (data: any) => api.post('/auth/register', data),
   login: (data: any) => api.post('/auth/login', data),
+  facebookLogin: (data: { code: string | null; redirectUri: string }) => api.post('/auth/facebook', data),
+  linkFacebook: (data: { linkToken: string; password: string; code?: string }) =>
+    api.post('/auth/facebook/link', data),
   getProfile: () => api.get('/auth/profile'),
   updatePassword: (data: any) => api.put('/auth/password', data),
+  verifyTwoFactor: (data: any) => api.post('/auth/2fa/verify', data),
+  setupTwoFactor: () => api.post('/auth/2fa/setup'),
+  enableTwoFactor: (code: string) => api.post('/auth/2fa/enable', { code }),
+  disableTwoFactor: (password: string) => api.post('/auth/2fa/disable', { password }),
+  regenerateRecoveryCodes: (code: string) => api.post('/auth/2fa/recovery-codes', { code }),
+  logout: () => api.post('/auth/logout'),
+  logoutAll: () => api.post('/auth/logout-all'),
+  getSessions: () => api.get('/auth/sessions'),
+  revokeSession: (sessionId: string) => api.delete(`/auth/sessions/${sessionId}`),
+  forgotPassword: (email: string) => api.post('/auth/forgot-password', { email }),
+  resetPassword: (data: any) => api.post('/auth/reset-password', data),
+  verifyEmail: (token: string) => api.post('/auth/verify-email', { token }),
+  resendVerificationEmail: () => api.post('/auth/verify-email/resend'),
+  unlockAccount: (token: string) => api.post('/auth/unlock', { token }),
 };
 
 export const facebookAPI = {
   connectAccount: (data: any) => api.post('/facebook/connect', data),
-  getAccounts: () => api.get('/facebook/accounts'),
+  getAccounts: (params?: any) => api.get('/facebook/accounts', { params }),
   syncAccount: (accountId: string) => api.post(`/facebook/${accountId}/sync`),
-  getMonetizationStatus: (accountId: string) => api.get(`/facebook/${accountId}/monetization`),
-  updatePageInfo: (accountId: string, data: any) => api.put(`/facebook/${accountId}/page`, data),
+  getApiBudget: (accountId: string) => api.get(`/facebook/${accountId}/budget`),
+  getPages: (accountId: string) => api.get(`/facebook/${accountId}/pages`),
+  selectPages: (accountId: string, pageIds: string[]) => api.put(`/facebook/${accountId}/pages`, { pageIds }),
+  getAllPages: (params?: any) => api.get('/facebook/pages', { params }),
+  syncPage: (pageId: string) => api.post(`/facebook/pages/${pageId}/sync`),
+  getMonetizationStatus: (pageId: string) => api.get(`/facebook/pages/${pageId}/monetization`),
+  getMonetizationHistory: (pageId: string, params?: any) =>
+    api.get(`/facebook/pages/${pageId}/monetization/history`, { params }),
+};
+
+export const workspacesAPI = {
+  getWorkspaces: () => api.get('/workspaces'),
+  create: (name: string) => api.post('/workspaces', { name }),
+  getMembers: (workspaceId: string) => api.get(`/workspaces/${workspaceId}/members`),
+  addMember: (workspaceId: string, data: { email: string; role: string }) =>
+    api.post(`/workspaces/${workspaceId}/members`, data),
+  updateMember: (workspaceId: string, memberId: string, role: string) =>
+    api.put(`/workspaces/${workspaceId}/members/${memberId}`, { role }),
+  removeMember: (workspaceId: string, memberId: string) =>
+    api.delete(`/workspaces/${workspaceId}/members/${memberId}`),
+};
+
+export const auditLogsAPI = {
+  getAuditLogs: (params?: any) => api.get('/audit-logs', { params }),
+  exportCsv: (params?: any) => api.get('/audit-logs/export', { params, responseType: 'blob' }),
+};
+
+export const apiKeysAPI = {
+  getApiKeys: () => api.get('/api-keys'),
+  create: (data: { name: string; scopes: string[]; workspaceId?: string; expiresAt?: string }) =>
+    api.post('/api-keys', data),
+  revoke: (keyId: string) => api.delete(`/api-keys/${keyId}`),
+};
+
+export const privacyAPI = {
+  getExports: () => api.get('/privacy/exports'),
+  requestExport: () => api.post('/privacy/exports'),
+  downloadExport: (exportId: string) =>
+    api.get(`/privacy/exports/${exportId}/download`, { responseType: 'blob' }),
+  requestDeletion: (data: { password?: string; confirm?: string }) => api.post('/privacy/deletion', data),
+  cancelDeletion: () => api.delete('/privacy/deletion'),
 };
 
 export const earningsAPI = {
@@ -50,19 +140,52 @@ export const earningsAPI = {
   create: (data: any) => api.post('/earnings', data),
 };
 
+export const analyticsAPI = {
+  getSummary: (params?: any) => api.get('/analytics/summary', { params }),
+  getByContent: (contentId: string) => api.get(`/analytics/content/${contentId}`),
+};
+
 export const autopilotAPI = {
-  getSettings: (accountId: string) => api.get(`/autopilot/settings/${accountId}`),
-  updateSettings: (accountId: string, data: any) => api.put(`/autopilot/settings/${accountId}`, data),
+  getSettings: (pageId: string) => api.get(`/autopilot/settings/${pageId}`),
+  updateSettings: (pageId: string, data: any) => api.put(`/autopilot/settings/${pageId}`, data),
   researchTrends: (category?: string) => api.post('/autopilot/trends/research', { category }),
   getTrends: (params?: any) => api.get('/autopilot/trends', { params }),
   generateContent: (data: any) => api.post('/autopilot/content/generate', data),
   predictPerformance: (data: any) => api.post('/autopilot/content/predict', data),
   generateHashtags: (data: any) => api.post('/autopilot/hashtags/generate', data),
-  scheduleAutoPosts: (accountId: string) => api.post(`/autopilot/schedule/${accountId}`),
+  scheduleAutoPosts: (pageId: string) => api.post(`/autopilot/schedule/${pageId}`),
   getScheduledPosts: (params?: any) => api.get('/autopilot/scheduled', { params }),
   createScheduledPost: (data: any) => api.post('/autopilot/scheduled', data),
   cancelScheduledPost: (postId: string) => api.delete(`/autopilot/scheduled/${postId}`),
-  getOptimalTimes: (accountId: string) => api.get(`/autopilot/optimal-times/${accountId}`),
+  editPublishedPost: (postId: string, data: { content?: string; hashtags?: string[] }) =>
+    api.put(`/autopilot/scheduled/${postId}/published`, data),
+  deletePublishedPost: (postId: string) =>
+    api.delete(`/autopilot/scheduled/${postId}/published`, { data: { confirm: true } }),
+  reschedulePost: (postId: string, scheduledFor: string) =>
+    api.post(`/autopilot/scheduled/${postId}/reschedule`, { scheduledFor, confirm: true }),
+  getOptimalTimes: (pageId: string) => api.get(`/autopilot/optimal-times/${pageId}`),
+};
+
+export const commentsAPI = {
+  getComments: (params?: any) => api.get('/comments', { params }),
+  reply: (commentId: string, message: string) => api.post(`/comments/${commentId}/reply`, { message }),
+  hide: (commentId: string, hidden: boolean) => api.post(`/comments/${commentId}/hide`, { hidden }),
+  delete: (commentId: string) => api.delete(`/comments/${commentId}`),
+  syncPage: (pageId: string) => api.post(`/comments/pages/${pageId}/sync`),
+  getSettings: (pageId: string) => api.get(`/comments/pages/${pageId}/settings`),
+  updateSettings: (pageId: string, data: any) => api.put(`/comments/pages/${pageId}/settings`, data),
 };
 
 export default api;
+
+export const adminAPI = {
+  getUsers: (params?: any) => api.get('/admin/users', { params }),
+  updateUserStatus: (userId: string, isActive: boolean) => api.put(`/admin/users/${userId}/status`, { isActive }),
+  updateUserRole: (userId: string, role: string) => api.put(`/admin/users/${userId}/role`, { role }),
+  getUserAccounts: (userId: string) => api.get(`/admin/users/${userId}/facebook-accounts`),
+  getUserFailedPosts: (userId: string) => api.get(`/admin/users/${userId}/failed-posts`),
+  revokeUserSessions: (userId: string) => api.post(`/admin/users/${userId}/revoke-sessions`),
+  unlockUser: (userId: string) => api.post(`/admin/users/${userId}/unlock`),
+  getSecurityEvents: (params?: any) => api.get('/admin/security-events', { params }),
+  getStats: (params?: any) => api.get('/admin/stats', { params }),
+};